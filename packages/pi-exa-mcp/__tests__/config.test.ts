@@ -0,0 +1,166 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { ExtensionAPI } from "@earendil-works/pi-coding-agent";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { validateConfigFile } from "../extensions/config.js";
+import exaMcp from "../extensions/index.js";
+
+let configPath: string;
+let flags: Record<string, string>;
+
+const createMockPi = () => ({
+	registerFlag: vi.fn(),
+	getFlag: vi.fn((name: string) => (name === "exa-mcp-config" ? configPath : flags[name])),
+	registerTool: vi.fn(),
+	registerCommand: vi.fn(),
+	on: vi.fn(),
+});
+
+const startSession = async (mockPi: ReturnType<typeof createMockPi>, reason: string, ctx: object) => {
+	const handler = mockPi.on.mock.calls.find(([eventName]) => eventName === "session_start")?.[1];
+	await handler?.({ reason }, ctx);
+};
+
+const getCommand = (mockPi: ReturnType<typeof createMockPi>, name: string) =>
+	mockPi.registerCommand.mock.calls.find(([commandName]) => commandName === name)?.[1];
+
+// Answers initialize with a server name and version, and the DELETE that ends the session.
+const stubExaServer = () => {
+	const fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+		if (init.method === "DELETE") {
+			return new Response(null, { status: 204 });
+		}
+		const request = JSON.parse(String(init.body)) as { id?: string; method: string };
+		if (request.id === undefined) {
+			return new Response(null, { status: 202 });
+		}
+		const result =
+			request.method === "initialize"
+				? { protocolVersion: "2025-06-18", serverInfo: { name: "exa-mcp", version: "3.1.0" } }
+				: { content: [{ type: "text", text: "ok" }] };
+		return Response.json({ jsonrpc: "2.0", id: request.id, result }, { headers: { "mcp-session-id": "s-1" } });
+	});
+	vi.stubGlobal("fetch", fetchMock);
+	return fetchMock;
+};
+
+describe("pi-exa-mcp config", () => {
+	let configDir: string;
+
+	beforeEach(() => {
+		configDir = mkdtempSync(join(tmpdir(), "pi-exa-mcp-config-test-"));
+		configPath = join(configDir, "exa-mcp.json");
+		flags = {};
+	});
+
+	afterEach(() => {
+		rmSync(configDir, { recursive: true, force: true });
+		vi.unstubAllGlobals();
+		vi.unstubAllEnvs();
+	});
+
+	it("reports each invalid value with its path", () => {
+		expect(validateConfigFile({ url: "https://mcp.exa.ai/mcp", timeoutMs: "5000", discoverTools: "false" })).toEqual(
+			[],
+		);
+		expect(
+			validateConfigFile({
+				url: "mcp.exa.ai",
+				tools: [1],
+				timeoutMs: -5,
+				apiKey: null,
+				servers: { docs: { url: "https://docs.internal/mcp", headers: { team: 1 } } },
+				cache: { ttlSeconds: { web_search_exa: "soon" } },
+			}),
+		).toEqual([
+			"tools: expected an array of tool names or a comma-separated string",
+			"timeoutMs: expected a positive number",
+			"servers.docs.headers.team: must be string",
+			"cache: expected a boolean or an object with enabled and ttlSeconds",
+			"url: must be an absolute URL",
+		]);
+	});
+
+	it("falls back to defaults and reports an invalid file at session start", async () => {
+		writeFileSync(configPath, '{ "url": "https://mcp.test/mcp", }', "utf-8");
+		const fetchMock = stubExaServer();
+		const mockPi = createMockPi();
+		exaMcp(mockPi as unknown as ExtensionAPI);
+		const notify = vi.fn();
+		await startSession(mockPi, "startup", { hasUI: true, ui: { notify } });
+
+		expect(notify).toHaveBeenCalledWith(
+			expect.stringMatching(new RegExp(`^Invalid Exa MCP config at ${configPath}: .*Using defaults`)),
+			"error",
+		);
+		const tool = mockPi.registerTool.mock.calls[0][0];
+		await expect(tool.execute("call-1", { query: "pi" }, undefined, undefined, {})).resolves.toMatchObject({
+			content: [{ type: "text", text: "ok" }],
+		});
+		expect(fetchMock.mock.calls[0][0]).toMatch(/^https:\/\/mcp\.exa\.ai\/mcp/);
+	});
+
+	it("reads the file once per session", async () => {
+		writeFileSync(configPath, JSON.stringify({ timeoutMs: 1000 }), "utf-8");
+		stubExaServer();
+		const mockPi = createMockPi();
+		exaMcp(mockPi as unknown as ExtensionAPI);
+		const ctx = { hasUI: true, ui: { notify: vi.fn() } };
+		await startSession(mockPi, "startup", ctx);
+		const status = getCommand(mockPi, "exa-mcp");
+
+		writeFileSync(configPath, JSON.stringify({ timeoutMs: 2000 }), "utf-8");
+		await status.handler("", ctx);
+		expect(ctx.ui.notify).toHaveBeenLastCalledWith(expect.stringContaining("timeoutMs: 1000 (custom)"), "info");
+
+		await startSession(mockPi, "new", ctx);
+		await status.handler("", ctx);
+		expect(ctx.ui.notify).toHaveBeenLastCalledWith(expect.stringContaining("timeoutMs: 2000 (custom)"), "info");
+	});
+
+	it("shows each setting's source, the redacted endpoint, tools, and an initialize test with /exa-mcp", async () => {
+		writeFileSync(configPath, JSON.stringify({ tools: ["web_search_exa"], maxLines: 500 }), "utf-8");
+		vi.stubEnv("EXA_API_KEY", "secret-key");
+		flags["exa-mcp-timeout-ms"] = "9000";
+		flags["exa-mcp-discover-tools"] = "false";
+		const fetchMock = stubExaServer();
+		const mockPi = createMockPi();
+		exaMcp(mockPi as unknown as ExtensionAPI);
+		const notify = vi.fn();
+		await startSession(mockPi, "startup", { hasUI: true, ui: { notify } });
+
+		await getCommand(mockPi, "exa-mcp").handler("", { hasUI: true, ui: { notify } });
+
+		const [text, level] = notify.mock.calls[0];
+		expect(level).toBe("info");
+		expect(text).not.toContain("secret-key");
+		expect(text.split("\n")).toEqual([
+			`Config: ${configPath} (custom)`,
+			"Endpoint: https://mcp.exa.ai/mcp?tools=web_search_exa&exaApiKey=REDACTED",
+			"  url: https://mcp.exa.ai/mcp (default)",
+			"  tools: web_search_exa (custom)",
+			"  apiKey: set (env EXA_API_KEY)",
+			"  timeoutMs: 9000 (flag --exa-mcp-timeout-ms)",
+			"  protocolVersion: 2025-06-18 (default)",
+			"  maxBytes: 51200 (default)",
+			"  maxLines: 500 (custom)",
+			"  discoverTools: false (flag --exa-mcp-discover-tools)",
+			"  cache: true (default)",
+			"Tools (1): web_search_exa",
+			expect.stringMatching(/^Connection: ok: exa-mcp 3\.1\.0 answered initialize in \d+ms, protocol 2025-06-18$/),
+		]);
+		// The check ends its own session.
+		expect(fetchMock.mock.calls.map(([, init]) => init.method)).toEqual(["POST", "POST", "DELETE"]);
+
+		vi.stubGlobal(
+			"fetch",
+			vi.fn(async () => new Response("unavailable", { status: 503 })),
+		);
+		await getCommand(mockPi, "exa-mcp").handler("", { hasUI: true, ui: { notify } });
+		expect(notify).toHaveBeenLastCalledWith(
+			expect.stringContaining("Connection: failed: MCP HTTP 503: unavailable"),
+			"warning",
+		);
+	});
+});
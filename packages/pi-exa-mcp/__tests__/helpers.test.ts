@@ -1,8 +1,10 @@
 import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
+import type { ExtensionContext } from "@earendil-works/pi-coding-agent";
 import { describe, expect, it, vi } from "vitest";
 import {
+	convertInputSchema,
 	DEFAULT_CONFIG_FILE,
 	ensureDefaultConfigFile,
 	normalizeTools,
@@ -11,7 +13,10 @@ import {
 	resolveEffectiveLimits,
 	resolveEndpoint,
 	splitParams,
+	toExaToolDefinition,
 } from "../extensions/index.js";
+import type { McpHttpClient } from "../extensions/mcp-client.js";
+import { createMcpTool, formatMcpNotification, toMcpToolDefinition } from "../extensions/mcp-tools.js";
 
 describe("pi-exa-mcp helpers", () => {
 	it("normalizes tools from strings and arrays", () => {
@@ -92,4 +97,76 @@ describe("pi-exa-mcp helpers", () => {
 			warnSpy.mockRestore();
 		}
 	});
+
+	it("converts an MCP inputSchema and adds the truncation overrides", () => {
+		const schema = convertInputSchema({
+			type: "object",
+			properties: {
+				query: { type: "string", description: "What to research." },
+				model: { type: "string", enum: ["exa-research", "exa-research-pro"] },
+				domains: { type: "array", items: { type: "string" }, maxItems: 5 },
+				options: { type: "object", properties: { depth: { type: "integer", minimum: 1 } }, required: ["depth"] },
+				filter: { anyOf: [{ type: "string" }, { type: "null" }] },
+			},
+			required: ["query"],
+		}) as unknown as { properties: Record<string, Record<string, unknown>>; required: string[] };
+
+		expect(schema.required).toEqual(["query"]);
+		expect(schema.properties.query).toMatchObject({ type: "string", description: "What to research." });
+		expect(schema.properties.model).toMatchObject({ type: "string", enum: ["exa-research", "exa-research-pro"] });
+		expect(schema.properties.domains).toMatchObject({ type: "array", items: { type: "string" }, maxItems: 5 });
+		expect(schema.properties.options).toMatchObject({ required: ["depth"], properties: { depth: { minimum: 1 } } });
+		expect(schema.properties.filter).toMatchObject({ anyOf: [{ type: "string" }, { type: "null" }] });
+		expect(Object.keys(schema.properties)).toContain("piMaxBytes");
+	});
+
+	it("prefers the hand-tuned definition over the listed schema", () => {
+		const override = toExaToolDefinition({ name: "web_search_exa", inputSchema: { type: "object" } });
+		expect(override.label).toBe("Exa Web Search");
+
+		const discovered = toExaToolDefinition({ name: "company_research_exa", description: "Research a company." });
+		expect(discovered.label).toBe("Exa company_research_exa");
+		expect(discovered.description).toMatch(/^Research a company\. Client-side truncation/);
+	});
+
+	it("formats progress and log notifications as status text", () => {
+		expect(
+			formatMcpNotification({
+				method: "notifications/progress",
+				params: { progressToken: "t", progress: 2, total: 5, message: "Reading sources" },
+			}),
+		).toBe("Reading sources (2/5)");
+		expect(formatMcpNotification({ method: "notifications/progress", params: { progress: 40 } })).toBe("Progress (40)");
+		expect(
+			formatMcpNotification({ method: "notifications/message", params: { level: "warning", data: { retry: 1 } } }),
+		).toBe('[warning] {\n  "retry": 1\n}');
+		expect(formatMcpNotification({ method: "notifications/tools/list_changed" })).toBeUndefined();
+	});
+
+	it("shows notifications as live updates while a tool runs", async () => {
+		const client = {
+			currentEndpoint: () => "https://mcp.test/mcp",
+			callTool: vi.fn(async (_name, _args, _signal, onNotification) => {
+				onNotification({ method: "notifications/progress", params: { progress: 1, total: 2, message: "Searching" } });
+				onNotification({ method: "notifications/resources/updated", params: {} });
+				return { content: [{ type: "text", text: "done" }] };
+			}),
+		};
+		const source = {
+			client: client as unknown as McpHttpClient,
+			label: "Exa MCP",
+			getMaxLimits: () => ({ maxBytes: 1000, maxLines: 100 }),
+			redactEndpoint: (endpoint: string) => endpoint,
+			getCacheTtlMs: () => 0,
+		};
+		const tool = createMcpTool(source, toMcpToolDefinition({ name: "deep_search" }, "deep_search", "Exa"));
+		const onUpdate = vi.fn();
+
+		await tool.execute("call-1", {}, undefined, onUpdate, {} as unknown as ExtensionContext);
+
+		expect(onUpdate.mock.calls.map(([update]) => update.content[0].text)).toEqual([
+			"Querying Exa MCP...",
+			"Querying Exa MCP... Searching (1/2)",
+		]);
+	});
 });
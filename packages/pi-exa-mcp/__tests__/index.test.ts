@@ -5,7 +5,7 @@ import type { ExtensionAPI } from "@earendil-works/pi-coding-agent";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import exaMcp from "../extensions/index.js";
 
-// Point the config flag at a temp path so registration-time loadConfig never
+// Point the config flag at a temp path so session-start loadConfig never
 // touches (or writes into) the real ~/.pi directory.
 let configPath: string;
 
@@ -14,8 +14,54 @@ const createMockPi = () =>
 		registerFlag: vi.fn(),
 		getFlag: vi.fn((name: string) => (name === "exa-mcp-config" ? configPath : undefined)),
 		registerTool: vi.fn(),
+		registerCommand: vi.fn(),
+		on: vi.fn(),
 	}) satisfies Partial<ExtensionAPI>;
 
+const SERVER_TOOLS = [
+	{ name: "web_search_exa", description: "Server-side web search.", inputSchema: { type: "object" } },
+	{
+		name: "crawling_exa",
+		title: "Exa Crawling",
+		description: "Fetch the contents of a URL.",
+		inputSchema: {
+			type: "object",
+			properties: { url: { type: "string", description: "URL to crawl." }, maxCharacters: { type: "integer" } },
+			required: ["url"],
+		},
+	},
+	{ name: "deep_researcher_start", description: "Start a deep research task." },
+];
+
+// A Streamable-HTTP MCP server that lists SERVER_TOOLS, one tool per tools/list page.
+const stubMcpServer = () => {
+	const fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+		const request = JSON.parse(String(init.body)) as { id?: string; method: string; params?: { cursor?: string } };
+		if (request.id === undefined) {
+			return new Response(null, { status: 202 });
+		}
+		let result: unknown = {};
+		if (request.method === "tools/list") {
+			const index = Number(request.params?.cursor ?? 0);
+			result = {
+				tools: [SERVER_TOOLS[index]],
+				...(index + 1 < SERVER_TOOLS.length ? { nextCursor: String(index + 1) } : {}),
+			};
+		}
+		return Response.json({ jsonrpc: "2.0", id: request.id, result });
+	});
+	vi.stubGlobal("fetch", fetchMock);
+	return fetchMock;
+};
+
+const startSession = async (mockPi: ReturnType<typeof createMockPi>, ctx: object) => {
+	const handler = mockPi.on.mock.calls.find(([eventName]) => eventName === "session_start")?.[1];
+	await handler?.({ reason: "startup" }, ctx);
+};
+
+const toolNamesOf = (mockPi: ReturnType<typeof createMockPi>) =>
+	mockPi.registerTool.mock.calls.map(([tool]) => tool.name as string);
+
 describe("pi-exa-mcp", () => {
 	let configDir: string;
 
@@ -26,19 +72,118 @@ describe("pi-exa-mcp", () => {
 
 	afterEach(() => {
 		rmSync(configDir, { recursive: true, force: true });
+		vi.unstubAllGlobals();
+	});
+
+	it("registers every server tool at session start, keeping the hand-tuned schemas", async () => {
+		writeFileSync(configPath, JSON.stringify({ url: "https://mcp.test/mcp" }), "utf-8");
+		const fetchMock = stubMcpServer();
+		const mockPi = createMockPi();
+		exaMcp(mockPi as unknown as ExtensionAPI);
+		expect(toolNamesOf(mockPi)).toEqual([]);
+
+		await startSession(mockPi, { hasUI: true, ui: { notify: vi.fn() } });
+		expect(toolNamesOf(mockPi).slice(0, 2)).toEqual(["web_search_exa", "get_code_context_exa"]);
+		await vi.waitFor(() => expect(toolNamesOf(mockPi)).toContain("deep_researcher_start"));
+
+		expect(toolNamesOf(mockPi)).toEqual([
+			"web_search_exa",
+			"get_code_context_exa",
+			"crawling_exa",
+			"deep_researcher_start",
+		]);
+		const crawling = mockPi.registerTool.mock.calls[2][0];
+		expect(crawling.label).toBe("Exa Crawling");
+		expect(crawling.parameters.required).toEqual(["url"]);
+		expect(Object.keys(crawling.parameters.properties)).toEqual([
+			"url",
+			"maxCharacters",
+			"piMaxBytes",
+			"piMaxLines",
+			"piNoCache",
+		]);
+		const methods = fetchMock.mock.calls.map(([, init]) => JSON.parse(String(init.body)).method);
+		expect(methods).toEqual(["initialize", "notifications/initialized", "tools/list", "tools/list", "tools/list"]);
+	});
+
+	it("registers only allowed server tools and can be turned off", async () => {
+		writeFileSync(configPath, JSON.stringify({ tools: ["web_search_exa", "crawling_exa"] }), "utf-8");
+		stubMcpServer();
+		const mockPi = createMockPi();
+		exaMcp(mockPi as unknown as ExtensionAPI);
+		await startSession(mockPi, { hasUI: false });
+		await vi.waitFor(() => expect(toolNamesOf(mockPi)).toContain("crawling_exa"));
+		expect(toolNamesOf(mockPi)).toEqual(["web_search_exa", "crawling_exa"]);
+
+		writeFileSync(configPath, JSON.stringify({ discoverTools: false }), "utf-8");
+		const fetchMock = stubMcpServer();
+		const disabledPi = createMockPi();
+		exaMcp(disabledPi as unknown as ExtensionAPI);
+		await startSession(disabledPi, { hasUI: false });
+		expect(fetchMock).not.toHaveBeenCalled();
 	});
 
-	it("registers tools", () => {
+	it("keeps the hand-tuned tools when discovery fails", async () => {
+		vi.stubGlobal(
+			"fetch",
+			vi.fn(async () => new Response("unavailable", { status: 503 })),
+		);
 		const mockPi = createMockPi();
 		exaMcp(mockPi as unknown as ExtensionAPI);
+		const notify = vi.fn();
+		await startSession(mockPi, { hasUI: true, ui: { notify } });
+
+		await vi.waitFor(() =>
+			expect(notify).toHaveBeenCalledWith("Exa MCP tool discovery failed: MCP HTTP 503: unavailable", "warning"),
+		);
+		expect(toolNamesOf(mockPi)).toEqual(["web_search_exa", "get_code_context_exa"]);
+	});
+
+	it("registers tools", async () => {
+		vi.stubGlobal(
+			"fetch",
+			vi.fn(async () => new Response("unavailable", { status: 503 })),
+		);
+		const mockPi = createMockPi();
+		exaMcp(mockPi as unknown as ExtensionAPI);
+		await startSession(mockPi, { hasUI: false });
 
 		const toolNames = mockPi.registerTool.mock.calls.map(([tool]) => tool.name);
 		expect(toolNames).toEqual(expect.arrayContaining(["web_search_exa", "get_code_context_exa"]));
-		// Registration must not write a default config when an explicit config path is set.
+		// Loading the config must not write a default config when an explicit config path is set.
 		expect(existsSync(configPath)).toBe(false);
 	});
 
-	it("seeds the default config under PI_CODING_AGENT_DIR when no config path is set", () => {
+	it("reads the config only after pi sets the --exa-mcp-config flag", async () => {
+		const homeDir = join(configDir, "home");
+		const agentDir = join(configDir, "agent");
+		const projectDir = join(configDir, "project");
+		mkdirSync(projectDir, { recursive: true });
+		vi.stubEnv("HOME", homeDir);
+		vi.stubEnv("PI_CODING_AGENT_DIR", agentDir);
+		vi.stubEnv("EXA_MCP_CONFIG", "");
+		const cwdSpy = vi.spyOn(process, "cwd").mockReturnValue(projectDir);
+		writeFileSync(configPath, JSON.stringify({ tools: ["get_code_context_exa"], discoverTools: false }), "utf-8");
+		try {
+			// pi parses flags only after every extension has loaded.
+			let flagsParsed = false;
+			const mockPi = createMockPi();
+			mockPi.getFlag.mockImplementation((name: string) =>
+				flagsParsed && name === "exa-mcp-config" ? configPath : undefined,
+			);
+			exaMcp(mockPi as unknown as ExtensionAPI);
+			flagsParsed = true;
+			await startSession(mockPi, { hasUI: false });
+
+			expect(toolNamesOf(mockPi)).toEqual(["get_code_context_exa"]);
+			expect(existsSync(join(agentDir, "extensions", "exa-mcp.json"))).toBe(false);
+		} finally {
+			cwdSpy.mockRestore();
+			vi.unstubAllEnvs();
+		}
+	});
+
+	it("seeds the default config under PI_CODING_AGENT_DIR when no config path is set", async () => {
 		const homeDir = join(configDir, "home");
 		const agentDir = join(configDir, "agent");
 		const projectDir = join(configDir, "project");
@@ -48,10 +193,15 @@ describe("pi-exa-mcp", () => {
 		vi.stubEnv("EXA_MCP_CONFIG", "");
 		const cwdSpy = vi.spyOn(process, "cwd").mockReturnValue(projectDir);
 		const homeConfigPath = join(homeDir, ".pi", "agent", "extensions", "exa-mcp.json");
+		vi.stubGlobal(
+			"fetch",
+			vi.fn(async () => new Response("unavailable", { status: 503 })),
+		);
 		try {
 			const mockPi = createMockPi();
 			mockPi.getFlag.mockReturnValue(undefined);
 			exaMcp(mockPi as unknown as ExtensionAPI);
+			await startSession(mockPi, { hasUI: false });
 
 			const seededPath = join(agentDir, "extensions", "exa-mcp.json");
 			expect(existsSync(seededPath)).toBe(true);
@@ -63,14 +213,18 @@ describe("pi-exa-mcp", () => {
 		}
 	});
 
-	it("honors a legacy home config when PI_CODING_AGENT_DIR is set and the relocated dir has none", () => {
+	it("honors a legacy home config when PI_CODING_AGENT_DIR is set and the relocated dir has none", async () => {
 		const homeDir = join(configDir, "home");
 		const agentDir = join(configDir, "agent");
 		const projectDir = join(configDir, "project");
 		mkdirSync(projectDir, { recursive: true });
 		const legacyConfigPath = join(homeDir, ".pi", "agent", "extensions", "exa-mcp.json");
 		mkdirSync(join(homeDir, ".pi", "agent", "extensions"), { recursive: true });
-		writeFileSync(legacyConfigPath, `${JSON.stringify({ tools: ["web_search_exa"] })}\n`, "utf-8");
+		writeFileSync(
+			legacyConfigPath,
+			`${JSON.stringify({ tools: ["web_search_exa"], discoverTools: false })}\n`,
+			"utf-8",
+		);
 		vi.stubEnv("HOME", homeDir);
 		vi.stubEnv("PI_CODING_AGENT_DIR", agentDir);
 		vi.stubEnv("EXA_MCP_CONFIG", "");
@@ -79,6 +233,7 @@ describe("pi-exa-mcp", () => {
 			const mockPi = createMockPi();
 			mockPi.getFlag.mockReturnValue(undefined);
 			exaMcp(mockPi as unknown as ExtensionAPI);
+			await startSession(mockPi, { hasUI: false });
 
 			// The legacy config's tools list must apply: only web_search_exa registers.
 			const toolNames = mockPi.registerTool.mock.calls.map(([tool]) => tool.name);
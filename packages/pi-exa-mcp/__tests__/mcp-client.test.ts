@@ -0,0 +1,257 @@
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { McpHttpClient, type McpNotification } from "../extensions/mcp-client.js";
+
+interface SessionServer {
+	url: string;
+	requests: Array<{ httpMethod: string; method?: string; sessionId?: string }>;
+	/** Forget every session, as a restarted server would. */
+	restart: () => void;
+	/** Answer 404 to every request that carries a session id. */
+	expireAlways: () => void;
+	close: () => Promise<void>;
+}
+
+// A local Streamable-HTTP MCP server that assigns session ids on initialize and
+// answers 404 for ids it does not know.
+const startSessionServer = async (): Promise<SessionServer> => {
+	const requests: SessionServer["requests"] = [];
+	const sessions = new Set<string>();
+	let sessionCounter = 0;
+	let alwaysExpired = false;
+	const server: Server = createServer((req, res) => {
+		let body = "";
+		req.on("data", (chunk) => {
+			body += chunk;
+		});
+		req.on("end", () => {
+			const sessionId = req.headers["mcp-session-id"] as string | undefined;
+			const request = body ? (JSON.parse(body) as { id?: string; method: string }) : undefined;
+			requests.push({ httpMethod: req.method ?? "", method: request?.method, sessionId });
+
+			if (req.method === "DELETE") {
+				if (sessionId) sessions.delete(sessionId);
+				res.writeHead(204).end();
+				return;
+			}
+			if (request?.method === "initialize") {
+				sessionCounter += 1;
+				const newId = `s-${sessionCounter}`;
+				sessions.add(newId);
+				res.writeHead(200, { "content-type": "application/json", "mcp-session-id": newId });
+				res.end(JSON.stringify({ jsonrpc: "2.0", id: request.id, result: { protocolVersion: "2025-06-18" } }));
+				return;
+			}
+			if (!sessionId || alwaysExpired || !sessions.has(sessionId)) {
+				res.writeHead(404).end("Session not found");
+				return;
+			}
+			if (request?.id === undefined) {
+				res.writeHead(202).end();
+				return;
+			}
+			const result = { content: [{ type: "text", text: `ok from ${sessionId}` }] };
+			res.writeHead(200, { "content-type": "application/json" });
+			res.end(JSON.stringify({ jsonrpc: "2.0", id: request.id, result }));
+		});
+	});
+	await new Promise<void>((resolveListen) => server.listen(0, "127.0.0.1", resolveListen));
+	const { port } = server.address() as AddressInfo;
+	return {
+		url: `http://127.0.0.1:${port}/mcp`,
+		requests,
+		restart: () => sessions.clear(),
+		expireAlways: () => {
+			alwaysExpired = true;
+		},
+		close: () => new Promise((resolveClose) => server.close(() => resolveClose())),
+	};
+};
+
+interface StreamingServer {
+	url: string;
+	requests: Array<{ id?: string; method: string; params?: Record<string, unknown> }>;
+	close: () => Promise<void>;
+}
+
+// A local MCP server that answers tools/call over SSE: a progress and a log
+// notification first, then the result, or nothing more when `hold` is set.
+const startStreamingServer = async (options: { hold?: boolean } = {}): Promise<StreamingServer> => {
+	const requests: StreamingServer["requests"] = [];
+	const server: Server = createServer((req, res) => {
+		let body = "";
+		req.on("data", (chunk) => {
+			body += chunk;
+		});
+		req.on("end", () => {
+			const request = JSON.parse(body) as StreamingServer["requests"][number];
+			requests.push(request);
+			if (request.id === undefined) {
+				res.writeHead(202).end();
+				return;
+			}
+			if (request.method !== "tools/call") {
+				res.writeHead(200, { "content-type": "application/json" });
+				res.end(JSON.stringify({ jsonrpc: "2.0", id: request.id, result: {} }));
+				return;
+			}
+			const progressToken = (request.params?._meta as { progressToken?: string } | undefined)?.progressToken;
+			const send = (message: object) => res.write(`data: ${JSON.stringify({ jsonrpc: "2.0", ...message })}\n\n`);
+			res.writeHead(200, { "content-type": "text/event-stream" });
+			send({
+				method: "notifications/progress",
+				params: { progressToken, progress: 1, total: 3, message: "Searching" },
+			});
+			send({ method: "notifications/message", params: { level: "info", data: "Fetched 4 pages" } });
+			if (options.hold) {
+				return;
+			}
+			send({ id: request.id, result: { content: [{ type: "text", text: "done" }] } });
+			res.end();
+		});
+	});
+	await new Promise<void>((resolveListen) => server.listen(0, "127.0.0.1", resolveListen));
+	const { port } = server.address() as AddressInfo;
+	return {
+		url: `http://127.0.0.1:${port}/mcp`,
+		requests,
+		close: () =>
+			new Promise((resolveClose) => {
+				server.closeAllConnections();
+				server.close(() => resolveClose());
+			}),
+	};
+};
+
+const createClient = (url: string) =>
+	new McpHttpClient(
+		() => url,
+		() => 5000,
+		() => "2025-06-18",
+	);
+
+describe("McpHttpClient sessions", () => {
+	let stub: SessionServer | undefined;
+
+	afterEach(async () => {
+		await stub?.close();
+		stub = undefined;
+	});
+
+	it("sends the session id from initialize on every later request", async () => {
+		stub = await startSessionServer();
+		const client = createClient(stub.url);
+
+		expect((await client.callTool("lookup", {})).content).toEqual([{ type: "text", text: "ok from s-1" }]);
+		await client.callTool("lookup", {});
+
+		expect(stub.requests.map(({ method, sessionId }) => [method, sessionId])).toEqual([
+			["initialize", undefined],
+			["notifications/initialized", "s-1"],
+			["tools/call", "s-1"],
+			["tools/call", "s-1"],
+		]);
+	});
+
+	it("re-initializes and retries once when the server forgets the session", async () => {
+		stub = await startSessionServer();
+		const client = createClient(stub.url);
+		await client.callTool("lookup", {});
+
+		stub.restart();
+		expect((await client.callTool("lookup", {})).content).toEqual([{ type: "text", text: "ok from s-2" }]);
+		expect(stub.requests.slice(3).map(({ method, sessionId }) => [method, sessionId])).toEqual([
+			["tools/call", "s-1"],
+			["initialize", undefined],
+			["notifications/initialized", "s-2"],
+			["tools/call", "s-2"],
+		]);
+
+		stub.expireAlways();
+		await expect(client.callTool("lookup", {})).rejects.toThrow("MCP session s-3 expired.");
+		expect(stub.requests.filter(({ method }) => method === "initialize")).toHaveLength(3);
+	});
+
+	it("ends the session with a DELETE on close", async () => {
+		stub = await startSessionServer();
+		const client = createClient(stub.url);
+		await client.close();
+		expect(stub.requests).toEqual([]);
+
+		await client.callTool("lookup", {});
+		await client.close();
+		expect(stub.requests.at(-1)).toEqual({ httpMethod: "DELETE", method: undefined, sessionId: "s-1" });
+
+		// The next request starts a new session.
+		expect((await client.callTool("lookup", {})).content).toEqual([{ type: "text", text: "ok from s-2" }]);
+	});
+
+	it("ends the old session with a DELETE when the endpoint changes", async () => {
+		stub = await startSessionServer();
+		let url = stub.url;
+		const client = new McpHttpClient(
+			() => url,
+			() => 5000,
+			() => "2025-06-18",
+		);
+		await client.callTool("lookup", {});
+
+		url = `${stub.url}?exaApiKey=rotated`;
+		expect((await client.callTool("lookup", {})).content).toEqual([{ type: "text", text: "ok from s-2" }]);
+		expect(stub.requests.slice(3).map(({ httpMethod, method, sessionId }) => [httpMethod, method, sessionId])).toEqual([
+			["DELETE", undefined, "s-1"],
+			["POST", "initialize", undefined],
+			["POST", "notifications/initialized", "s-2"],
+			["POST", "tools/call", "s-2"],
+		]);
+	});
+});
+
+describe("McpHttpClient notifications", () => {
+	let stub: StreamingServer | undefined;
+
+	afterEach(async () => {
+		await stub?.close();
+		stub = undefined;
+	});
+
+	it("hands streamed progress and log notifications to the listener", async () => {
+		stub = await startStreamingServer();
+		const client = createClient(stub.url);
+		const notifications: McpNotification[] = [];
+
+		const result = await client.callTool("deep_search", { query: "mcp" }, undefined, (notification) =>
+			notifications.push(notification),
+		);
+
+		expect(result.content).toEqual([{ type: "text", text: "done" }]);
+		const call = stub.requests.find((request) => request.method === "tools/call");
+		expect(call?.params?._meta).toEqual({ progressToken: call?.id });
+		expect(notifications).toEqual([
+			{
+				method: "notifications/progress",
+				params: { progressToken: call?.id, progress: 1, total: 3, message: "Searching" },
+			},
+			{ method: "notifications/message", params: { level: "info", data: "Fetched 4 pages" } },
+		]);
+	});
+
+	it("sends notifications/cancelled when the caller aborts", async () => {
+		stub = await startStreamingServer({ hold: true });
+		const client = createClient(stub.url);
+		const controller = new AbortController();
+
+		const call = client.callTool("deep_search", {}, controller.signal, () => controller.abort());
+
+		await expect(call).rejects.toThrow();
+		const callId = stub.requests.find((request) => request.method === "tools/call")?.id;
+		await vi.waitFor(() =>
+			expect(stub?.requests.at(-1)).toEqual({
+				jsonrpc: "2.0",
+				method: "notifications/cancelled",
+				params: { requestId: callId, reason: "Aborted by the client." },
+			}),
+		);
+	});
+});
@@ -0,0 +1,191 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { createServer, type IncomingHttpHeaders, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { ExtensionAPI } from "@earendil-works/pi-coding-agent";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import exaMcp from "../extensions/index.js";
+import type { McpHttpClient } from "../extensions/mcp-client.js";
+import { getServerHeaders, parseServersConfig, registerServerTools, resolveSecret } from "../extensions/mcp-servers.js";
+
+const INTERNAL_TOOLS = [
+	{
+		name: "lookup",
+		description: "Look up an internal document.",
+		inputSchema: { type: "object", properties: { id: { type: "string" } }, required: ["id"] },
+	},
+	{ name: "admin_reset", description: "Reset everything." },
+];
+
+interface StubServer {
+	url: string;
+	requests: Array<{ method: string; headers: IncomingHttpHeaders; params?: Record<string, unknown> }>;
+	close: () => Promise<void>;
+}
+
+// A local Streamable-HTTP MCP server: plain JSON responses, a single tools/list page.
+const startStubServer = async (): Promise<StubServer> => {
+	const requests: StubServer["requests"] = [];
+	const server: Server = createServer((req, res) => {
+		let body = "";
+		req.on("data", (chunk) => {
+			body += chunk;
+		});
+		req.on("end", () => {
+			const request = JSON.parse(body) as { id?: string; method: string; params?: Record<string, unknown> };
+			requests.push({ method: request.method, headers: req.headers, params: request.params });
+			if (request.id === undefined) {
+				res.writeHead(202).end();
+				return;
+			}
+			let result: unknown = {};
+			if (request.method === "tools/list") {
+				result = { tools: INTERNAL_TOOLS };
+			} else if (request.method === "tools/call") {
+				result = { content: [{ type: "text", text: `doc ${JSON.stringify(request.params?.arguments)}` }] };
+			}
+			res.writeHead(200, { "content-type": "application/json" });
+			res.end(JSON.stringify({ jsonrpc: "2.0", id: request.id, result }));
+		});
+	});
+	await new Promise<void>((resolveListen) => server.listen(0, "127.0.0.1", resolveListen));
+	const { port } = server.address() as AddressInfo;
+	return {
+		url: `http://127.0.0.1:${port}/mcp`,
+		requests,
+		close: () => new Promise((resolveClose) => server.close(() => resolveClose())),
+	};
+};
+
+describe("pi-exa-mcp servers", () => {
+	let configDir: string;
+	let stub: StubServer | undefined;
+
+	beforeEach(() => {
+		configDir = mkdtempSync(join(tmpdir(), "pi-exa-mcp-servers-test-"));
+	});
+
+	afterEach(async () => {
+		await stub?.close();
+		stub = undefined;
+		rmSync(configDir, { recursive: true, force: true });
+		vi.unstubAllEnvs();
+	});
+
+	it("parses servers keyed by name and rejects invalid entries", () => {
+		expect(parseServersConfig(undefined, "exa-mcp.json")).toBeUndefined();
+		expect(
+			parseServersConfig(
+				{ "docs-1": { url: "https://docs.internal/mcp", tools: "search, fetch", timeoutMs: "5000" } },
+				"exa-mcp.json",
+			),
+		).toEqual([
+			{
+				name: "docs-1",
+				url: "https://docs.internal/mcp",
+				headers: undefined,
+				authToken: undefined,
+				tools: ["search", "fetch"],
+				timeoutMs: 5000,
+			},
+		]);
+		expect(() => parseServersConfig({ my_docs: { url: "https://docs.internal/mcp" } }, "exa-mcp.json")).toThrow(
+			'server names may only contain letters, digits, and "-"',
+		);
+		expect(() => parseServersConfig({ docs: { url: "not a url" } }, "exa-mcp.json")).toThrow(
+			"Invalid Exa MCP config at exa-mcp.json (servers.docs): url must be an absolute URL.",
+		);
+		expect(() => parseServersConfig({ docs: { url: "https://x", headers: { a: 1 } } }, "exa-mcp.json")).toThrow(
+			"expected an object of string header values",
+		);
+	});
+
+	it("resolves $NAME secrets in headers and the auth token", () => {
+		vi.stubEnv("DOCS_TOKEN", "s3cret");
+		vi.stubEnv("DOCS_TEAM", "");
+		expect(resolveSecret("literal")).toBe("literal");
+		expect(resolveSecret("$DOCS_TOKEN")).toBe("s3cret");
+		expect(resolveSecret("$DOCS_TEAM")).toBeUndefined();
+		expect(
+			getServerHeaders({
+				name: "docs",
+				url: "https://docs.internal/mcp",
+				headers: { "x-client": "pi", "x-team": "$DOCS_TEAM" },
+				authToken: "$DOCS_TOKEN",
+			}),
+		).toEqual({ "x-client": "pi", authorization: "Bearer s3cret" });
+	});
+
+	it("reports tools with unsupported names through the warn callback", async () => {
+		const client = { listTools: vi.fn(async () => [{ name: "lookup" }, { name: "bad tool" }]) };
+		const pi = { registerTool: vi.fn() };
+		const warn = vi.fn();
+		const consoleWarn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+		const added = await registerServerTools(
+			pi as unknown as ExtensionAPI,
+			{ name: "docs", url: "https://docs.internal/mcp" },
+			client as unknown as McpHttpClient,
+			{
+				getTimeoutMs: () => 1000,
+				getProtocolVersion: () => "2025-06-18",
+				getMaxLimits: () => ({ maxBytes: 50_000, maxLines: 2000 }),
+				getCacheTtlMs: () => 0,
+			},
+			new Set(),
+			warn,
+		);
+
+		expect(added).toEqual(["docs_lookup"]);
+		expect(warn).toHaveBeenCalledWith("Skipping MCP tool with an unsupported name: docs_bad tool");
+		expect(consoleWarn).not.toHaveBeenCalled();
+		consoleWarn.mockRestore();
+	});
+
+	it("registers a configured server's allowed tools under its prefix and calls them", async () => {
+		stub = await startStubServer();
+		vi.stubEnv("INTERNAL_MCP_TOKEN", "token-1");
+		const configPath = join(configDir, "exa-mcp.json");
+		writeFileSync(
+			configPath,
+			JSON.stringify({
+				discoverTools: false,
+				servers: {
+					internal: {
+						url: stub.url,
+						headers: { "x-client": "pi" },
+						authToken: "$INTERNAL_MCP_TOKEN",
+						tools: ["lookup"],
+					},
+				},
+			}),
+			"utf-8",
+		);
+		const mockPi = {
+			registerFlag: vi.fn(),
+			getFlag: vi.fn((name: string) => (name === "exa-mcp-config" ? configPath : undefined)),
+			registerTool: vi.fn(),
+			registerCommand: vi.fn(),
+			on: vi.fn(),
+		};
+		exaMcp(mockPi as unknown as ExtensionAPI);
+		const sessionStart = mockPi.on.mock.calls.find(([eventName]) => eventName === "session_start")?.[1];
+		await sessionStart({ reason: "startup" }, { hasUI: false });
+
+		await vi.waitFor(() => expect(mockPi.registerTool).toHaveBeenCalledTimes(3));
+		const tool = mockPi.registerTool.mock.calls[2][0];
+		expect(tool.name).toBe("internal_lookup");
+		expect(tool.label).toBe("internal lookup");
+		expect(tool.parameters.required).toEqual(["id"]);
+
+		const result = await tool.execute("call-1", { id: "42" }, undefined, undefined, {});
+		expect(result.content[0].text).toBe('doc {"id":"42"}');
+		const call = stub.requests.find((request) => request.method === "tools/call");
+		expect(call?.params).toMatchObject({ name: "lookup", arguments: { id: "42" } });
+		for (const request of stub.requests) {
+			expect(request.headers.authorization).toBe("Bearer token-1");
+			expect(request.headers["x-client"]).toBe("pi");
+		}
+	});
+});
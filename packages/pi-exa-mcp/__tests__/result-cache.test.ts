@@ -0,0 +1,59 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { listCacheEntries } from "@benvargas/pi-web-cache";
+import type { ExtensionContext } from "@earendil-works/pi-coding-agent";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { McpHttpClient } from "../extensions/mcp-client.js";
+import { createMcpTool, type McpToolDetails, toMcpToolDefinition } from "../extensions/mcp-tools.js";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const cacheOf = (result: { details: unknown }) => (result.details as McpToolDetails).cache;
+
+describe("web result cache", () => {
+	let agentDir: string;
+
+	beforeEach(() => {
+		agentDir = mkdtempSync(join(tmpdir(), "pi-exa-mcp-cache-test-"));
+		vi.stubEnv("PI_CODING_AGENT_DIR", agentDir);
+	});
+
+	afterEach(() => {
+		vi.unstubAllEnvs();
+		rmSync(agentDir, { recursive: true, force: true });
+	});
+
+	it("answers a repeated tool call from the cache unless piNoCache is set", async () => {
+		const client = {
+			currentEndpoint: () => "https://mcp.exa.ai/mcp",
+			callTool: vi.fn(async () => ({ content: [{ type: "text", text: "line 1\nline 2" }] })),
+		};
+		const source = {
+			client: client as unknown as McpHttpClient,
+			label: "Exa MCP",
+			getMaxLimits: () => ({ maxBytes: 1000, maxLines: 100 }),
+			redactEndpoint: (endpoint: string) => endpoint,
+			getCacheTtlMs: (toolName: string) => (toolName === "web_search_exa" ? HOUR_MS : 0),
+		};
+		const tool = createMcpTool(source, toMcpToolDefinition({ name: "web_search_exa" }, "web_search_exa", "Exa"));
+		const ctx = {} as unknown as ExtensionContext;
+
+		const fresh = await tool.execute("call-1", { query: "pi" }, undefined, undefined, ctx);
+		const cached = await tool.execute("call-2", { query: "pi", piMaxLines: 1 }, undefined, undefined, ctx);
+		expect(client.callTool).toHaveBeenCalledTimes(1);
+		expect(cacheOf(fresh)?.hit).toBe(false);
+		expect(cacheOf(cached)).toEqual({ ...cacheOf(fresh), hit: true });
+		// Cached before truncation, so the hit honors the new limit.
+		expect(cached.content[0]).toMatchObject({ text: expect.stringMatching(/^line 1\n\n\[Output truncated/) });
+
+		const bypassed = await tool.execute("call-3", { query: "pi", piNoCache: true }, undefined, undefined, ctx);
+		expect(client.callTool).toHaveBeenCalledTimes(2);
+		expect(client.callTool.mock.calls[1]).toEqual(["web_search_exa", { query: "pi" }, undefined, expect.any(Function)]);
+		expect(cacheOf(bypassed)?.hit).toBe(false);
+
+		const uncached = createMcpTool(source, toMcpToolDefinition({ name: "deep_search" }, "deep_search", "Exa"));
+		expect(cacheOf(await uncached.execute("call-4", {}, undefined, undefined, ctx))).toBeUndefined();
+		expect(listCacheEntries().map((listing) => listing.tool)).toEqual(["web_search_exa"]);
+	});
+});
@@ -0,0 +1,142 @@
+import type { ExtensionContext, Theme, ToolDefinition } from "@earendil-works/pi-coding-agent";
+import { describe, expect, it, vi } from "vitest";
+import { toExaToolDefinition } from "../extensions/index.js";
+import type { McpHttpClient } from "../extensions/mcp-client.js";
+import { createMcpTool, type McpToolDetails } from "../extensions/mcp-tools.js";
+import { CITATION_NOTE, formatSearchResults, parseSearchResults } from "../extensions/search-results.js";
+
+const LABELLED_OUTPUT = [
+	"Title: Pi coding agent",
+	"URL: https://www.example.com/pi",
+	"Published Date: 2026-03-01T12:00:00.000Z",
+	"Author: N/A",
+	"Text: A minimal terminal coding agent.",
+	"It has extensions.",
+	"",
+	"Title: Extensions guide",
+	"URL: https://docs.example.com/extensions",
+	"Highlights:",
+	"Register tools with pi.registerTool.",
+].join("\n");
+
+const plainTheme = { fg: (_color: string, text: string) => text } as unknown as Theme;
+
+const render = (tool: ToolDefinition, result: { content: unknown[]; details: unknown }, expanded: boolean) =>
+	tool
+		.renderResult?.(result as never, { expanded, isPartial: false }, plainTheme, {} as never)
+		.render(120)
+		.map((line) => line.trimEnd());
+
+describe("web_search_exa results", () => {
+	it("parses labelled text blocks into records", () => {
+		expect(parseSearchResults(`Search results:\n\n${LABELLED_OUTPUT}`)).toEqual([
+			{
+				index: 1,
+				title: "Pi coding agent",
+				url: "https://www.example.com/pi",
+				publishedDate: "2026-03-01",
+				author: undefined,
+				snippet: "A minimal terminal coding agent.\nIt has extensions.",
+			},
+			{
+				index: 2,
+				title: "Extensions guide",
+				url: "https://docs.example.com/extensions",
+				publishedDate: undefined,
+				author: undefined,
+				snippet: "Register tools with pi.registerTool.",
+			},
+		]);
+	});
+
+	it("parses a JSON results payload and skips entries without a URL", () => {
+		const payload = {
+			results: [
+				{ title: "No link" },
+				{ title: "Pi", url: "https://example.com/pi", author: "Earendil", highlights: ["one", "two"] },
+			],
+		};
+		expect(parseSearchResults(JSON.stringify(payload))).toEqual([
+			{
+				index: 1,
+				title: "Pi",
+				url: "https://example.com/pi",
+				publishedDate: undefined,
+				author: "Earendil",
+				snippet: "one\ntwo",
+			},
+		]);
+		expect(parseSearchResults("No results found.")).toEqual([]);
+	});
+
+	it("numbers results for citation and keeps the records in details", async () => {
+		const client = {
+			currentEndpoint: () => "https://mcp.exa.ai/mcp",
+			callTool: vi.fn(async () => ({ content: [{ type: "text", text: LABELLED_OUTPUT }] })),
+		};
+		const source = {
+			client: client as unknown as McpHttpClient,
+			label: "Exa MCP",
+			getMaxLimits: () => ({ maxBytes: 50_000, maxLines: 2000 }),
+			redactEndpoint: (endpoint: string) => endpoint,
+			getCacheTtlMs: () => 0,
+		};
+		const tool = createMcpTool(source, toExaToolDefinition({ name: "web_search_exa" }));
+		const result = await tool.execute("call-1", { query: "pi" }, undefined, undefined, {} as ExtensionContext);
+		const details = result.details as McpToolDetails;
+
+		expect(details.results).toEqual(parseSearchResults(LABELLED_OUTPUT));
+		expect(result.content[0]).toEqual({
+			type: "text",
+			text: formatSearchResults(parseSearchResults(LABELLED_OUTPUT)),
+		});
+		expect(formatSearchResults(details.results ?? [])).toBe(
+			[
+				"[1] Pi coding agent",
+				"URL: https://www.example.com/pi",
+				"Published: 2026-03-01",
+				"A minimal terminal coding agent.",
+				"It has extensions.",
+				"",
+				"[2] Extensions guide",
+				"URL: https://docs.example.com/extensions",
+				"Register tools with pi.registerTool.",
+				"",
+				CITATION_NOTE,
+			].join("\n"),
+		);
+
+		expect(render(tool, result, false)).toEqual([
+			"[1] Pi coding agent  example.com · 2026-03-01",
+			"[2] Extensions guide  docs.example.com",
+		]);
+		expect(render(tool, result, true)).toEqual([
+			"[1] Pi coding agent  example.com · 2026-03-01",
+			"    https://www.example.com/pi",
+			"    A minimal terminal coding agent. It has extensions.",
+			"[2] Extensions guide  docs.example.com",
+			"    https://docs.example.com/extensions",
+			"    Register tools with pi.registerTool.",
+		]);
+	});
+
+	it("passes unparsed output through unchanged", async () => {
+		const client = {
+			currentEndpoint: () => "https://mcp.exa.ai/mcp",
+			callTool: vi.fn(async () => ({ content: [{ type: "text", text: "No results found." }] })),
+		};
+		const source = {
+			client: client as unknown as McpHttpClient,
+			label: "Exa MCP",
+			getMaxLimits: () => ({ maxBytes: 50_000, maxLines: 2000 }),
+			redactEndpoint: (endpoint: string) => endpoint,
+			getCacheTtlMs: () => 0,
+		};
+		const tool = createMcpTool(source, toExaToolDefinition({ name: "web_search_exa" }));
+		const result = await tool.execute("call-1", { query: "pi" }, undefined, undefined, {} as ExtensionContext);
+
+		expect(result.content[0]).toEqual({ type: "text", text: "No results found." });
+		expect((result.details as McpToolDetails).results).toBeUndefined();
+		expect(render(tool, result, false)).toEqual(["No results found."]);
+	});
+});
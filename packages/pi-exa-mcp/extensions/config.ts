@@ -0,0 +1,138 @@
+/**
+ * Schema for exa-mcp.json and where each effective setting comes from.
+ *
+ * The file is checked against the schema before any value is read, so a wrong
+ * type or a malformed URL is reported with its path (`servers.docs.url: must be
+ * an absolute URL`) instead of failing later inside a tool call. Numbers and
+ * booleans may also be given as strings, as they are in env vars and flags;
+ * unknown keys are allowed.
+ */
+
+import { type TSchema, Type } from "typebox";
+import { Value } from "typebox/value";
+import { isRecord } from "./utils.js";
+
+/** Which file the config came from: `--exa-mcp-config`/`EXA_MCP_CONFIG`, or the search path. */
+export type ConfigFileSource = "custom" | "project" | "global" | "legacy";
+
+export type SettingSource = "flag" | "env" | ConfigFileSource | "default";
+
+export interface ResolvedSetting<T> {
+	value: T;
+	source: SettingSource;
+	/** The flag or env var name, for those sources. */
+	name?: string;
+}
+
+// `expected` describes a union in error messages; TypeBox only reports that no member matched.
+const positiveNumber = Type.Union([Type.Number({ exclusiveMinimum: 0 }), Type.String({ pattern: "^\\s*\\d+\\s*$" })], {
+	expected: "a positive number",
+});
+
+const booleanLike = Type.Union(
+	[Type.Boolean(), Type.String({ pattern: "^\\s*([Tt]rue|[Ff]alse|TRUE|FALSE|1|0)\\s*$" })],
+	{
+		expected: "a boolean",
+	},
+);
+
+const toolList = Type.Union([Type.Array(Type.String()), Type.String()], {
+	expected: "an array of tool names or a comma-separated string",
+});
+
+// URLs are checked with URL.canParse, which accepts the hosts fetch does (TypeBox's format rejects IPs and ports).
+const urlString = Type.String({ minLength: 1 });
+
+const serverSchema = Type.Object({
+	url: urlString,
+	headers: Type.Optional(Type.Record(Type.String(), Type.String())),
+	authToken: Type.Optional(Type.String()),
+	tools: Type.Optional(toolList),
+	timeoutMs: Type.Optional(positiveNumber),
+});
+
+const cacheSchema = Type.Union(
+	[
+		booleanLike,
+		Type.Object({
+			enabled: Type.Optional(booleanLike),
+			ttlSeconds: Type.Optional(
+				Type.Record(
+					Type.String(),
+					Type.Union([Type.Number({ minimum: 0 }), Type.String({ pattern: "^\\s*\\d+\\s*$" })]),
+				),
+			),
+		}),
+	],
+	{ expected: "a boolean or an object with enabled and ttlSeconds" },
+);
+
+export const ConfigFileSchema = Type.Object({
+	url: Type.Optional(urlString),
+	tools: Type.Optional(toolList),
+	apiKey: Type.Optional(Type.Union([Type.String(), Type.Null()], { expected: "a string or null" })),
+	timeoutMs: Type.Optional(positiveNumber),
+	protocolVersion: Type.Optional(Type.String({ minLength: 1 })),
+	maxBytes: Type.Optional(positiveNumber),
+	maxLines: Type.Optional(positiveNumber),
+	discoverTools: Type.Optional(booleanLike),
+	servers: Type.Optional(Type.Record(Type.String(), serverSchema)),
+	cache: Type.Optional(cacheSchema),
+});
+
+/** The sub-schema of `schema` a TypeBox `schemaPath` (`#/anyOf/0/...`) points at. */
+function schemaAt(schema: TSchema, schemaPath: string): Record<string, unknown> | undefined {
+	let node: unknown = schema;
+	for (const segment of schemaPath.split("/").slice(1)) {
+		node = isRecord(node) || Array.isArray(node) ? (node as Record<string, unknown>)[segment] : undefined;
+	}
+	return isRecord(node) ? node : undefined;
+}
+
+/** Messages for one top-level key; errors from inside a failed union are folded into the union's own message. */
+function keyErrors(key: string, schema: TSchema, value: unknown): string[] {
+	const errors = Value.Errors(schema, value);
+	const unions = errors.filter((error) => error.keyword === "anyOf").map((error) => `${error.schemaPath}/anyOf/`);
+	const messages: string[] = [];
+	for (const error of errors) {
+		if (unions.some((prefix) => error.schemaPath.startsWith(prefix))) {
+			continue;
+		}
+		const expected = error.keyword === "anyOf" ? schemaAt(schema, error.schemaPath)?.expected : undefined;
+		const message = typeof expected === "string" ? `expected ${expected}` : error.message;
+		const line = `${key}${error.instancePath.replaceAll("/", ".")}: ${message}`;
+		if (!messages.includes(line)) {
+			messages.push(line);
+		}
+	}
+	return messages;
+}
+
+/**
+ * One message per invalid value, e.g. `timeoutMs: expected a positive number`;
+ * empty when `raw` matches the schema. Each key is checked on its own because
+ * TypeBox stops collecting errors after the first few of a check.
+ */
+export function validateConfigFile(raw: unknown): string[] {
+	if (!isRecord(raw)) {
+		return ["expected an object"];
+	}
+	const messages: string[] = [];
+	for (const [key, schema] of Object.entries(ConfigFileSchema.properties)) {
+		if (raw[key] !== undefined) {
+			messages.push(...keyErrors(key, schema, raw[key]));
+		}
+	}
+	const urls: Array<[string, unknown]> = [["url", raw.url]];
+	if (isRecord(raw.servers)) {
+		for (const [name, server] of Object.entries(raw.servers)) {
+			urls.push([`servers.${name}.url`, isRecord(server) ? server.url : undefined]);
+		}
+	}
+	for (const [path, url] of urls) {
+		if (typeof url === "string" && url.length > 0 && !URL.canParse(url)) {
+			messages.push(`${path}: must be an absolute URL`);
+		}
+	}
+	return messages;
+}
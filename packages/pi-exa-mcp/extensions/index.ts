@@ -1,7 +1,8 @@
 /**
  * Exa MCP CLI Extension
  *
- * Provides Exa MCP tools via HTTP: web_search_exa and get_code_context_exa.
+ * Provides Exa MCP tools via HTTP: web_search_exa and get_code_context_exa, plus every
+ * other tool the server lists via tools/list (discovered at session start).
  * Real-time web search and code/documentation search via Exa's Model Context Protocol.
  *
  * Setup:
@@ -12,7 +13,9 @@
  *      (or set EXA_MCP_CONFIG / --exa-mcp-config for a custom path)
  *      When PI_CODING_AGENT_DIR relocates the agent dir, an existing
  *      ~/.pi/agent/extensions/exa-mcp.json is still honored as a fallback.
- *      Keys: url, tools, apiKey, timeoutMs, protocolVersion, maxBytes, maxLines
+ *      Keys: url, tools, apiKey, timeoutMs, protocolVersion, maxBytes, maxLines, discoverTools, servers, cache
+ *      The file is read once per session and validated (see config.ts); errors are shown
+ *      at session start and the defaults are used instead.
  *    - EXA_MCP_URL (default: https://mcp.exa.ai/mcp)
  *    - EXA_MCP_TOOLS (comma-separated list, appended to URL if tools param missing)
  *    - EXA_API_KEY or EXA_MCP_API_KEY (added as exaApiKey if missing)
@@ -20,32 +23,68 @@
  *    - EXA_MCP_PROTOCOL_VERSION (default: 2025-06-18)
  *    - EXA_MCP_MAX_BYTES (default: 51200)
  *    - EXA_MCP_MAX_LINES (default: 2000)
+ *    - EXA_MCP_DISCOVER_TOOLS (default: true)
+ *    - EXA_MCP_CACHE (default: true; see @benvargas/pi-web-cache)
  * 3. Or pass flags:
  *    --exa-mcp-url, --exa-mcp-tools, --exa-mcp-api-key, --exa-mcp-timeout-ms,
- *    --exa-mcp-protocol, --exa-mcp-config, --exa-mcp-max-bytes, --exa-mcp-max-lines
+ *    --exa-mcp-protocol, --exa-mcp-config, --exa-mcp-max-bytes, --exa-mcp-max-lines,
+ *    --exa-mcp-discover-tools, --exa-mcp-cache
  *
  * Usage:
  *   "Search the web for latest React features"
  *   "Find code examples for Rust error handling"
  *
  * Tools:
- *   - web_search_exa: Real-time web search for up-to-date information
+ *   - web_search_exa: Real-time web search for up-to-date information, returned as numbered
+ *     results the model cites as [n] (see search-results.ts)
  *   - get_code_context_exa: Search code and documentation for API usage/examples
+ *   - Any other server tool allowed by the tools list, with a schema converted from its
+ *     MCP inputSchema (the two tools above keep their hand-tuned schemas)
+ *   - <name>_<tool> for the tools of each MCP server listed under `servers` (see mcp-servers.ts)
+ *
+ * /exa-mcp shows the effective config with the source of each value, the registered
+ * tools, and an initialize test (see status-command.ts).
+ *
+ * Each server keeps its MCP session (Mcp-Session-Id) for the whole pi session,
+ * re-initializing when the server forgets it, and ends it on shutdown.
  */
 
 import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
-import { homedir, tmpdir } from "node:os";
+import { homedir } from "node:os";
 import { dirname, isAbsolute, join, resolve } from "node:path";
+import {
+	type CacheConfig,
+	parseCacheConfig,
+	registerWebCacheCommand,
+	resolveCacheTtlMs,
+} from "@benvargas/pi-web-cache";
 import { StringEnum } from "@earendil-works/pi-ai";
 import type { ExtensionAPI } from "@earendil-works/pi-coding-agent";
-import {
-	DEFAULT_MAX_BYTES,
-	DEFAULT_MAX_LINES,
-	formatSize,
-	getAgentDir,
-	truncateHead,
-} from "@earendil-works/pi-coding-agent";
+import { DEFAULT_MAX_BYTES, DEFAULT_MAX_LINES, getAgentDir } from "@earendil-works/pi-coding-agent";
 import { Type } from "typebox";
+import { type ConfigFileSource, type ResolvedSetting, validateConfigFile } from "./config.js";
+import { McpHttpClient, type McpToolInfo } from "./mcp-client.js";
+import {
+	createServerClient,
+	type McpServerConfig,
+	type McpServerDefaults,
+	parseServersConfig,
+	registerServerTools,
+} from "./mcp-servers.js";
+import {
+	convertInputSchema,
+	createMcpTool,
+	type McpToolDefinition,
+	resolveEffectiveLimits,
+	splitParams,
+	TOOL_NAME_PATTERN,
+	TRUNCATION_NOTE,
+	toMcpToolDefinition,
+	truncationParams,
+} from "./mcp-tools.js";
+import { parseSearchResults, renderSearchResults } from "./search-results.js";
+import { registerStatusCommand } from "./status-command.js";
+import { isRecord, normalizeBoolean, normalizeNumber, normalizeString, normalizeTools } from "./utils.js";
 
 // =============================================================================
 // Constants
@@ -62,59 +101,19 @@ const DEFAULT_CONFIG_FILE: Record<string, unknown> = {
 	protocolVersion: DEFAULT_PROTOCOL_VERSION,
 	maxBytes: DEFAULT_MAX_BYTES,
 	maxLines: DEFAULT_MAX_LINES,
+	discoverTools: true,
+};
+const WEB_CACHE_COMMAND = "exa-mcp-cache";
+// Only the read-only built-in tools are cached by default; others opt in via cache.ttlSeconds.
+const DEFAULT_CACHE_TTL_SECONDS: Readonly<Record<string, number>> = {
+	web_search_exa: 60 * 60,
+	get_code_context_exa: 24 * 60 * 60,
 };
-
-const CLIENT_INFO = {
-	name: "pi-exa-mcp-extension",
-	version: "1.0.0",
-} as const;
 
 // =============================================================================
 // Types
 // =============================================================================
 
-type JsonRpcId = string;
-
-interface JsonRpcError {
-	code: number;
-	message: string;
-	data?: unknown;
-}
-
-interface JsonRpcResponse {
-	jsonrpc: "2.0";
-	id?: JsonRpcId | number | null;
-	result?: unknown;
-	error?: JsonRpcError;
-}
-
-interface McpToolResult {
-	content?: Array<Record<string, unknown>>;
-	isError?: boolean;
-}
-
-interface McpToolDetails {
-	tool: string;
-	endpoint: string;
-	truncated: boolean;
-	truncation?: {
-		truncatedBy: "lines" | "bytes" | null;
-		totalLines: number;
-		totalBytes: number;
-		outputLines: number;
-		outputBytes: number;
-		maxLines: number;
-		maxBytes: number;
-	};
-	tempFile?: string;
-}
-
-interface McpErrorDetails {
-	tool: string;
-	endpoint: string;
-	error: string;
-}
-
 interface ExaMcpConfig {
 	url?: string;
 	tools?: string[];
@@ -123,99 +122,21 @@ interface ExaMcpConfig {
 	protocolVersion?: string;
 	maxBytes?: number;
 	maxLines?: number;
+	discoverTools?: boolean;
+	servers?: McpServerConfig[];
+	cache?: CacheConfig;
+}
+
+interface LoadedConfig {
+	path: string;
+	source: ConfigFileSource;
+	config: ExaMcpConfig;
 }
 
 // =============================================================================
 // Utility Functions
 // =============================================================================
 
-function isRecord(value: unknown): value is Record<string, unknown> {
-	return typeof value === "object" && value !== null && !Array.isArray(value);
-}
-
-function isJsonRpcResponse(value: unknown): value is JsonRpcResponse {
-	return isRecord(value) && value.jsonrpc === "2.0";
-}
-
-function toJsonString(value: unknown): string {
-	if (typeof value === "string") {
-		return value;
-	}
-	try {
-		return JSON.stringify(value, null, 2);
-	} catch {
-		return String(value);
-	}
-}
-
-function formatToolOutput(
-	toolName: string,
-	endpoint: string,
-	result: McpToolResult,
-	limits?: { maxBytes?: number; maxLines?: number },
-): { text: string; details: McpToolDetails } {
-	const contentBlocks = Array.isArray(result.content) ? result.content : [];
-	const renderedBlocks =
-		contentBlocks.length > 0
-			? contentBlocks.map((block) => {
-					if (block.type === "text" && typeof block.text === "string") {
-						return block.text;
-					}
-					return toJsonString(block);
-				})
-			: [toJsonString(result)];
-
-	const rawText = renderedBlocks.join("\n");
-	const truncation = truncateHead(rawText, {
-		maxLines: limits?.maxLines ?? DEFAULT_MAX_LINES,
-		maxBytes: limits?.maxBytes ?? DEFAULT_MAX_BYTES,
-	});
-
-	let text = truncation.content;
-	let tempFile: string | undefined;
-
-	if (truncation.truncated) {
-		tempFile = writeTempFile(toolName, rawText);
-		text +=
-			`\n\n[Output truncated: ${truncation.outputLines} of ${truncation.totalLines} lines ` +
-			`(${formatSize(truncation.outputBytes)} of ${formatSize(truncation.totalBytes)}). ` +
-			`Full output saved to: ${tempFile}]`;
-	}
-
-	if (truncation.firstLineExceedsLimit && rawText.length > 0) {
-		text =
-			`[First line exceeded ${formatSize(truncation.maxBytes)} limit. Full output saved to: ${tempFile ?? "N/A"}]\n` +
-			text;
-	}
-
-	return {
-		text,
-		details: {
-			tool: toolName,
-			endpoint,
-			truncated: truncation.truncated,
-			truncation: {
-				truncatedBy: truncation.truncatedBy,
-				totalLines: truncation.totalLines,
-				totalBytes: truncation.totalBytes,
-				outputLines: truncation.outputLines,
-				outputBytes: truncation.outputBytes,
-				maxLines: truncation.maxLines,
-				maxBytes: truncation.maxBytes,
-			},
-			tempFile,
-		},
-	};
-}
-
-function writeTempFile(toolName: string, content: string): string {
-	const safeName = toolName.replace(/[^a-z0-9_-]/gi, "_");
-	const filename = `pi-exa-mcp-${safeName}-${Date.now()}.txt`;
-	const filePath = join(tmpdir(), filename);
-	writeFileSync(filePath, content, "utf-8");
-	return filePath;
-}
-
 function parseTimeoutMs(value: string | number | undefined, fallback: number): number {
 	if (!value) {
 		return fallback;
@@ -227,71 +148,6 @@ function parseTimeoutMs(value: string | number | undefined, fallback: number): n
 	return parsed;
 }
 
-function normalizeString(value: unknown): string | undefined {
-	if (typeof value !== "string") {
-		return undefined;
-	}
-	const trimmed = value.trim();
-	return trimmed.length > 0 ? trimmed : undefined;
-}
-
-function normalizeNumber(value: unknown): number | undefined {
-	if (typeof value === "number" && Number.isFinite(value)) {
-		return value;
-	}
-	if (typeof value === "string") {
-		const parsed = Number(value);
-		if (Number.isFinite(parsed)) {
-			return parsed;
-		}
-	}
-	return undefined;
-}
-
-function splitParams(params: Record<string, unknown>): {
-	mcpArgs: Record<string, unknown>;
-	requestedLimits: { maxBytes?: number; maxLines?: number };
-} {
-	const { piMaxBytes, piMaxLines, ...rest } = params as Record<string, unknown> & {
-		piMaxBytes?: unknown;
-		piMaxLines?: unknown;
-	};
-	return {
-		mcpArgs: rest,
-		requestedLimits: {
-			maxBytes: normalizeNumber(piMaxBytes),
-			maxLines: normalizeNumber(piMaxLines),
-		},
-	};
-}
-
-function resolveEffectiveLimits(
-	requested: { maxBytes?: number; maxLines?: number },
-	maxAllowed: { maxBytes: number; maxLines: number },
-): { maxBytes: number; maxLines: number } {
-	const requestedBytes = requested.maxBytes ?? maxAllowed.maxBytes;
-	const requestedLines = requested.maxLines ?? maxAllowed.maxLines;
-	return {
-		maxBytes: Math.min(requestedBytes, maxAllowed.maxBytes),
-		maxLines: Math.min(requestedLines, maxAllowed.maxLines),
-	};
-}
-
-function normalizeTools(value: unknown): string[] | undefined {
-	if (typeof value === "string") {
-		const tools = value
-			.split(",")
-			.map((tool) => tool.trim())
-			.filter((tool) => tool.length > 0);
-		return tools.length > 0 ? tools : undefined;
-	}
-	if (Array.isArray(value)) {
-		const tools = value.map((tool) => (typeof tool === "string" ? tool.trim() : "")).filter((tool) => tool.length > 0);
-		return tools.length > 0 ? tools : undefined;
-	}
-	return undefined;
-}
-
 function parseToolsFromUrl(value: string | undefined): string[] | undefined {
 	if (!value) {
 		return undefined;
@@ -325,6 +181,10 @@ function parseConfig(raw: unknown, pathHint: string): ExaMcpConfig {
 	if (!isRecord(raw)) {
 		throw new Error(`Invalid Exa MCP config at ${pathHint}: expected an object.`);
 	}
+	const errors = validateConfigFile(raw);
+	if (errors.length > 0) {
+		throw new Error(`Invalid Exa MCP config at ${pathHint}: ${errors.join("; ")}.`);
+	}
 	return {
 		url: normalizeString(raw.url),
 		tools: normalizeTools(raw.tools),
@@ -333,16 +193,20 @@ function parseConfig(raw: unknown, pathHint: string): ExaMcpConfig {
 		protocolVersion: normalizeString(raw.protocolVersion),
 		maxBytes: normalizeNumber(raw.maxBytes),
 		maxLines: normalizeNumber(raw.maxLines),
+		discoverTools: normalizeBoolean(raw.discoverTools),
+		servers: parseServersConfig(raw.servers, pathHint),
+		cache: parseCacheConfig(raw.cache),
 	};
 }
 
-function loadConfig(configPath: string | undefined): ExaMcpConfig | null {
-	const candidates: string[] = [];
+/** The first config file found, parsed and validated; null when there is none. Throws when it is invalid. */
+function loadConfig(configPath: string | undefined): LoadedConfig | null {
+	const candidates: Array<{ path: string; source: ConfigFileSource }> = [];
 	const envConfig = process.env.EXA_MCP_CONFIG;
 	if (configPath) {
-		candidates.push(resolveConfigPath(configPath));
+		candidates.push({ path: resolveConfigPath(configPath), source: "custom" });
 	} else if (envConfig) {
-		candidates.push(resolveConfigPath(envConfig));
+		candidates.push({ path: resolveConfigPath(envConfig), source: "custom" });
 	} else {
 		const projectConfigPath = join(process.cwd(), ".pi", "extensions", "exa-mcp.json");
 		const globalConfigPath = join(getAgentDir(), "extensions", "exa-mcp.json");
@@ -351,26 +215,31 @@ function loadConfig(configPath: string | undefined): ExaMcpConfig | null {
 		const legacyConfigPath = join(homedir(), ".pi", "agent", "extensions", "exa-mcp.json");
 		const hasLegacyFallback = legacyConfigPath !== globalConfigPath;
 		ensureDefaultConfigFile(projectConfigPath, globalConfigPath, hasLegacyFallback ? legacyConfigPath : undefined);
-		candidates.push(projectConfigPath, globalConfigPath);
+		candidates.push({ path: projectConfigPath, source: "project" }, { path: globalConfigPath, source: "global" });
 		if (hasLegacyFallback) {
-			candidates.push(legacyConfigPath);
+			candidates.push({ path: legacyConfigPath, source: "legacy" });
 		}
 	}
 
 	for (const candidate of candidates) {
-		if (!existsSync(candidate)) {
+		if (!existsSync(candidate.path)) {
 			continue;
 		}
-		const raw = readFileSync(candidate, "utf-8");
-		const parsed = JSON.parse(raw);
-		return parseConfig(parsed, candidate);
+		let parsed: unknown;
+		try {
+			parsed = JSON.parse(readFileSync(candidate.path, "utf-8"));
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			throw new Error(`Invalid Exa MCP config at ${candidate.path}: ${message}`);
+		}
+		return { ...candidate, config: parseConfig(parsed, candidate.path) };
 	}
 
 	return null;
 }
 
-// loadConfig runs several times per tool invocation; once a default-config write
-// fails (e.g. read-only HOME), stop retrying so we do not repeat syscalls and warnings.
+// loadConfig runs once per session; once a default-config write fails (e.g.
+// read-only HOME), stop retrying so we do not repeat syscalls and warnings.
 const failedDefaultConfigWrites = new Set<string>();
 
 function ensureDefaultConfigFile(projectConfigPath: string, globalConfigPath: string, legacyConfigPath?: string): void {
@@ -415,282 +284,6 @@ function redactEndpoint(endpoint: string): string {
 	}
 }
 
-// =============================================================================
-// MCP Client
-// =============================================================================
-
-class ExaMcpClient {
-	private requestCounter = 0;
-	private initialized = false;
-	private initializing: Promise<void> | null = null;
-	private lastEndpoint: string | null = null;
-
-	constructor(
-		private readonly resolveEndpoint: () => string,
-		private readonly getTimeoutMs: () => number,
-		private readonly getProtocolVersion: () => string,
-	) {}
-
-	currentEndpoint(): string {
-		return this.resolveEndpoint();
-	}
-
-	async callTool(toolName: string, args: Record<string, unknown>, signal?: AbortSignal): Promise<McpToolResult> {
-		await this.ensureInitialized(signal);
-		const result = await this.sendRequest("tools/call", { name: toolName, arguments: args }, signal);
-		if (isRecord(result)) {
-			return result as McpToolResult;
-		}
-		return { content: [{ type: "text", text: toJsonString(result) }] };
-	}
-
-	private async ensureInitialized(signal?: AbortSignal): Promise<void> {
-		const endpoint = this.resolveEndpoint();
-		if (this.lastEndpoint !== endpoint) {
-			this.initialized = false;
-			this.initializing = null;
-			this.lastEndpoint = endpoint;
-		}
-
-		if (this.initialized) {
-			return;
-		}
-
-		if (!this.initializing) {
-			this.initializing = (async () => {
-				await this.initialize(endpoint, signal);
-				this.initialized = true;
-			})()
-				.catch((error) => {
-					this.initialized = false;
-					throw error;
-				})
-				.finally(() => {
-					this.initializing = null;
-				});
-		}
-
-		await this.initializing;
-	}
-
-	private async initialize(endpoint: string, signal?: AbortSignal): Promise<void> {
-		await this.sendRequest(
-			"initialize",
-			{
-				protocolVersion: this.getProtocolVersion(),
-				capabilities: {},
-				clientInfo: CLIENT_INFO,
-			},
-			signal,
-			endpoint,
-		);
-		await this.sendNotification("notifications/initialized", {}, signal, endpoint);
-	}
-
-	private async sendRequest(
-		method: string,
-		params: Record<string, unknown>,
-		signal?: AbortSignal,
-		overrideEndpoint?: string,
-	): Promise<unknown> {
-		const id = this.nextId();
-		const response = await this.sendJsonRpc(
-			{
-				jsonrpc: "2.0",
-				id,
-				method,
-				params,
-			},
-			signal,
-			overrideEndpoint,
-		);
-
-		const json = extractJsonRpcResponse(response, id);
-		if (json.error) {
-			throw new Error(`MCP error ${json.error.code}: ${json.error.message}`);
-		}
-		return json.result;
-	}
-
-	private async sendNotification(
-		method: string,
-		params: Record<string, unknown>,
-		signal?: AbortSignal,
-		overrideEndpoint?: string,
-	): Promise<void> {
-		await this.sendJsonRpc(
-			{
-				jsonrpc: "2.0",
-				method,
-				params,
-			},
-			signal,
-			overrideEndpoint,
-			true,
-		);
-	}
-
-	private async sendJsonRpc(
-		payload: Record<string, unknown>,
-		signal?: AbortSignal,
-		overrideEndpoint?: string,
-		isNotification = false,
-	): Promise<unknown> {
-		const endpoint = overrideEndpoint ?? this.resolveEndpoint();
-		const { signal: mergedSignal, cleanup } = createMergedSignal(signal, this.getTimeoutMs());
-
-		try {
-			const response = await fetch(endpoint, {
-				method: "POST",
-				headers: {
-					"content-type": "application/json",
-					accept: "application/json, text/event-stream",
-				},
-				body: JSON.stringify(payload),
-				signal: mergedSignal,
-			});
-
-			if (response.status === 204 || response.status === 202) {
-				return undefined;
-			}
-
-			if (!response.ok) {
-				const text = await response.text();
-				throw new Error(`MCP HTTP ${response.status}: ${text || response.statusText}`);
-			}
-
-			if (isNotification) {
-				return undefined;
-			}
-
-			const contentType = response.headers.get("content-type") ?? "";
-			if (contentType.includes("application/json")) {
-				const json: unknown = await response.json();
-				return json;
-			}
-			if (contentType.includes("text/event-stream")) {
-				return parseSseResponse(response, payload.id);
-			}
-
-			const text = await response.text();
-			throw new Error(`Unexpected MCP response content-type: ${contentType || "unknown"} (${text.slice(0, 200)})`);
-		} finally {
-			cleanup();
-		}
-	}
-
-	private nextId(): JsonRpcId {
-		this.requestCounter += 1;
-		return `exa-mcp-${this.requestCounter}`;
-	}
-}
-
-function extractJsonRpcResponse(response: unknown, requestId: unknown): JsonRpcResponse {
-	if (Array.isArray(response)) {
-		const match = response.find((item) => isJsonRpcResponse(item) && item.id === requestId);
-		if (match) {
-			return match;
-		}
-		throw new Error("MCP response did not include matching request id.");
-	}
-
-	if (isJsonRpcResponse(response)) {
-		return response;
-	}
-
-	throw new Error("Invalid MCP response payload.");
-}
-
-async function parseSseResponse(response: Response, requestId: unknown): Promise<unknown> {
-	if (!response.body) {
-		throw new Error("MCP response stream missing body.");
-	}
-
-	const reader = response.body.getReader();
-	const decoder = new TextDecoder();
-	let buffer = "";
-	let matched: unknown;
-
-	while (true) {
-		const { value, done } = await reader.read();
-		if (done) {
-			break;
-		}
-		buffer += decoder.decode(value, { stream: true });
-
-		let newlineIndex = buffer.indexOf("\n");
-		while (newlineIndex >= 0) {
-			const line = buffer.slice(0, newlineIndex).trimEnd();
-			buffer = buffer.slice(newlineIndex + 1);
-			newlineIndex = buffer.indexOf("\n");
-
-			if (!line.startsWith("data:")) {
-				continue;
-			}
-
-			const data = line.slice(5).trim();
-			if (!data || data === "[DONE]") {
-				continue;
-			}
-
-			try {
-				const parsed: unknown = JSON.parse(data);
-				if (isRecord(parsed) && parsed.id === requestId) {
-					matched = parsed;
-					await reader.cancel();
-					return matched;
-				}
-			} catch {
-				// Ignore malformed SSE chunk.
-			}
-		}
-	}
-
-	if (matched) {
-		return matched;
-	}
-
-	throw new Error("MCP SSE response ended without a matching result.");
-}
-
-function createMergedSignal(
-	parentSignal: AbortSignal | undefined,
-	timeoutMs: number,
-): { signal: AbortSignal; cleanup: () => void } {
-	const controller = new AbortController();
-	let timeoutId: NodeJS.Timeout | undefined;
-
-	const handleAbort = () => {
-		controller.abort();
-	};
-
-	if (parentSignal) {
-		if (parentSignal.aborted) {
-			controller.abort();
-		} else {
-			parentSignal.addEventListener("abort", handleAbort, { once: true });
-		}
-	}
-
-	if (timeoutMs > 0) {
-		timeoutId = setTimeout(() => {
-			controller.abort();
-		}, timeoutMs);
-	}
-
-	return {
-		signal: controller.signal,
-		cleanup: () => {
-			if (timeoutId) {
-				clearTimeout(timeoutId);
-			}
-			if (parentSignal) {
-				parentSignal.removeEventListener("abort", handleAbort);
-			}
-		},
-	};
-}
-
 // =============================================================================
 // Tool Parameters
 // =============================================================================
@@ -704,8 +297,7 @@ const webSearchParams = Type.Object(
 		contextMaxCharacters: Type.Optional(
 			Type.Integer({ description: "Maximum characters to return in extracted content." }),
 		),
-		piMaxBytes: Type.Optional(Type.Integer({ description: "Client-side max bytes override (clamped by config)." })),
-		piMaxLines: Type.Optional(Type.Integer({ description: "Client-side max lines override (clamped by config)." })),
+		...truncationParams,
 	},
 	{ additionalProperties: true },
 );
@@ -716,19 +308,48 @@ const codeContextParams = Type.Object(
 		tokensNum: Type.Optional(
 			Type.Integer({ minimum: 1000, maximum: 50000, description: "Token budget for retrieved context." }),
 		),
-		piMaxBytes: Type.Optional(Type.Integer({ description: "Client-side max bytes override (clamped by config)." })),
-		piMaxLines: Type.Optional(Type.Integer({ description: "Client-side max lines override (clamped by config)." })),
+		...truncationParams,
 	},
 	{ additionalProperties: true },
 );
 
+// Hand-tuned definitions; they take precedence over the schemas the server lists.
+const TOOL_OVERRIDES: Record<string, McpToolDefinition> = {
+	web_search_exa: {
+		name: "web_search_exa",
+		label: "Exa Web Search",
+		description: `Real-time web search via Exa; best for up-to-date info. ${TRUNCATION_NOTE}`,
+		promptSnippet: "web_search_exa: search the live web with Exa.",
+		parameters: webSearchParams,
+		parseResults: parseSearchResults,
+		renderResult: renderSearchResults,
+	},
+	get_code_context_exa: {
+		name: "get_code_context_exa",
+		label: "Exa Code Context",
+		description: `Search code/docs via Exa; best for API usage/examples. ${TRUNCATION_NOTE}`,
+		promptSnippet: "get_code_context_exa: search code and documentation examples with Exa.",
+		parameters: codeContextParams,
+	},
+};
+
+/** A pi tool definition for a discovered MCP tool, or the hand-tuned one when there is an override. */
+function toExaToolDefinition(tool: McpToolInfo): McpToolDefinition {
+	if (Object.hasOwn(TOOL_OVERRIDES, tool.name)) {
+		return TOOL_OVERRIDES[tool.name];
+	}
+	return toMcpToolDefinition(tool, tool.name, "Exa");
+}
+
 // =============================================================================
 // Extension Entry Point
 // =============================================================================
 
 export {
+	convertInputSchema,
 	DEFAULT_CONFIG_FILE,
 	ensureDefaultConfigFile,
+	normalizeBoolean,
 	normalizeNumber,
 	normalizeTools,
 	parseTimeoutMs,
@@ -736,8 +357,8 @@ export {
 	resolveEffectiveLimits,
 	resolveEndpoint,
 	splitParams,
+	toExaToolDefinition,
 };
-
 export default function exaMcp(pi: ExtensionAPI) {
 	// Register CLI flags
 	pi.registerFlag("exa-mcp-url", {
@@ -772,179 +393,260 @@ export default function exaMcp(pi: ExtensionAPI) {
 		description: "Max lines to keep from tool output (default: 2000).",
 		type: "string",
 	});
+	pi.registerFlag("exa-mcp-discover-tools", {
+		description: "Register every tool the server lists via tools/list at session start (default: true).",
+		type: "string",
+	});
+	pi.registerFlag("exa-mcp-cache", {
+		description: "Cache tool results locally, with per-tool TTLs from the config (default: true).",
+		type: "string",
+	});
 
-	const getConfiguredTools = (): string[] | undefined => {
-		const toolsFlag = pi.getFlag("exa-mcp-tools");
-		if (typeof toolsFlag === "string") {
-			return normalizeTools(toolsFlag);
+	// The config file is read once per session, at session_start. Never at registration:
+	// pi parses flags after loading extensions, so --exa-mcp-config is not set yet. An
+	// invalid file is reported and treated as absent.
+	let configState: { loaded: LoadedConfig | null; error?: string } | undefined;
+
+	const readConfig = (): { loaded: LoadedConfig | null; error?: string } => {
+		const configFlag = pi.getFlag("exa-mcp-config");
+		try {
+			return { loaded: loadConfig(typeof configFlag === "string" ? configFlag : undefined) };
+		} catch (error) {
+			return { loaded: null, error: error instanceof Error ? error.message : String(error) };
 		}
-		if (process.env.EXA_MCP_TOOLS) {
-			return normalizeTools(process.env.EXA_MCP_TOOLS);
+	};
+
+	const getLoadedConfig = (): LoadedConfig | null => {
+		configState ??= readConfig();
+		return configState.loaded;
+	};
+
+	/** The first source that has a valid value, in order: flag, env vars, config file, default. */
+	const resolveSetting = <T>(
+		flagName: string,
+		envNames: readonly string[],
+		fromConfig: (config: ExaMcpConfig) => unknown,
+		parse: (value: unknown) => T | undefined,
+		fallback: T,
+	): ResolvedSetting<T> => {
+		const flagValue = pi.getFlag(flagName);
+		const fromFlag = typeof flagValue === "string" ? parse(flagValue) : undefined;
+		if (fromFlag !== undefined) {
+			return { value: fromFlag, source: "flag", name: flagName };
 		}
-		const configFlag = pi.getFlag("exa-mcp-config");
-		const config = loadConfig(typeof configFlag === "string" ? configFlag : undefined);
-		return config?.tools;
+		for (const envName of envNames) {
+			const fromEnv = parse(process.env[envName]);
+			if (fromEnv !== undefined) {
+				return { value: fromEnv, source: "env", name: envName };
+			}
+		}
+		const loaded = getLoadedConfig();
+		const fromFile = loaded ? parse(fromConfig(loaded.config)) : undefined;
+		if (loaded && fromFile !== undefined) {
+			return { value: fromFile, source: loaded.source };
+		}
+		return { value: fallback, source: "default" };
 	};
 
-	const getBaseUrl = (): string => {
-		const configFlag = pi.getFlag("exa-mcp-config");
-		const config = loadConfig(typeof configFlag === "string" ? configFlag : undefined);
+	const resolveTools = () =>
+		resolveSetting<string[] | undefined>("exa-mcp-tools", ["EXA_MCP_TOOLS"], (c) => c.tools, normalizeTools, undefined);
+	const resolveBaseUrl = () =>
+		resolveSetting("exa-mcp-url", ["EXA_MCP_URL"], (c) => c.url, normalizeString, DEFAULT_ENDPOINT);
+	const resolveApiKey = () =>
+		resolveSetting<string | undefined>(
+			"exa-mcp-api-key",
+			["EXA_API_KEY", "EXA_MCP_API_KEY"],
+			(c) => c.apiKey,
+			normalizeString,
+			undefined,
+		);
+	const resolveTimeoutMs = () =>
+		resolveSetting(
+			"exa-mcp-timeout-ms",
+			["EXA_MCP_TIMEOUT_MS"],
+			(c) => c.timeoutMs,
+			(value) => parseTimeoutMs(normalizeNumber(value), 0) || undefined,
+			DEFAULT_TIMEOUT_MS,
+		);
+	const resolveProtocolVersion = () =>
+		resolveSetting(
+			"exa-mcp-protocol",
+			["EXA_MCP_PROTOCOL_VERSION"],
+			(c) => c.protocolVersion,
+			normalizeString,
+			DEFAULT_PROTOCOL_VERSION,
+		);
+	const resolveMaxBytes = () =>
+		resolveSetting("exa-mcp-max-bytes", ["EXA_MCP_MAX_BYTES"], (c) => c.maxBytes, normalizeNumber, DEFAULT_MAX_BYTES);
+	const resolveMaxLines = () =>
+		resolveSetting("exa-mcp-max-lines", ["EXA_MCP_MAX_LINES"], (c) => c.maxLines, normalizeNumber, DEFAULT_MAX_LINES);
+	const resolveDiscoverTools = () =>
+		resolveSetting(
+			"exa-mcp-discover-tools",
+			["EXA_MCP_DISCOVER_TOOLS"],
+			(c) => c.discoverTools,
+			normalizeBoolean,
+			true,
+		);
+	const resolveCacheEnabled = () =>
+		resolveSetting("exa-mcp-cache", ["EXA_MCP_CACHE"], (c) => c.cache?.enabled, normalizeBoolean, true);
+
+	const getMaxLimits = (): { maxBytes: number; maxLines: number } => ({
+		maxBytes: resolveMaxBytes().value,
+		maxLines: resolveMaxLines().value,
+	});
+
+	const getExaTimeoutMs = (): number => resolveTimeoutMs().value;
 
-		const urlFlag = pi.getFlag("exa-mcp-url");
-		return typeof urlFlag === "string" ? urlFlag : (process.env.EXA_MCP_URL ?? config?.url ?? DEFAULT_ENDPOINT);
+	const getExaProtocolVersion = (): string => resolveProtocolVersion().value;
+
+	const getExaEndpoint = (): string =>
+		resolveEndpoint(resolveBaseUrl().value, resolveTools().value, resolveApiKey().value);
+
+	const client = new McpHttpClient(getExaEndpoint, getExaTimeoutMs, getExaProtocolVersion);
+
+	const getAllowedTools = (): Set<string> | null => {
+		const configuredTools = resolveTools().value;
+		const urlTools = parseToolsFromUrl(resolveBaseUrl().value);
+		let allowedToolList: string[] | undefined;
+		if (configuredTools && urlTools) {
+			const intersection = configuredTools.filter((tool) => urlTools.includes(tool));
+			allowedToolList = intersection.length > 0 ? intersection : urlTools;
+		} else {
+			allowedToolList = configuredTools ?? urlTools;
+		}
+		return allowedToolList ? new Set(allowedToolList) : null;
 	};
 
-	const getMaxLimits = (): { maxBytes: number; maxLines: number } => {
-		const maxBytesFlag = pi.getFlag("exa-mcp-max-bytes");
-		const maxLinesFlag = pi.getFlag("exa-mcp-max-lines");
-		const configFlag = pi.getFlag("exa-mcp-config");
-		const config = loadConfig(typeof configFlag === "string" ? configFlag : undefined);
-
-		const maxBytes =
-			typeof maxBytesFlag === "string"
-				? normalizeNumber(maxBytesFlag)
-				: normalizeNumber(process.env.EXA_MCP_MAX_BYTES ?? config?.maxBytes);
-		const maxLines =
-			typeof maxLinesFlag === "string"
-				? normalizeNumber(maxLinesFlag)
-				: normalizeNumber(process.env.EXA_MCP_MAX_LINES ?? config?.maxLines);
-
-		return {
-			maxBytes: maxBytes ?? DEFAULT_MAX_BYTES,
-			maxLines: maxLines ?? DEFAULT_MAX_LINES,
-		};
+	const getCacheTtlMs = (toolName: string): number => {
+		const cacheConfig = { ...getLoadedConfig()?.config.cache, enabled: resolveCacheEnabled().value };
+		return resolveCacheTtlMs(toolName, cacheConfig, DEFAULT_CACHE_TTL_SECONDS);
 	};
 
-	const client = new ExaMcpClient(
-		() => {
-			const configFlag = pi.getFlag("exa-mcp-config");
-			const config = loadConfig(typeof configFlag === "string" ? configFlag : undefined);
+	const registeredTools = new Set<string>();
 
-			const urlFlag = pi.getFlag("exa-mcp-url");
-			const apiKeyFlag = pi.getFlag("exa-mcp-api-key");
+	const exaSource = { client, label: "Exa MCP", getMaxLimits, redactEndpoint, getCacheTtlMs };
 
-			const baseUrl = typeof urlFlag === "string" ? urlFlag : getBaseUrl();
-			const apiKey =
-				typeof apiKeyFlag === "string"
-					? apiKeyFlag
-					: (process.env.EXA_API_KEY ?? process.env.EXA_MCP_API_KEY ?? config?.apiKey ?? undefined);
+	const registerExaTool = (definition: McpToolDefinition) => {
+		registeredTools.add(definition.name);
+		pi.registerTool(createMcpTool(exaSource, definition));
+	};
 
-			return resolveEndpoint(baseUrl, getConfiguredTools(), apiKey);
-		},
-		() => {
-			const configFlag = pi.getFlag("exa-mcp-config");
-			const config = loadConfig(typeof configFlag === "string" ? configFlag : undefined);
-			const timeoutFlag = pi.getFlag("exa-mcp-timeout-ms");
-			const timeoutValue =
-				typeof timeoutFlag === "string" ? timeoutFlag : (process.env.EXA_MCP_TIMEOUT_MS ?? config?.timeoutMs);
-			return parseTimeoutMs(timeoutValue, DEFAULT_TIMEOUT_MS);
+	const serverDefaults: McpServerDefaults = {
+		getTimeoutMs: getExaTimeoutMs,
+		getProtocolVersion: getExaProtocolVersion,
+		getMaxLimits,
+		getCacheTtlMs,
+	};
+	// One client per configured server, so each keeps its own initialized state.
+	const serverClients = new Map<string, McpHttpClient>();
+
+	registerWebCacheCommand(pi, WEB_CACHE_COMMAND);
+
+	const formatTools = (tools: string[] | undefined) => tools?.join(", ") ?? "(all)";
+	const describeSetting = <T>(key: string, setting: ResolvedSetting<T>, format: (value: T) => string) => ({
+		key,
+		value: format(setting.value),
+		source: setting.source,
+		name: setting.name,
+	});
+
+	registerStatusCommand(pi, {
+		getStatus: () => {
+			const loaded = getLoadedConfig();
+			const servers = loaded?.config.servers;
+			return {
+				configFile: loaded ? { path: loaded.path, source: loaded.source } : undefined,
+				configError: configState?.error,
+				endpoint: redactEndpoint(getExaEndpoint()),
+				settings: [
+					describeSetting("url", resolveBaseUrl(), redactEndpoint),
+					describeSetting("tools", resolveTools(), formatTools),
+					describeSetting("apiKey", resolveApiKey(), (apiKey) => (apiKey ? "set" : "not set")),
+					describeSetting("timeoutMs", resolveTimeoutMs(), String),
+					describeSetting("protocolVersion", resolveProtocolVersion(), String),
+					describeSetting("maxBytes", resolveMaxBytes(), String),
+					describeSetting("maxLines", resolveMaxLines(), String),
+					describeSetting("discoverTools", resolveDiscoverTools(), String),
+					describeSetting("cache", resolveCacheEnabled(), String),
+					...(servers && loaded
+						? [{ key: "servers", value: servers.map((server) => server.name).join(", "), source: loaded.source }]
+						: []),
+				],
+				tools: [...registeredTools],
+			};
 		},
-		() => {
-			const configFlag = pi.getFlag("exa-mcp-config");
-			const config = loadConfig(typeof configFlag === "string" ? configFlag : undefined);
-			const protocolFlag = pi.getFlag("exa-mcp-protocol");
-			if (typeof protocolFlag === "string" && protocolFlag.trim().length > 0) {
-				return protocolFlag.trim();
+		checkConnection: async () => {
+			// A separate client, so the check runs initialize without replacing the tools' session.
+			const probe = new McpHttpClient(getExaEndpoint, getExaTimeoutMs, getExaProtocolVersion);
+			try {
+				return await probe.connect();
+			} finally {
+				await probe.close();
 			}
-			const envVersion = process.env.EXA_MCP_PROTOCOL_VERSION;
-			if (envVersion && envVersion.trim().length > 0) {
-				return envVersion.trim();
+		},
+	});
+
+	// Discovery runs in the background so an unreachable server never delays startup.
+	pi.on("session_start", async (_event, ctx) => {
+		const notify = (message: string, level: "warning" | "error") => {
+			if (ctx.hasUI) {
+				ctx.ui.notify(message, level);
+			} else {
+				console.warn(`[pi-exa-mcp] ${message}`);
 			}
-			if (config?.protocolVersion) {
-				return config.protocolVersion;
+		};
+
+		configState = readConfig();
+		if (configState.error) {
+			notify(`${configState.error} Using defaults; run /exa-mcp to check the effective config.`, "error");
+		}
+
+		// The hand-tuned tools register before discovery, so they work without it.
+		const allowedTools = getAllowedTools();
+		for (const definition of Object.values(TOOL_OVERRIDES)) {
+			if (!registeredTools.has(definition.name) && (!allowedTools || allowedTools.has(definition.name))) {
+				registerExaTool(definition);
 			}
-			return DEFAULT_PROTOCOL_VERSION;
-		},
-	);
-
-	const configuredTools = getConfiguredTools();
-	const urlTools = parseToolsFromUrl(getBaseUrl());
-	let allowedToolList: string[] | undefined;
-	if (configuredTools && urlTools) {
-		const intersection = configuredTools.filter((tool) => urlTools.includes(tool));
-		allowedToolList = intersection.length > 0 ? intersection : urlTools;
-	} else {
-		allowedToolList = configuredTools ?? urlTools;
-	}
-	const allowedTools = allowedToolList ? new Set(allowedToolList) : null;
-
-	// Register web_search_exa tool
-	if (!allowedTools || allowedTools.has("web_search_exa")) {
-		pi.registerTool({
-			name: "web_search_exa",
-			label: "Exa Web Search",
-			description:
-				"Real-time web search via Exa; best for up-to-date info. Client-side truncation; override with piMaxBytes/piMaxLines (clamped by config).",
-			promptSnippet: "web_search_exa: search the live web with Exa.",
-			parameters: webSearchParams,
-			async execute(_toolCallId, params, signal, onUpdate, _ctx) {
-				if (signal?.aborted) {
-					return { content: [{ type: "text", text: "Cancelled." }], details: { cancelled: true } };
-				}
-				onUpdate?.({ content: [{ type: "text", text: "Querying Exa MCP..." }], details: { status: "pending" } });
-
-				try {
-					const endpoint = redactEndpoint(client.currentEndpoint());
-					const { mcpArgs, requestedLimits } = splitParams(params as Record<string, unknown>);
-					const maxLimits = getMaxLimits();
-					const effectiveLimits = resolveEffectiveLimits(requestedLimits, maxLimits);
-					const result = await client.callTool("web_search_exa", mcpArgs, signal);
-					const { text, details } = formatToolOutput("web_search_exa", endpoint, result, effectiveLimits);
-					if (result.isError === true) {
-						throw new Error(text);
-					}
-					return { content: [{ type: "text", text }], details };
-				} catch (error) {
-					const message = error instanceof Error ? error.message : String(error);
-					throw Object.assign(new Error(`Exa MCP error: ${message}`), {
-						details: {
-							tool: "web_search_exa",
-							endpoint: redactEndpoint(client.currentEndpoint()),
-							error: message,
-						} satisfies McpErrorDetails,
-					});
-				}
-			},
-		});
-	}
+		}
 
-	// Register get_code_context_exa tool
-	if (!allowedTools || allowedTools.has("get_code_context_exa")) {
-		pi.registerTool({
-			name: "get_code_context_exa",
-			label: "Exa Code Context",
-			description:
-				"Search code/docs via Exa; best for API usage/examples. Client-side truncation; override with piMaxBytes/piMaxLines (clamped by config).",
-			promptSnippet: "get_code_context_exa: search code and documentation examples with Exa.",
-			parameters: codeContextParams,
-			async execute(_toolCallId, params, signal, onUpdate, _ctx) {
-				if (signal?.aborted) {
-					return { content: [{ type: "text", text: "Cancelled." }], details: { cancelled: true } };
-				}
-				onUpdate?.({ content: [{ type: "text", text: "Querying Exa MCP..." }], details: { status: "pending" } });
-
-				try {
-					const endpoint = redactEndpoint(client.currentEndpoint());
-					const { mcpArgs, requestedLimits } = splitParams(params as Record<string, unknown>);
-					const maxLimits = getMaxLimits();
-					const effectiveLimits = resolveEffectiveLimits(requestedLimits, maxLimits);
-					const result = await client.callTool("get_code_context_exa", mcpArgs, signal);
-					const { text, details } = formatToolOutput("get_code_context_exa", endpoint, result, effectiveLimits);
-					if (result.isError === true) {
-						throw new Error(text);
+		if (resolveDiscoverTools().value) {
+			void client
+				.listTools()
+				.then((tools) => {
+					for (const tool of tools) {
+						if (registeredTools.has(tool.name) || (allowedTools && !allowedTools.has(tool.name))) {
+							continue;
+						}
+						if (!TOOL_NAME_PATTERN.test(tool.name)) {
+							notify(`Skipping MCP tool with an unsupported name: ${tool.name}`, "warning");
+							continue;
+						}
+						registerExaTool(toExaToolDefinition(tool));
 					}
-					return { content: [{ type: "text", text }], details };
-				} catch (error) {
+				})
+				.catch((error) => {
 					const message = error instanceof Error ? error.message : String(error);
-					throw Object.assign(new Error(`Exa MCP error: ${message}`), {
-						details: {
-							tool: "get_code_context_exa",
-							endpoint: redactEndpoint(client.currentEndpoint()),
-							error: message,
-						} satisfies McpErrorDetails,
-					});
-				}
-			},
-		});
-	}
+					notify(`Exa MCP tool discovery failed: ${message}`, "warning");
+				});
+		}
+
+		for (const server of getLoadedConfig()?.config.servers ?? []) {
+			let serverClient = serverClients.get(server.name);
+			if (!serverClient) {
+				serverClient = createServerClient(server, serverDefaults);
+				serverClients.set(server.name, serverClient);
+			}
+			const warn = (message: string) => notify(message, "warning");
+			void registerServerTools(pi, server, serverClient, serverDefaults, registeredTools, warn).catch((error) => {
+				const message = error instanceof Error ? error.message : String(error);
+				notify(`MCP server ${server.name} unavailable: ${message}`, "warning");
+			});
+		}
+	});
+
+	// End the server-side sessions so servers can free them before they time out.
+	pi.on("session_shutdown", async () => {
+		await Promise.all([client.close(), ...[...serverClients.values()].map((serverClient) => serverClient.close())]);
+	});
 }
@@ -0,0 +1,504 @@
+/**
+ * MCP client for the Streamable HTTP transport.
+ *
+ * Speaks JSON-RPC 2.0 over POST: the initialize handshake, `tools/list`, and
+ * `tools/call`, with responses as plain JSON or an SSE stream matched by request
+ * id. Endpoint, timeout, protocol version, and headers are read on every request,
+ * so config changes apply without a restart. Not tied to Exa; every configured
+ * server gets its own client.
+ *
+ * A session id the server assigns on `initialize` (`Mcp-Session-Id`) is sent on
+ * every later request. When the server answers 404 for it (the session expired,
+ * typically after a server restart) the client re-initializes and retries the
+ * request once. `close()` ends the session with a DELETE, as does a change of
+ * endpoint before the next session starts.
+ *
+ * Notifications a server streams before the response (progress, log messages)
+ * are handed to the caller's listener, and a request aborted by its signal is
+ * followed by `notifications/cancelled` so the server can stop working on it.
+ */
+
+import { isRecord, normalizeString, toJsonString } from "./utils.js";
+
+const CLIENT_INFO = {
+	name: "pi-exa-mcp-extension",
+	version: "1.0.0",
+} as const;
+
+type JsonRpcId = string;
+
+interface JsonRpcError {
+	code: number;
+	message: string;
+	data?: unknown;
+}
+
+interface JsonRpcResponse {
+	jsonrpc: "2.0";
+	id?: JsonRpcId | number | null;
+	result?: unknown;
+	error?: JsonRpcError;
+}
+
+/** One entry of a `tools/list` result. */
+export interface McpToolInfo {
+	name: string;
+	title?: string;
+	description?: string;
+	inputSchema?: Record<string, unknown>;
+}
+
+/** A server-to-client notification received while a request is in flight. */
+export interface McpNotification {
+	method: string;
+	params?: Record<string, unknown>;
+}
+
+export type McpNotificationListener = (notification: McpNotification) => void;
+
+/** What a server reported in its `initialize` result. */
+export interface McpServerInfo {
+	protocolVersion?: string;
+	name?: string;
+	version?: string;
+}
+
+export interface McpToolResult {
+	content?: Array<Record<string, unknown>>;
+	isError?: boolean;
+}
+
+const SESSION_HEADER = "mcp-session-id";
+
+/** Timeout for the DELETE that ends a session: shutdown should not wait on a slow server. */
+const CLOSE_TIMEOUT_MS = 2000;
+
+/** HTTP 404 for a request that carried a session id: the server no longer knows the session. */
+class SessionExpiredError extends Error {
+	constructor(readonly sessionId: string) {
+		super(`MCP session ${sessionId} expired.`);
+		this.name = "SessionExpiredError";
+	}
+}
+
+function isJsonRpcResponse(value: unknown): value is JsonRpcResponse {
+	return isRecord(value) && value.jsonrpc === "2.0";
+}
+
+export class McpHttpClient {
+	private requestCounter = 0;
+	private initialized = false;
+	private initializing: Promise<void> | null = null;
+	private lastEndpoint: string | null = null;
+	private sessionId: string | undefined;
+	private serverInfo: McpServerInfo = {};
+
+	constructor(
+		private readonly resolveEndpoint: () => string,
+		private readonly getTimeoutMs: () => number,
+		private readonly getProtocolVersion: () => string,
+		private readonly getHeaders: () => Record<string, string> = () => ({}),
+	) {}
+
+	currentEndpoint(): string {
+		return this.resolveEndpoint();
+	}
+
+	/** With `onNotification`, the call asks for progress notifications and receives them as they stream in. */
+	async callTool(
+		toolName: string,
+		args: Record<string, unknown>,
+		signal?: AbortSignal,
+		onNotification?: McpNotificationListener,
+	): Promise<McpToolResult> {
+		const result = await this.withSession(
+			() => this.sendRequest("tools/call", { name: toolName, arguments: args }, signal, undefined, onNotification),
+			signal,
+		);
+		if (isRecord(result)) {
+			return result as McpToolResult;
+		}
+		return { content: [{ type: "text", text: toJsonString(result) }] };
+	}
+
+	/** Initialize a session if there is none and return what the server reported for it. */
+	async connect(signal?: AbortSignal): Promise<McpServerInfo> {
+		await this.ensureInitialized(signal);
+		return this.serverInfo;
+	}
+
+	/** Every tool the server lists, following `nextCursor` pagination. */
+	async listTools(signal?: AbortSignal): Promise<McpToolInfo[]> {
+		// Cursors may be tied to the session, so a retry starts the listing over.
+		return this.withSession(() => this.listToolPages(signal), signal);
+	}
+
+	/** End the server-side session, if any. Never throws: servers may not support DELETE (405). */
+	async close(): Promise<void> {
+		const sessionId = this.sessionId;
+		const endpoint = this.lastEndpoint;
+		this.resetSession();
+		await this.endSession(endpoint, sessionId);
+	}
+
+	private async endSession(endpoint: string | null, sessionId: string | undefined): Promise<void> {
+		if (!sessionId || !endpoint) {
+			return;
+		}
+		const { signal, cleanup } = createMergedSignal(undefined, CLOSE_TIMEOUT_MS);
+		try {
+			await fetch(endpoint, {
+				method: "DELETE",
+				headers: { ...this.getHeaders(), [SESSION_HEADER]: sessionId },
+				signal,
+			});
+		} catch {
+			// The session expires on its own.
+		} finally {
+			cleanup();
+		}
+	}
+
+	/** Run `operation` in an initialized session, re-initializing and retrying once if the session expired. */
+	private async withSession<T>(operation: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+		await this.ensureInitialized(signal);
+		try {
+			return await operation();
+		} catch (error) {
+			if (!(error instanceof SessionExpiredError)) {
+				throw error;
+			}
+			// A concurrent request may already have replaced the expired session.
+			if (this.sessionId === error.sessionId) {
+				this.resetSession();
+			}
+			await this.ensureInitialized(signal);
+			return operation();
+		}
+	}
+
+	private resetSession(): void {
+		this.initialized = false;
+		this.initializing = null;
+		this.sessionId = undefined;
+		this.serverInfo = {};
+	}
+
+	private async listToolPages(signal?: AbortSignal): Promise<McpToolInfo[]> {
+		const tools: McpToolInfo[] = [];
+		let cursor: string | undefined;
+		do {
+			const result = await this.sendRequest("tools/list", cursor ? { cursor } : {}, signal);
+			if (!isRecord(result) || !Array.isArray(result.tools)) {
+				throw new Error("Invalid MCP tools/list result.");
+			}
+			for (const tool of result.tools) {
+				if (isRecord(tool) && typeof tool.name === "string") {
+					tools.push({
+						name: tool.name,
+						title: normalizeString(tool.title),
+						description: normalizeString(tool.description),
+						inputSchema: isRecord(tool.inputSchema) ? tool.inputSchema : undefined,
+					});
+				}
+			}
+			cursor = normalizeString(result.nextCursor);
+		} while (cursor);
+		return tools;
+	}
+
+	private async ensureInitialized(signal?: AbortSignal): Promise<void> {
+		const endpoint = this.resolveEndpoint();
+		if (this.lastEndpoint !== endpoint) {
+			// A new endpoint (or API key in its query) gets a new session; the old one is ended, not abandoned.
+			const previousEndpoint = this.lastEndpoint;
+			const previousSessionId = this.sessionId;
+			this.resetSession();
+			this.lastEndpoint = endpoint;
+			await this.endSession(previousEndpoint, previousSessionId);
+		}
+
+		if (this.initialized) {
+			return;
+		}
+
+		if (!this.initializing) {
+			this.initializing = (async () => {
+				await this.initialize(endpoint, signal);
+				this.initialized = true;
+			})()
+				.catch((error) => {
+					this.initialized = false;
+					throw error;
+				})
+				.finally(() => {
+					this.initializing = null;
+				});
+		}
+
+		await this.initializing;
+	}
+
+	private async initialize(endpoint: string, signal?: AbortSignal): Promise<void> {
+		const result = await this.sendRequest(
+			"initialize",
+			{
+				protocolVersion: this.getProtocolVersion(),
+				capabilities: {},
+				clientInfo: CLIENT_INFO,
+			},
+			signal,
+			endpoint,
+		);
+		const serverInfo = isRecord(result) && isRecord(result.serverInfo) ? result.serverInfo : {};
+		this.serverInfo = {
+			protocolVersion: isRecord(result) ? normalizeString(result.protocolVersion) : undefined,
+			name: normalizeString(serverInfo.name),
+			version: normalizeString(serverInfo.version),
+		};
+		await this.sendNotification("notifications/initialized", {}, signal, endpoint);
+	}
+
+	private async sendRequest(
+		method: string,
+		params: Record<string, unknown>,
+		signal?: AbortSignal,
+		overrideEndpoint?: string,
+		onNotification?: McpNotificationListener,
+	): Promise<unknown> {
+		const id = this.nextId();
+		let response: unknown;
+		try {
+			response = await this.sendJsonRpc(
+				{
+					jsonrpc: "2.0",
+					id,
+					method,
+					// The request id doubles as the progress token: one request, one progress stream.
+					params: onNotification ? { ...params, _meta: { progressToken: id } } : params,
+				},
+				signal,
+				overrideEndpoint,
+				false,
+				onNotification,
+			);
+		} catch (error) {
+			// initialize must not be cancelled; the server discards a half-made session on its own.
+			if (signal?.aborted && method !== "initialize") {
+				this.sendNotification("notifications/cancelled", { requestId: id, reason: "Aborted by the client." }).catch(
+					() => {
+						// Best effort: the request has already failed.
+					},
+				);
+			}
+			throw error;
+		}
+
+		const json = extractJsonRpcResponse(response, id);
+		if (json.error) {
+			throw new Error(`MCP error ${json.error.code}: ${json.error.message}`);
+		}
+		return json.result;
+	}
+
+	private async sendNotification(
+		method: string,
+		params: Record<string, unknown>,
+		signal?: AbortSignal,
+		overrideEndpoint?: string,
+	): Promise<void> {
+		await this.sendJsonRpc(
+			{
+				jsonrpc: "2.0",
+				method,
+				params,
+			},
+			signal,
+			overrideEndpoint,
+			true,
+		);
+	}
+
+	private async sendJsonRpc(
+		payload: Record<string, unknown>,
+		signal?: AbortSignal,
+		overrideEndpoint?: string,
+		isNotification = false,
+		onNotification?: McpNotificationListener,
+	): Promise<unknown> {
+		const endpoint = overrideEndpoint ?? this.resolveEndpoint();
+		const { signal: mergedSignal, cleanup } = createMergedSignal(signal, this.getTimeoutMs());
+		const isInitialize = payload.method === "initialize";
+		// initialize always starts a new session, so it never carries the old id.
+		const sessionId = isInitialize ? undefined : this.sessionId;
+
+		try {
+			const response = await fetch(endpoint, {
+				method: "POST",
+				headers: {
+					...this.getHeaders(),
+					...(sessionId ? { [SESSION_HEADER]: sessionId } : {}),
+					"content-type": "application/json",
+					accept: "application/json, text/event-stream",
+				},
+				body: JSON.stringify(payload),
+				signal: mergedSignal,
+			});
+
+			if (isInitialize && response.ok) {
+				this.sessionId = normalizeString(response.headers.get(SESSION_HEADER));
+			}
+
+			if (response.status === 404 && sessionId) {
+				await response.body?.cancel();
+				throw new SessionExpiredError(sessionId);
+			}
+
+			if (response.status === 204 || response.status === 202) {
+				return undefined;
+			}
+
+			if (!response.ok) {
+				const text = await response.text();
+				throw new Error(`MCP HTTP ${response.status}: ${text || response.statusText}`);
+			}
+
+			if (isNotification) {
+				return undefined;
+			}
+
+			const contentType = response.headers.get("content-type") ?? "";
+			if (contentType.includes("application/json")) {
+				const json: unknown = await response.json();
+				return json;
+			}
+			if (contentType.includes("text/event-stream")) {
+				// Awaited so the timeout and abort signal stay attached while the stream is read.
+				return await parseSseResponse(response, payload.id, onNotification);
+			}
+
+			const text = await response.text();
+			throw new Error(`Unexpected MCP response content-type: ${contentType || "unknown"} (${text.slice(0, 200)})`);
+		} finally {
+			cleanup();
+		}
+	}
+
+	private nextId(): JsonRpcId {
+		this.requestCounter += 1;
+		return `exa-mcp-${this.requestCounter}`;
+	}
+}
+
+function extractJsonRpcResponse(response: unknown, requestId: unknown): JsonRpcResponse {
+	if (Array.isArray(response)) {
+		const match = response.find((item) => isJsonRpcResponse(item) && item.id === requestId);
+		if (match) {
+			return match;
+		}
+		throw new Error("MCP response did not include matching request id.");
+	}
+
+	if (isJsonRpcResponse(response)) {
+		return response;
+	}
+
+	throw new Error("Invalid MCP response payload.");
+}
+
+async function parseSseResponse(
+	response: Response,
+	requestId: unknown,
+	onNotification?: McpNotificationListener,
+): Promise<unknown> {
+	if (!response.body) {
+		throw new Error("MCP response stream missing body.");
+	}
+
+	const reader = response.body.getReader();
+	const decoder = new TextDecoder();
+	let buffer = "";
+	let matched: unknown;
+
+	while (true) {
+		const { value, done } = await reader.read();
+		if (done) {
+			break;
+		}
+		buffer += decoder.decode(value, { stream: true });
+
+		let newlineIndex = buffer.indexOf("\n");
+		while (newlineIndex >= 0) {
+			const line = buffer.slice(0, newlineIndex).trimEnd();
+			buffer = buffer.slice(newlineIndex + 1);
+			newlineIndex = buffer.indexOf("\n");
+
+			if (!line.startsWith("data:")) {
+				continue;
+			}
+
+			const data = line.slice(5).trim();
+			if (!data || data === "[DONE]") {
+				continue;
+			}
+
+			try {
+				const parsed: unknown = JSON.parse(data);
+				if (isRecord(parsed) && parsed.id === requestId) {
+					matched = parsed;
+					await reader.cancel();
+					return matched;
+				}
+				if (isRecord(parsed) && parsed.id === undefined && typeof parsed.method === "string") {
+					onNotification?.({ method: parsed.method, params: isRecord(parsed.params) ? parsed.params : undefined });
+				}
+			} catch {
+				// Ignore malformed SSE chunk.
+			}
+		}
+	}
+
+	if (matched) {
+		return matched;
+	}
+
+	throw new Error("MCP SSE response ended without a matching result.");
+}
+
+function createMergedSignal(
+	parentSignal: AbortSignal | undefined,
+	timeoutMs: number,
+): { signal: AbortSignal; cleanup: () => void } {
+	const controller = new AbortController();
+	let timeoutId: NodeJS.Timeout | undefined;
+
+	const handleAbort = () => {
+		controller.abort();
+	};
+
+	if (parentSignal) {
+		if (parentSignal.aborted) {
+			controller.abort();
+		} else {
+			parentSignal.addEventListener("abort", handleAbort, { once: true });
+		}
+	}
+
+	if (timeoutMs > 0) {
+		timeoutId = setTimeout(() => {
+			controller.abort();
+		}, timeoutMs);
+	}
+
+	return {
+		signal: controller.signal,
+		cleanup: () => {
+			if (timeoutId) {
+				clearTimeout(timeoutId);
+			}
+			if (parentSignal) {
+				parentSignal.removeEventListener("abort", handleAbort);
+			}
+		},
+	};
+}
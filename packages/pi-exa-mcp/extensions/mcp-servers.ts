@@ -0,0 +1,160 @@
+/**
+ * Additional MCP servers from the `servers` key of exa-mcp.json.
+ *
+ * Each entry names a Streamable-HTTP MCP server with its URL, optional headers
+ * and bearer token, and an optional tool allow-list. At session start its tools
+ * are listed and registered under the server name as a prefix
+ * (`<name>_<tool>`), so internal servers can sit next to Exa without clashing.
+ */
+
+import type { ExtensionAPI } from "@earendil-works/pi-coding-agent";
+import { McpHttpClient } from "./mcp-client.js";
+import { createMcpTool, TOOL_NAME_PATTERN, toMcpToolDefinition } from "./mcp-tools.js";
+import { isRecord, normalizeNumber, normalizeString, normalizeTools } from "./utils.js";
+
+export interface McpServerConfig {
+	/** Key in `servers`; also the prefix of the server's tool names. */
+	name: string;
+	url: string;
+	headers?: Record<string, string>;
+	/** Sent as `Authorization: Bearer <token>`; `$NAME` reads the environment variable NAME. */
+	authToken?: string;
+	/** Unprefixed tool names to register; all listed tools when unset. */
+	tools?: string[];
+	timeoutMs?: number;
+}
+
+/** Settings shared with the Exa server when a server does not set its own. */
+export interface McpServerDefaults {
+	getTimeoutMs: () => number;
+	getProtocolVersion: () => string;
+	getMaxLimits: () => { maxBytes: number; maxLines: number };
+	getCacheTtlMs: (toolName: string) => number;
+}
+
+const SERVER_NAME_PATTERN = /^[a-zA-Z0-9-]+$/;
+
+function parseHeaders(raw: unknown, pathHint: string): Record<string, string> | undefined {
+	if (raw === undefined) {
+		return undefined;
+	}
+	if (!isRecord(raw) || Object.values(raw).some((value) => typeof value !== "string")) {
+		throw new Error(`Invalid Exa MCP config at ${pathHint}: expected an object of string header values.`);
+	}
+	return raw as Record<string, string>;
+}
+
+/** Parse the `servers` object; undefined when the key is absent. */
+export function parseServersConfig(raw: unknown, pathHint: string): McpServerConfig[] | undefined {
+	if (raw === undefined) {
+		return undefined;
+	}
+	if (!isRecord(raw)) {
+		throw new Error(`Invalid Exa MCP config at ${pathHint}: servers must be an object keyed by server name.`);
+	}
+	return Object.entries(raw).map(([name, entry]) => {
+		const hint = `${pathHint} (servers.${name})`;
+		if (!SERVER_NAME_PATTERN.test(name)) {
+			throw new Error(`Invalid Exa MCP config at ${hint}: server names may only contain letters, digits, and "-".`);
+		}
+		if (!isRecord(entry)) {
+			throw new Error(`Invalid Exa MCP config at ${hint}: expected an object.`);
+		}
+		const url = normalizeString(entry.url);
+		if (!url || !URL.canParse(url)) {
+			throw new Error(`Invalid Exa MCP config at ${hint}: url must be an absolute URL.`);
+		}
+		return {
+			name,
+			url,
+			headers: parseHeaders(entry.headers, `${hint}.headers`),
+			authToken: normalizeString(entry.authToken),
+			tools: normalizeTools(entry.tools),
+			timeoutMs: normalizeNumber(entry.timeoutMs),
+		};
+	});
+}
+
+/** `$NAME` reads the environment variable NAME (undefined when unset); anything else is literal. */
+export function resolveSecret(value: string): string | undefined {
+	if (!value.startsWith("$")) {
+		return value;
+	}
+	return normalizeString(process.env[value.slice(1)]);
+}
+
+export function getServerHeaders(server: McpServerConfig): Record<string, string> {
+	const headers: Record<string, string> = {};
+	for (const [key, value] of Object.entries(server.headers ?? {})) {
+		const resolved = resolveSecret(value);
+		if (resolved !== undefined) {
+			headers[key] = resolved;
+		}
+	}
+	const token = server.authToken ? resolveSecret(server.authToken) : undefined;
+	if (token) {
+		headers.authorization = `Bearer ${token}`;
+	}
+	return headers;
+}
+
+export function getServerToolName(server: McpServerConfig, toolName: string): string {
+	return `${server.name}_${toolName}`;
+}
+
+/** Origin and path only: query strings and userinfo can carry credentials. */
+function redactServerEndpoint(endpoint: string): string {
+	try {
+		const url = new URL(endpoint);
+		return `${url.origin}${url.pathname}`;
+	} catch {
+		return endpoint;
+	}
+}
+
+export function createServerClient(server: McpServerConfig, defaults: McpServerDefaults): McpHttpClient {
+	return new McpHttpClient(
+		() => server.url,
+		() => server.timeoutMs ?? defaults.getTimeoutMs(),
+		defaults.getProtocolVersion,
+		() => getServerHeaders(server),
+	);
+}
+
+/**
+ * List a server's tools and register the allowed ones under its prefix, skipping
+ * names already in `registered`. Tools whose name pi cannot register are reported
+ * through `warn`. Returns the registered tool names; throws when the server cannot
+ * be reached.
+ */
+export async function registerServerTools(
+	pi: ExtensionAPI,
+	server: McpServerConfig,
+	client: McpHttpClient,
+	defaults: McpServerDefaults,
+	registered: Set<string>,
+	warn: (message: string) => void,
+): Promise<string[]> {
+	const source = {
+		client,
+		label: `MCP server ${server.name}`,
+		getMaxLimits: defaults.getMaxLimits,
+		redactEndpoint: redactServerEndpoint,
+		getCacheTtlMs: defaults.getCacheTtlMs,
+	};
+	const added: string[] = [];
+	for (const tool of await client.listTools()) {
+		const name = getServerToolName(server, tool.name);
+		if (registered.has(name) || (server.tools && !server.tools.includes(tool.name))) {
+			continue;
+		}
+		if (!TOOL_NAME_PATTERN.test(name)) {
+			warn(`Skipping MCP tool with an unsupported name: ${name}`);
+			continue;
+		}
+		registered.add(name);
+		pi.registerTool(createMcpTool(source, toMcpToolDefinition(tool, name, server.name), tool.name));
+		added.push(name);
+	}
+	return added;
+}
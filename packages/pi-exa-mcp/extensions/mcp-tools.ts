@@ -0,0 +1,394 @@
+/**
+ * Turning MCP tools into pi tools: parameter schemas converted from an MCP
+ * `inputSchema`, client-side truncation of the output, and the shared execute
+ * path used by Exa and every configured server, which shows the server's
+ * progress and log notifications as live status text and answers repeated
+ * calls from the local result cache. Tools that parse their output into search
+ * results hand the model a numbered list and keep the records in details.
+ */
+
+import { writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	type CacheEntry,
+	type CacheStatus,
+	cacheParams,
+	readCacheEntry,
+	toCacheStatus,
+	writeCacheEntry,
+} from "@benvargas/pi-web-cache";
+import { StringEnum } from "@earendil-works/pi-ai";
+import type { ToolDefinition } from "@earendil-works/pi-coding-agent";
+import { DEFAULT_MAX_BYTES, DEFAULT_MAX_LINES, formatSize, truncateHead } from "@earendil-works/pi-coding-agent";
+import { type TSchema, Type } from "typebox";
+import type { McpHttpClient, McpNotification, McpToolInfo, McpToolResult } from "./mcp-client.js";
+import { formatSearchResults, type SearchResult } from "./search-results.js";
+import { isRecord, normalizeBoolean, normalizeNumber, toJsonString } from "./utils.js";
+
+export interface McpToolDetails {
+	tool: string;
+	endpoint: string;
+	truncated: boolean;
+	truncation?: {
+		truncatedBy: "lines" | "bytes" | null;
+		totalLines: number;
+		totalBytes: number;
+		outputLines: number;
+		outputBytes: number;
+		maxLines: number;
+		maxBytes: number;
+	};
+	tempFile?: string;
+	/** Set when the tool is cached: whether this result came from the cache. */
+	cache?: CacheStatus;
+	/** Parsed search results, numbered as in the text the model sees. */
+	results?: SearchResult[];
+}
+
+export interface McpErrorDetails {
+	tool: string;
+	endpoint: string;
+	error: string;
+}
+
+/** What pi registers for one MCP tool. */
+export interface McpToolDefinition {
+	name: string;
+	label: string;
+	description: string;
+	promptSnippet?: string;
+	parameters: TSchema;
+	/** Parses the output into search results; the model then sees them as a numbered list. */
+	parseResults?: (text: string) => SearchResult[];
+	renderResult?: ToolDefinition["renderResult"];
+}
+
+// Client-side truncation and cache overrides; stripped by splitParams before the MCP call.
+export const truncationParams = {
+	piMaxBytes: Type.Optional(Type.Integer({ description: "Client-side max bytes override (clamped by config)." })),
+	piMaxLines: Type.Optional(Type.Integer({ description: "Client-side max lines override (clamped by config)." })),
+	...cacheParams,
+};
+
+export const TRUNCATION_NOTE = "Client-side truncation; override with piMaxBytes/piMaxLines (clamped by config).";
+
+/**
+ * Status text for a progress or log notification, e.g. `Searching sources (3/10)` or
+ * `[info] Fetched 4 pages`; undefined for other notifications.
+ */
+export function formatMcpNotification(notification: McpNotification): string | undefined {
+	const params = notification.params ?? {};
+	if (notification.method === "notifications/progress") {
+		const progress = normalizeNumber(params.progress);
+		if (progress === undefined) {
+			return undefined;
+		}
+		const total = normalizeNumber(params.total);
+		const message = typeof params.message === "string" && params.message.trim() ? params.message.trim() : "Progress";
+		return `${message} (${total !== undefined ? `${progress}/${total}` : progress})`;
+	}
+	if (notification.method === "notifications/message") {
+		const level = typeof params.level === "string" ? params.level : "info";
+		const data = toJsonString(params.data);
+		return data ? `[${level}] ${data}` : undefined;
+	}
+	return undefined;
+}
+
+export function formatToolOutput(
+	toolName: string,
+	endpoint: string,
+	result: McpToolResult,
+	limits?: { maxBytes?: number; maxLines?: number },
+	parseResults?: (text: string) => SearchResult[],
+): { text: string; details: McpToolDetails } {
+	const contentBlocks = Array.isArray(result.content) ? result.content : [];
+	const renderedBlocks =
+		contentBlocks.length > 0
+			? contentBlocks.map((block) => {
+					if (block.type === "text" && typeof block.text === "string") {
+						return block.text;
+					}
+					return toJsonString(block);
+				})
+			: [toJsonString(result)];
+
+	const blockText = renderedBlocks.join("\n");
+	// Only successful output is parsed; errors keep the server's wording.
+	const results = result.isError === true ? [] : (parseResults?.(blockText) ?? []);
+	const rawText = results.length > 0 ? formatSearchResults(results) : blockText;
+	const truncation = truncateHead(rawText, {
+		maxLines: limits?.maxLines ?? DEFAULT_MAX_LINES,
+		maxBytes: limits?.maxBytes ?? DEFAULT_MAX_BYTES,
+	});
+
+	let text = truncation.content;
+	let tempFile: string | undefined;
+
+	if (truncation.truncated) {
+		tempFile = writeTempFile(toolName, rawText);
+		text +=
+			`\n\n[Output truncated: ${truncation.outputLines} of ${truncation.totalLines} lines ` +
+			`(${formatSize(truncation.outputBytes)} of ${formatSize(truncation.totalBytes)}). ` +
+			`Full output saved to: ${tempFile}]`;
+	}
+
+	if (truncation.firstLineExceedsLimit && rawText.length > 0) {
+		text =
+			`[First line exceeded ${formatSize(truncation.maxBytes)} limit. Full output saved to: ${tempFile ?? "N/A"}]\n` +
+			text;
+	}
+
+	return {
+		text,
+		details: {
+			tool: toolName,
+			endpoint,
+			truncated: truncation.truncated,
+			truncation: {
+				truncatedBy: truncation.truncatedBy,
+				totalLines: truncation.totalLines,
+				totalBytes: truncation.totalBytes,
+				outputLines: truncation.outputLines,
+				outputBytes: truncation.outputBytes,
+				maxLines: truncation.maxLines,
+				maxBytes: truncation.maxBytes,
+			},
+			tempFile,
+			results: results.length > 0 ? results : undefined,
+		},
+	};
+}
+
+function writeTempFile(toolName: string, content: string): string {
+	const safeName = toolName.replace(/[^a-z0-9_-]/gi, "_");
+	const filename = `pi-exa-mcp-${safeName}-${Date.now()}.txt`;
+	const filePath = join(tmpdir(), filename);
+	writeFileSync(filePath, content, "utf-8");
+	return filePath;
+}
+
+export function splitParams(params: Record<string, unknown>): {
+	mcpArgs: Record<string, unknown>;
+	requestedLimits: { maxBytes?: number; maxLines?: number };
+	noCache: boolean;
+} {
+	const { piMaxBytes, piMaxLines, piNoCache, ...rest } = params as Record<string, unknown> & {
+		piMaxBytes?: unknown;
+		piMaxLines?: unknown;
+		piNoCache?: unknown;
+	};
+	return {
+		mcpArgs: rest,
+		requestedLimits: {
+			maxBytes: normalizeNumber(piMaxBytes),
+			maxLines: normalizeNumber(piMaxLines),
+		},
+		noCache: normalizeBoolean(piNoCache) ?? false,
+	};
+}
+
+export function resolveEffectiveLimits(
+	requested: { maxBytes?: number; maxLines?: number },
+	maxAllowed: { maxBytes: number; maxLines: number },
+): { maxBytes: number; maxLines: number } {
+	const requestedBytes = requested.maxBytes ?? maxAllowed.maxBytes;
+	const requestedLines = requested.maxLines ?? maxAllowed.maxLines;
+	return {
+		maxBytes: Math.min(requestedBytes, maxAllowed.maxBytes),
+		maxLines: Math.min(requestedLines, maxAllowed.maxLines),
+	};
+}
+
+// Tool names the model APIs pi talks to accept.
+export const TOOL_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+// JSON Schema keywords carried over to the converted TypeBox schema as options.
+const SCHEMA_OPTION_KEYS = [
+	"title",
+	"description",
+	"default",
+	"minimum",
+	"maximum",
+	"exclusiveMinimum",
+	"exclusiveMaximum",
+	"minLength",
+	"maxLength",
+	"pattern",
+	"format",
+	"minItems",
+	"maxItems",
+	"uniqueItems",
+] as const;
+
+function pickSchemaOptions(schema: Record<string, unknown>): Record<string, unknown> {
+	const options: Record<string, unknown> = {};
+	for (const key of SCHEMA_OPTION_KEYS) {
+		if (Object.hasOwn(schema, key)) {
+			options[key] = schema[key];
+		}
+	}
+	return options;
+}
+
+/**
+ * Convert an MCP JSON Schema to TypeBox. Scalars, string enums, arrays, and
+ * objects map to their TypeBox builders; anything else (unions, `$ref`,
+ * nullable types) is passed through unchanged, which TypeBox validates as-is.
+ */
+function jsonSchemaToTypeBox(schema: unknown): TSchema {
+	if (!isRecord(schema)) {
+		return Type.Unknown();
+	}
+	const options = pickSchemaOptions(schema);
+	if (Array.isArray(schema.enum)) {
+		const values = schema.enum;
+		if (values.length > 0 && values.every((value) => typeof value === "string")) {
+			return StringEnum(values as string[], options);
+		}
+		return Type.Unsafe(schema);
+	}
+	switch (schema.type) {
+		case "string":
+			return Type.String(options);
+		case "integer":
+			return Type.Integer(options);
+		case "number":
+			return Type.Number(options);
+		case "boolean":
+			return Type.Boolean(options);
+		case "array":
+			return Type.Array(jsonSchemaToTypeBox(schema.items), options);
+		case "object":
+			return Type.Object(convertProperties(schema), {
+				...options,
+				additionalProperties: schema.additionalProperties !== false,
+			});
+		default:
+			return Type.Unsafe(schema);
+	}
+}
+
+function convertProperties(schema: Record<string, unknown>): Record<string, TSchema> {
+	const properties = isRecord(schema.properties) ? schema.properties : {};
+	const required = new Set(Array.isArray(schema.required) ? schema.required : []);
+	return Object.fromEntries(
+		Object.entries(properties).map(([key, value]) => {
+			const converted = jsonSchemaToTypeBox(value);
+			return [key, required.has(key) ? converted : Type.Optional(converted)];
+		}),
+	);
+}
+
+/**
+ * Tool parameters from an MCP `inputSchema`, with the truncation overrides
+ * added. Extra arguments stay allowed, as in the hand-tuned schemas.
+ */
+export function convertInputSchema(inputSchema: Record<string, unknown> | undefined): TSchema {
+	const schema = inputSchema ?? { type: "object" };
+	return Type.Object(
+		{ ...convertProperties(schema), ...truncationParams },
+		{ ...pickSchemaOptions(schema), additionalProperties: true },
+	);
+}
+
+/** A pi tool definition for a listed MCP tool; `name` is what pi registers it as. */
+export function toMcpToolDefinition(tool: McpToolInfo, name: string, labelPrefix: string): McpToolDefinition {
+	const description = tool.description ?? `${labelPrefix} tool ${tool.name}.`;
+	return {
+		name,
+		label: tool.title ?? `${labelPrefix} ${tool.name}`,
+		description: `${description.trimEnd()} ${TRUNCATION_NOTE}`,
+		parameters: convertInputSchema(tool.inputSchema),
+	};
+}
+
+/** The server a tool calls and how its calls are reported. */
+export interface McpToolSource {
+	client: McpHttpClient;
+	/** Shown while a call runs and in errors, e.g. `Exa MCP`. */
+	label: string;
+	getMaxLimits: () => { maxBytes: number; maxLines: number };
+	/** Hides credentials in the endpoint recorded in details. */
+	redactEndpoint: (endpoint: string) => string;
+	/** Result cache TTL for a pi tool name; 0 when the tool is not cached. */
+	getCacheTtlMs: (toolName: string) => number;
+}
+
+/**
+ * The pi tool for `definition`, calling `remoteName` on the source's server.
+ * Output is truncated to the requested limits, clamped by the configured ones.
+ * Successful results of cached tools are stored before truncation, so a hit can
+ * still be read with different limits.
+ */
+export function createMcpTool(
+	source: McpToolSource,
+	definition: McpToolDefinition,
+	remoteName: string = definition.name,
+): ToolDefinition {
+	const toolName = definition.name;
+	return {
+		name: toolName,
+		label: definition.label,
+		description: definition.description,
+		promptSnippet: definition.promptSnippet,
+		parameters: definition.parameters,
+		renderResult: definition.renderResult,
+		async execute(_toolCallId, params, signal, onUpdate, _ctx) {
+			if (signal?.aborted) {
+				return { content: [{ type: "text", text: "Cancelled." }], details: { cancelled: true } };
+			}
+			onUpdate?.({ content: [{ type: "text", text: `Querying ${source.label}...` }], details: { status: "pending" } });
+
+			try {
+				const endpoint = source.redactEndpoint(source.client.currentEndpoint());
+				const { mcpArgs, requestedLimits, noCache } = splitParams(params as Record<string, unknown>);
+				const maxLimits = source.getMaxLimits();
+				const effectiveLimits = resolveEffectiveLimits(requestedLimits, maxLimits);
+				const cacheTtlMs = source.getCacheTtlMs(toolName);
+				let cacheEntry: CacheEntry<McpToolResult> | undefined =
+					cacheTtlMs > 0 && !noCache ? readCacheEntry<McpToolResult>(toolName, mcpArgs) : undefined;
+				const cacheHit = cacheEntry !== undefined;
+				const result =
+					cacheEntry?.value ??
+					(await source.client.callTool(remoteName, mcpArgs, signal, (notification) => {
+						const status = formatMcpNotification(notification);
+						if (status) {
+							onUpdate?.({
+								content: [{ type: "text", text: `Querying ${source.label}... ${status}` }],
+								details: { status: "pending" },
+							});
+						}
+					}));
+				const { text, details } = formatToolOutput(
+					toolName,
+					endpoint,
+					result,
+					effectiveLimits,
+					definition.parseResults,
+				);
+				if (result.isError === true) {
+					throw new Error(text);
+				}
+				let cacheWriteError: string | undefined;
+				if (!cacheHit && cacheTtlMs > 0) {
+					({ entry: cacheEntry, error: cacheWriteError } = writeCacheEntry(toolName, mcpArgs, result, cacheTtlMs));
+				}
+				if (cacheEntry) {
+					details.cache = toCacheStatus(cacheEntry, cacheHit, cacheWriteError);
+				}
+				return { content: [{ type: "text", text }], details };
+			} catch (error) {
+				const message = error instanceof Error ? error.message : String(error);
+				throw Object.assign(new Error(`${source.label} error: ${message}`), {
+					details: {
+						tool: toolName,
+						endpoint: source.redactEndpoint(source.client.currentEndpoint()),
+						error: message,
+					} satisfies McpErrorDetails,
+				});
+			}
+		},
+	};
+}
@@ -0,0 +1,191 @@
+/**
+ * Structured `web_search_exa` results.
+ *
+ * Exa returns search results as text: either a JSON payload with a `results`
+ * array or blocks of `Title:` / `URL:` / `Published Date:` / `Text:` lines. They
+ * are parsed into records, numbered for the model so it can cite them as `[n]`,
+ * kept in full in the result details, and rendered in the TUI as a compact list.
+ */
+
+import type { AgentToolResult, Theme, ToolRenderResultOptions } from "@earendil-works/pi-coding-agent";
+import { type Component, Text } from "@earendil-works/pi-tui";
+import { isRecord, normalizeString } from "./utils.js";
+
+export interface SearchResult {
+	/** 1-based; the model cites the result as `[index]`. */
+	index: number;
+	title: string;
+	url: string;
+	publishedDate?: string;
+	author?: string;
+	/** The result text, highlights, or summary Exa returned. */
+	snippet: string;
+}
+
+export const CITATION_NOTE = "Cite these results as [n] when using them.";
+
+const COLLAPSED_SNIPPET_CHARS = 160;
+const COLLAPSED_FALLBACK_LINES = 10;
+
+// Labels of the text format, lowercased. Body labels start the snippet, which runs to the next `Title:`.
+const TITLE_LABELS = new Set(["title"]);
+const URL_LABELS = new Set(["url"]);
+const DATE_LABELS = new Set(["published date", "published", "publisheddate", "date"]);
+const AUTHOR_LABELS = new Set(["author"]);
+const BODY_LABELS = new Set(["text", "highlights", "summary", "content"]);
+const LABEL_PATTERN = /^([A-Za-z][A-Za-z ]{0,20}):\s?(.*)$/;
+
+/** Trimmed text; undefined for blanks and `N/A`. */
+function normalizeField(value: unknown): string | undefined {
+	const text = normalizeString(value);
+	return text && text.toUpperCase() !== "N/A" ? text : undefined;
+}
+
+/** `YYYY-MM-DD` for ISO timestamps; other dates as given. */
+function normalizeDate(value: unknown): string | undefined {
+	const text = normalizeField(value);
+	return text?.match(/^(\d{4}-\d{2}-\d{2})T/)?.[1] ?? text;
+}
+
+function fromJson(text: string): SearchResult[] | undefined {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(text);
+	} catch {
+		return undefined;
+	}
+	const items = Array.isArray(parsed) ? parsed : isRecord(parsed) ? parsed.results : undefined;
+	if (!Array.isArray(items)) {
+		return undefined;
+	}
+	const results: SearchResult[] = [];
+	for (const item of items) {
+		const url = isRecord(item) ? normalizeField(item.url) : undefined;
+		if (!isRecord(item) || !url) {
+			continue;
+		}
+		const highlights = Array.isArray(item.highlights) ? item.highlights.filter((h) => typeof h === "string") : [];
+		results.push({
+			index: results.length + 1,
+			title: normalizeField(item.title) ?? url,
+			url,
+			publishedDate: normalizeDate(item.publishedDate),
+			author: normalizeField(item.author),
+			snippet: (normalizeField(item.text) ?? normalizeField(item.summary) ?? highlights.join("\n")).trim(),
+		});
+	}
+	return results;
+}
+
+function fromLabelledText(text: string): SearchResult[] {
+	const results: SearchResult[] = [];
+	let current: { title?: string; url?: string; publishedDate?: string; author?: string; body: string[] } | undefined;
+	let inBody = false;
+	const flush = () => {
+		if (current?.url) {
+			results.push({
+				index: results.length + 1,
+				title: current.title ?? current.url,
+				url: current.url,
+				publishedDate: current.publishedDate,
+				author: current.author,
+				snippet: current.body.join("\n").trim(),
+			});
+		}
+	};
+
+	for (const line of text.split(/\r?\n/)) {
+		const match = line.match(LABEL_PATTERN);
+		const label = match?.[1].trim().toLowerCase();
+		if (label && TITLE_LABELS.has(label)) {
+			flush();
+			current = { title: normalizeField(match?.[2]), body: [] };
+			inBody = false;
+		} else if (!current) {
+			// Preamble before the first result.
+		} else if (label && !inBody && URL_LABELS.has(label)) {
+			current.url = normalizeField(match?.[2]);
+		} else if (label && !inBody && DATE_LABELS.has(label)) {
+			current.publishedDate = normalizeDate(match?.[2]);
+		} else if (label && !inBody && AUTHOR_LABELS.has(label)) {
+			current.author = normalizeField(match?.[2]);
+		} else if (label && BODY_LABELS.has(label)) {
+			inBody = true;
+			if (match?.[2].trim()) current.body.push(match[2]);
+		} else if (inBody) {
+			current.body.push(line);
+		}
+	}
+	flush();
+	return results;
+}
+
+/** Records in the order Exa returned them; empty when the text is in neither format. */
+export function parseSearchResults(text: string): SearchResult[] {
+	return fromJson(text.trim()) ?? fromLabelledText(text);
+}
+
+/** The numbered list given to the model, ending with the citation note. */
+export function formatSearchResults(results: readonly SearchResult[]): string {
+	const entries = results.map((result) => {
+		const lines = [`[${result.index}] ${result.title}`, `URL: ${result.url}`];
+		if (result.publishedDate) lines.push(`Published: ${result.publishedDate}`);
+		if (result.author) lines.push(`Author: ${result.author}`);
+		if (result.snippet) lines.push(result.snippet);
+		return lines.join("\n");
+	});
+	return `${entries.join("\n\n")}\n\n${CITATION_NOTE}`;
+}
+
+function getHost(url: string): string {
+	try {
+		return new URL(url).host.replace(/^www\./, "");
+	} catch {
+		return url;
+	}
+}
+
+function collapseSnippet(snippet: string): string {
+	const text = snippet.replace(/\s+/g, " ").trim();
+	return text.length > COLLAPSED_SNIPPET_CHARS ? `${text.slice(0, COLLAPSED_SNIPPET_CHARS - 1)}…` : text;
+}
+
+function getResultText(result: AgentToolResult<unknown>): string {
+	return result.content
+		.map((part) => (part.type === "text" ? part.text : ""))
+		.join("\n")
+		.trim();
+}
+
+/**
+ * One line per result (`[n] Title  host · date`), with a one-line snippet and
+ * the full URL when expanded. Results without parsed records show their text,
+ * cut to a few lines unless expanded.
+ */
+export function renderSearchResults(
+	result: AgentToolResult<unknown>,
+	options: ToolRenderResultOptions,
+	theme: Theme,
+): Component {
+	const records = isRecord(result.details) && Array.isArray(result.details.results) ? result.details.results : [];
+	if (options.isPartial || records.length === 0) {
+		const lines = getResultText(result).split("\n");
+		const shown = options.expanded ? lines : lines.slice(0, COLLAPSED_FALLBACK_LINES);
+		const hidden = lines.length - shown.length;
+		const more = hidden > 0 ? `\n${theme.fg("dim", `… ${hidden} more lines`)}` : "";
+		return new Text(`${theme.fg("toolOutput", shown.join("\n"))}${more}`, 0, 0);
+	}
+
+	const lines: string[] = [];
+	for (const record of records as SearchResult[]) {
+		const meta = [getHost(record.url), record.publishedDate].filter(Boolean).join(" · ");
+		lines.push(
+			`${theme.fg("accent", `[${record.index}]`)} ${theme.fg("toolOutput", record.title)}  ${theme.fg("dim", meta)}`,
+		);
+		if (options.expanded) {
+			lines.push(`    ${theme.fg("mdLinkUrl", record.url)}`);
+			if (record.snippet) lines.push(`    ${theme.fg("muted", collapseSnippet(record.snippet))}`);
+		}
+	}
+	return new Text(lines.join("\n"), 0, 0);
+}
@@ -0,0 +1,102 @@
+/**
+ * `/exa-mcp`: the effective configuration and whether the Exa server answers.
+ *
+ * Shows the config file in use (or the error that made the extension fall back
+ * to defaults), each setting with the flag, env var, or file it came from, the
+ * endpoint with the API key redacted, the registered tools, and the result of an
+ * `initialize` handshake on a new session.
+ */
+
+import type { ExtensionAPI, ExtensionCommandContext } from "@earendil-works/pi-coding-agent";
+import type { ConfigFileSource, SettingSource } from "./config.js";
+import type { McpServerInfo } from "./mcp-client.js";
+
+export const STATUS_COMMAND = "exa-mcp";
+
+export interface StatusSetting {
+	key: string;
+	/** Display value; secrets are already hidden. */
+	value: string;
+	source: SettingSource;
+	name?: string;
+}
+
+export interface ExaMcpStatus {
+	configFile?: { path: string; source: ConfigFileSource };
+	configError?: string;
+	/** Redacted. */
+	endpoint: string;
+	settings: StatusSetting[];
+	tools: string[];
+}
+
+export interface StatusProvider {
+	getStatus: () => ExaMcpStatus;
+	/** Runs `initialize` on a new session, which is closed afterwards. */
+	checkConnection: () => Promise<McpServerInfo>;
+}
+
+export type ConnectionResult = { ok: true; info: McpServerInfo; elapsedMs: number } | { ok: false; error: string };
+
+function formatSource(setting: StatusSetting): string {
+	if (setting.source === "flag") return `flag --${setting.name}`;
+	if (setting.source === "env") return `env ${setting.name}`;
+	return setting.source;
+}
+
+function formatConnection(connection: ConnectionResult): string {
+	if (!connection.ok) {
+		return `Connection: failed: ${connection.error}`;
+	}
+	const { name, version, protocolVersion } = connection.info;
+	const server = name ? `${name}${version ? ` ${version}` : ""}` : "server";
+	const protocol = protocolVersion ? `, protocol ${protocolVersion}` : "";
+	return `Connection: ok: ${server} answered initialize in ${connection.elapsedMs}ms${protocol}`;
+}
+
+export function formatStatus(status: ExaMcpStatus, connection: ConnectionResult): string {
+	const lines: string[] = [];
+	if (status.configError) {
+		lines.push(`Config: ${status.configError} (using defaults)`);
+	} else if (status.configFile) {
+		lines.push(`Config: ${status.configFile.path} (${status.configFile.source})`);
+	} else {
+		lines.push("Config: none found (using defaults)");
+	}
+	lines.push(`Endpoint: ${status.endpoint}`);
+	for (const setting of status.settings) {
+		lines.push(`  ${setting.key}: ${setting.value} (${formatSource(setting)})`);
+	}
+	lines.push(`Tools (${status.tools.length}): ${status.tools.join(", ") || "none"}`);
+	lines.push(formatConnection(connection));
+	return lines.join("\n");
+}
+
+function report(ctx: ExtensionCommandContext, message: string, level: "info" | "warning"): void {
+	if (ctx.hasUI) {
+		ctx.ui.notify(message, level);
+	} else if (level === "info") {
+		console.log(`[exa-mcp] ${message}`);
+	} else {
+		console.warn(`[exa-mcp] ${message}`);
+	}
+}
+
+export function registerStatusCommand(pi: ExtensionAPI, provider: StatusProvider): void {
+	pi.registerCommand(STATUS_COMMAND, {
+		description: "Show the Exa MCP config, its sources, registered tools, and a connectivity test",
+		handler: async (_args, ctx) => {
+			const status = provider.getStatus();
+			const startedAt = Date.now();
+			let connection: ConnectionResult;
+			try {
+				const info = await provider.checkConnection();
+				connection = { ok: true, info, elapsedMs: Date.now() - startedAt };
+			} catch (error) {
+				connection = { ok: false, error: error instanceof Error ? error.message : String(error) };
+			}
+			const healthy = connection.ok && !status.configError;
+			report(ctx, formatStatus(status, connection), healthy ? "info" : "warning");
+		},
+	});
+}
@@ -0,0 +1,70 @@
+/**
+ * Small value helpers shared by the config loaders, the MCP client, and tool output.
+ */
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function toJsonString(value: unknown): string {
+	if (typeof value === "string") {
+		return value;
+	}
+	try {
+		return JSON.stringify(value, null, 2);
+	} catch {
+		return String(value);
+	}
+}
+
+export function normalizeString(value: unknown): string | undefined {
+	if (typeof value !== "string") {
+		return undefined;
+	}
+	const trimmed = value.trim();
+	return trimmed.length > 0 ? trimmed : undefined;
+}
+
+export function normalizeNumber(value: unknown): number | undefined {
+	if (typeof value === "number" && Number.isFinite(value)) {
+		return value;
+	}
+	if (typeof value === "string") {
+		const parsed = Number(value);
+		if (Number.isFinite(parsed)) {
+			return parsed;
+		}
+	}
+	return undefined;
+}
+
+export function normalizeBoolean(value: unknown): boolean | undefined {
+	if (typeof value === "boolean") {
+		return value;
+	}
+	if (typeof value === "string") {
+		const normalized = value.trim().toLowerCase();
+		if (normalized === "true" || normalized === "1") {
+			return true;
+		}
+		if (normalized === "false" || normalized === "0") {
+			return false;
+		}
+	}
+	return undefined;
+}
+
+export function normalizeTools(value: unknown): string[] | undefined {
+	if (typeof value === "string") {
+		const tools = value
+			.split(",")
+			.map((tool) => tool.trim())
+			.filter((tool) => tool.length > 0);
+		return tools.length > 0 ? tools : undefined;
+	}
+	if (Array.isArray(value)) {
+		const tools = value.map((tool) => (typeof tool === "string" ? tool.trim() : "")).filter((tool) => tool.length > 0);
+		return tools.length > 0 ? tools : undefined;
+	}
+	return undefined;
+}
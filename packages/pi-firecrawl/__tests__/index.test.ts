@@ -19,6 +19,8 @@ const createMockPi = () =>
 		registerFlag: vi.fn(),
 		getFlag: vi.fn(() => undefined),
 		registerTool: vi.fn(),
+		registerCommand: vi.fn(),
+		on: vi.fn(),
 	}) satisfies Partial<ExtensionAPI>;
 
 describe("pi-firecrawl", () => {
@@ -172,6 +174,8 @@ describe("pi-firecrawl", () => {
 				registerFlag: vi.fn(),
 				getFlag: vi.fn((name: string) => (name === "firecrawl-config" ? configPath : undefined)),
 				registerTool: vi.fn(),
+				registerCommand: vi.fn(),
+				on: vi.fn(),
 			} satisfies Partial<ExtensionAPI>;
 			piFirecrawl(mockPi as unknown as ExtensionAPI);
 
@@ -200,4 +204,46 @@ describe("pi-firecrawl", () => {
 			}
 		}
 	});
+
+	it("answers a repeated call from the result cache unless piNoCache is set", async () => {
+		const fetchSpy = vi
+			.spyOn(globalThis, "fetch")
+			.mockImplementation(async () =>
+				Response.json({ success: true, data: { markdown: "# Example", metadata: { title: "Example" } } }),
+			);
+		try {
+			const mockPi = createMockPi();
+			piFirecrawl(mockPi as unknown as ExtensionAPI);
+			const scrape = mockPi.registerTool.mock.calls
+				.map(([tool]) => tool)
+				.find((tool) => tool.name === "firecrawl_scrape");
+			const ctx = { hasUI: false } as unknown as ExtensionContext;
+
+			const fresh = await scrape.execute("call-1", { url: "https://example.com" }, undefined, undefined, ctx);
+			const cached = await scrape.execute(
+				"call-2",
+				{ url: "https://example.com", piMaxLines: 1 },
+				undefined,
+				undefined,
+				ctx,
+			);
+			expect(fetchSpy).toHaveBeenCalledTimes(1);
+			expect(fresh.details.cache.hit).toBe(false);
+			expect(cached.details.cache).toEqual({ ...fresh.details.cache, hit: true });
+			expect(cached.content[0].text).toMatch(/^# Example\n\n\[Output truncated/);
+
+			const bypassed = await scrape.execute(
+				"call-3",
+				{ url: "https://example.com", piNoCache: true },
+				undefined,
+				undefined,
+				ctx,
+			);
+			expect(fetchSpy).toHaveBeenCalledTimes(2);
+			expect(fetchSpy.mock.calls[1][1]?.body).toBe(JSON.stringify({ url: "https://example.com" }));
+			expect(bypassed.details.cache.hit).toBe(false);
+		} finally {
+			fetchSpy.mockRestore();
+		}
+	});
 });
@@ -1,6 +1,18 @@
 import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
 import { homedir, tmpdir } from "node:os";
 import { dirname, isAbsolute, join, resolve } from "node:path";
+import {
+	type CacheConfig,
+	type CacheEntry,
+	type CacheStatus,
+	cacheParams,
+	parseCacheConfig,
+	readCacheEntry,
+	registerWebCacheCommand,
+	resolveCacheTtlMs,
+	toCacheStatus,
+	writeCacheEntry,
+} from "@benvargas/pi-web-cache";
 import { StringEnum } from "@earendil-works/pi-ai";
 import type { ExtensionAPI, ExtensionContext } from "@earendil-works/pi-coding-agent";
 import {
@@ -25,6 +37,13 @@ const DEFAULT_CONFIG_FILE: Record<string, unknown> = {
 	maxBytes: DEFAULT_MAX_BYTES,
 	maxLines: DEFAULT_MAX_LINES,
 };
+const WEB_CACHE_COMMAND = "firecrawl-cache";
+// Scrapes and maps change slowly; search results go stale sooner.
+const DEFAULT_CACHE_TTL_SECONDS: Readonly<Record<string, number>> = {
+	firecrawl_scrape: 24 * 60 * 60,
+	firecrawl_map: 24 * 60 * 60,
+	firecrawl_search: 60 * 60,
+};
 
 interface FirecrawlConfig {
 	url?: string;
@@ -34,6 +53,7 @@ interface FirecrawlConfig {
 	tools?: string[];
 	maxBytes?: number;
 	maxLines?: number;
+	cache?: CacheConfig;
 }
 
 interface FirecrawlRequestConfig {
@@ -44,6 +64,7 @@ interface FirecrawlRequestConfig {
 	tools?: string[];
 	maxBytes?: number;
 	maxLines?: number;
+	cache?: CacheConfig;
 }
 
 interface FirecrawlResponse {
@@ -68,6 +89,8 @@ interface ToolOutputDetails {
 		maxBytes: number;
 	};
 	tempFile?: string;
+	/** Set when the tool is cached: whether this result came from the cache. */
+	cache?: CacheStatus;
 }
 
 function isRecord(value: unknown): value is Record<string, unknown> {
@@ -106,6 +129,15 @@ function normalizeNumber(value: unknown): number | undefined {
 	return undefined;
 }
 
+function normalizeBoolean(value: unknown): boolean | undefined {
+	if (typeof value === "boolean") return value;
+	if (typeof value !== "string") return undefined;
+	const normalized = value.trim().toLowerCase();
+	if (normalized === "true" || normalized === "1") return true;
+	if (normalized === "false" || normalized === "0") return false;
+	return undefined;
+}
+
 function normalizeHeaders(value: unknown): Record<string, string> | undefined {
 	if (!isRecord(value)) return undefined;
 	const headers: Record<string, string> = {};
@@ -147,10 +179,12 @@ function redactUrl(url: string, apiKey?: string): string {
 function splitParams(params: Record<string, unknown>): {
 	apiArgs: Record<string, unknown>;
 	requestedLimits: { maxBytes?: number; maxLines?: number };
+	noCache: boolean;
 } {
-	const { piMaxBytes, piMaxLines, ...rest } = params as Record<string, unknown> & {
+	const { piMaxBytes, piMaxLines, piNoCache, ...rest } = params as Record<string, unknown> & {
 		piMaxBytes?: unknown;
 		piMaxLines?: unknown;
+		piNoCache?: unknown;
 	};
 	return {
 		apiArgs: rest,
@@ -158,6 +192,7 @@ function splitParams(params: Record<string, unknown>): {
 			maxBytes: normalizeNumber(piMaxBytes),
 			maxLines: normalizeNumber(piMaxLines),
 		},
+		noCache: normalizeBoolean(piNoCache) ?? false,
 	};
 }
 
@@ -246,6 +281,7 @@ function parseConfig(raw: unknown, pathHint: string): FirecrawlConfig {
 		tools: normalizeTools(raw.tools),
 		maxBytes: normalizeNumber(raw.maxBytes),
 		maxLines: normalizeNumber(raw.maxLines),
+		cache: parseCacheConfig(raw.cache),
 	};
 }
 
@@ -387,6 +423,7 @@ function formatResponse(
 const piLimitFields = {
 	piMaxBytes: Type.Optional(Type.Integer({ description: "Client-side max bytes override (clamped by config)." })),
 	piMaxLines: Type.Optional(Type.Integer({ description: "Client-side max lines override (clamped by config)." })),
+	...cacheParams,
 };
 
 const scrapeParams = Type.Object(
@@ -471,6 +508,10 @@ export default function piFirecrawl(pi: ExtensionAPI) {
 		description: "Max lines to keep from tool output (default: 2000).",
 		type: "string",
 	});
+	pi.registerFlag("firecrawl-cache", {
+		description: "Cache tool results locally, with per-tool TTLs from the config (default: true).",
+		type: "string",
+	});
 
 	function getConfig(ctx?: ExtensionContext): FirecrawlRequestConfig {
 		const configFlag = pi.getFlag("firecrawl-config");
@@ -482,6 +523,7 @@ export default function piFirecrawl(pi: ExtensionAPI) {
 		const toolsFlag = pi.getFlag("firecrawl-tools");
 		const maxBytesFlag = pi.getFlag("firecrawl-max-bytes");
 		const maxLinesFlag = pi.getFlag("firecrawl-max-lines");
+		const cacheFlag = pi.getFlag("firecrawl-cache");
 
 		const apiKey =
 			typeof apiKeyFlag === "string" ? apiKeyFlag : (process.env.FIRECRAWL_API_KEY ?? config?.apiKey ?? undefined);
@@ -512,7 +554,11 @@ export default function piFirecrawl(pi: ExtensionAPI) {
 				? normalizeNumber(maxLinesFlag)
 				: normalizeNumber(process.env.FIRECRAWL_MAX_LINES ?? config?.maxLines);
 
-		return { baseUrl, headers, timeoutMs, apiKey, tools, maxBytes, maxLines };
+		const cacheEnabled =
+			typeof cacheFlag === "string" ? normalizeBoolean(cacheFlag) : normalizeBoolean(process.env.FIRECRAWL_CACHE);
+		const cache = cacheEnabled === undefined ? config?.cache : { ...config?.cache, enabled: cacheEnabled };
+
+		return { baseUrl, headers, timeoutMs, apiKey, tools, maxBytes, maxLines, cache };
 	}
 
 	const initialConfig = getConfig();
@@ -552,13 +598,25 @@ export default function piFirecrawl(pi: ExtensionAPI) {
 				const config = getConfig(ctx);
 				const safeBaseUrl = redactUrl(config.baseUrl, config.apiKey);
 				const maxLimits = resolveMaxLimits(config);
-				const { apiArgs, requestedLimits } = splitParams(params as Record<string, unknown>);
+				const { apiArgs, requestedLimits, noCache } = splitParams(params as Record<string, unknown>);
 				const effectiveLimits = resolveEffectiveLimits(requestedLimits, maxLimits);
+				const cacheTtlMs = resolveCacheTtlMs(name, config.cache, DEFAULT_CACHE_TTL_SECONDS);
 
 				try {
-					const response = await firecrawlFetch(config, path, apiArgs, signal);
+					// The raw response is cached, so a hit is formatted and truncated like a fresh one.
+					let cacheEntry: CacheEntry<FirecrawlResponse> | undefined =
+						cacheTtlMs > 0 && !noCache ? readCacheEntry<FirecrawlResponse>(name, apiArgs) : undefined;
+					const cacheHit = cacheEntry !== undefined;
+					const response = cacheEntry?.value ?? (await firecrawlFetch(config, path, apiArgs, signal));
+					let cacheWriteError: string | undefined;
+					if (!cacheHit && cacheTtlMs > 0) {
+						({ entry: cacheEntry, error: cacheWriteError } = writeCacheEntry(name, apiArgs, response, cacheTtlMs));
+					}
 					const responseText = formatResponse(name, response);
 					const { text, details } = formatToolOutput(name, safeBaseUrl, responseText, effectiveLimits);
+					if (cacheEntry) {
+						details.cache = toCacheStatus(cacheEntry, cacheHit, cacheWriteError);
+					}
 					return { content: [{ type: "text", text }], details };
 				} catch (error) {
 					const message = error instanceof Error ? error.message : String(error);
@@ -570,6 +628,8 @@ export default function piFirecrawl(pi: ExtensionAPI) {
 		});
 	};
 
+	registerWebCacheCommand(pi, WEB_CACHE_COMMAND);
+
 	registerTool(
 		"firecrawl_scrape",
 		"Firecrawl Scrape",
@@ -0,0 +1,71 @@
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { describe, expect, it } from "vitest";
+import {
+	buildFallbackModelsSource,
+	formatCatalogDrift,
+	getCatalogDrift,
+	readCatalogFile,
+} from "../extensions/catalog-drift.js";
+
+const FIXTURE_PATH = join(dirname(fileURLToPath(import.meta.url)), "fixtures", "synthetic-models.json");
+
+describe("catalog drift", () => {
+	it("reports added, removed, repriced, resized, and re-efforted models from a saved catalog", () => {
+		const drift = getCatalogDrift(readCatalogFile(FIXTURE_PATH));
+
+		expect(drift.added).toEqual(["hf:deepseek-ai/DeepSeek-V4"]);
+		expect(drift.removed).toEqual(["hf:MiniMaxAI/MiniMax-M3"]);
+		expect(drift.changes).toEqual([
+			{ id: "hf:zai-org/GLM-5.2", field: "cost.input", from: "1", to: "0.8" },
+			{ id: "hf:Qwen/Qwen3.6-27B", field: "contextWindow", from: "262144", to: "393216" },
+			{
+				id: "hf:zai-org/GLM-4.7-Flash",
+				field: "efforts",
+				from: "none, low, medium, high",
+				to: "none, low, medium, high, xhigh",
+			},
+		]);
+		expect(formatCatalogDrift(drift)).toEqual([
+			"Fallback snapshot drift: 1 added, 1 removed, 3 changed",
+			"  + hf:deepseek-ai/DeepSeek-V4",
+			"  - hf:MiniMaxAI/MiniMax-M3",
+			"  ~ hf:zai-org/GLM-5.2 cost.input: 1 → 0.8",
+			"  ~ hf:Qwen/Qwen3.6-27B contextWindow: 262144 → 393216",
+			"  ~ hf:zai-org/GLM-4.7-Flash efforts: none, low, medium, high → none, low, medium, high, xhigh",
+		]);
+	});
+
+	it("reads the provider's catalog cache as well as a raw response", () => {
+		const dir = mkdtempSync(join(tmpdir(), "pi-synthetic-drift-"));
+		const cachePath = join(dir, "models.json");
+		writeFileSync(
+			cachePath,
+			JSON.stringify({ version: 1, fetchedAt: "2026-10-01T00:00:00.000Z", response: { data: [] } }),
+		);
+		const badPath = join(dir, "bad.json");
+		writeFileSync(badPath, JSON.stringify({ models: [] }));
+
+		expect(readCatalogFile(cachePath)).toEqual({ data: [] });
+		expect(() => readCatalogFile(badPath)).toThrow('expected a "data" array');
+	});
+
+	it("regenerates getFallbackModels() from the catalog", () => {
+		const source = buildFallbackModelsSource(readCatalogFile(FIXTURE_PATH), new Date("2026-10-19T12:00:00Z"));
+
+		expect(source).toContain(" * Model metadata last updated: 2026-10-19");
+		expect(source).toContain(" * - `syn:large:vision` → moonshotai/Kimi-K3");
+		expect(source).toContain("export function getFallbackModels(): ProviderModelConfig[] {");
+		expect(source).toMatch(/id: "syn:large:text",[\s\S]*?compat: SYNTHETIC_COMPAT,/);
+		expect(source).toContain("\t\t\tid: GLM_5_2_MODEL_ID,\n");
+		expect(source).toContain("...getSyntheticModelOverrides(GLM_5_2_MODEL_ID),");
+		expect(source).toContain('...createReasoningOverrides(["none", "low", "medium", "high", "xhigh"]),');
+		expect(source).toMatch(
+			/id: "hf:deepseek-ai\/DeepSeek-V4",[\s\S]*?input: 0\.6,[\s\S]*?createReasoningOverrides\(\["none", "high"\]\)/,
+		);
+		expect(source).not.toContain("MiniMax-M3");
+		expect(source).not.toContain("Llama-4-Scout");
+	});
+});
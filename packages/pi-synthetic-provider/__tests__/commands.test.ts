@@ -1,7 +1,18 @@
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
 import type { ExtensionAPI } from "@earendil-works/pi-coding-agent";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getActiveSyntheticAccount, setActiveSyntheticAccount } from "../extensions/auth.js";
+import { registerSyntheticAccountCommand } from "../extensions/commands/synthetic-account.js";
+import { registerSyntheticDoctorCommand } from "../extensions/commands/synthetic-doctor.js";
+import { registerSyntheticDriftCommand } from "../extensions/commands/synthetic-drift.js";
 import { registerSyntheticModelsCommand } from "../extensions/commands/synthetic-models.js";
 import { registerSyntheticQuotaCommand } from "../extensions/commands/synthetic-quota.js";
+import { registerSyntheticUsageCommand } from "../extensions/commands/synthetic-usage.js";
+import { getFallbackModels } from "../extensions/models.js";
+import { getQuotaHistoryPath } from "../extensions/quota-history.js";
 
 // ---------------------------------------------------------------------------
 // Module-level mock for @earendil-works/pi-tui
@@ -9,12 +20,14 @@ import { registerSyntheticQuotaCommand } from "../extensions/commands/synthetic-
 // ---------------------------------------------------------------------------
 
 interface MockSelectList {
+	items: { value: string; label: string }[];
 	onSelectionChange?: (item: { value: string }) => void;
 	onSelect?: (item: { value: string }) => void;
 	onCancel?: () => void;
 	handleInput: ReturnType<typeof vi.fn>;
 	render: ReturnType<typeof vi.fn>;
 	invalidate: ReturnType<typeof vi.fn>;
+	setSelectedIndex: (index: number) => void;
 }
 
 interface MockText {
@@ -23,6 +36,7 @@ interface MockText {
 
 let lastSelectList: MockSelectList | null = null;
 let lastDetailsText: MockText | null = null;
+let createdTexts: MockText[] = [];
 
 vi.mock("@earendil-works/pi-tui", async (importOriginal) => {
 	const original = await importOriginal<typeof import("@earendil-works/pi-tui")>();
@@ -42,17 +56,27 @@ vi.mock("@earendil-works/pi-tui", async (importOriginal) => {
 	class MockTextImpl {
 		setText = vi.fn();
 		constructor(initialText: string) {
+			createdTexts.push(this);
 			if (initialText === "") lastDetailsText = this;
 		}
 	}
 	class MockSelectListImpl {
+		items: { value: string; label: string }[];
 		onSelectionChange?: (item: { value: string }) => void;
 		onSelect?: (item: { value: string }) => void;
 		onCancel?: () => void;
 		handleInput = vi.fn();
 		render = vi.fn().mockReturnValue([]);
 		invalidate = vi.fn();
-		constructor() {
+		selectedIndex = 0;
+		setSelectedIndex(index: number) {
+			this.selectedIndex = index;
+		}
+		getSelectedItem() {
+			return this.items[this.selectedIndex] ?? null;
+		}
+		constructor(items: { value: string; label: string }[]) {
+			this.items = items;
 			lastSelectList = this;
 		}
 	}
@@ -93,6 +117,8 @@ interface RendererResult {
 const createMockPi = () =>
 	({
 		registerCommand: vi.fn(),
+		registerFlag: vi.fn(),
+		getFlag: vi.fn(),
 		setModel: vi.fn(),
 	}) satisfies Partial<ExtensionAPI>;
 
@@ -142,13 +168,19 @@ function createCapturingCustomMock() {
 }
 
 const createMockCtx = (
-	overrides: { hasUI?: boolean; isIdle?: boolean; apiKey?: string | undefined } = {},
+	overrides: { hasUI?: boolean; isIdle?: boolean; apiKey?: string | undefined; entries?: unknown[] } = {},
 	customMock?: ReturnType<typeof vi.fn>,
 ) => ({
 	hasUI: overrides.hasUI ?? true,
+	cwd: process.cwd(),
+	sessionManager: {
+		getEntries: vi.fn().mockReturnValue(overrides.entries ?? []),
+		getSessionId: vi.fn().mockReturnValue("session-1"),
+	},
 	isIdle: vi.fn().mockReturnValue(overrides.isIdle ?? true),
 	ui: {
 		notify: vi.fn(),
+		select: vi.fn(),
 		custom: customMock ?? vi.fn().mockResolvedValue(undefined),
 	},
 	modelRegistry: {
@@ -190,12 +222,15 @@ describe("/synthetic-models command", () => {
 		vi.stubGlobal("fetch", vi.fn());
 		lastSelectList = null;
 		lastDetailsText = null;
+		createdTexts = [];
 	});
 	afterEach(() => {
 		vi.unstubAllGlobals();
 	});
 
-	it("exits early when ctx.hasUI is false", async () => {
+	it("prints the catalog table without a UI", async () => {
+		const log = vi.spyOn(console, "log").mockImplementation(() => {});
+		vi.mocked(fetch).mockResolvedValue(SINGLE_MODEL_RESPONSE as unknown as Response);
 		const mockPi = createMockPi();
 		registerSyntheticModelsCommand(mockPi as unknown as ExtensionAPI);
 		const handler = getHandler(mockPi, "synthetic-models");
@@ -203,8 +238,54 @@ describe("/synthetic-models command", () => {
 		const ctx = createMockCtx({ hasUI: false });
 		await handler("", ctx);
 
+		const output = String(log.mock.calls[0][0]);
+		expect(output).toContain("1 always-on models");
+		expect(output).toMatch(/synthetic\s+hf:test\/model/);
+		expect(fetch).toHaveBeenCalledWith(
+			expect.any(String),
+			expect.objectContaining({ signal: expect.any(AbortSignal) }),
+		);
 		expect(ctx.ui.notify).not.toHaveBeenCalled();
 		expect(ctx.ui.custom).not.toHaveBeenCalled();
+		log.mockRestore();
+	});
+
+	it("prints the catalog as JSON with --json", async () => {
+		const log = vi.spyOn(console, "log").mockImplementation(() => {});
+		vi.mocked(fetch).mockResolvedValue(SINGLE_MODEL_RESPONSE as unknown as Response);
+		const mockPi = createMockPi();
+		registerSyntheticModelsCommand(mockPi as unknown as ExtensionAPI);
+		const handler = getHandler(mockPi, "synthetic-models");
+
+		await handler("--json", createMockCtx({ hasUI: false }));
+
+		const output = JSON.parse(String(log.mock.calls[0][0]));
+		expect(output.models).toEqual([
+			expect.objectContaining({
+				id: "hf:test/model",
+				contextLength: 128000,
+				capabilities: ["reason", "tools"],
+				reasoningEfforts: ["low", "high", "max"],
+			}),
+		]);
+		expect(output.models[0].pricing.input).toBeCloseTo(0.001);
+		log.mockRestore();
+	});
+
+	it("reports headless fetch failures on stderr", async () => {
+		const log = vi.spyOn(console, "log").mockImplementation(() => {});
+		const error = vi.spyOn(console, "error").mockImplementation(() => {});
+		vi.mocked(fetch).mockResolvedValue({ ok: false, status: 503, statusText: "Unavailable" } as Response);
+		const mockPi = createMockPi();
+		registerSyntheticModelsCommand(mockPi as unknown as ExtensionAPI);
+		const handler = getHandler(mockPi, "synthetic-models");
+
+		await handler("--json", createMockCtx({ hasUI: false }));
+
+		expect(error).toHaveBeenCalledWith(expect.stringContaining("503"));
+		expect(log).not.toHaveBeenCalled();
+		log.mockRestore();
+		error.mockRestore();
 	});
 
 	it("warns and exits when not idle", async () => {
@@ -264,6 +345,109 @@ describe("/synthetic-models command", () => {
 		expect(doneFn).toHaveBeenCalledTimes(1);
 	});
 
+	it("filters by typed text and capability toggles, and cycles sort modes with Tab", async () => {
+		const catalogModel = (id: string, prompt: string, features: string[], inputModalities = ["text"]) => ({
+			id,
+			hugging_face_id: id.replace("hf:", ""),
+			name: id,
+			input_modalities: inputModalities,
+			output_modalities: ["text"],
+			context_length: 128000,
+			max_output_length: 32768,
+			pricing: { prompt, completion: "$0.000002" },
+			supported_features: features,
+			always_on: true,
+			provider: "synthetic",
+		});
+		vi.mocked(fetch).mockResolvedValue({
+			ok: true,
+			json: vi.fn().mockResolvedValue({
+				data: [
+					catalogModel("hf:zai-org/GLM-5.2", "$0.000002", ["tools", "reasoning"]),
+					catalogModel("hf:moonshotai/Kimi-K3", "$0.000001", ["tools"], ["text", "image"]),
+					catalogModel("hf:zai-org/GLM-4.7-Flash", "$0.0000001", ["tools"]),
+				],
+			}),
+		} as unknown as Response);
+		const mockPi = createMockPi();
+		registerSyntheticModelsCommand(mockPi as unknown as ExtensionAPI);
+		const handler = getHandler(mockPi, "synthetic-models");
+
+		const { customFn, getCapturedRenderer } = createCapturingCustomMock();
+		await handler("", createMockCtx({}, customFn));
+		const renderer = getCapturedRenderer();
+		const visibleIds = () => lastSelectList?.items.map((item) => item.value.replace("synthetic:", ""));
+
+		expect(visibleIds()).toEqual(["hf:moonshotai/Kimi-K3", "hf:zai-org/GLM-4.7-Flash", "hf:zai-org/GLM-5.2"]);
+
+		for (const key of "glm") renderer.handleInput(key);
+		expect(visibleIds()).toEqual(["hf:zai-org/GLM-4.7-Flash", "hf:zai-org/GLM-5.2"]);
+
+		renderer.handleInput("\t"); // Tab: sort by input price
+		expect(visibleIds()).toEqual(["hf:zai-org/GLM-4.7-Flash", "hf:zai-org/GLM-5.2"]);
+
+		renderer.handleInput("\x12"); // Ctrl+R: reasoning only
+		expect(visibleIds()).toEqual(["hf:zai-org/GLM-5.2"]);
+
+		renderer.handleInput("\x1b"); // Esc clears the filter instead of closing
+		expect(visibleIds()).toEqual(["hf:zai-org/GLM-4.7-Flash", "hf:moonshotai/Kimi-K3", "hf:zai-org/GLM-5.2"]);
+
+		renderer.handleInput("\x16"); // Ctrl+V: vision only
+		expect(visibleIds()).toEqual(["hf:moonshotai/Kimi-K3"]);
+	});
+
+	it("marks rows and compares them side by side with a turn cost estimate", async () => {
+		const catalogModel = (id: string, prompt: string, completion: string) => ({
+			id,
+			hugging_face_id: id.replace("hf:", ""),
+			name: id.replace("hf:", ""),
+			input_modalities: ["text"],
+			output_modalities: ["text"],
+			context_length: 200000,
+			max_output_length: 32768,
+			pricing: { prompt, completion },
+			supported_features: ["tools"],
+			always_on: true,
+			provider: "synthetic",
+		});
+		vi.mocked(fetch).mockResolvedValue({
+			ok: true,
+			json: vi.fn().mockResolvedValue({
+				data: [
+					catalogModel("hf:moonshotai/Kimi-K3", "$0.000001", "$0.000004"),
+					catalogModel("hf:zai-org/GLM-5.2", "$0.000002", "$0.000002"),
+				],
+			}),
+		} as unknown as Response);
+		const mockPi = createMockPi();
+		mockPi.getFlag.mockImplementation((name: string) => (name === "synthetic-compare-turn" ? "10k:1k" : undefined));
+		registerSyntheticModelsCommand(mockPi as unknown as ExtensionAPI);
+		const handler = getHandler(mockPi, "synthetic-models");
+
+		const { customFn, getCapturedRenderer } = createCapturingCustomMock();
+		const ctx = createMockCtx({}, customFn);
+		await handler("", ctx);
+		const renderer = getCapturedRenderer();
+
+		renderer.handleInput("\x18"); // Ctrl+X marks the first row
+		renderer.handleInput("\x0f"); // Ctrl+O with one mark
+		expect(ctx.ui.notify).toHaveBeenCalledWith(expect.stringContaining("at least two"), "warning");
+
+		lastSelectList?.setSelectedIndex(1);
+		renderer.handleInput("\x18");
+		expect(lastSelectList?.items.map((item) => item.label.startsWith("● "))).toEqual([true, true]);
+
+		renderer.handleInput("\x0f");
+		const comparison = createdTexts
+			.flatMap((text) => text.setText.mock.calls.map(([value]) => String(value)))
+			.find((value) => value.includes("Turn cost"));
+		expect(comparison).toMatch(/Turn cost\s+\$0\.01\s+\$0\.02/);
+		expect(comparison).toMatch(/vs cheapest\s+cheapest\s+\+\$0\.0080/);
+
+		renderer.handleInput("\x1b"); // Esc returns to the catalog rather than closing
+		expect(lastSelectList?.onCancel).toBeDefined();
+	});
+
 	it("onSelect switches model when registered", async () => {
 		const mockPi = createMockPi();
 		mockPi.setModel.mockResolvedValue(true);
@@ -334,6 +518,87 @@ describe("/synthetic-models command", () => {
 		expect(mockPi.setModel).not.toHaveBeenCalled();
 	});
 
+	describe("with on-demand models enabled", () => {
+		const catalogRow = (id: string, alwaysOn: boolean, features: string[]) => ({
+			id,
+			hugging_face_id: id.replace("hf:", ""),
+			name: id.replace("hf:", ""),
+			input_modalities: ["text"],
+			output_modalities: ["text"],
+			context_length: 128000,
+			max_output_length: 32768,
+			pricing: { prompt: "$0.000001", completion: "$0.000002" },
+			supported_features: features,
+			always_on: alwaysOn,
+			provider: "synthetic",
+		});
+		const MIXED_RESPONSE = {
+			ok: true,
+			json: vi.fn().mockResolvedValue({
+				data: [
+					catalogRow("hf:zai-org/GLM-5.2", true, ["tools"]),
+					catalogRow("hf:deepseek-ai/DeepSeek-V4", false, ["tools"]),
+					catalogRow("hf:example/embedder", true, []),
+				],
+			}),
+		};
+		const createOnDemandPi = () => {
+			const mockPi = createMockPi();
+			mockPi.getFlag.mockImplementation((name: string) => name === "synthetic-on-demand");
+			return mockPi;
+		};
+
+		it("lists on-demand rows with a marker and excluded rows with their reason", async () => {
+			vi.mocked(fetch).mockResolvedValue(MIXED_RESPONSE as unknown as Response);
+			const mockPi = createOnDemandPi();
+			registerSyntheticModelsCommand(mockPi as unknown as ExtensionAPI);
+			const handler = getHandler(mockPi, "synthetic-models");
+
+			const { customFn } = createCapturingCustomMock();
+			const ctx = createMockCtx({}, customFn);
+			await handler("", ctx);
+
+			const labels = Object.fromEntries(
+				lastSelectList?.items.map((item) => [item.value.replace("synthetic:", ""), item.label]) ?? [],
+			);
+			expect(labels["hf:zai-org/GLM-5.2"]).not.toMatch(/on-demand|excluded/);
+			expect(labels["hf:deepseek-ai/DeepSeek-V4"]).toMatch(/ on-demand$/);
+			expect(labels["hf:example/embedder"]).toContain("excluded: no tool calling support (pi's agent requires tools)");
+
+			lastSelectList?.onSelect?.({ value: "synthetic:hf:example/embedder" });
+			await vi.waitFor(() => {
+				expect(ctx.ui.notify).toHaveBeenCalledWith(
+					"Model synthetic/hf:example/embedder is not selectable: no tool calling support (pi's agent requires tools)",
+					"warning",
+				);
+			});
+			expect(ctx.modelRegistry.find).not.toHaveBeenCalled();
+		});
+
+		it("includes availability and exclusion reasons in --json output", async () => {
+			const log = vi.spyOn(console, "log").mockImplementation(() => {});
+			vi.mocked(fetch).mockResolvedValue(MIXED_RESPONSE as unknown as Response);
+			const mockPi = createOnDemandPi();
+			registerSyntheticModelsCommand(mockPi as unknown as ExtensionAPI);
+
+			await getHandler(mockPi, "synthetic-models")("--json", createMockCtx({ hasUI: false }));
+
+			const output = JSON.parse(String(log.mock.calls[0][0]));
+			expect(
+				output.models.map((record: { id: string; alwaysOn: boolean; excludedReason?: string }) => [
+					record.id,
+					record.alwaysOn,
+					record.excludedReason,
+				]),
+			).toEqual([
+				["hf:deepseek-ai/DeepSeek-V4", false, undefined],
+				["hf:example/embedder", true, "no tool calling support (pi's agent requires tools)"],
+				["hf:zai-org/GLM-5.2", true, undefined],
+			]);
+			log.mockRestore();
+		});
+	});
+
 	it("warns when no always-on models are returned", async () => {
 		const mockPi = createMockPi();
 		registerSyntheticModelsCommand(mockPi as unknown as ExtensionAPI);
@@ -373,13 +638,21 @@ describe("/synthetic-models command", () => {
 
 describe("/synthetic-quota command", () => {
 	let savedApiKey: string | undefined;
+	let previousAgentDir: string | undefined;
 
 	beforeEach(() => {
 		vi.stubGlobal("fetch", vi.fn());
 		savedApiKey = process.env.SYNTHETIC_API_KEY;
+		previousAgentDir = process.env.PI_CODING_AGENT_DIR;
+		process.env.PI_CODING_AGENT_DIR = mkdtempSync(join(tmpdir(), "pi-synthetic-agent-"));
 	});
 	afterEach(() => {
 		vi.unstubAllGlobals();
+		if (previousAgentDir === undefined) {
+			delete process.env.PI_CODING_AGENT_DIR;
+		} else {
+			process.env.PI_CODING_AGENT_DIR = previousAgentDir;
+		}
 		if (savedApiKey !== undefined) {
 			process.env.SYNTHETIC_API_KEY = savedApiKey;
 		} else {
@@ -387,7 +660,21 @@ describe("/synthetic-quota command", () => {
 		}
 	});
 
-	it("exits early when ctx.hasUI is false", async () => {
+	it("prints quota buckets without a UI", async () => {
+		const log = vi.spyOn(console, "log").mockImplementation(() => {});
+		vi.mocked(fetch).mockResolvedValue({
+			ok: true,
+			json: vi.fn().mockResolvedValue({
+				rollingFiveHourLimit: {
+					nextTickAt: new Date(Date.now() + 3600_000).toISOString(),
+					tickPercent: 0.1,
+					remaining: 0,
+					max: 100,
+					limited: true,
+				},
+				weeklyTokenLimit: { nextRegenAt: new Date(Date.now() + 3600_000).toISOString(), percentRemaining: 75 },
+			}),
+		} as unknown as Response);
 		const mockPi = createMockPi();
 		registerSyntheticQuotaCommand(mockPi as unknown as ExtensionAPI);
 		const handler = getHandler(mockPi, "synthetic-quota");
@@ -395,8 +682,66 @@ describe("/synthetic-quota command", () => {
 		const ctx = createMockCtx({ hasUI: false });
 		await handler("", ctx);
 
+		const output = String(log.mock.calls[0][0]);
+		expect(output).toContain("Enhanced quota system");
+		expect(output).toMatch(/Rolling 5h limit\s+LIMITED/);
+		expect(output).toMatch(/Weekly token limit\s+25\.00% used/);
 		expect(ctx.ui.notify).not.toHaveBeenCalled();
 		expect(ctx.ui.custom).not.toHaveBeenCalled();
+		log.mockRestore();
+	});
+
+	it("prints quota as JSON with --json", async () => {
+		const log = vi.spyOn(console, "log").mockImplementation(() => {});
+		const renewsAt = new Date(Date.now() + 3600_000).toISOString();
+		vi.mocked(fetch).mockResolvedValue({
+			ok: true,
+			json: vi.fn().mockResolvedValue({ subscription: { limit: 200, requests: 50, renewsAt } }),
+		} as unknown as Response);
+		const mockPi = createMockPi();
+		registerSyntheticQuotaCommand(mockPi as unknown as ExtensionAPI);
+		const handler = getHandler(mockPi, "synthetic-quota");
+
+		await handler("--json", createMockCtx({ hasUI: false }));
+
+		const output = JSON.parse(String(log.mock.calls[0][0]));
+		expect(output).toMatchObject({
+			account: "default",
+			quotaSystem: "Classic quota system",
+			buckets: [{ key: "subscription", percentUsed: 25, limited: false, resetsAt: renewsAt }],
+			quota: { subscription: { limit: 200, requests: 50 } },
+		});
+		log.mockRestore();
+	});
+
+	it("records each fetch and adds the usage trend once history exists", async () => {
+		const log = vi.spyOn(console, "log").mockImplementation(() => {});
+		const inOneHour = new Date(Date.now() + 3600_000).toISOString();
+		const hourAgo = new Date(Date.now() - 3600_000).toISOString();
+		const historyPath = getQuotaHistoryPath();
+		mkdirSync(dirname(historyPath), { recursive: true });
+		writeFileSync(historyPath, `${JSON.stringify({ at: hourAgo, account: "default", rolling: 10, weekly: 20 })}\n`);
+		vi.mocked(fetch).mockResolvedValue({
+			ok: true,
+			json: vi.fn().mockResolvedValue({
+				rollingFiveHourLimit: { nextTickAt: inOneHour, tickPercent: 0.1, remaining: 70, max: 100, limited: false },
+				weeklyTokenLimit: { nextRegenAt: inOneHour, percentRemaining: 70 },
+			}),
+		} as unknown as Response);
+		const mockPi = createMockPi();
+		registerSyntheticQuotaCommand(mockPi as unknown as ExtensionAPI);
+		const handler = getHandler(mockPi, "synthetic-quota");
+
+		await handler("", createMockCtx({ hasUI: false }));
+		await handler("--json", createMockCtx({ hasUI: false }));
+
+		const text = String(log.mock.calls[0][0]);
+		expect(text).toMatch(/last 24h [▁-█·]{24} · 20\.\d%\/h · runs out in ~\d+h \d+m at this pace/);
+		const output = JSON.parse(String(log.mock.calls[1][0]));
+		expect(output.buckets[1]).toMatchObject({ key: "weekly", exhaustsAt: expect.any(String) });
+		expect(output.buckets[1].burnRatePerHour).toBeCloseTo(10, 0);
+		expect(readFileSync(historyPath, "utf-8").trim().split("\n")).toHaveLength(3);
+		log.mockRestore();
 	});
 
 	it("warns and exits when not idle", async () => {
@@ -574,3 +919,372 @@ describe("/synthetic-quota command", () => {
 		expect(ctx.ui.custom).not.toHaveBeenCalled();
 	});
 });
+
+// ---------------------------------------------------------------------------
+// /synthetic-account command tests
+// ---------------------------------------------------------------------------
+
+describe("/synthetic-account command", () => {
+	let previousAgentDir: string | undefined;
+
+	beforeEach(() => {
+		previousAgentDir = process.env.PI_CODING_AGENT_DIR;
+		process.env.PI_CODING_AGENT_DIR = mkdtempSync(join(tmpdir(), "pi-synthetic-agent-"));
+		vi.stubEnv("SYNTHETIC_API_KEY_ORG", "syn_org_key");
+	});
+	afterEach(() => {
+		if (previousAgentDir === undefined) {
+			delete process.env.PI_CODING_AGENT_DIR;
+		} else {
+			process.env.PI_CODING_AGENT_DIR = previousAgentDir;
+		}
+		vi.unstubAllEnvs();
+		vi.unstubAllGlobals();
+		setActiveSyntheticAccount(undefined);
+	});
+
+	const register = () => {
+		const mockPi = createMockPi();
+		const onSwitch = vi.fn();
+		registerSyntheticAccountCommand(mockPi as unknown as ExtensionAPI, onSwitch);
+		return { handler: getHandler(mockPi, "synthetic-account"), onSwitch };
+	};
+
+	it("switches to a named account and back to the default key", async () => {
+		const { handler, onSwitch } = register();
+		const ctx = createMockCtx();
+
+		await handler("org", ctx);
+
+		expect(getActiveSyntheticAccount()).toEqual({
+			name: "org",
+			apiKey: "syn_org_key",
+			source: "SYNTHETIC_API_KEY_ORG",
+		});
+		expect(onSwitch).toHaveBeenCalledWith(ctx);
+		expect(ctx.ui.notify).toHaveBeenCalledWith(
+			"Switched to Synthetic account org (key from SYNTHETIC_API_KEY_ORG)",
+			"info",
+		);
+
+		await handler("default", ctx);
+
+		expect(getActiveSyntheticAccount()).toBeUndefined();
+		expect(onSwitch).toHaveBeenCalledTimes(2);
+	});
+
+	it("refuses an account without a key", async () => {
+		const { handler, onSwitch } = register();
+		const ctx = createMockCtx();
+
+		await handler("personal", ctx);
+
+		expect(getActiveSyntheticAccount()).toBeUndefined();
+		expect(onSwitch).not.toHaveBeenCalled();
+		expect(ctx.ui.notify).toHaveBeenCalledWith(
+			expect.stringContaining('Add "synthetic:personal" to ~/.pi/agent/auth.json or set SYNTHETIC_API_KEY_PERSONAL'),
+			"error",
+		);
+	});
+
+	it("offers the accounts in a selector without arguments", async () => {
+		const { handler, onSwitch } = register();
+		const ctx = createMockCtx();
+		ctx.ui.select.mockResolvedValue("org");
+
+		await handler("", ctx);
+
+		expect(ctx.ui.select).toHaveBeenCalledWith("Synthetic account (current: default)", ["default", "org"]);
+		expect(getActiveSyntheticAccount()?.name).toBe("org");
+		expect(onSwitch).toHaveBeenCalled();
+	});
+
+	it("lists accounts headless with the active one marked", async () => {
+		const log = vi.spyOn(console, "log").mockImplementation(() => {});
+		const { handler } = register();
+		setActiveSyntheticAccount({ name: "org", apiKey: "syn_org_key", source: "SYNTHETIC_API_KEY_ORG" });
+
+		await handler("", createMockCtx({ hasUI: false }));
+
+		expect(log).toHaveBeenCalledWith("[Synthetic Provider] Synthetic accounts:\n  default\n* org");
+		log.mockRestore();
+	});
+
+	it("fetches quota with the active account's key and names the account", async () => {
+		const log = vi.spyOn(console, "log").mockImplementation(() => {});
+		vi.stubGlobal(
+			"fetch",
+			vi.fn().mockResolvedValue({
+				ok: true,
+				json: vi.fn().mockResolvedValue({
+					subscription: { limit: 200, requests: 50, renewsAt: new Date(Date.now() + 3600_000).toISOString() },
+				}),
+			}),
+		);
+		setActiveSyntheticAccount({ name: "org", apiKey: "syn_org_key", source: "SYNTHETIC_API_KEY_ORG" });
+		const mockPi = createMockPi();
+		registerSyntheticQuotaCommand(mockPi as unknown as ExtensionAPI);
+
+		await getHandler(mockPi, "synthetic-quota")("", createMockCtx({ hasUI: false }));
+
+		expect(fetch).toHaveBeenCalledWith(
+			expect.any(String),
+			expect.objectContaining({ headers: expect.objectContaining({ Authorization: "Bearer syn_org_key" }) }),
+		);
+		expect(String(log.mock.calls[0][0])).toContain("account org");
+		log.mockRestore();
+	});
+});
+
+// ---------------------------------------------------------------------------
+// /synthetic-usage command tests
+// ---------------------------------------------------------------------------
+
+describe("/synthetic-usage command", () => {
+	const usageEntry = {
+		type: "message",
+		id: "1",
+		parentId: null,
+		timestamp: "2026-10-01T00:00:00.000Z",
+		message: {
+			role: "assistant",
+			provider: "synthetic",
+			model: "hf:zai-org/GLM-5.2",
+			usage: {
+				input: 1000,
+				output: 200,
+				cacheRead: 0,
+				cacheWrite: 0,
+				totalTokens: 1200,
+				cost: { input: 0.001, output: 0.002, cacheRead: 0, cacheWrite: 0, total: 0.003 },
+			},
+		},
+	};
+
+	let tempDir: string;
+
+	beforeEach(() => {
+		tempDir = mkdtempSync(join(tmpdir(), "pi-synthetic-usage-"));
+	});
+	afterEach(() => {
+		rmSync(tempDir, { recursive: true, force: true });
+		vi.restoreAllMocks();
+	});
+
+	it("notifies instead of opening an empty overlay", async () => {
+		const mockPi = createMockPi();
+		registerSyntheticUsageCommand(mockPi as unknown as ExtensionAPI);
+		const handler = getHandler(mockPi, "synthetic-usage");
+
+		const ctx = createMockCtx();
+		await handler("", ctx);
+
+		expect(ctx.ui.notify).toHaveBeenCalledWith(expect.stringContaining("No Synthetic usage"), "info");
+		expect(ctx.ui.custom).not.toHaveBeenCalled();
+	});
+
+	it("opens overlay and renderer handles Esc to close", async () => {
+		const mockPi = createMockPi();
+		registerSyntheticUsageCommand(mockPi as unknown as ExtensionAPI);
+		const handler = getHandler(mockPi, "synthetic-usage");
+
+		const { customFn, getCapturedRenderer, doneFn } = createCapturingCustomMock();
+		const ctx = createMockCtx({ entries: [usageEntry] }, customFn);
+		await handler("", ctx);
+
+		expect(ctx.ui.custom).toHaveBeenCalledTimes(1);
+		getCapturedRenderer().handleInput("\x1b");
+		expect(doneFn).toHaveBeenCalledTimes(1);
+	});
+
+	it("prints a summary without a UI", async () => {
+		const log = vi.spyOn(console, "log").mockImplementation(() => {});
+		const mockPi = createMockPi();
+		registerSyntheticUsageCommand(mockPi as unknown as ExtensionAPI);
+		const handler = getHandler(mockPi, "synthetic-usage");
+
+		const ctx = createMockCtx({ hasUI: false, entries: [usageEntry] });
+		await handler("", ctx);
+
+		expect(log).toHaveBeenCalledWith(expect.stringContaining("hf:zai-org/GLM-5.2: 1 turn"));
+		expect(ctx.ui.custom).not.toHaveBeenCalled();
+	});
+
+	it("exports CSV to the default session file name", async () => {
+		const mockPi = createMockPi();
+		registerSyntheticUsageCommand(mockPi as unknown as ExtensionAPI);
+		const handler = getHandler(mockPi, "synthetic-usage");
+
+		const ctx = { ...createMockCtx({ entries: [usageEntry] }), cwd: tempDir };
+		await handler("export csv", ctx);
+
+		const csv = readFileSync(join(tempDir, "synthetic-usage-session-1.csv"), "utf-8");
+		expect(csv).toContain("hf:zai-org/GLM-5.2,1000,200");
+		expect(ctx.ui.notify).toHaveBeenCalledWith(expect.stringContaining("Exported 1 Synthetic turns"), "info");
+	});
+
+	it("exports JSON to an explicit path", async () => {
+		const mockPi = createMockPi();
+		registerSyntheticUsageCommand(mockPi as unknown as ExtensionAPI);
+		const handler = getHandler(mockPi, "synthetic-usage");
+
+		const ctx = { ...createMockCtx({ entries: [usageEntry] }), cwd: tempDir };
+		await handler("export json usage.json", ctx);
+
+		const exported = JSON.parse(readFileSync(join(tempDir, "usage.json"), "utf-8"));
+		expect(exported).toMatchObject({ sessionId: "session-1", totals: { turns: 1, cost: { total: 0.003 } } });
+	});
+
+	it("rejects an unknown export format", async () => {
+		const mockPi = createMockPi();
+		registerSyntheticUsageCommand(mockPi as unknown as ExtensionAPI);
+		const handler = getHandler(mockPi, "synthetic-usage");
+
+		const ctx = { ...createMockCtx({ entries: [usageEntry] }), cwd: tempDir };
+		await handler("export xml", ctx);
+
+		expect(ctx.ui.notify).toHaveBeenCalledWith(expect.stringContaining("Usage: /synthetic-usage"), "warning");
+	});
+});
+
+// ---------------------------------------------------------------------------
+// /synthetic-doctor command tests
+// ---------------------------------------------------------------------------
+
+describe("/synthetic-doctor command", () => {
+	const catalogResponse = { ...SINGLE_MODEL_RESPONSE, status: 200, headers: new Headers() };
+	let previousAgentDir: string | undefined;
+
+	beforeEach(() => {
+		previousAgentDir = process.env.PI_CODING_AGENT_DIR;
+		process.env.PI_CODING_AGENT_DIR = mkdtempSync(join(tmpdir(), "pi-synthetic-agent-"));
+		writeFileSync(
+			join(process.env.PI_CODING_AGENT_DIR, "auth.json"),
+			JSON.stringify({ synthetic: { type: "api_key", key: "syn_test_key_1234" } }),
+		);
+		vi.stubGlobal("fetch", vi.fn());
+		createdTexts = [];
+	});
+	afterEach(() => {
+		if (previousAgentDir === undefined) {
+			delete process.env.PI_CODING_AGENT_DIR;
+		} else {
+			process.env.PI_CODING_AGENT_DIR = previousAgentDir;
+		}
+		vi.unstubAllGlobals();
+		vi.restoreAllMocks();
+	});
+
+	const register = () => {
+		const mockPi = createMockPi();
+		registerSyntheticDoctorCommand(mockPi as unknown as ExtensionAPI, () => ({
+			source: "fallback",
+			baseUrl: "https://api.synthetic.new/openai/v1",
+			models: getFallbackModels(),
+			options: { timeoutMs: 3000 },
+		}));
+		return getHandler(mockPi, "synthetic-doctor");
+	};
+
+	it("prints the diagnosis as JSON with --json", async () => {
+		const log = vi.spyOn(console, "log").mockImplementation(() => {});
+		vi.mocked(fetch).mockResolvedValue(catalogResponse as unknown as Response);
+
+		await register()("--json", createMockCtx({ hasUI: false, apiKey: "syn_test_key_1234" }));
+
+		const output = JSON.parse(String(log.mock.calls[0][0]));
+		expect(output.key).toEqual({ source: "auth.json", masked: "syn_…1234" });
+		expect(output.catalog).toMatchObject({
+			endpoint: "https://api.synthetic.new/openai/v1/models",
+			ok: true,
+			modelCount: 1,
+		});
+		expect(output.catalog.latencyMs).toEqual(expect.any(Number));
+		expect(output.registered).toMatchObject({ source: "fallback", models: expect.any(Array) });
+		expect(output.registered.models).toContainEqual(
+			expect.objectContaining({
+				id: "hf:zai-org/GLM-5.2",
+				thinkingLevelMap: expect.objectContaining({ off: "none", high: "high", max: "max" }),
+			}),
+		);
+		expect(output.fallbackDiff.missingFromFallback).toEqual(["hf:test/model"]);
+		expect(output.fallbackDiff.goneFromLive).toContain("hf:zai-org/GLM-5.2");
+		expect(JSON.stringify(output)).not.toContain("syn_test_key_1234");
+	});
+
+	it("reports a failed catalog fetch and skips the fallback diff", async () => {
+		const log = vi.spyOn(console, "log").mockImplementation(() => {});
+		vi.mocked(fetch).mockRejectedValue(new Error("getaddrinfo ENOTFOUND"));
+
+		await register()("", createMockCtx({ hasUI: false, apiKey: "syn_test_key_1234" }));
+
+		const output = String(log.mock.calls[0][0]);
+		expect(output).toContain("API key:     syn_…1234 (from auth.json)");
+		expect(output).toMatch(/FAILED after \d+ms: getaddrinfo ENOTFOUND/);
+		expect(output).toContain("Fallback:    no live catalog to compare against");
+		expect(output).toContain("hf:zai-org/GLM-5.2: off=none high=high max=max · supportsReasoningEffort=true");
+		expect(output).toContain("syn:large:text: no thinkingLevelMap");
+	});
+
+	it("opens the report in an overlay with a UI", async () => {
+		vi.mocked(fetch).mockResolvedValue(catalogResponse as unknown as Response);
+		const { customFn, getCapturedRenderer, doneFn } = createCapturingCustomMock();
+		const ctx = createMockCtx({}, customFn);
+
+		await register()("", ctx);
+
+		expect(customFn).toHaveBeenCalledWith(expect.any(Function), expect.objectContaining({ overlay: true }));
+		getCapturedRenderer().handleInput("\x1b");
+		expect(doneFn).toHaveBeenCalled();
+	});
+});
+
+// ---------------------------------------------------------------------------
+// /synthetic-drift command tests
+// ---------------------------------------------------------------------------
+
+describe("/synthetic-drift command", () => {
+	const fixturePath = join(dirname(fileURLToPath(import.meta.url)), "fixtures", "synthetic-models.json");
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+		vi.restoreAllMocks();
+	});
+
+	const register = () => {
+		const mockPi = createMockPi();
+		registerSyntheticDriftCommand(mockPi as unknown as ExtensionAPI);
+		return getHandler(mockPi, "synthetic-drift");
+	};
+
+	it("checks a saved catalog offline and emits a regenerated fallback module", async () => {
+		const log = vi.spyOn(console, "log").mockImplementation(() => {});
+		vi.stubGlobal("fetch", vi.fn());
+		const outDir = mkdtempSync(join(tmpdir(), "pi-synthetic-drift-"));
+
+		await register()(`${fixturePath} --emit fallback.ts --json`, { ...createMockCtx({ hasUI: false }), cwd: outDir });
+
+		expect(fetch).not.toHaveBeenCalled();
+		const output = JSON.parse(String(log.mock.calls[0][0]));
+		expect(output).toMatchObject({
+			source: fixturePath,
+			added: ["hf:deepseek-ai/DeepSeek-V4"],
+			removed: ["hf:MiniMaxAI/MiniMax-M3"],
+			emitted: join(outDir, "fallback.ts"),
+		});
+		expect(readFileSync(join(outDir, "fallback.ts"), "utf-8")).toContain("export function getFallbackModels()");
+	});
+
+	it("notifies with the drift summary and rejects unknown arguments", async () => {
+		const ctx = createMockCtx();
+
+		await register()(fixturePath, ctx);
+		await register()("--emit", ctx);
+
+		expect(ctx.ui.notify).toHaveBeenCalledWith(
+			expect.stringContaining("Fallback snapshot drift: 1 added, 1 removed, 3 changed"),
+			"warning",
+		);
+		expect(ctx.ui.notify).toHaveBeenLastCalledWith(expect.stringContaining("Usage: /synthetic-drift"), "warning");
+	});
+});
@@ -0,0 +1,176 @@
+import type { ExtensionAPI, ExtensionContext } from "@earendil-works/pi-coding-agent";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	COST_STATUS_KEY,
+	estimatePromptTokens,
+	formatCostEstimate,
+	getBudgetOverrun,
+	getCostEstimateSettings,
+	getRequestCostEstimate,
+	parseBudget,
+	registerCostEstimate,
+} from "../extensions/cost-estimate.js";
+import type { SyntheticProviderConfig } from "../extensions/types.js";
+
+const ENV_NAMES = ["SYNTHETIC_COST_ESTIMATE", "SYNTHETIC_REQUEST_BUDGET", "SYNTHETIC_SESSION_BUDGET"];
+
+// $1/M input, $3/M output, 32k max output: a 40k-token prompt is $0.04 in, up to ~$0.10 out.
+const MODEL = { provider: "synthetic", id: "hf:zai-org/GLM-5.2", cost: { input: 1, output: 3 }, maxTokens: 32_768 };
+
+const createMockPi = (flags: Record<string, string | boolean> = {}) =>
+	({
+		registerFlag: vi.fn(),
+		getFlag: vi.fn((name: string) => flags[name]),
+		on: vi.fn(),
+	}) satisfies Partial<ExtensionAPI>;
+
+type MockPi = ReturnType<typeof createMockPi>;
+
+const spentEntry = (total: number) => ({
+	type: "message",
+	timestamp: "2026-10-19T10:00:00.000Z",
+	message: {
+		role: "assistant",
+		provider: "synthetic",
+		model: MODEL.id,
+		usage: { input: 1, output: 1, cost: { total } },
+	},
+});
+
+const createMockCtx = (
+	options: { tokens?: number | null; spent?: number; confirm?: boolean; hasUI?: boolean } = {},
+) => ({
+	hasUI: options.hasUI ?? true,
+	model: MODEL,
+	ui: {
+		notify: vi.fn(),
+		setStatus: vi.fn(),
+		confirm: vi.fn().mockResolvedValue(options.confirm ?? false),
+		theme: { fg: (_color: string, text: string) => text },
+	},
+	getContextUsage: () => ({ tokens: options.tokens === undefined ? 40_000 : options.tokens, contextWindow: 200_000 }),
+	getSystemPrompt: () => "x".repeat(4000),
+	sessionManager: {
+		getBranch: () => [{ type: "message", message: { role: "user", content: "y".repeat(400), timestamp: 0 } }],
+		getEntries: () => (options.spent ? [spentEntry(options.spent)] : []),
+	},
+});
+
+type MockCtx = ReturnType<typeof createMockCtx>;
+
+async function emit(mockPi: MockPi, eventName: string, event: object, ctx: MockCtx) {
+	let result: unknown;
+	for (const [name, handler] of mockPi.on.mock.calls) {
+		if (name === eventName) result = (await handler(event, ctx)) ?? result;
+	}
+	return result;
+}
+
+describe("cost estimate", () => {
+	const saved = new Map<string, string | undefined>();
+
+	beforeEach(() => {
+		for (const name of ENV_NAMES) {
+			saved.set(name, process.env[name]);
+			delete process.env[name];
+		}
+	});
+	afterEach(() => {
+		for (const [name, value] of saved) {
+			if (value !== undefined) process.env[name] = value;
+			else delete process.env[name];
+		}
+	});
+
+	it("prices the prompt at the input rate and a maxTokens reply at the output rate", () => {
+		const estimate = getRequestCostEstimate(MODEL, 40_000);
+		expect(estimate.input).toBeCloseTo(0.04);
+		expect(estimate.maxOutput).toBeCloseTo(0.098304);
+		expect(formatCostEstimate(estimate)).toBe("≈ $0.04 in / up to $0.10 out at max tokens");
+	});
+
+	it("adds the new message to the context usage, or estimates the branch when usage is unknown", () => {
+		const known = createMockCtx() as unknown as ExtensionContext;
+		expect(estimatePromptTokens(known, "z".repeat(40))).toBe(40_010);
+		const unknown = createMockCtx({ tokens: null }) as unknown as ExtensionContext;
+		expect(estimatePromptTokens(unknown)).toBe(1000 + 100);
+	});
+
+	it("reads budgets from flags, then the environment, then the config", () => {
+		const config: SyntheticProviderConfig = { costEstimate: true, requestBudget: 5, sessionBudget: 20 };
+		expect(getCostEstimateSettings(createMockPi() as unknown as ExtensionAPI, config)).toEqual({
+			enabled: true,
+			requestBudget: 5,
+			sessionBudget: 20,
+		});
+
+		process.env.SYNTHETIC_COST_ESTIMATE = "0";
+		process.env.SYNTHETIC_REQUEST_BUDGET = "$0.50";
+		const mockPi = createMockPi({ "synthetic-session-budget": "2" });
+		expect(getCostEstimateSettings(mockPi as unknown as ExtensionAPI, config)).toEqual({
+			enabled: false,
+			requestBudget: 0.5,
+			sessionBudget: 2,
+		});
+
+		expect(parseBudget("abc")).toBeUndefined();
+		expect(parseBudget("-1")).toBeUndefined();
+	});
+
+	it("flags the request or session budget the worst case would exceed", () => {
+		const estimate = getRequestCostEstimate(MODEL, 40_000);
+		expect(getBudgetOverrun(estimate, { enabled: false, requestBudget: 1 }, 0)).toBeUndefined();
+		expect(getBudgetOverrun(estimate, { enabled: false, requestBudget: 0.1 }, 0)).toBe(
+			"This request could cost up to $0.14, over the $0.10 request budget.",
+		);
+		expect(getBudgetOverrun(estimate, { enabled: false, sessionBudget: 1 }, 0.9)).toContain(
+			"over the $1.00 session budget",
+		);
+	});
+
+	it("shows the estimate in the footer for Synthetic models when enabled", async () => {
+		const mockPi = createMockPi({ "synthetic-cost-estimate": true });
+		registerCostEstimate(mockPi as unknown as ExtensionAPI, () => ({}));
+		const ctx = createMockCtx();
+
+		await emit(mockPi, "session_start", {}, ctx);
+		expect(ctx.ui.setStatus).toHaveBeenLastCalledWith(COST_STATUS_KEY, "≈ $0.04 in / up to $0.10 out at max tokens");
+
+		await emit(mockPi, "model_select", { model: { provider: "openai", id: "gpt-5-mini" } }, ctx);
+		expect(ctx.ui.setStatus).toHaveBeenLastCalledWith(COST_STATUS_KEY, undefined);
+	});
+
+	it("asks before a request over budget and drops it when declined", async () => {
+		const mockPi = createMockPi();
+		registerCostEstimate(mockPi as unknown as ExtensionAPI, () => ({ sessionBudget: 1 }));
+
+		const declined = createMockCtx({ spent: 0.95 });
+		expect(await emit(mockPi, "input", { text: "go", source: "interactive" }, declined)).toEqual({
+			action: "handled",
+		});
+		expect(declined.ui.confirm).toHaveBeenCalledWith("Synthetic budget", expect.stringContaining("session budget"));
+		expect(declined.ui.notify).toHaveBeenCalledWith(expect.stringContaining("Prompt not sent."), "error");
+
+		const accepted = createMockCtx({ spent: 0.95, confirm: true });
+		expect(await emit(mockPi, "input", { text: "go", source: "interactive" }, accepted)).toBeUndefined();
+
+		const underBudget = createMockCtx({ spent: 0.1 });
+		expect(await emit(mockPi, "input", { text: "go", source: "interactive" }, underBudget)).toBeUndefined();
+		expect(underBudget.ui.confirm).not.toHaveBeenCalled();
+
+		// Steering messages join a running turn and are never held up.
+		const steering = createMockCtx({ spent: 0.95 });
+		expect(await emit(mockPi, "input", { text: "go", streamingBehavior: "steer" }, steering)).toBeUndefined();
+	});
+
+	it("refuses a request over budget without a UI", async () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		const mockPi = createMockPi({ "synthetic-request-budget": "0.05" });
+		registerCostEstimate(mockPi as unknown as ExtensionAPI, () => ({}));
+
+		const ctx = createMockCtx({ hasUI: false });
+		expect(await emit(mockPi, "input", { text: "go", source: "rpc" }, ctx)).toEqual({ action: "handled" });
+		expect(warn).toHaveBeenCalledWith(expect.stringContaining("over the $0.05 request budget"));
+		warn.mockRestore();
+	});
+});
@@ -0,0 +1,245 @@
+import { mkdtempSync, readFileSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	type Api,
+	type AssistantMessage,
+	type AssistantMessageEvent,
+	createAssistantMessageEventStream,
+	type Model,
+	type SimpleStreamOptions,
+} from "@earendil-works/pi-ai";
+import type { ExtensionAPI, ProviderModelConfig } from "@earendil-works/pi-coding-agent";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	applyRejectedEfforts,
+	createEffortRecoveryStream,
+	getRejectedEffortsPath,
+	isEffortRejection,
+	readRejectedEfforts,
+	recordRejectedEffort,
+} from "../extensions/effort-recovery.js";
+import syntheticProvider, { getFallbackModels } from "../extensions/index.js";
+
+const streamSimpleMock = vi.hoisted(() => vi.fn());
+vi.mock("@earendil-works/pi-ai/compat", () => ({ streamSimple: streamSimpleMock }));
+
+const GLM_5_2_MODEL_ID = "hf:zai-org/GLM-5.2";
+const EFFORT_ERROR = '400: {"error":"reasoning_effort \\"max\\" is not supported for this model"}';
+
+const message = (stopReason: AssistantMessage["stopReason"], errorMessage?: string) =>
+	({
+		role: "assistant",
+		content: [],
+		stopReason,
+		...(errorMessage ? { errorMessage } : {}),
+	}) as unknown as AssistantMessage;
+
+const errorEvent = (errorMessage: string): AssistantMessageEvent => ({
+	type: "error",
+	reason: "error",
+	error: message("error", errorMessage),
+});
+
+const successEvents: AssistantMessageEvent[] = [
+	{ type: "start", partial: message("pending") },
+	{ type: "done", reason: "stop", message: message("stop") },
+];
+
+/** One fake provider attempt: runs `onPayload` on `payload`, records what would be sent, then emits `events`. */
+function stubAttempt(payload: Record<string, unknown>, events: AssistantMessageEvent[], sent: unknown[]) {
+	streamSimpleMock.mockImplementationOnce((model: Model<Api>, _context: unknown, options?: SimpleStreamOptions) => {
+		const stream = createAssistantMessageEventStream();
+		void (async () => {
+			const replaced = await options?.onPayload?.(payload, model);
+			sent.push(replaced === undefined ? payload : replaced);
+			for (const event of events) stream.push(event);
+			stream.end();
+		})();
+		return stream;
+	});
+}
+
+async function collect(stream: AsyncIterable<AssistantMessageEvent>): Promise<string[]> {
+	const types: string[] = [];
+	for await (const event of stream) types.push(event.type);
+	return types;
+}
+
+const model = { id: GLM_5_2_MODEL_ID, provider: "synthetic", api: "openai-completions" } as Model<Api>;
+const context = { messages: [] };
+
+let previousAgentDir: string | undefined;
+
+beforeEach(() => {
+	previousAgentDir = process.env.PI_CODING_AGENT_DIR;
+	process.env.PI_CODING_AGENT_DIR = mkdtempSync(join(tmpdir(), "pi-synthetic-agent-"));
+	streamSimpleMock.mockReset();
+});
+
+afterEach(() => {
+	if (previousAgentDir === undefined) {
+		delete process.env.PI_CODING_AGENT_DIR;
+	} else {
+		process.env.PI_CODING_AGENT_DIR = previousAgentDir;
+	}
+	vi.unstubAllGlobals();
+	vi.restoreAllMocks();
+});
+
+describe("effort rejection helpers", () => {
+	it("recognizes effort-related 400s only", () => {
+		expect(isEffortRejection(EFFORT_ERROR)).toBe(true);
+		expect(isEffortRejection("400 Invalid value for reasoning_effort")).toBe(true);
+		expect(isEffortRejection("400: max_tokens is too large")).toBe(false);
+		expect(isEffortRejection("500: reasoning_effort backend failure")).toBe(false);
+		expect(isEffortRejection(undefined)).toBe(false);
+	});
+
+	it("nulls rejected levels and drops effort support once none remain", () => {
+		const glm = getFallbackModels().find((entry) => entry.id === GLM_5_2_MODEL_ID) as ProviderModelConfig;
+
+		const withoutMax = applyRejectedEfforts(glm, { [GLM_5_2_MODEL_ID]: ["max"] });
+		expect(withoutMax.thinkingLevelMap).toMatchObject({ off: "none", high: "high", max: null });
+		expect(withoutMax.compat).toMatchObject({ supportsReasoningEffort: true });
+
+		const withoutAny = applyRejectedEfforts(glm, { [GLM_5_2_MODEL_ID]: ["off", "high", "max"] });
+		expect(withoutAny.compat).toMatchObject({ supportsReasoningEffort: false });
+
+		expect(applyRejectedEfforts(glm, { "hf:other/model": ["max"] })).toBe(glm);
+		expect(applyRejectedEfforts({ ...glm, id: "constructor" }, {}).thinkingLevelMap).toEqual(glm.thinkingLevelMap);
+	});
+
+	it("persists rejections without duplicates and ignores a malformed file", () => {
+		const path = getRejectedEffortsPath();
+
+		recordRejectedEffort(GLM_5_2_MODEL_ID, "max");
+		recordRejectedEffort(GLM_5_2_MODEL_ID, "max");
+		recordRejectedEffort(GLM_5_2_MODEL_ID, "high");
+
+		expect(readRejectedEfforts()).toEqual({ [GLM_5_2_MODEL_ID]: ["max", "high"] });
+		expect(JSON.parse(readFileSync(path, "utf-8")).version).toBe(1);
+
+		writeFileSync(path, "{not json", "utf-8");
+		expect(readRejectedEfforts()).toEqual({});
+	});
+});
+
+describe("effort recovery stream", () => {
+	it("retries once without reasoning_effort after an effort rejection", async () => {
+		const sent: unknown[] = [];
+		stubAttempt({ model: GLM_5_2_MODEL_ID, reasoning_effort: "max" }, [errorEvent(EFFORT_ERROR)], sent);
+		stubAttempt({ model: GLM_5_2_MODEL_ID, reasoning_effort: "max" }, successEvents, sent);
+		const onRejected = vi.fn();
+
+		const types = await collect(createEffortRecoveryStream(onRejected)(model, context, { reasoning: "max" }));
+
+		expect(types).toEqual(["start", "done"]);
+		expect(sent).toEqual([{ model: GLM_5_2_MODEL_ID, reasoning_effort: "max" }, { model: GLM_5_2_MODEL_ID }]);
+		expect(onRejected).toHaveBeenCalledWith(model, "max");
+	});
+
+	it("applies the caller's onPayload before stripping the effort", async () => {
+		const sent: unknown[] = [];
+		stubAttempt({ reasoning_effort: "none" }, [errorEvent(EFFORT_ERROR)], sent);
+		stubAttempt({ reasoning_effort: "none" }, successEvents, sent);
+		const onRejected = vi.fn();
+
+		await collect(
+			createEffortRecoveryStream(onRejected)(model, context, {
+				onPayload: (payload) => ({ ...(payload as object), user: "pi" }),
+			}),
+		);
+
+		expect(sent).toEqual([{ reasoning_effort: "none", user: "pi" }, { user: "pi" }]);
+		expect(onRejected).toHaveBeenCalledWith(model, "off");
+	});
+
+	it("forwards other errors, and effort errors on requests without an effort, untouched", async () => {
+		const sent: unknown[] = [];
+		stubAttempt({ reasoning_effort: "high" }, [errorEvent("400: max_tokens is too large")], sent);
+		stubAttempt({}, [errorEvent(EFFORT_ERROR)], sent);
+		const onRejected = vi.fn();
+		const stream = createEffortRecoveryStream(onRejected);
+
+		expect(await collect(stream(model, context, { reasoning: "high" }))).toEqual(["error"]);
+		expect(await collect(stream(model, context))).toEqual(["error"]);
+		expect(streamSimpleMock).toHaveBeenCalledTimes(2);
+		expect(onRejected).not.toHaveBeenCalled();
+	});
+
+	it("does not retry a second rejection", async () => {
+		const sent: unknown[] = [];
+		stubAttempt({ reasoning_effort: "max" }, [errorEvent(EFFORT_ERROR)], sent);
+		stubAttempt({ reasoning_effort: "max" }, [errorEvent(EFFORT_ERROR)], sent);
+
+		const stream = createEffortRecoveryStream(vi.fn())(model, context, { reasoning: "max" });
+
+		expect(await collect(stream)).toEqual(["error"]);
+		expect(streamSimpleMock).toHaveBeenCalledTimes(2);
+	});
+
+	it("ends with an error event when the underlying stream throws", async () => {
+		streamSimpleMock.mockImplementationOnce(() => {
+			throw new Error("No API key for provider: synthetic");
+		});
+
+		const stream = createEffortRecoveryStream(vi.fn())(model, context, { reasoning: "high" });
+		const events: AssistantMessageEvent[] = [];
+		for await (const event of stream) events.push(event);
+
+		expect(events).toEqual([
+			{
+				type: "error",
+				reason: "error",
+				error: expect.objectContaining({
+					role: "assistant",
+					provider: "synthetic",
+					model: GLM_5_2_MODEL_ID,
+					stopReason: "error",
+					errorMessage: "No API key for provider: synthetic",
+				}),
+			},
+		]);
+		await expect(stream.result()).resolves.toMatchObject({ stopReason: "error" });
+	});
+});
+
+describe("effort recovery registration", () => {
+	const createMockPi = () =>
+		({
+			registerProvider: vi.fn(),
+			registerCommand: vi.fn(),
+			registerFlag: vi.fn(),
+			getFlag: vi.fn(),
+			on: vi.fn(),
+		}) satisfies Partial<ExtensionAPI>;
+
+	it("re-registers the model with the rejected level nulled and remembers it across loads", async () => {
+		vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new Error("offline")));
+		vi.spyOn(console, "error").mockImplementation(() => {});
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		const mockPi = createMockPi();
+		await syntheticProvider(mockPi as unknown as ExtensionAPI);
+
+		const registration = mockPi.registerProvider.mock.calls[0]?.[1];
+		expect(registration.streamSimple).toBeTypeOf("function");
+
+		stubAttempt({ reasoning_effort: "max" }, [errorEvent(EFFORT_ERROR)], []);
+		stubAttempt({ reasoning_effort: "max" }, successEvents, []);
+		await collect(registration.streamSimple(model, context, { reasoning: "max" }));
+
+		expect(mockPi.registerProvider).toHaveBeenCalledTimes(2);
+		const models = mockPi.registerProvider.mock.calls[1]?.[1].models as ProviderModelConfig[];
+		expect(models.find((entry) => entry.id === GLM_5_2_MODEL_ID)?.thinkingLevelMap).toMatchObject({
+			high: "high",
+			max: null,
+		});
+		expect(warn).toHaveBeenCalledWith(expect.stringContaining(`"max" reasoning effort for ${GLM_5_2_MODEL_ID}`));
+
+		const reloaded = createMockPi();
+		await syntheticProvider(reloaded as unknown as ExtensionAPI);
+		const reloadedModels = reloaded.registerProvider.mock.calls[0]?.[1].models as ProviderModelConfig[];
+		expect(reloadedModels.find((entry) => entry.id === GLM_5_2_MODEL_ID)?.thinkingLevelMap?.max).toBeNull();
+	});
+});
@@ -0,0 +1,223 @@
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { ExtensionAPI } from "@earendil-works/pi-coding-agent";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	getFallbackCandidates,
+	getFallbackChain,
+	isFallbackError,
+	registerFallbackChain,
+} from "../extensions/fallback-chain.js";
+import { registerQuotaGuard } from "../extensions/quota-guard.js";
+
+const CHAIN = "syn:large:text,hf:Qwen/Qwen3.6-27B,openai/gpt-5-mini";
+
+const createMockPi = (flags: Record<string, string> = {}) =>
+	({
+		registerFlag: vi.fn(),
+		getFlag: vi.fn((name: string) => flags[name]),
+		on: vi.fn(),
+		setModel: vi.fn().mockResolvedValue(true),
+	}) satisfies Partial<ExtensionAPI>;
+
+type MockPi = ReturnType<typeof createMockPi>;
+
+// ctx.model follows pi.setModel, like the real session does.
+const createMockCtx = (mockPi: MockPi, model = { provider: "synthetic", id: "syn:large:text" }) => {
+	const ctx = {
+		hasUI: true,
+		model,
+		ui: { notify: vi.fn(), setStatus: vi.fn(), theme: { fg: (_color: string, text: string) => text } },
+		modelRegistry: {
+			getApiKeyForProvider: vi.fn().mockResolvedValue("syn_test_key"),
+			find: vi.fn((provider: string, id: string) => ({ provider, id })),
+		},
+	};
+	mockPi.setModel.mockImplementation(async (next: { provider: string; id: string }) => {
+		ctx.model = next;
+		return true;
+	});
+	return ctx;
+};
+
+type MockCtx = ReturnType<typeof createMockCtx>;
+
+// biome-ignore lint/suspicious/noExplicitAny: handlers are invoked with partial mock events
+function getHandlers(mockPi: MockPi, eventName: string): ((event: any, ctx: MockCtx) => any)[] {
+	return mockPi.on.mock.calls.filter(([name]) => name === eventName).map(([, handler]) => handler);
+}
+
+async function emit(mockPi: MockPi, eventName: string, event: object, ctx: MockCtx) {
+	let result: unknown;
+	for (const handler of getHandlers(mockPi, eventName)) {
+		result = (await handler(event, ctx)) ?? result;
+	}
+	return result;
+}
+
+const failTurn = async (mockPi: MockPi, ctx: MockCtx, errorMessage: string) => {
+	await emit(mockPi, "message_end", { message: { role: "assistant", stopReason: "error", errorMessage } }, ctx);
+	await emit(mockPi, "agent_settled", {}, ctx);
+};
+
+const limitedQuota = (resetsAt: string) => ({
+	rollingFiveHourLimit: { nextTickAt: resetsAt, tickPercent: 0.1, remaining: 0, max: 100, limited: true },
+});
+
+describe("fallback chain helpers", () => {
+	let savedChain: string | undefined;
+
+	beforeEach(() => {
+		savedChain = process.env.SYNTHETIC_FALLBACK_MODELS;
+		delete process.env.SYNTHETIC_FALLBACK_MODELS;
+	});
+	afterEach(() => {
+		if (savedChain !== undefined) process.env.SYNTHETIC_FALLBACK_MODELS = savedChain;
+		else delete process.env.SYNTHETIC_FALLBACK_MODELS;
+	});
+
+	it("reads the chain from the flag, then the environment, then the config", () => {
+		const config = { fallbackModels: ["hf:zai-org/GLM-4.7-Flash"] };
+
+		expect(getFallbackChain(createMockPi() as unknown as ExtensionAPI, config)).toEqual(["hf:zai-org/GLM-4.7-Flash"]);
+		process.env.SYNTHETIC_FALLBACK_MODELS = "openai/gpt-5-mini";
+		expect(getFallbackChain(createMockPi() as unknown as ExtensionAPI, config)).toEqual(["openai/gpt-5-mini"]);
+		const withFlag = createMockPi({ "synthetic-fallback-models": ` ${CHAIN}, ` });
+		expect(getFallbackChain(withFlag as unknown as ExtensionAPI, config)).toHaveLength(3);
+	});
+
+	it("recognizes rate limits and server errors only", () => {
+		expect(isFallbackError("429 Too Many Requests")).toBe(true);
+		expect(isFallbackError("503 Service Unavailable")).toBe(true);
+		expect(isFallbackError("Provider overloaded, try again later")).toBe(true);
+		expect(isFallbackError("Request failed with status code 502")).toBe(true);
+		expect(isFallbackError("HTTP/1.1 500 Internal Server Error")).toBe(true);
+		expect(isFallbackError('400: {"error":"bad request"}')).toBe(false);
+		expect(isFallbackError('400: {"error":"max_tokens exceeds the limit of 512 tokens"}')).toBe(false);
+		expect(isFallbackError(undefined)).toBe(false);
+	});
+
+	it("continues after the current model, or from the start when it is not in the chain", () => {
+		const chain = CHAIN.split(",");
+
+		expect(getFallbackCandidates(chain, { provider: "synthetic", id: "syn:large:text" })).toEqual([
+			{ provider: "synthetic", id: "hf:Qwen/Qwen3.6-27B" },
+			{ provider: "openai", id: "gpt-5-mini" },
+		]);
+		expect(getFallbackCandidates(chain, { provider: "openai", id: "gpt-5-mini" })).toEqual([]);
+		expect(getFallbackCandidates(chain, { provider: "synthetic", id: "hf:zai-org/GLM-5.2" })).toHaveLength(3);
+	});
+});
+
+describe("fallback chain events", () => {
+	let savedApiKey: string | undefined;
+	let previousAgentDir: string | undefined;
+
+	beforeEach(() => {
+		savedApiKey = process.env.SYNTHETIC_API_KEY;
+		delete process.env.SYNTHETIC_API_KEY;
+		previousAgentDir = process.env.PI_CODING_AGENT_DIR;
+		process.env.PI_CODING_AGENT_DIR = mkdtempSync(join(tmpdir(), "pi-synthetic-agent-"));
+	});
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.unstubAllGlobals();
+		if (savedApiKey !== undefined) process.env.SYNTHETIC_API_KEY = savedApiKey;
+		if (previousAgentDir === undefined) {
+			delete process.env.PI_CODING_AGENT_DIR;
+		} else {
+			process.env.PI_CODING_AGENT_DIR = previousAgentDir;
+		}
+	});
+
+	it("falls back on a 429 and switches back once the rolling limit resets", async () => {
+		vi.useFakeTimers({ toFake: ["Date"] });
+		const resetsAt = new Date(Date.now() + 3600_000).toISOString();
+		vi.stubGlobal("fetch", vi.fn().mockResolvedValue({ ok: true, json: async () => limitedQuota(resetsAt) }));
+		const mockPi = createMockPi({ "synthetic-fallback-models": CHAIN });
+		registerFallbackChain(mockPi as unknown as ExtensionAPI, () => ({}));
+		const ctx = createMockCtx(mockPi);
+
+		await failTurn(mockPi, ctx, "429 Too Many Requests");
+
+		expect(ctx.model).toEqual({ provider: "synthetic", id: "hf:Qwen/Qwen3.6-27B" });
+		expect(ctx.ui.notify).toHaveBeenCalledWith(
+			expect.stringMatching(
+				/synthetic\/syn:large:text failed \(429.*switched to .*Qwen3\.6-27B \(back to .* in 1h 0m\)/,
+			),
+			"warning",
+		);
+
+		await emit(mockPi, "input", { text: "next", source: "interactive" }, ctx);
+		expect(ctx.model.id).toBe("hf:Qwen/Qwen3.6-27B");
+
+		vi.setSystemTime(Date.parse(resetsAt) + 1000);
+		await emit(mockPi, "input", { text: "later", source: "interactive" }, ctx);
+		expect(ctx.model).toEqual({ provider: "synthetic", id: "syn:large:text" });
+		expect(ctx.ui.notify).toHaveBeenLastCalledWith(
+			expect.stringContaining("Switched back to synthetic/syn:large:text"),
+			"info",
+		);
+	});
+
+	it("walks the chain when a fallback fails too, and reports when it runs out", async () => {
+		vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new Error("offline")));
+		const mockPi = createMockPi();
+		registerFallbackChain(mockPi as unknown as ExtensionAPI, () => ({ fallbackModels: CHAIN.split(",") }));
+		const ctx = createMockCtx(mockPi);
+
+		await failTurn(mockPi, ctx, "502 Bad Gateway");
+		await failTurn(mockPi, ctx, "503 Service Unavailable");
+		expect(ctx.model).toEqual({ provider: "openai", id: "gpt-5-mini" });
+
+		await failTurn(mockPi, ctx, "429 rate limit");
+		expect(ctx.ui.notify).toHaveBeenLastCalledWith(expect.stringContaining("no fallback model left"), "error");
+	});
+
+	it("ignores other errors, recovered turns, and non-Synthetic models", async () => {
+		const mockPi = createMockPi({ "synthetic-fallback-models": CHAIN });
+		registerFallbackChain(mockPi as unknown as ExtensionAPI, () => ({}));
+		const ctx = createMockCtx(mockPi);
+
+		await failTurn(mockPi, ctx, '400: {"error":"bad request"}');
+		await emit(
+			mockPi,
+			"message_end",
+			{ message: { role: "assistant", stopReason: "error", errorMessage: "500" } },
+			ctx,
+		);
+		await emit(mockPi, "message_end", { message: { role: "assistant", stopReason: "stop" } }, ctx);
+		await emit(mockPi, "agent_settled", {}, ctx);
+		const other = createMockCtx(mockPi, { provider: "anthropic", id: "claude-sonnet" });
+		await failTurn(mockPi, other, "529 overloaded");
+
+		expect(mockPi.setModel).not.toHaveBeenCalled();
+	});
+
+	it("lets the quota guard's switch mode use the chain", async () => {
+		const resetsAt = new Date(Date.now() + 1800_000).toISOString();
+		vi.stubGlobal("fetch", vi.fn().mockResolvedValue({ ok: true, json: async () => limitedQuota(resetsAt) }));
+		const mockPi = createMockPi({
+			"synthetic-quota-guard": "switch",
+			"synthetic-fallback-models": "openai/gpt-5-mini",
+		});
+		registerQuotaGuard(
+			mockPi as unknown as ExtensionAPI,
+			() => ({}),
+			registerFallbackChain(mockPi as unknown as ExtensionAPI, () => ({})),
+		);
+		const ctx = createMockCtx(mockPi);
+
+		const result = await emit(mockPi, "input", { text: "hi", source: "interactive" }, ctx);
+
+		expect(result).toBeUndefined();
+		expect(ctx.model).toEqual({ provider: "openai", id: "gpt-5-mini" });
+		expect(ctx.ui.notify).toHaveBeenCalledWith(
+			expect.stringContaining(
+				"rolling 5h limit reached; switched to openai/gpt-5-mini (back to synthetic/syn:large:text",
+			),
+			"warning",
+		);
+	});
+});
@@ -1,14 +1,42 @@
-import { describe, expect, it } from "vitest";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { SessionEntry } from "@earendil-works/pi-coding-agent";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { estimateTurnCost, parseTypicalTurn } from "../extensions/comparison.js";
+import {
+	filterCatalogModels,
+	formatCatalogRow,
+	formatCompactTokens,
+	formatCost,
+	sortCatalogModels,
+} from "../extensions/formatting.js";
 import {
 	buildProgressBar,
+	buildUsageLedger,
+	diffFallbackSnapshot,
+	diffPermalinkTargets,
+	formatPermalink,
 	formatTimeRemaining,
+	formatUsageCsv,
+	getAccountEnvVar,
 	getFallbackModels,
+	getModelExclusionReason,
+	getPermalinkTarget,
+	getPermalinkTargets,
 	getQuotaSystemLabel,
+	getRegionExclusionReason,
 	getUsageColor,
 	hasVisibleQuotaBucket,
+	listSyntheticAccounts,
+	maskApiKey,
+	matchesModelPattern,
 	parsePrice,
+	parseSyntheticProviderConfig,
+	resolveSyntheticAccount,
 	shouldDisplaySubscriptionQuota,
 } from "../extensions/index.js";
+import type { SyntheticModel } from "../extensions/types.js";
 
 describe("pi-synthetic-provider helpers", () => {
 	it("parses prices", () => {
@@ -321,3 +349,339 @@ describe("quota helpers", () => {
 		});
 	});
 });
+
+describe("catalog filtering and sorting", () => {
+	const model = (id: string, overrides: Partial<SyntheticModel> = {}): SyntheticModel => ({
+		id,
+		hugging_face_id: id.replace("hf:", ""),
+		name: id,
+		input_modalities: ["text"],
+		output_modalities: ["text"],
+		context_length: 128000,
+		max_output_length: 32768,
+		pricing: { prompt: "$0.000001", completion: "$0.000002" },
+		supported_features: ["tools"],
+		provider: "synthetic",
+		...overrides,
+	});
+	const models = [
+		model("hf:zai-org/GLM-5.2", { context_length: 200000, datacenters: [{ country_code: "US" }] }),
+		model("hf:moonshotai/Kimi-K3", {
+			input_modalities: ["text", "image"],
+			supported_features: ["tools", "reasoning"],
+			pricing: { prompt: "$0.0000006", completion: "$0.0000025" },
+			datacenters: [{ country_code: "CA" }],
+		}),
+		model("hf:deepseek-ai/DeepSeek-V4", {
+			provider: "together",
+			pricing: { prompt: "$0.0000003", completion: "$0.000002" },
+		}),
+	];
+
+	it("matches every query term case-insensitively and every required capability", () => {
+		expect(filterCatalogModels(models, "GLM").map((m) => m.id)).toEqual(["hf:zai-org/GLM-5.2"]);
+		expect(filterCatalogModels(models, "together deep").map((m) => m.id)).toEqual(["hf:deepseek-ai/DeepSeek-V4"]);
+		expect(filterCatalogModels(models, "", ["vision", "reason"]).map((m) => m.id)).toEqual(["hf:moonshotai/Kimi-K3"]);
+		expect(filterCatalogModels(models, "glm", ["vision"])).toEqual([]);
+	});
+
+	it("sorts by price, context, and region without mutating the input", () => {
+		const ids = (sorted: SyntheticModel[]) => sorted.map((m) => m.id);
+
+		expect(ids(sortCatalogModels(models, "default"))).toEqual([
+			"hf:moonshotai/Kimi-K3",
+			"hf:zai-org/GLM-5.2",
+			"hf:deepseek-ai/DeepSeek-V4",
+		]);
+		expect(ids(sortCatalogModels(models, "input"))[0]).toBe("hf:deepseek-ai/DeepSeek-V4");
+		expect(ids(sortCatalogModels(models, "output"))).toEqual([
+			"hf:zai-org/GLM-5.2",
+			"hf:deepseek-ai/DeepSeek-V4",
+			"hf:moonshotai/Kimi-K3",
+		]);
+		expect(ids(sortCatalogModels(models, "context"))[0]).toBe("hf:zai-org/GLM-5.2");
+		expect(ids(sortCatalogModels(models, "region"))).toEqual([
+			"hf:moonshotai/Kimi-K3",
+			"hf:zai-org/GLM-5.2",
+			"hf:deepseek-ai/DeepSeek-V4",
+		]);
+		expect(models[0].id).toBe("hf:zai-org/GLM-5.2");
+	});
+});
+
+describe("model exclusion reasons", () => {
+	const row = (overrides: Partial<SyntheticModel>) =>
+		({ id: "hf:test/model", always_on: true, supported_features: ["tools"], ...overrides }) as SyntheticModel;
+
+	it("explains rows pi does not register", () => {
+		expect(getModelExclusionReason(row({}))).toBeUndefined();
+		expect(getModelExclusionReason(row({ always_on: false }))).toContain("on-demand, not always-on");
+		expect(getModelExclusionReason(row({ always_on: false }), { includeOnDemand: true })).toBeUndefined();
+		expect(getModelExclusionReason(row({ supported_features: ["reasoning"] }))).toBe(
+			"no tool calling support (pi's agent requires tools)",
+		);
+		expect(
+			getModelExclusionReason(row({ always_on: false, supported_features: [] }), { includeOnDemand: true }),
+		).toContain("no tool calling");
+	});
+
+	it("drops rows outside allowedCountries and rows without datacenter metadata", () => {
+		const inCountry = (country_code: string) => row({ datacenters: [{ country_code }] });
+		const allowedCountries = ["US", "DE"];
+
+		expect(getRegionExclusionReason(inCountry("CA"), undefined)).toBeUndefined();
+		expect(getModelExclusionReason(inCountry("us"), { allowedCountries })).toBeUndefined();
+		expect(
+			getModelExclusionReason(row({ datacenters: [{ country_code: "CA" }, { country_code: "DE" }] }), {
+				allowedCountries,
+			}),
+		).toBeUndefined();
+		expect(getModelExclusionReason(inCountry("CA"), { allowedCountries })).toBe(
+			"runs only in CA, outside allowedCountries (US, DE)",
+		);
+		expect(getModelExclusionReason(row({}), { allowedCountries })).toBe(
+			"no datacenter metadata to check against allowedCountries (US, DE)",
+		);
+		expect(getModelExclusionReason(row({ supported_features: [] }), { allowedCountries })).toContain("no tool calling");
+	});
+});
+
+describe("provider config", () => {
+	it("matches model ids against case-insensitive globs", () => {
+		expect(matchesModelPattern("hf:zai-org/GLM-5.2", "hf:zai-org/*")).toBe(true);
+		expect(matchesModelPattern("hf:zai-org/GLM-5.2", "*glm-5.?")).toBe(true);
+		expect(matchesModelPattern("hf:zai-org/GLM-5.2", "hf:zai-org/GLM-5")).toBe(false);
+		expect(matchesModelPattern("hf:zai-org/GLM-5.2", "hf:zai-org/GLM-5+2")).toBe(false);
+	});
+
+	it("keeps valid keys and drops malformed values", () => {
+		expect(
+			parseSyntheticProviderConfig(
+				{
+					baseUrl: " http://localhost:8787/v1 ",
+					timeoutMs: -5,
+					includeModels: ["hf:zai-org/*", 42, ""],
+					excludeModels: "nope",
+					modelOverrides: {
+						"hf:zai-org/GLM-5.2": {
+							contextWindow: "big",
+							maxTokens: 8192,
+							thinkingLevelMap: { high: "high", turbo: 1 },
+						},
+					},
+				},
+				"test.json",
+			),
+		).toEqual({
+			baseUrl: "http://localhost:8787/v1",
+			timeoutMs: undefined,
+			includeModels: ["hf:zai-org/*"],
+			excludeModels: undefined,
+			modelOverrides: { "hf:zai-org/GLM-5.2": { maxTokens: 8192, thinkingLevelMap: { high: "high" } } },
+		});
+		expect(parseSyntheticProviderConfig({ allowedCountries: ["us", " de ", 7] }, "test.json").allowedCountries).toEqual(
+			["US", "DE"],
+		);
+		expect(() => parseSyntheticProviderConfig({ modelOverrides: { x: 1 } }, "test.json")).toThrow(
+			'modelOverrides["x"] must be an object',
+		);
+	});
+});
+
+describe("doctor diagnostics", () => {
+	it("masks API keys down to their prefix and last four characters", () => {
+		expect(maskApiKey("syn_0123456789abcdef")).toBe("syn_…cdef");
+		expect(maskApiKey("syn_short")).toBe("****");
+	});
+
+	it("diffs the live catalog against the fallback snapshot", () => {
+		const [gptOss, glm, kimi] = getFallbackModels().filter((model) => model.id.startsWith("hf:"));
+		const live = [
+			{
+				...gptOss,
+				cost: { ...gptOss.cost, input: 0.8 },
+				thinkingLevelMap: { ...gptOss.thinkingLevelMap, xhigh: "xhigh" },
+			},
+			glm,
+			{ ...glm, id: "hf:example/New-Model" },
+		];
+
+		expect(diffFallbackSnapshot(live, [gptOss, glm, kimi])).toEqual({
+			missingFromFallback: ["hf:example/New-Model"],
+			goneFromLive: [kimi.id],
+			changed: [{ id: gptOss.id, fields: ["cost.input", "efforts"] }],
+		});
+	});
+});
+
+describe("named accounts", () => {
+	afterEach(() => {
+		vi.unstubAllEnvs();
+	});
+
+	const writeAuth = (entries: object) => {
+		const authPath = join(mkdtempSync(join(tmpdir(), "pi-synthetic-auth-")), "auth.json");
+		writeFileSync(authPath, JSON.stringify(entries));
+		return authPath;
+	};
+
+	it("derives the environment variable from the account name", () => {
+		expect(getAccountEnvVar("org")).toBe("SYNTHETIC_API_KEY_ORG");
+		expect(getAccountEnvVar("my-team.2")).toBe("SYNTHETIC_API_KEY_MY_TEAM_2");
+	});
+
+	it("lists accounts from auth.json and the environment", () => {
+		vi.stubEnv("SYNTHETIC_API_KEY_ORG", "syn_org_env");
+		const authPath = writeAuth({
+			synthetic: { type: "api_key", key: "syn_default" },
+			"synthetic:personal": { type: "api_key", key: "syn_personal" },
+			"synthetic:org": { type: "api_key", key: "syn_org_auth" },
+			"synthetic:broken": { type: "oauth" },
+		});
+
+		expect(listSyntheticAccounts(authPath)).toEqual(["org", "personal"]);
+	});
+
+	it("prefers auth.json over the environment when resolving a key", () => {
+		vi.stubEnv("SYNTHETIC_API_KEY_ORG", "syn_org_env");
+		vi.stubEnv("SYNTHETIC_API_KEY_TEAM", "syn_team_env");
+		const authPath = writeAuth({ "synthetic:org": { type: "api_key", key: "syn_org_auth" } });
+
+		expect(resolveSyntheticAccount("org", authPath)).toEqual({
+			name: "org",
+			apiKey: "syn_org_auth",
+			source: "auth.json",
+		});
+		expect(resolveSyntheticAccount("team", authPath)?.source).toBe("SYNTHETIC_API_KEY_TEAM");
+		expect(resolveSyntheticAccount("constructor", authPath)).toBeUndefined();
+	});
+});
+
+describe("permalinks", () => {
+	const row = (id: string, huggingFaceId: string) =>
+		({ id, hugging_face_id: huggingFaceId, name: id, pricing: {} }) as SyntheticModel;
+
+	it("resolves and formats permalink targets", () => {
+		expect(getPermalinkTarget(row("syn:large:text", "zai-org/GLM-5.2"))).toBe("zai-org/GLM-5.2");
+		expect(getPermalinkTarget(row("hf:zai-org/GLM-5.2", "zai-org/GLM-5.2"))).toBeUndefined();
+		expect(getPermalinkTarget(row("syn:large:text", "syn:other"))).toBeUndefined();
+		expect(formatPermalink("syn:large:text", "zai-org/GLM-5.2")).toBe("syn:large:text → zai-org/GLM-5.2");
+		expect(formatCatalogRow(row("syn:large:text", "zai-org/GLM-5.2"))).toContain("syn:large:text → zai-org/GLM-5.2");
+	});
+
+	it("reports only permalinks whose target changed", () => {
+		const previous = getPermalinkTargets({
+			data: [row("syn:large:text", "zai-org/GLM-5.1"), row("syn:small:text", "zai-org/GLM-4.7-Flash")],
+		});
+		const next = { ...previous, "syn:large:text": "zai-org/GLM-5.2", "syn:large:vision": "moonshotai/Kimi-K3" };
+
+		expect(diffPermalinkTargets(previous, next)).toEqual([
+			{ id: "syn:large:text", from: "zai-org/GLM-5.1", to: "zai-org/GLM-5.2" },
+		]);
+		expect(diffPermalinkTargets({}, next)).toEqual([]);
+	});
+});
+
+describe("model comparison", () => {
+	it("parses typical turn sizes", () => {
+		expect(parseTypicalTurn("30k:2k")).toEqual({ input: 30000, output: 2000, cacheRead: 0 });
+		expect(parseTypicalTurn("8000:1500:1.5m")).toEqual({ input: 8000, output: 1500, cacheRead: 1_500_000 });
+		expect(parseTypicalTurn("30k")).toBeUndefined();
+		expect(parseTypicalTurn("lots:2k")).toBeUndefined();
+		expect(parseTypicalTurn(undefined)).toBeUndefined();
+	});
+
+	it("estimates turn cost from per-million prices", () => {
+		const cost = estimateTurnCost(
+			{
+				id: "hf:test/model",
+				hugging_face_id: "test/model",
+				name: "Test",
+				input_modalities: ["text"],
+				output_modalities: ["text"],
+				context_length: 128000,
+				max_output_length: 32768,
+				pricing: { prompt: "$0.000001", completion: "$0.000004", input_cache_reads: "$0.0000002" },
+			},
+			{ input: 10000, output: 1000, cacheRead: 50000 },
+		);
+
+		expect(cost).toBeCloseTo(0.024);
+	});
+});
+
+describe("usage ledger", () => {
+	const assistantEntry = (
+		id: string,
+		provider: string,
+		model: string,
+		usage: { input: number; output: number; cacheRead: number; cost: number },
+	) =>
+		({
+			type: "message",
+			id,
+			parentId: null,
+			timestamp: `2026-10-01T00:00:0${id}.000Z`,
+			message: {
+				role: "assistant",
+				content: [],
+				api: "openai-completions",
+				provider,
+				model,
+				usage: {
+					input: usage.input,
+					output: usage.output,
+					cacheRead: usage.cacheRead,
+					cacheWrite: 0,
+					totalTokens: usage.input + usage.output + usage.cacheRead,
+					cost: { input: usage.cost / 2, output: usage.cost / 2, cacheRead: 0, cacheWrite: 0, total: usage.cost },
+				},
+				stopReason: "stop",
+				timestamp: 0,
+			},
+		}) as unknown as SessionEntry;
+
+	const entries = [
+		{ type: "message", id: "0", parentId: null, timestamp: "", message: { role: "user", content: "hi", timestamp: 0 } },
+		assistantEntry("1", "synthetic", "hf:zai-org/GLM-5.2", { input: 1000, output: 200, cacheRead: 500, cost: 0.002 }),
+		assistantEntry("2", "openai", "gpt-5", { input: 9000, output: 900, cacheRead: 0, cost: 1 }),
+		assistantEntry("3", "synthetic", "hf:moonshotai/Kimi-K3", { input: 4000, output: 800, cacheRead: 0, cost: 0.01 }),
+		assistantEntry("4", "synthetic", "hf:zai-org/GLM-5.2", { input: 2000, output: 100, cacheRead: 0, cost: 0.003 }),
+	] as unknown as SessionEntry[];
+
+	it("totals only Synthetic assistant turns", () => {
+		const ledger = buildUsageLedger(entries);
+
+		expect(ledger.turns.map((turn) => turn.turn)).toEqual([1, 2, 3]);
+		expect(ledger.totals).toMatchObject({ turns: 3, input: 7000, output: 1100, cacheRead: 500 });
+		expect(ledger.totals.cost.total).toBeCloseTo(0.015);
+	});
+
+	it("groups turns per model, most expensive first", () => {
+		const ledger = buildUsageLedger(entries);
+
+		expect(ledger.models.map((model) => [model.model, model.turns])).toEqual([
+			["hf:moonshotai/Kimi-K3", 1],
+			["hf:zai-org/GLM-5.2", 2],
+		]);
+		expect(ledger.models[1].cost.total).toBeCloseTo(0.005);
+	});
+
+	it("exports one CSV row per turn", () => {
+		const csv = formatUsageCsv(buildUsageLedger(entries));
+		const lines = csv.trimEnd().split("\n");
+
+		expect(lines).toHaveLength(4);
+		expect(lines[0]).toMatch(/^turn,timestamp,model,input_tokens/);
+		expect(lines[1]).toBe("1,2026-10-01T00:00:01.000Z,hf:zai-org/GLM-5.2,1000,200,500,0,1700,0.001,0.001,0,0,0.002");
+	});
+
+	it("formats costs and compact token counts", () => {
+		expect(formatCost(0)).toBe("$0.00");
+		expect(formatCost(0.0042)).toBe("$0.0042");
+		expect(formatCost(1.234)).toBe("$1.23");
+		expect(formatCompactTokens(950)).toBe("950");
+		expect(formatCompactTokens(12_345)).toBe("12.3K");
+		expect(formatCompactTokens(4_500_000)).toBe("4.50M");
+	});
+});
@@ -1,7 +1,14 @@
-import { readFileSync } from "node:fs";
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
 import type { ExtensionAPI, ProviderModelConfig } from "@earendil-works/pi-coding-agent";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
-import syntheticProvider, { getFallbackModels } from "../extensions/index.js";
+import syntheticProvider, {
+	getActiveSyntheticAccount,
+	getCatalogCachePath,
+	getFallbackModels,
+	readCatalogCache,
+} from "../extensions/index.js";
 
 const GLM_5_2_MODEL_ID = "hf:zai-org/GLM-5.2";
 const KIMI_K3_MODEL_ID = "hf:moonshotai/Kimi-K3";
@@ -63,7 +70,10 @@ const createMockPi = () =>
 	({
 		registerProvider: vi.fn(),
 		registerCommand: vi.fn(),
+		registerFlag: vi.fn(),
+		getFlag: vi.fn(),
 		on: vi.fn(),
+		setModel: vi.fn().mockResolvedValue(true),
 	}) satisfies Partial<ExtensionAPI>;
 
 const stubModelsFetch = () => {
@@ -71,6 +81,7 @@ const stubModelsFetch = () => {
 		"fetch",
 		vi.fn().mockResolvedValue({
 			ok: true,
+			headers: new Headers(),
 			json: async () => ({
 				data: [
 					{
@@ -92,7 +103,21 @@ const stubModelsFetch = () => {
 	);
 };
 
+// Point pi's agent dir at a fresh temp dir per test so the on-disk catalog cache
+// never leaks between tests or touches the real ~/.pi/agent.
+let previousAgentDir: string | undefined;
+
+beforeEach(() => {
+	previousAgentDir = process.env.PI_CODING_AGENT_DIR;
+	process.env.PI_CODING_AGENT_DIR = mkdtempSync(join(tmpdir(), "pi-synthetic-agent-"));
+});
+
 afterEach(() => {
+	if (previousAgentDir === undefined) {
+		delete process.env.PI_CODING_AGENT_DIR;
+	} else {
+		process.env.PI_CODING_AGENT_DIR = previousAgentDir;
+	}
 	vi.useRealTimers();
 	vi.unstubAllGlobals();
 	vi.restoreAllMocks();
@@ -103,6 +128,7 @@ describe("pi-synthetic-provider", () => {
 		const manifest = JSON.parse(readFileSync(new URL("../package.json", import.meta.url), "utf-8"));
 
 		expect(manifest.peerDependencies).toMatchObject({
+			"@earendil-works/pi-ai": ">=0.77.0",
 			"@earendil-works/pi-coding-agent": ">=0.77.0",
 			"@earendil-works/pi-tui": ">=0.77.0",
 		});
@@ -129,6 +155,10 @@ describe("pi-synthetic-provider", () => {
 			"synthetic-quota",
 			expect.objectContaining({ description: expect.any(String) }),
 		);
+		expect(mockPi.registerCommand).toHaveBeenCalledWith(
+			"synthetic-usage",
+			expect.objectContaining({ description: expect.any(String) }),
+		);
 	});
 
 	it("derives exact reasoning-effort overrides from the live catalog", async () => {
@@ -147,6 +177,7 @@ describe("pi-synthetic-provider", () => {
 			"fetch",
 			vi.fn().mockResolvedValue({
 				ok: true,
+				headers: new Headers(),
 				json: async () => ({
 					data: REASONING_MODEL_IDS.map((id) =>
 						liveModel(id, id, REASONING_MODEL_EFFORTS[id as keyof typeof REASONING_MODEL_EFFORTS]),
@@ -171,6 +202,7 @@ describe("pi-synthetic-provider", () => {
 			"fetch",
 			vi.fn().mockResolvedValue({
 				ok: true,
+				headers: new Headers(),
 				json: async () => ({
 					data: [
 						{
@@ -208,6 +240,7 @@ describe("pi-synthetic-provider", () => {
 			"fetch",
 			vi.fn().mockResolvedValue({
 				ok: true,
+				headers: new Headers(),
 				json: async () => ({
 					data: [
 						{
@@ -255,6 +288,7 @@ describe("pi-synthetic-provider", () => {
 			"fetch",
 			vi.fn().mockResolvedValue({
 				ok: true,
+				headers: new Headers(),
 				json: async () => ({
 					data: permalinks.map(([id, huggingFaceId]) => ({
 						id,
@@ -297,6 +331,7 @@ describe("pi-synthetic-provider", () => {
 			"fetch",
 			vi.fn().mockResolvedValue({
 				ok: true,
+				headers: new Headers(),
 				json: async () => ({
 					data: rows.map((row) => ({
 						...row,
@@ -326,6 +361,7 @@ describe("pi-synthetic-provider", () => {
 			"fetch",
 			vi.fn().mockResolvedValue({
 				ok: true,
+				headers: new Headers(),
 				json: async () => ({
 					data: [
 						{
@@ -357,6 +393,7 @@ describe("pi-synthetic-provider", () => {
 			"fetch",
 			vi.fn().mockResolvedValue({
 				ok: true,
+				headers: new Headers(),
 				json: async () => ({
 					data: ["constructor", "toString", "__proto__"].map((id) => ({
 						id,
@@ -395,6 +432,7 @@ describe("pi-synthetic-provider", () => {
 			"fetch",
 			vi.fn().mockResolvedValue({
 				ok: true,
+				headers: new Headers(),
 				json: async () => ({
 					data: REASONING_MODEL_IDS.map((id) => liveModel(id, id)),
 				}),
@@ -487,7 +525,9 @@ describe("pi-synthetic-provider", () => {
 			const ctx = createSessionCtx();
 			await getSessionStartHandler(mockPi)(undefined, ctx);
 
-			expect(ctx.ui.notify).toHaveBeenCalledWith(expect.stringContaining("catalog down"), "error");
+			await vi.waitFor(() => {
+				expect(ctx.ui.notify).toHaveBeenCalledWith(expect.stringContaining("catalog down"), "error");
+			});
 			expect(errorSpy).not.toHaveBeenCalled();
 		});
 
@@ -501,8 +541,144 @@ describe("pi-synthetic-provider", () => {
 			const ctx = createSessionCtx({ hasUI: false });
 			await getSessionStartHandler(mockPi)(undefined, ctx);
 
+			await vi.waitFor(() => {
+				expect(errorSpy).toHaveBeenCalledWith("[Synthetic Provider] Failed to fetch models:", expect.any(Error));
+			});
 			expect(ctx.ui.notify).not.toHaveBeenCalled();
-			expect(errorSpy).toHaveBeenCalledWith("[Synthetic Provider] Failed to fetch models:", expect.any(Error));
+		});
+	});
+
+	describe("catalog cache", () => {
+		const cachedRow = {
+			id: "hf:zai-org/GLM-5.2",
+			name: "zai-org/GLM-5.2",
+			always_on: true,
+			supported_features: ["tools", "reasoning"],
+			input_modalities: ["text"],
+			context_length: 524288,
+			max_output_length: 65536,
+			pricing: { prompt: "1", completion: "3" },
+		};
+
+		const writeCache = (etag?: string) => {
+			const cachePath = getCatalogCachePath();
+			mkdirSync(dirname(cachePath), { recursive: true });
+			writeFileSync(
+				cachePath,
+				JSON.stringify({
+					version: 1,
+					fetchedAt: "2026-10-01T00:00:00.000Z",
+					...(etag ? { etag } : {}),
+					response: { data: [cachedRow] },
+				}),
+			);
+		};
+
+		const runSessionStart = async (mockPi: ReturnType<typeof createMockPi>, hasUI = true) => {
+			const call = mockPi.on.mock.calls.find(([name]) => name === "session_start");
+			if (!call) throw new Error("session_start handler was not registered");
+			const ctx = {
+				hasUI,
+				ui: { notify: vi.fn() },
+				modelRegistry: { getApiKeyForProvider: vi.fn().mockResolvedValue("syn_test_key") },
+			};
+			await (call[1] as (event: unknown, ctx: unknown) => Promise<void>)(undefined, ctx);
+			return ctx;
+		};
+
+		it("writes the first live catalog to the cache with its ETag", async () => {
+			vi.stubGlobal(
+				"fetch",
+				vi.fn().mockResolvedValue({
+					ok: true,
+					status: 200,
+					headers: new Headers({ etag: '"v1"' }),
+					json: async () => ({ data: [cachedRow] }),
+				}),
+			);
+			const mockPi = createMockPi();
+			await syntheticProvider(mockPi as unknown as ExtensionAPI);
+
+			expect(readCatalogCache()).toMatchObject({
+				version: 1,
+				etag: '"v1"',
+				fetchedAt: expect.any(String),
+				response: { data: [expect.objectContaining({ id: "hf:zai-org/GLM-5.2" })] },
+			});
+		});
+
+		it("registers from the cache at startup without touching the network", async () => {
+			writeCache();
+			const fetchMock = vi.fn();
+			vi.stubGlobal("fetch", fetchMock);
+			const mockPi = createMockPi();
+			await syntheticProvider(mockPi as unknown as ExtensionAPI);
+
+			expect(fetchMock).not.toHaveBeenCalled();
+			const models = mockPi.registerProvider.mock.calls[0]?.[1].models as ProviderModelConfig[];
+			expect(models.map((model) => model.id)).toEqual(["hf:zai-org/GLM-5.2"]);
+		});
+
+		it("revalidates with If-None-Match and keeps the cached catalog on 304", async () => {
+			writeCache('"v1"');
+			const fetchMock = vi.fn().mockResolvedValue({ ok: false, status: 304, headers: new Headers() });
+			vi.stubGlobal("fetch", fetchMock);
+			const mockPi = createMockPi();
+			await syntheticProvider(mockPi as unknown as ExtensionAPI);
+			await runSessionStart(mockPi);
+
+			await vi.waitFor(() => expect(mockPi.registerProvider).toHaveBeenCalledTimes(2));
+			expect(fetchMock.mock.calls[0]?.[1].headers).toMatchObject({ "If-None-Match": '"v1"' });
+			const models = mockPi.registerProvider.mock.calls[1]?.[1].models as ProviderModelConfig[];
+			expect(models.map((model) => model.id)).toEqual(["hf:zai-org/GLM-5.2"]);
+			expect(readCatalogCache()?.fetchedAt).not.toBe("2026-10-01T00:00:00.000Z");
+		});
+
+		it("replaces the cache when revalidation returns a new catalog", async () => {
+			writeCache('"v1"');
+			vi.stubGlobal(
+				"fetch",
+				vi.fn().mockResolvedValue({
+					ok: true,
+					status: 200,
+					headers: new Headers({ etag: '"v2"' }),
+					json: async () => ({ data: [{ ...cachedRow, id: "hf:moonshotai/Kimi-K3", name: "moonshotai/Kimi-K3" }] }),
+				}),
+			);
+			const mockPi = createMockPi();
+			await syntheticProvider(mockPi as unknown as ExtensionAPI);
+			await runSessionStart(mockPi);
+
+			await vi.waitFor(() => expect(mockPi.registerProvider).toHaveBeenCalledTimes(2));
+			const models = mockPi.registerProvider.mock.calls[1]?.[1].models as ProviderModelConfig[];
+			expect(models.map((model) => model.id)).toEqual(["hf:moonshotai/Kimi-K3"]);
+			expect(readCatalogCache()).toMatchObject({ etag: '"v2"' });
+		});
+
+		it("keeps the cached catalog instead of the fallback snapshot when revalidation fails", async () => {
+			writeCache();
+			vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new Error("catalog down")));
+			const mockPi = createMockPi();
+			await syntheticProvider(mockPi as unknown as ExtensionAPI);
+			const ctx = await runSessionStart(mockPi);
+
+			await vi.waitFor(() => expect(mockPi.registerProvider).toHaveBeenCalledTimes(2));
+			const models = mockPi.registerProvider.mock.calls[1]?.[1].models as ProviderModelConfig[];
+			expect(models.map((model) => model.id)).toEqual(["hf:zai-org/GLM-5.2"]);
+			expect(ctx.ui.notify).toHaveBeenCalledWith(expect.stringContaining("using catalog cached at"), "warning");
+		});
+
+		it("ignores a malformed cache file", async () => {
+			const cachePath = getCatalogCachePath();
+			mkdirSync(dirname(cachePath), { recursive: true });
+			writeFileSync(cachePath, "{ not json");
+			stubModelsFetch();
+			const mockPi = createMockPi();
+			await syntheticProvider(mockPi as unknown as ExtensionAPI);
+
+			expect(fetch).toHaveBeenCalledTimes(1);
+			expect(existsSync(cachePath)).toBe(true);
+			expect(readCatalogCache()?.response.data).toHaveLength(1);
 		});
 	});
 
@@ -512,6 +688,7 @@ describe("pi-synthetic-provider", () => {
 			"fetch",
 			vi.fn().mockResolvedValue({
 				ok: true,
+				headers: new Headers(),
 				json: async () => ({ data: [{ id: "off-model", always_on: false }] }),
 			}),
 		);
@@ -523,6 +700,396 @@ describe("pi-synthetic-provider", () => {
 		expect(models.some((model) => model.id === "off-model")).toBe(false);
 	});
 
+	describe("on-demand models", () => {
+		const onDemandRows = [
+			{
+				id: "hf:zai-org/GLM-5.2",
+				name: "zai-org/GLM-5.2",
+				always_on: true,
+				supported_features: ["tools"],
+				input_modalities: ["text"],
+				context_length: 524288,
+				max_output_length: 65536,
+				pricing: { prompt: "1", completion: "3" },
+			},
+			{
+				id: "hf:deepseek-ai/DeepSeek-V4",
+				name: "deepseek-ai/DeepSeek-V4",
+				always_on: false,
+				supported_features: ["tools"],
+				input_modalities: ["text"],
+				context_length: 131072,
+				max_output_length: 8192,
+				pricing: { prompt: "1", completion: "2" },
+			},
+			{
+				id: "hf:example/no-tools",
+				name: "example/no-tools",
+				always_on: false,
+				supported_features: [],
+				input_modalities: ["text"],
+				context_length: 131072,
+				max_output_length: 8192,
+				pricing: { prompt: "1", completion: "2" },
+			},
+		];
+		let savedOnDemand: string | undefined;
+
+		beforeEach(() => {
+			savedOnDemand = process.env.SYNTHETIC_ON_DEMAND;
+			delete process.env.SYNTHETIC_ON_DEMAND;
+			vi.stubGlobal(
+				"fetch",
+				vi.fn().mockResolvedValue({ ok: true, headers: new Headers(), json: async () => ({ data: onDemandRows }) }),
+			);
+		});
+		afterEach(() => {
+			if (savedOnDemand === undefined) {
+				delete process.env.SYNTHETIC_ON_DEMAND;
+			} else {
+				process.env.SYNTHETIC_ON_DEMAND = savedOnDemand;
+			}
+		});
+
+		it("skips on-demand models by default", async () => {
+			const mockPi = createMockPi();
+			await syntheticProvider(mockPi as unknown as ExtensionAPI);
+
+			const models = mockPi.registerProvider.mock.calls[0]?.[1].models as ProviderModelConfig[];
+			expect(models.map((model) => model.id)).toEqual(["hf:zai-org/GLM-5.2"]);
+		});
+
+		it("registers marked on-demand models at startup with SYNTHETIC_ON_DEMAND=1", async () => {
+			process.env.SYNTHETIC_ON_DEMAND = "1";
+			const mockPi = createMockPi();
+			await syntheticProvider(mockPi as unknown as ExtensionAPI);
+
+			const models = mockPi.registerProvider.mock.calls[0]?.[1].models as ProviderModelConfig[];
+			expect(models.map((model) => [model.id, model.name])).toEqual([
+				["hf:zai-org/GLM-5.2", "zai-org/GLM-5.2"],
+				["hf:deepseek-ai/DeepSeek-V4", "deepseek-ai/DeepSeek-V4 (on-demand)"],
+			]);
+		});
+
+		it("applies --synthetic-on-demand when the session starts", async () => {
+			const mockPi = createMockPi();
+			await syntheticProvider(mockPi as unknown as ExtensionAPI);
+			mockPi.getFlag.mockImplementation((name: string) => name === "synthetic-on-demand");
+
+			const call = mockPi.on.mock.calls.find(([name]) => name === "session_start");
+			const ctx = {
+				hasUI: false,
+				ui: { notify: vi.fn() },
+				modelRegistry: { getApiKeyForProvider: vi.fn().mockResolvedValue("syn_test_key") },
+			};
+			if (!call) throw new Error("session_start handler was not registered");
+			await (call[1] as (event: unknown, ctx: unknown) => Promise<void>)(undefined, ctx);
+
+			await vi.waitFor(() => expect(mockPi.registerProvider).toHaveBeenCalledTimes(2));
+			const models = mockPi.registerProvider.mock.calls[1]?.[1].models as ProviderModelConfig[];
+			expect(models.map((model) => model.id)).toContain("hf:deepseek-ai/DeepSeek-V4");
+			expect(models.map((model) => model.id)).not.toContain("hf:example/no-tools");
+		});
+	});
+
+	describe("provider config file", () => {
+		const writeConfig = (config: object) => {
+			const configPath = join(process.env.PI_CODING_AGENT_DIR as string, "extensions", "pi-synthetic-provider.json");
+			mkdirSync(dirname(configPath), { recursive: true });
+			writeFileSync(configPath, JSON.stringify(config));
+		};
+		const catalogRow = (id: string, countries: string[] = []) => ({
+			id,
+			name: id.replace("hf:", ""),
+			datacenters: countries.map((country_code) => ({ country_code })),
+			always_on: true,
+			supported_features: ["tools"],
+			input_modalities: ["text"],
+			context_length: 262144,
+			max_output_length: 65536,
+			pricing: { prompt: "1", completion: "3" },
+		});
+		const stubCatalog = () =>
+			vi.stubGlobal(
+				"fetch",
+				vi.fn().mockResolvedValue({
+					ok: true,
+					headers: new Headers(),
+					json: async () => ({
+						data: [
+							catalogRow("hf:zai-org/GLM-5.2", ["US"]),
+							catalogRow("hf:zai-org/GLM-4.7-Flash", ["CA"]),
+							catalogRow("hf:moonshotai/Kimi-K3"),
+						],
+					}),
+				}),
+			);
+
+		it("fetches from and registers the configured base URL", async () => {
+			writeConfig({ baseUrl: "http://localhost:8787/v1/" });
+			stubCatalog();
+			const mockPi = createMockPi();
+			await syntheticProvider(mockPi as unknown as ExtensionAPI);
+
+			expect(vi.mocked(fetch).mock.calls[0]?.[0]).toBe("http://localhost:8787/v1/models");
+			expect(mockPi.registerProvider.mock.calls[0]?.[1].baseUrl).toBe("http://localhost:8787/v1/");
+			expect(readCatalogCache()?.baseUrl).toBe("http://localhost:8787/v1/");
+		});
+
+		it("ignores a cache fetched from a different base URL", async () => {
+			stubCatalog();
+			await syntheticProvider(createMockPi() as unknown as ExtensionAPI);
+			writeConfig({ baseUrl: "http://localhost:8787/v1" });
+			vi.mocked(fetch).mockClear();
+
+			await syntheticProvider(createMockPi() as unknown as ExtensionAPI);
+
+			expect(fetch).toHaveBeenCalledWith("http://localhost:8787/v1/models", expect.anything());
+		});
+
+		it("applies include/exclude globs and per-model overrides", async () => {
+			writeConfig({
+				includeModels: ["hf:zai-org/*", "HF:MOONSHOTAI/*"],
+				excludeModels: ["*Flash*"],
+				modelOverrides: {
+					"hf:zai-org/GLM-5.2": {
+						contextWindow: 200000,
+						maxTokens: 16384,
+						compat: { supportsStrictMode: true },
+						thinkingLevelMap: { high: "high", max: "max" },
+					},
+				},
+			});
+			stubCatalog();
+			const mockPi = createMockPi();
+			await syntheticProvider(mockPi as unknown as ExtensionAPI);
+
+			const models = mockPi.registerProvider.mock.calls[0]?.[1].models as ProviderModelConfig[];
+			expect(models.map((model) => model.id)).toEqual(["hf:zai-org/GLM-5.2", "hf:moonshotai/Kimi-K3"]);
+			expect(models[0]).toMatchObject({
+				contextWindow: 200000,
+				maxTokens: 16384,
+				reasoning: true,
+				thinkingLevelMap: { high: "high", max: "max" },
+				compat: { supportsStrictMode: true, supportsReasoningEffort: true, requiresToolResultName: true },
+			});
+			expect(models[1]).toMatchObject({ contextWindow: 262144, maxTokens: 65536 });
+		});
+
+		it("registers only models with a datacenter in allowedCountries and shows their region", async () => {
+			writeConfig({ allowedCountries: ["us", "de"] });
+			stubCatalog();
+			const mockPi = createMockPi();
+			await syntheticProvider(mockPi as unknown as ExtensionAPI);
+
+			const models = mockPi.registerProvider.mock.calls[0]?.[1].models as ProviderModelConfig[];
+			expect(models.map((model) => model.id)).toEqual(["hf:zai-org/GLM-5.2"]);
+
+			const modelSelect = mockPi.on.mock.calls.find(([eventName]) => eventName === "model_select")?.[1];
+			const ctx = { hasUI: true, ui: { notify: vi.fn() } };
+			const model = {
+				provider: "synthetic",
+				id: "hf:zai-org/GLM-5.2",
+				name: "GLM-5.2",
+				contextWindow: 196608,
+				cost: { input: 1, output: 3, cacheRead: 1, cacheWrite: 0 },
+			};
+			await modelSelect?.({ model }, ctx);
+			expect(ctx.ui.notify).toHaveBeenCalledWith(
+				"Using Synthetic model: GLM-5.2 · 192K context · standard $1.00/$3.00 per M · region: United States (US)",
+				"info",
+			);
+		});
+
+		it("warns that allowedCountries withholds the fallback models when the catalog is unreachable", async () => {
+			vi.spyOn(console, "error").mockImplementation(() => {});
+			const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+			writeConfig({ allowedCountries: ["us"] });
+			vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new Error("catalog down")));
+			const mockPi = createMockPi();
+			await syntheticProvider(mockPi as unknown as ExtensionAPI);
+
+			expect(mockPi.registerProvider.mock.calls[0]?.[1].models).toEqual([]);
+			expect(warnSpy).toHaveBeenCalledWith(
+				"[Synthetic Provider] No Synthetic models registered: the model catalog is unreachable and the fallback models carry no datacenter metadata to check against allowedCountries (US)",
+			);
+		});
+
+		it("registers the key of the account named in the config", async () => {
+			writeConfig({ account: "org" });
+			writeFileSync(
+				join(process.env.PI_CODING_AGENT_DIR as string, "auth.json"),
+				JSON.stringify({ "synthetic:org": { type: "api_key", key: "syn_org_key" } }),
+			);
+			stubCatalog();
+			const mockPi = createMockPi();
+			await syntheticProvider(mockPi as unknown as ExtensionAPI);
+
+			expect(getActiveSyntheticAccount()).toEqual({ name: "org", apiKey: "syn_org_key", source: "auth.json" });
+			expect(mockPi.registerProvider.mock.calls[0]?.[1].apiKey).toBe("syn_org_key");
+		});
+
+		it("falls back to the default key when the configured account has none", async () => {
+			const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+			writeConfig({ account: "personal" });
+			stubCatalog();
+			const mockPi = createMockPi();
+			await syntheticProvider(mockPi as unknown as ExtensionAPI);
+
+			expect(getActiveSyntheticAccount()).toBeUndefined();
+			expect(mockPi.registerProvider.mock.calls[0]?.[1].apiKey).toBe("$SYNTHETIC_API_KEY");
+			expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('Synthetic account "personal" has no API key'));
+		});
+
+		it("warns about a malformed config and falls back to defaults", async () => {
+			const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+			writeConfig(["not", "an", "object"]);
+			stubCatalog();
+			const mockPi = createMockPi();
+			await syntheticProvider(mockPi as unknown as ExtensionAPI);
+
+			expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining("expected an object"));
+			expect(mockPi.registerProvider.mock.calls[0]?.[1].models).toHaveLength(3);
+		});
+	});
+
+	describe("syn:* permalinks", () => {
+		const row = (id: string, huggingFaceId: string) => ({
+			id,
+			name: id,
+			hugging_face_id: huggingFaceId,
+			always_on: true,
+			supported_features: ["tools"],
+			input_modalities: ["text"],
+			context_length: 262144,
+			max_output_length: 65536,
+			pricing: { prompt: "1", completion: "3" },
+		});
+		const catalog = (visionTarget: string) => ({
+			data: [
+				row("syn:large:vision", visionTarget),
+				row("hf:moonshotai/Kimi-K3", "moonshotai/Kimi-K3"),
+				row("hf:moonshotai/Kimi-K3.1", "moonshotai/Kimi-K3.1"),
+			],
+		});
+		const writeCache = (visionTarget: string) => {
+			const cachePath = getCatalogCachePath();
+			mkdirSync(dirname(cachePath), { recursive: true });
+			writeFileSync(
+				cachePath,
+				JSON.stringify({ version: 1, fetchedAt: "2026-10-01T00:00:00.000Z", response: catalog(visionTarget) }),
+			);
+		};
+		const stubCatalog = (visionTarget: string) =>
+			vi.stubGlobal(
+				"fetch",
+				vi.fn().mockResolvedValue({
+					ok: true,
+					status: 200,
+					headers: new Headers(),
+					json: async () => catalog(visionTarget),
+				}),
+			);
+		const createCtx = (model?: { provider: string; id: string }) => ({
+			hasUI: true,
+			model,
+			ui: { notify: vi.fn() },
+			modelRegistry: {
+				getApiKeyForProvider: vi.fn().mockResolvedValue("syn_test_key"),
+				find: vi.fn((provider: string, id: string) => ({ provider, id })),
+			},
+		});
+		// biome-ignore lint/suspicious/noExplicitAny: handlers are invoked with partial mock events
+		const getHandler = (mockPi: ReturnType<typeof createMockPi>, name: string): ((...args: any[]) => any) => {
+			const call = mockPi.on.mock.calls.find(([eventName]) => eventName === name);
+			if (!call) throw new Error(`${name} handler was not registered`);
+			return call[1];
+		};
+		const permalinkModel = {
+			provider: "synthetic",
+			id: "syn:large:vision",
+			contextWindow: 262144,
+			cost: { input: 0.45, output: 3.6, cacheRead: 0.45, cacheWrite: 0 },
+		};
+		let savedPin: string | undefined;
+
+		beforeEach(() => {
+			savedPin = process.env.SYNTHETIC_PIN_PERMALINKS;
+			delete process.env.SYNTHETIC_PIN_PERMALINKS;
+		});
+		afterEach(() => {
+			if (savedPin === undefined) {
+				delete process.env.SYNTHETIC_PIN_PERMALINKS;
+			} else {
+				process.env.SYNTHETIC_PIN_PERMALINKS = savedPin;
+			}
+		});
+
+		it("shows the permalink target when a permalink model is selected", async () => {
+			writeCache("moonshotai/Kimi-K3");
+			const mockPi = createMockPi();
+			await syntheticProvider(mockPi as unknown as ExtensionAPI);
+			const ctx = createCtx();
+
+			await getHandler(mockPi, "model_select")({ model: permalinkModel }, ctx);
+
+			expect(ctx.ui.notify).toHaveBeenCalledWith(
+				"Using Synthetic model: syn:large:vision → moonshotai/Kimi-K3 · 256K context · standard $0.45/$3.60 per M",
+				"info",
+			);
+			expect(mockPi.setModel).not.toHaveBeenCalled();
+		});
+
+		it("notifies when Synthetic re-points a permalink between refreshes", async () => {
+			writeCache("moonshotai/Kimi-K3");
+			stubCatalog("moonshotai/Kimi-K3.1");
+			const mockPi = createMockPi();
+			await syntheticProvider(mockPi as unknown as ExtensionAPI);
+			const ctx = createCtx();
+
+			await getHandler(mockPi, "session_start")(undefined, ctx);
+
+			await vi.waitFor(() =>
+				expect(ctx.ui.notify).toHaveBeenCalledWith(
+					"Synthetic re-pointed syn:large:vision: moonshotai/Kimi-K3 → moonshotai/Kimi-K3.1",
+					"warning",
+				),
+			);
+		});
+
+		it("pins a permalink session to the resolved hf: id when enabled", async () => {
+			writeCache("moonshotai/Kimi-K3");
+			const mockPi = createMockPi();
+			await syntheticProvider(mockPi as unknown as ExtensionAPI);
+			mockPi.getFlag.mockImplementation((name: string) => name === "synthetic-pin-permalinks");
+			const ctx = createCtx();
+
+			await getHandler(mockPi, "model_select")({ model: permalinkModel }, ctx);
+
+			expect(ctx.modelRegistry.find).toHaveBeenCalledWith("synthetic", "hf:moonshotai/Kimi-K3");
+			expect(mockPi.setModel).toHaveBeenCalledWith({ provider: "synthetic", id: "hf:moonshotai/Kimi-K3" });
+			expect(ctx.ui.notify).toHaveBeenCalledWith(
+				"Pinned syn:large:vision to synthetic/hf:moonshotai/Kimi-K3 for this session",
+				"info",
+			);
+		});
+
+		it("pins the session's current permalink model once the catalog refreshes", async () => {
+			process.env.SYNTHETIC_PIN_PERMALINKS = "1";
+			writeCache("moonshotai/Kimi-K3");
+			stubCatalog("moonshotai/Kimi-K3.1");
+			const mockPi = createMockPi();
+			await syntheticProvider(mockPi as unknown as ExtensionAPI);
+			const ctx = createCtx({ provider: "synthetic", id: "syn:large:vision" });
+
+			await getHandler(mockPi, "session_start")(undefined, ctx);
+
+			await vi.waitFor(() =>
+				expect(mockPi.setModel).toHaveBeenCalledWith({ provider: "synthetic", id: "hf:moonshotai/Kimi-K3.1" }),
+			);
+		});
+	});
+
 	it("uses fallback startup models when the live fetch times out", async () => {
 		vi.useFakeTimers();
 		vi.spyOn(console, "error").mockImplementation(() => {});
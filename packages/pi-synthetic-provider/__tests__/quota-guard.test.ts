@@ -0,0 +1,271 @@
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { ExtensionAPI } from "@earendil-works/pi-coding-agent";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	formatQuotaGuardStatus,
+	getActiveQuotaLimit,
+	getQuotaGuardBuckets,
+	getReachedThreshold,
+	parseFallbackModelRef,
+	QUOTA_STATUS_KEY,
+	registerQuotaGuard,
+} from "../extensions/quota-guard.js";
+import { readQuotaHistory } from "../extensions/quota-history.js";
+
+const inOneHour = () => new Date(Date.now() + 3600_000).toISOString();
+
+const rollingQuota = (remaining: number, limited = false) => ({
+	rollingFiveHourLimit: { nextTickAt: inOneHour(), tickPercent: 0.1, remaining, max: 100, limited },
+	weeklyTokenLimit: { nextRegenAt: inOneHour(), percentRemaining: 90 },
+});
+
+const createMockPi = (flags: Record<string, string> = {}) =>
+	({
+		registerFlag: vi.fn(),
+		getFlag: vi.fn((name: string) => flags[name]),
+		on: vi.fn(),
+		setModel: vi.fn().mockResolvedValue(true),
+	}) satisfies Partial<ExtensionAPI>;
+
+type MockPi = ReturnType<typeof createMockPi>;
+
+const createMockCtx = () => ({
+	hasUI: true,
+	model: { provider: "synthetic", id: "hf:zai-org/GLM-5.2" },
+	ui: {
+		notify: vi.fn(),
+		setStatus: vi.fn(),
+		theme: { fg: (_color: string, text: string) => text },
+	},
+	modelRegistry: {
+		getApiKeyForProvider: vi.fn().mockResolvedValue("syn_test_key"),
+		find: vi.fn((provider: string, id: string) => ({ provider, id })),
+	},
+});
+
+// biome-ignore lint/suspicious/noExplicitAny: handlers are invoked with partial mock events
+function getHandler(mockPi: MockPi, eventName: string): (event: any, ctx: ReturnType<typeof createMockCtx>) => any {
+	const call = mockPi.on.mock.calls.find(([name]) => name === eventName);
+	if (!call) throw new Error(`No handler registered for ${eventName}`);
+	return call[1];
+}
+
+const stubQuotaFetch = (...responses: object[]) => {
+	const fetchMock = vi.fn();
+	for (const body of responses) {
+		fetchMock.mockResolvedValueOnce({ ok: true, json: async () => body });
+	}
+	vi.stubGlobal("fetch", fetchMock);
+	return fetchMock;
+};
+
+describe("quota guard helpers", () => {
+	it("flattens enhanced limits and hides the legacy subscription bucket", () => {
+		const buckets = getQuotaGuardBuckets({
+			...rollingQuota(25),
+			subscription: { limit: 100, requests: 10, renewsAt: inOneHour() },
+			search: { hourly: { limit: 10, requests: 10, renewsAt: inOneHour() } },
+		});
+
+		expect(buckets.map((bucket) => [bucket.key, Math.round(bucket.percentUsed), bucket.blocking])).toEqual([
+			["rolling", 75, true],
+			["weekly", 10, true],
+			["search", 100, false],
+		]);
+		expect(formatQuotaGuardStatus(buckets)).toBe("Synthetic 5h 75% · week 10%");
+	});
+
+	it("uses the subscription bucket on classic accounts", () => {
+		const buckets = getQuotaGuardBuckets({ subscription: { limit: 135, requests: 135, renewsAt: inOneHour() } });
+
+		expect(buckets).toEqual([expect.objectContaining({ key: "subscription", limited: true, blocking: true })]);
+		expect(formatQuotaGuardStatus(buckets)).toBe("Synthetic sub limited");
+	});
+
+	it("finds the highest reached threshold", () => {
+		expect(getReachedThreshold(79, [80, 95])).toBe(0);
+		expect(getReachedThreshold(80, [80, 95])).toBe(80);
+		expect(getReachedThreshold(99, [80, 95])).toBe(95);
+	});
+
+	it("ignores limits whose reset time has passed", () => {
+		const [rolling] = getQuotaGuardBuckets(rollingQuota(0, true));
+
+		expect(getActiveQuotaLimit([rolling])).toBe(rolling);
+		expect(getActiveQuotaLimit([{ ...rolling, resetsAt: new Date(Date.now() - 1000).toISOString() }])).toBeUndefined();
+	});
+
+	it("parses fallback model references", () => {
+		expect(parseFallbackModelRef("hf:zai-org/GLM-4.7-Flash")).toEqual({
+			provider: "synthetic",
+			id: "hf:zai-org/GLM-4.7-Flash",
+		});
+		expect(parseFallbackModelRef("synthetic/hf:zai-org/GLM-4.7-Flash")).toEqual({
+			provider: "synthetic",
+			id: "hf:zai-org/GLM-4.7-Flash",
+		});
+		expect(parseFallbackModelRef("openai/gpt-5-mini")).toEqual({ provider: "openai", id: "gpt-5-mini" });
+	});
+});
+
+describe("quota guard events", () => {
+	let savedApiKey: string | undefined;
+	let previousAgentDir: string | undefined;
+
+	beforeEach(() => {
+		savedApiKey = process.env.SYNTHETIC_API_KEY;
+		delete process.env.SYNTHETIC_API_KEY;
+		previousAgentDir = process.env.PI_CODING_AGENT_DIR;
+		process.env.PI_CODING_AGENT_DIR = mkdtempSync(join(tmpdir(), "pi-synthetic-agent-"));
+	});
+	afterEach(() => {
+		vi.unstubAllGlobals();
+		if (savedApiKey !== undefined) process.env.SYNTHETIC_API_KEY = savedApiKey;
+		if (previousAgentDir === undefined) {
+			delete process.env.PI_CODING_AGENT_DIR;
+		} else {
+			process.env.PI_CODING_AGENT_DIR = previousAgentDir;
+		}
+	});
+
+	it("polls on before_agent_start, sets the footer status, and notifies once per threshold", async () => {
+		const fetchMock = stubQuotaFetch(rollingQuota(15), rollingQuota(14));
+		const mockPi = createMockPi({ "synthetic-quota-poll-ms": "0" });
+		registerQuotaGuard(mockPi as unknown as ExtensionAPI);
+		const ctx = createMockCtx();
+		const handler = getHandler(mockPi, "before_agent_start");
+
+		await handler({}, ctx);
+		await vi.waitFor(() =>
+			expect(ctx.ui.setStatus).toHaveBeenCalledWith(QUOTA_STATUS_KEY, "Synthetic 5h 85% · week 10%"),
+		);
+		expect(ctx.ui.notify).toHaveBeenCalledWith(expect.stringContaining("rolling 5h limit at 85% used"), "warning");
+
+		await handler({}, ctx);
+		await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(2));
+		await vi.waitFor(() =>
+			expect(ctx.ui.setStatus).toHaveBeenCalledWith(QUOTA_STATUS_KEY, "Synthetic 5h 86% · week 10%"),
+		);
+		expect(ctx.ui.notify).toHaveBeenCalledTimes(1);
+		expect(readQuotaHistory("default").map((snapshot) => snapshot.rolling)).toEqual([85, 86]);
+	});
+
+	it("polls the quotas endpoint on the configured base URL's host", async () => {
+		const fetchMock = stubQuotaFetch(rollingQuota(50));
+		const mockPi = createMockPi();
+		registerQuotaGuard(mockPi as unknown as ExtensionAPI, () => ({ baseUrl: "http://127.0.0.1:8080/openai/v1/" }));
+		const ctx = createMockCtx();
+
+		await getHandler(mockPi, "before_agent_start")({}, ctx);
+
+		await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+		expect(fetchMock.mock.calls[0][0]).toBe("http://127.0.0.1:8080/v2/quotas");
+	});
+
+	it("rate-limits polls", async () => {
+		const fetchMock = stubQuotaFetch(rollingQuota(50), rollingQuota(50));
+		const mockPi = createMockPi();
+		registerQuotaGuard(mockPi as unknown as ExtensionAPI);
+		const ctx = createMockCtx();
+		const handler = getHandler(mockPi, "before_agent_start");
+
+		await handler({}, ctx);
+		await vi.waitFor(() => expect(ctx.ui.setStatus).toHaveBeenCalled());
+		await handler({}, ctx);
+
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+	});
+
+	it("skips non-Synthetic models", async () => {
+		const fetchMock = stubQuotaFetch(rollingQuota(50));
+		const mockPi = createMockPi();
+		registerQuotaGuard(mockPi as unknown as ExtensionAPI);
+		const ctx = { ...createMockCtx(), model: { provider: "openai", id: "gpt-5" } };
+
+		await getHandler(mockPi, "before_agent_start")({}, ctx);
+
+		expect(fetchMock).not.toHaveBeenCalled();
+	});
+
+	it("lets turns through in the default warn mode", async () => {
+		const fetchMock = stubQuotaFetch(rollingQuota(0, true));
+		const mockPi = createMockPi();
+		registerQuotaGuard(mockPi as unknown as ExtensionAPI);
+
+		const result = await getHandler(mockPi, "input")({ text: "hi", source: "interactive" }, createMockCtx());
+
+		expect(result).toBeUndefined();
+		expect(fetchMock).not.toHaveBeenCalled();
+	});
+
+	it("blocks a turn while a bucket is limited in block mode", async () => {
+		stubQuotaFetch(rollingQuota(0, true));
+		const mockPi = createMockPi({ "synthetic-quota-guard": "block" });
+		registerQuotaGuard(mockPi as unknown as ExtensionAPI);
+		const ctx = createMockCtx();
+
+		const result = await getHandler(mockPi, "input")({ text: "hi", source: "interactive" }, ctx);
+
+		expect(result).toEqual({ action: "handled" });
+		expect(ctx.ui.notify).toHaveBeenCalledWith(expect.stringContaining("turn not sent"), "error");
+	});
+
+	it("lets steering messages through in block mode", async () => {
+		const fetchMock = stubQuotaFetch(rollingQuota(0, true));
+		const mockPi = createMockPi({ "synthetic-quota-guard": "block" });
+		registerQuotaGuard(mockPi as unknown as ExtensionAPI);
+
+		const result = await getHandler(mockPi, "input")(
+			{ text: "hi", source: "interactive", streamingBehavior: "steer" },
+			createMockCtx(),
+		);
+
+		expect(result).toBeUndefined();
+		expect(fetchMock).not.toHaveBeenCalled();
+	});
+
+	it("switches to the fallback model in switch mode", async () => {
+		stubQuotaFetch(rollingQuota(0, true));
+		const mockPi = createMockPi({
+			"synthetic-quota-guard": "switch",
+			"synthetic-quota-fallback-model": "openai/gpt-5-mini",
+		});
+		registerQuotaGuard(mockPi as unknown as ExtensionAPI);
+		const ctx = createMockCtx();
+
+		const result = await getHandler(mockPi, "input")({ text: "hi", source: "interactive" }, ctx);
+
+		expect(result).toBeUndefined();
+		expect(ctx.modelRegistry.find).toHaveBeenCalledWith("openai", "gpt-5-mini");
+		expect(mockPi.setModel).toHaveBeenCalledWith({ provider: "openai", id: "gpt-5-mini" });
+		expect(ctx.ui.notify).toHaveBeenCalledWith(expect.stringContaining("switched to openai/gpt-5-mini"), "warning");
+	});
+
+	it("blocks when the fallback model is unavailable", async () => {
+		stubQuotaFetch(rollingQuota(0, true));
+		const mockPi = createMockPi({
+			"synthetic-quota-guard": "switch",
+			"synthetic-quota-fallback-model": "openai/gpt-5-mini",
+		});
+		registerQuotaGuard(mockPi as unknown as ExtensionAPI);
+		const ctx = createMockCtx();
+		ctx.modelRegistry.find.mockReturnValue(undefined as unknown as { provider: string; id: string });
+
+		const result = await getHandler(mockPi, "input")({ text: "hi", source: "interactive" }, ctx);
+
+		expect(result).toEqual({ action: "handled" });
+		expect(mockPi.setModel).not.toHaveBeenCalled();
+	});
+
+	it("clears the footer status when a non-Synthetic model is selected", async () => {
+		const mockPi = createMockPi();
+		registerQuotaGuard(mockPi as unknown as ExtensionAPI);
+		const ctx = createMockCtx();
+
+		await getHandler(mockPi, "model_select")({ model: { provider: "openai", id: "gpt-5" } }, ctx);
+
+		expect(ctx.ui.setStatus).toHaveBeenCalledWith(QUOTA_STATUS_KEY, undefined);
+	});
+});
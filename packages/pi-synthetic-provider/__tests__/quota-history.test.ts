@@ -0,0 +1,113 @@
+import { mkdtempSync, readFileSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+	buildQuotaSparkline,
+	formatQuotaForecast,
+	getQuotaForecast,
+	getQuotaSnapshot,
+	type QuotaSnapshot,
+	readQuotaHistory,
+	recordQuotaSnapshot,
+} from "../extensions/quota-history.js";
+
+const NOW = Date.parse("2026-10-19T12:00:00.000Z");
+const HOUR = 3600_000;
+
+const quota = (rollingRemaining: number, weeklyRemaining: number) => ({
+	rollingFiveHourLimit: {
+		nextTickAt: new Date(NOW + HOUR).toISOString(),
+		tickPercent: 0.1,
+		remaining: rollingRemaining,
+		max: 100,
+		limited: false,
+	},
+	weeklyTokenLimit: { nextRegenAt: new Date(NOW + HOUR).toISOString(), percentRemaining: weeklyRemaining },
+});
+
+const snapshot = (hoursAgo: number, rolling?: number, weekly?: number): QuotaSnapshot => ({
+	at: new Date(NOW - hoursAgo * HOUR).toISOString(),
+	account: "default",
+	...(rolling === undefined ? {} : { rolling }),
+	...(weekly === undefined ? {} : { weekly }),
+});
+
+let path: string;
+
+beforeEach(() => {
+	path = join(mkdtempSync(join(tmpdir(), "pi-synthetic-history-")), "quota-history.jsonl");
+});
+
+describe("quota history file", () => {
+	it("snapshots rolling and weekly usage and skips classic quotas", () => {
+		expect(getQuotaSnapshot(quota(40, 75), "org", NOW)).toEqual({
+			at: "2026-10-19T12:00:00.000Z",
+			account: "org",
+			rolling: 60,
+			weekly: 25,
+		});
+		expect(
+			getQuotaSnapshot({ subscription: { limit: 10, requests: 1, renewsAt: "2026-10-20T00:00:00Z" } }, "default"),
+		).toBeUndefined();
+	});
+
+	it("appends per-account snapshots and skips malformed lines", () => {
+		recordQuotaSnapshot(quota(90, 90), "default", path, NOW - HOUR);
+		recordQuotaSnapshot(quota(50, 50), "org", path, NOW - HOUR);
+		writeFileSync(path, `${readFileSync(path, "utf-8")}{not json\n`, "utf-8");
+		recordQuotaSnapshot(quota(80, 89), "default", path, NOW);
+
+		expect(readQuotaHistory("default", path).map((entry) => [entry.rolling, entry.weekly])).toEqual([
+			[10, 10],
+			[20, 11],
+		]);
+		expect(readQuotaHistory("org", path)).toHaveLength(1);
+	});
+
+	it("drops snapshots past the retention period", () => {
+		recordQuotaSnapshot(quota(90, 90), "default", path, NOW - 9 * 24 * HOUR);
+		recordQuotaSnapshot(quota(80, 80), "default", path, NOW);
+
+		expect(readFileSync(path, "utf-8").trim().split("\n")).toHaveLength(1);
+		expect(readQuotaHistory("default", path)[0].at).toBe(new Date(NOW).toISOString());
+	});
+});
+
+describe("quota trends", () => {
+	it("draws the highest value per time slice, with gaps for slices without samples", () => {
+		const history = [snapshot(23.5, 0), snapshot(12, 30), snapshot(11.9, 60), snapshot(0.5, 100)];
+
+		expect(buildQuotaSparkline(history, "rolling", 4, 24 * HOUR, NOW)).toBe("▁·▅█");
+		expect(buildQuotaSparkline(history, "weekly", 4, 24 * HOUR, NOW)).toBe("····");
+	});
+
+	it("projects exhaustion from the burn rate, counting only increases", () => {
+		// 10 points used in the first hour, a regeneration, then 5 more over the next hour: 7.5%/h.
+		const history = [
+			snapshot(2, undefined, 40),
+			snapshot(1, undefined, 50),
+			snapshot(0.5, undefined, 45),
+			snapshot(0, undefined, 50),
+		];
+
+		const forecast = getQuotaForecast(history, "weekly", 55, 3 * HOUR, NOW);
+
+		expect(forecast?.burnRatePerHour).toBeCloseTo(7.5);
+		expect(forecast?.exhaustsAt).toBe(new Date(NOW + 6 * HOUR).toISOString());
+		const inSixHours = new Date(Date.now() + 6 * HOUR + 30_000).toISOString();
+		expect(formatQuotaForecast({ burnRatePerHour: 7.5, exhaustsAt: inSixHours })).toBe(
+			"7.5%/h · runs out in ~6h 0m at this pace",
+		);
+	});
+
+	it("needs samples spread over the window before forecasting", () => {
+		expect(getQuotaForecast([snapshot(0, 10)], "rolling", 10, 3 * HOUR, NOW)).toBeUndefined();
+		expect(getQuotaForecast([snapshot(0.1, 10), snapshot(0, 20)], "rolling", 20, 3 * HOUR, NOW)).toBeUndefined();
+		expect(getQuotaForecast([snapshot(5, 10), snapshot(0, 90)], "rolling", 90, 3 * HOUR, NOW)).toBeUndefined();
+
+		const idle = getQuotaForecast([snapshot(1, 30), snapshot(0, 30)], "rolling", 30, 3 * HOUR, NOW);
+		expect(idle).toEqual({ burnRatePerHour: 0 });
+		expect(idle && formatQuotaForecast(idle, 3 * HOUR)).toBe("no usage in the last 3h");
+	});
+});
@@ -0,0 +1,62 @@
+import type { ExtensionAPI } from "@earendil-works/pi-coding-agent";
+import { describe, expect, it, vi } from "vitest";
+import {
+	formatReasoningEffort,
+	formatStatusWidget,
+	getPriceTier,
+	registerStatusWidget,
+	STATUS_WIDGET_KEY,
+} from "../extensions/status-widget.js";
+
+const GLM = {
+	provider: "synthetic",
+	id: "hf:zai-org/GLM-5.2",
+	name: "GLM-5.2",
+	reasoning: true,
+	contextWindow: 196608,
+	cost: { input: 1, output: 3, cacheRead: 1, cacheWrite: 0 },
+	thinkingLevelMap: { off: "none", minimal: null, high: "high", max: "max" },
+};
+
+describe("status widget", () => {
+	it("tiers models by output price", () => {
+		expect(getPriceTier({ input: 0, output: 0 })).toBe("free");
+		expect(getPriceTier({ input: 0.1, output: 0.5 })).toBe("budget");
+		expect(getPriceTier({ input: 1, output: 3 })).toBe("standard");
+		expect(getPriceTier({ input: 3, output: 15 })).toBe("premium");
+	});
+
+	it("shows the effort pi sends at the current thinking level", () => {
+		expect(formatReasoningEffort(GLM, "high")).toBe("effort high");
+		expect(formatReasoningEffort(GLM, "off")).toBe("thinking off");
+		expect(formatReasoningEffort(GLM, "minimal")).toBe("effort minimal (unsupported)");
+		expect(formatReasoningEffort({ reasoning: true }, "medium")).toBe("effort medium");
+		expect(formatReasoningEffort({ reasoning: false }, "high")).toBe("no reasoning");
+	});
+
+	it("joins the model, summary, and effort on one line", () => {
+		expect(formatStatusWidget(GLM, "max")).toBe(
+			"Synthetic GLM-5.2 · 192K context · standard $1.00/$3.00 per M · effort max",
+		);
+	});
+
+	it("shows the widget for Synthetic models and clears it for others", async () => {
+		const mockPi = { on: vi.fn(), getThinkingLevel: vi.fn(() => "high") };
+		registerStatusWidget(mockPi as unknown as ExtensionAPI);
+		const ctx = { hasUI: true, model: GLM, ui: { setWidget: vi.fn() } };
+		const handler = (name: string) => mockPi.on.mock.calls.find(([eventName]) => eventName === name)?.[1];
+
+		await handler("session_start")({}, ctx);
+		expect(ctx.ui.setWidget).toHaveBeenLastCalledWith(
+			STATUS_WIDGET_KEY,
+			["Synthetic GLM-5.2 · 192K context · standard $1.00/$3.00 per M · effort high"],
+			{ placement: "belowEditor" },
+		);
+
+		await handler("thinking_level_select")({ level: "off", previousLevel: "high" }, ctx);
+		expect(ctx.ui.setWidget.mock.lastCall?.[1]?.[0]).toContain("thinking off");
+
+		await handler("model_select")({ model: { provider: "openai", id: "gpt-5-mini" } }, ctx);
+		expect(ctx.ui.setWidget).toHaveBeenLastCalledWith(STATUS_WIDGET_KEY, undefined);
+	});
+});
@@ -1,14 +1,125 @@
 /**
  * API key resolution logic for the Synthetic provider.
+ *
+ * Besides the default key, named accounts can be stored as `synthetic:<name>`
+ * entries in auth.json or as SYNTHETIC_API_KEY_<NAME> environment variables. While
+ * an account is active, every Synthetic request, catalog fetch, and quota fetch
+ * uses its key.
  */
 
-import type { ExtensionContext } from "@earendil-works/pi-coding-agent";
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { type ExtensionAPI, type ExtensionContext, getAgentDir } from "@earendil-works/pi-coding-agent";
+import { AUTH_JSON_PATH } from "./config.js";
+import type { SyntheticProviderConfig } from "./types.js";
+
+/** Prefix of the auth.json entries that hold named account keys, e.g. `synthetic:org`. */
+export const ACCOUNT_AUTH_PREFIX = "synthetic:";
+
+/** The account name that means "no named account": the default `synthetic` key. */
+export const DEFAULT_ACCOUNT_NAME = "default";
+
+const ACCOUNT_ENV_PREFIX = "SYNTHETIC_API_KEY_";
+
+export interface SyntheticAccount {
+	name: string;
+	apiKey: string;
+	/** Where the key came from: `auth.json` or the environment variable name. */
+	source: string;
+}
+
+// The account selected for this process: by config or flag at session start, or by /synthetic-account.
+let activeAccount: SyntheticAccount | undefined;
+
+export function getActiveSyntheticAccount(): SyntheticAccount | undefined {
+	return activeAccount;
+}
+
+export function setActiveSyntheticAccount(account: SyntheticAccount | undefined): void {
+	activeAccount = account;
+}
+
+/** Display name of the active account, `default` when none is selected. */
+export function getActiveSyntheticAccountName(): string {
+	return activeAccount?.name ?? DEFAULT_ACCOUNT_NAME;
+}
+
+/** SYNTHETIC_API_KEY_<NAME>: the name uppercased, with anything but letters and digits turned into `_`. */
+export function getAccountEnvVar(name: string): string {
+	return `${ACCOUNT_ENV_PREFIX}${name.toUpperCase().replace(/[^A-Z0-9]/g, "_")}`;
+}
+
+function readAuthEntries(authPath: string): Record<string, unknown> {
+	if (!existsSync(authPath)) return {};
+	try {
+		const parsed: unknown = JSON.parse(readFileSync(authPath, "utf-8"));
+		return typeof parsed === "object" && parsed !== null ? (parsed as Record<string, unknown>) : {};
+	} catch {
+		return {};
+	}
+}
+
+function getStoredKey(credential: unknown): string | undefined {
+	if (typeof credential !== "object" || credential === null) return undefined;
+	const { type, key } = credential as { type?: unknown; key?: unknown };
+	return type === "api_key" && typeof key === "string" && key ? key : undefined;
+}
+
+/** Named accounts with a key available, from auth.json and the environment, sorted. */
+export function listSyntheticAccounts(authPath: string = join(getAgentDir(), "auth.json")): string[] {
+	const names = new Set<string>();
+	for (const [entry, credential] of Object.entries(readAuthEntries(authPath))) {
+		const name = entry.slice(ACCOUNT_AUTH_PREFIX.length);
+		if (entry.startsWith(ACCOUNT_AUTH_PREFIX) && name && getStoredKey(credential)) names.add(name);
+	}
+	for (const [variable, value] of Object.entries(process.env)) {
+		const name = variable.slice(ACCOUNT_ENV_PREFIX.length).toLowerCase();
+		if (variable.startsWith(ACCOUNT_ENV_PREFIX) && name && value) names.add(name);
+	}
+	return [...names].sort((a, b) => a.localeCompare(b));
+}
+
+/** Resolve a named account's key, preferring auth.json over the environment like the default key does. */
+export function resolveSyntheticAccount(
+	name: string,
+	authPath: string = join(getAgentDir(), "auth.json"),
+): SyntheticAccount | undefined {
+	const entries = readAuthEntries(authPath);
+	const entry = `${ACCOUNT_AUTH_PREFIX}${name}`;
+	const storedKey = Object.hasOwn(entries, entry) ? getStoredKey(entries[entry]) : undefined;
+	if (storedKey) return { name, apiKey: storedKey, source: "auth.json" };
+
+	const variable = getAccountEnvVar(name);
+	const envKey = process.env[variable];
+	return envKey ? { name, apiKey: envKey, source: variable } : undefined;
+}
+
+/**
+ * The account this run should use: `--synthetic-account`, then SYNTHETIC_ACCOUNT,
+ * then `account` in pi-synthetic-provider.json. Undefined means the default key.
+ */
+export function getConfiguredAccountName(
+	pi: ExtensionAPI,
+	config: Pick<SyntheticProviderConfig, "account">,
+): string | undefined {
+	const flagValue = pi.getFlag("synthetic-account");
+	const name =
+		(typeof flagValue === "string" && flagValue.trim()) || process.env.SYNTHETIC_ACCOUNT?.trim() || config.account;
+	return name && name !== DEFAULT_ACCOUNT_NAME ? name : undefined;
+}
+
+/** Why a named account cannot be used, with both ways to add its key. */
+export function formatMissingAccount(name: string): string {
+	return `Synthetic account "${name}" has no API key. Add "${ACCOUNT_AUTH_PREFIX}${name}" to ${AUTH_JSON_PATH} or set ${getAccountEnvVar(name)}`;
+}
 
 /**
  * Check if Synthetic API key is available from any source.
- * Priority: auth.json > environment variable
+ * Priority: active account > auth.json > environment variable
  */
 export async function getSyntheticApiKey(ctx: ExtensionContext): Promise<string | undefined> {
+	if (activeAccount) return activeAccount.apiKey;
+
 	// Check environment variable first (as fallback)
 	const envKey = process.env.SYNTHETIC_API_KEY;
 
@@ -23,11 +134,41 @@ export async function getSyntheticApiKey(ctx: ExtensionContext): Promise<string
 	return envKey;
 }
 
+/**
+ * The key {@link getSyntheticApiKey} resolves, with where it came from: the active
+ * account's source, `auth.json`, `SYNTHETIC_API_KEY`, or pi itself (`--api-key`, OAuth).
+ */
+export async function getSyntheticApiKeySource(
+	ctx: ExtensionContext,
+	authPath: string = join(getAgentDir(), "auth.json"),
+): Promise<{ apiKey: string; source: string } | undefined> {
+	if (activeAccount)
+		return { apiKey: activeAccount.apiKey, source: `account ${activeAccount.name}, ${activeAccount.source}` };
+
+	const envKey = process.env.SYNTHETIC_API_KEY;
+	let authKey: string | undefined;
+	try {
+		authKey = await ctx.modelRegistry.getApiKeyForProvider("synthetic");
+	} catch {
+		// Provider not registered yet, ignore
+	}
+	if (authKey) {
+		const entries = readAuthEntries(authPath);
+		const storedKey = Object.hasOwn(entries, "synthetic") ? getStoredKey(entries.synthetic) : undefined;
+		if (authKey === storedKey) return { apiKey: authKey, source: "auth.json" };
+		if (authKey === envKey) return { apiKey: authKey, source: "SYNTHETIC_API_KEY" };
+		return { apiKey: authKey, source: "pi (--api-key or OAuth)" };
+	}
+	return envKey ? { apiKey: envKey, source: "SYNTHETIC_API_KEY" } : undefined;
+}
+
 /**
  * Check if API key is configured (without retrieving it)
  * Uses getApiKeyForProvider which checks auth.json, env vars, etc.
  */
 export async function hasSyntheticApiKey(ctx: ExtensionContext): Promise<boolean> {
+	if (activeAccount) return true;
+
 	// Check environment variable first (fast path)
 	if (process.env.SYNTHETIC_API_KEY) return true;
 
@@ -0,0 +1,239 @@
+/**
+ * On-disk cache for the Synthetic model catalog.
+ *
+ * Startup registers from the last good `/models` response instead of blocking on
+ * the network, and `session_start` revalidates it with a conditional request. The
+ * hardcoded fallback snapshot is reserved for a first run with no network.
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { getAgentDir, type ProviderModelConfig } from "@earendil-works/pi-coding-agent";
+import { SYNTHETIC_API_BASE_URL } from "./config.js";
+import {
+	type FetchSyntheticModelsOptions,
+	fetchSyntheticModelsResponse,
+	getConfiguredFallbackModels,
+	transformSyntheticModels,
+} from "./models.js";
+import { getPermalinkTargets } from "./permalinks.js";
+import { getModelRegions } from "./regions.js";
+import type { SyntheticCatalogCacheEntry, SyntheticCatalogSource, SyntheticModelsResponse } from "./types.js";
+
+export interface SyntheticCatalog {
+	source: SyntheticCatalogSource;
+	models: ProviderModelConfig[];
+	/** When the registered catalog was last confirmed against the API; absent for fallback models. */
+	fetchedAt?: string;
+	/** `syn:*` permalink → Hugging Face id; empty for fallback models. */
+	permalinkTargets: Record<string, string>;
+	/** Model id → datacenter country codes; empty for fallback models. */
+	regions: Record<string, string[]>;
+}
+
+export interface SyntheticCatalogOptions extends FetchSyntheticModelsOptions {
+	/** Override the cache location (tests); defaults to {@link getCatalogCachePath}. */
+	cachePath?: string;
+}
+
+/** `<agent-dir>/cache/pi-synthetic-provider/models.json`, honoring PI_CODING_AGENT_DIR. */
+export function getCatalogCachePath(agentDir: string = getAgentDir()): string {
+	return join(agentDir, "cache", "pi-synthetic-provider", "models.json");
+}
+
+function isCatalogCacheEntry(value: unknown): value is SyntheticCatalogCacheEntry {
+	if (typeof value !== "object" || value === null) return false;
+	const entry = value as Partial<SyntheticCatalogCacheEntry>;
+	return entry.version === 1 && typeof entry.fetchedAt === "string" && Array.isArray(entry.response?.data);
+}
+
+/**
+ * Read the cached catalog. A missing, unreadable, or malformed file is treated as
+ * no cache at all: the next successful fetch simply overwrites it.
+ */
+export function readCatalogCache(cachePath: string = getCatalogCachePath()): SyntheticCatalogCacheEntry | undefined {
+	if (!existsSync(cachePath)) return undefined;
+	try {
+		const parsed: unknown = JSON.parse(readFileSync(cachePath, "utf-8"));
+		return isCatalogCacheEntry(parsed) ? parsed : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+/** Base URL recorded in cache entries; the default Synthetic API is left implicit. */
+function getCacheBaseUrl(options: SyntheticCatalogOptions): string | undefined {
+	return options.baseUrl === SYNTHETIC_API_BASE_URL ? undefined : options.baseUrl;
+}
+
+/**
+ * The cached entry, unless it was fetched from a different API base URL: a
+ * catalog from a proxy or local mock must not stand in for the real one.
+ */
+function readMatchingCache(
+	options: SyntheticCatalogOptions,
+	cachePath: string,
+): SyntheticCatalogCacheEntry | undefined {
+	const cached = readCatalogCache(cachePath);
+	return cached && cached.baseUrl === getCacheBaseUrl(options) ? cached : undefined;
+}
+
+/** Write through a temp file so a crash mid-write never leaves a truncated cache. */
+export function writeCatalogCache(entry: SyntheticCatalogCacheEntry, cachePath: string = getCatalogCachePath()): void {
+	mkdirSync(dirname(cachePath), { recursive: true });
+	const tempPath = `${cachePath}.${process.pid}.tmp`;
+	writeFileSync(tempPath, `${JSON.stringify(entry)}\n`, "utf-8");
+	renameSync(tempPath, cachePath);
+}
+
+function report(options: SyntheticCatalogOptions, message: string, level: "warning" | "error"): void {
+	if (options.notify) {
+		options.notify(message, level);
+	} else if (level === "error") {
+		console.error(message);
+	} else {
+		console.warn(message);
+	}
+}
+
+/**
+ * The fallback snapshot, used when neither a live nor a cached catalog has models.
+ * It carries no datacenter metadata, so `allowedCountries` withholds all of it;
+ * say so rather than registering zero models silently.
+ */
+function getFallbackCatalog(options: SyntheticCatalogOptions): SyntheticCatalog {
+	const models = getConfiguredFallbackModels(options);
+	if (options.allowedCountries && models.length === 0) {
+		report(
+			options,
+			`[Synthetic Provider] No Synthetic models registered: the model catalog is unreachable and the fallback models carry no datacenter metadata to check against allowedCountries (${options.allowedCountries.join(", ")})`,
+			"warning",
+		);
+	}
+	return { source: "fallback", models, permalinkTargets: {}, regions: {} };
+}
+
+function storeCatalog(
+	options: SyntheticCatalogOptions,
+	cachePath: string,
+	response: SyntheticModelsResponse,
+	etag: string | undefined,
+): string {
+	const fetchedAt = new Date().toISOString();
+	const baseUrl = getCacheBaseUrl(options);
+	try {
+		writeCatalogCache(
+			{ version: 1, fetchedAt, ...(etag ? { etag } : {}), ...(baseUrl ? { baseUrl } : {}), response },
+			cachePath,
+		);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		report(options, `[Synthetic Provider] Failed to write model cache ${cachePath}: ${message}`, "warning");
+	}
+	return fetchedAt;
+}
+
+/**
+ * Fetch the live catalog, using the cached ETag for a conditional request, and
+ * persist the result. On failure the cached catalog wins over the fallback
+ * snapshot: a catalog from yesterday is far closer to reality than one
+ * hardcoded at release time.
+ */
+export async function revalidateSyntheticCatalog(
+	apiKey: string | undefined,
+	options: SyntheticCatalogOptions = {},
+): Promise<SyntheticCatalog> {
+	const cachePath = options.cachePath ?? getCatalogCachePath();
+	const cached = readMatchingCache(options, cachePath);
+	const cachedModels = cached ? transformSyntheticModels(cached.response, options) : [];
+	const fromCache = (): SyntheticCatalog => ({
+		source: "cache",
+		models: cachedModels,
+		fetchedAt: cached?.fetchedAt,
+		permalinkTargets: cached ? getPermalinkTargets(cached.response) : {},
+		regions: cached ? getModelRegions(cached.response) : {},
+	});
+
+	try {
+		const result = await fetchSyntheticModelsResponse(apiKey, {
+			timeoutMs: options.timeoutMs,
+			baseUrl: options.baseUrl,
+			etag: cachedModels.length > 0 ? cached?.etag : undefined,
+		});
+
+		if (!result.response && cached) {
+			// 304: the cached response is still current; only refresh its timestamp.
+			return {
+				source: "live",
+				models: cachedModels,
+				fetchedAt: storeCatalog(options, cachePath, cached.response, result.etag),
+				permalinkTargets: getPermalinkTargets(cached.response),
+				regions: getModelRegions(cached.response),
+			};
+		}
+
+		const models = result.response ? transformSyntheticModels(result.response, options) : [];
+		if (!result.response || models.length === 0) {
+			if (cachedModels.length > 0) {
+				report(
+					options,
+					`[Synthetic Provider] Live model catalog returned no supported models; using catalog cached at ${cached?.fetchedAt}`,
+					"warning",
+				);
+				return fromCache();
+			}
+			report(
+				options,
+				"[Synthetic Provider] Live model catalog returned no supported models; using fallback models",
+				"warning",
+			);
+			return getFallbackCatalog(options);
+		}
+
+		return {
+			source: "live",
+			models,
+			fetchedAt: storeCatalog(options, cachePath, result.response, result.etag),
+			permalinkTargets: getPermalinkTargets(result.response),
+			regions: getModelRegions(result.response),
+		};
+	} catch (error) {
+		if (cachedModels.length > 0) {
+			const errorMessage = error instanceof Error ? error.message : String(error);
+			report(
+				options,
+				`[Synthetic Provider] Failed to refresh models: ${errorMessage}; using catalog cached at ${cached?.fetchedAt}`,
+				"warning",
+			);
+			return fromCache();
+		}
+		if (options.notify) {
+			const errorMessage = error instanceof Error ? error.message : String(error);
+			options.notify(`[Synthetic Provider] Failed to fetch models: ${errorMessage}`, "error");
+		} else {
+			console.error("[Synthetic Provider] Failed to fetch models:", error);
+		}
+		return getFallbackCatalog(options);
+	}
+}
+
+/**
+ * Models to register while the extension loads. A usable cache is returned
+ * without touching the network; only a first run blocks on the live fetch.
+ */
+export async function loadStartupCatalog(options: SyntheticCatalogOptions = {}): Promise<SyntheticCatalog> {
+	const cached = readMatchingCache(options, options.cachePath ?? getCatalogCachePath());
+	if (cached) {
+		const models = transformSyntheticModels(cached.response, options);
+		if (models.length > 0) {
+			return {
+				source: "cache",
+				models,
+				fetchedAt: cached.fetchedAt,
+				permalinkTargets: getPermalinkTargets(cached.response),
+				regions: getModelRegions(cached.response),
+			};
+		}
+	}
+	return revalidateSyntheticCatalog(undefined, options);
+}
@@ -0,0 +1,235 @@
+/**
+ * Drift between a Synthetic `/models` response and the hardcoded fallback snapshot.
+ *
+ * `getFallbackModels()` mirrors the live always-on catalog at release time and
+ * goes stale as Synthetic adds, retires, and reprices models. This compares a
+ * live or recorded response against it (offline against a saved file) and
+ * regenerates `getFallbackModels()` from the response, so refreshing the
+ * snapshot no longer means hand-running `curl | jq`.
+ */
+
+import { readFileSync } from "node:fs";
+import type { ProviderModelConfig } from "@earendil-works/pi-coding-agent";
+import { PERMALINK_ID_PREFIX } from "./formatting.js";
+import {
+	GLM_4_7_FLASH_MODEL_ID,
+	GLM_5_2_MODEL_ID,
+	GPT_OSS_120B_MODEL_ID,
+	getFallbackModels,
+	getSyntheticModelOverrides,
+	KIMI_K3_MODEL_ID,
+	MINIMAX_M3_MODEL_ID,
+	NEMOTRON_3_SUPER_MODEL_ID,
+	QWEN_3_6_27B_MODEL_ID,
+	transformSyntheticModels,
+} from "./models.js";
+import { getPermalinkTargets } from "./permalinks.js";
+import type { SyntheticModelsResponse } from "./types.js";
+
+/** Compared model properties: limits, prices, input modalities, and reasoning efforts. */
+export type ModelField =
+	| "contextWindow"
+	| "maxTokens"
+	| "input"
+	| "cost.input"
+	| "cost.output"
+	| "cost.cacheRead"
+	| "cost.cacheWrite"
+	| "efforts";
+
+export interface ModelFieldChange {
+	id: string;
+	field: ModelField;
+	/** Snapshot value, formatted for display. */
+	from: string;
+	/** Catalog value, formatted for display. */
+	to: string;
+}
+
+export interface CatalogDrift {
+	/** Always-on catalog models the snapshot lacks. */
+	added: string[];
+	/** Snapshot models the catalog no longer lists as always-on. */
+	removed: string[];
+	changes: ModelFieldChange[];
+}
+
+// Snapshot ids with an exported constant in models.ts; the regenerated source keeps using them.
+const MODEL_ID_CONSTANTS = new Map<string, string>([
+	[GPT_OSS_120B_MODEL_ID, "GPT_OSS_120B_MODEL_ID"],
+	[GLM_5_2_MODEL_ID, "GLM_5_2_MODEL_ID"],
+	[KIMI_K3_MODEL_ID, "KIMI_K3_MODEL_ID"],
+	[QWEN_3_6_27B_MODEL_ID, "QWEN_3_6_27B_MODEL_ID"],
+	[MINIMAX_M3_MODEL_ID, "MINIMAX_M3_MODEL_ID"],
+	[GLM_4_7_FLASH_MODEL_ID, "GLM_4_7_FLASH_MODEL_ID"],
+	[NEMOTRON_3_SUPER_MODEL_ID, "NEMOTRON_3_SUPER_MODEL_ID"],
+]);
+
+/**
+ * Read a recorded `/models` response: the raw JSON body, or the provider's own
+ * catalog cache (`models.json`), which wraps it in `response`.
+ */
+export function readCatalogFile(path: string): SyntheticModelsResponse {
+	const parsed: unknown = JSON.parse(readFileSync(path, "utf-8"));
+	const candidate =
+		typeof parsed === "object" && parsed !== null && "response" in parsed
+			? (parsed as { response: unknown }).response
+			: parsed;
+	if (typeof candidate !== "object" || candidate === null || !Array.isArray((candidate as { data?: unknown }).data)) {
+		throw new Error(`${path} is not a Synthetic /models response (expected a "data" array)`);
+	}
+	return candidate as SyntheticModelsResponse;
+}
+
+/** Effort values a model sends as `reasoning_effort`, e.g. `none, high, max`. */
+function formatEfforts(model: ProviderModelConfig): string {
+	const efforts = Object.values(model.thinkingLevelMap ?? {}).filter((value) => value);
+	return efforts.length > 0 ? efforts.join(", ") : "none advertised";
+}
+
+function getFieldValues(model: ProviderModelConfig): Record<ModelField, string> {
+	return {
+		contextWindow: String(model.contextWindow),
+		maxTokens: String(model.maxTokens),
+		input: model.input.join(", "),
+		"cost.input": String(model.cost.input),
+		"cost.output": String(model.cost.output),
+		"cost.cacheRead": String(model.cost.cacheRead),
+		"cost.cacheWrite": String(model.cost.cacheWrite),
+		efforts: formatEfforts(model),
+	};
+}
+
+/**
+ * Properties that differ between a snapshot entry and a catalog entry. Efforts
+ * are skipped for `syn:*` permalinks: the snapshot deliberately carries no
+ * effort map for them, because their target rotates.
+ */
+export function diffModelFields(snapshot: ProviderModelConfig, catalog: ProviderModelConfig): ModelFieldChange[] {
+	const from = getFieldValues(snapshot);
+	const to = getFieldValues(catalog);
+	return (Object.keys(from) as ModelField[])
+		.filter((field) => from[field] !== to[field])
+		.filter((field) => field !== "efforts" || !catalog.id.startsWith(PERMALINK_ID_PREFIX))
+		.map((field) => ({ id: catalog.id, field, from: from[field], to: to[field] }));
+}
+
+/** Compare the always-on, tool-capable rows of `response` with the snapshot, before any config is applied. */
+export function getCatalogDrift(
+	response: SyntheticModelsResponse,
+	snapshot: readonly ProviderModelConfig[] = getFallbackModels(),
+): CatalogDrift {
+	const catalog = transformSyntheticModels(response);
+	const snapshotById = new Map(snapshot.map((model) => [model.id, model]));
+	const catalogIds = new Set(catalog.map((model) => model.id));
+	return {
+		added: catalog.filter((model) => !snapshotById.has(model.id)).map((model) => model.id),
+		removed: snapshot.filter((model) => !catalogIds.has(model.id)).map((model) => model.id),
+		changes: catalog.flatMap((model) => {
+			const entry = snapshotById.get(model.id);
+			return entry ? diffModelFields(entry, model) : [];
+		}),
+	};
+}
+
+export function hasCatalogDrift(drift: CatalogDrift): boolean {
+	return drift.added.length + drift.removed.length + drift.changes.length > 0;
+}
+
+/** One line per added, removed, or changed model property. */
+export function formatCatalogDrift(drift: CatalogDrift): string[] {
+	if (!hasCatalogDrift(drift)) return ["Fallback snapshot matches the catalog"];
+	return [
+		`Fallback snapshot drift: ${drift.added.length} added, ${drift.removed.length} removed, ${drift.changes.length} changed`,
+		...drift.added.map((id) => `  + ${id}`),
+		...drift.removed.map((id) => `  - ${id}`),
+		...drift.changes.map((change) => `  ~ ${change.id} ${change.field}: ${change.from} → ${change.to}`),
+	];
+}
+
+/** `"..."` for strings, via JSON so quotes and backslashes are escaped. */
+function quote(value: string): string {
+	return JSON.stringify(value);
+}
+
+/**
+ * The overrides line of a regenerated entry. Pinned ids whose live efforts match
+ * the hardcoded effort table keep `getSyntheticModelOverrides(...)`; other
+ * efforts are spelled out, and permalinks get shared compat only.
+ */
+function formatOverrides(model: ProviderModelConfig): string {
+	if (model.id.startsWith(PERMALINK_ID_PREFIX)) return "compat: SYNTHETIC_COMPAT,";
+	const tabled = getSyntheticModelOverrides(model.id);
+	if (JSON.stringify(tabled.thinkingLevelMap) === JSON.stringify(model.thinkingLevelMap)) {
+		return `...getSyntheticModelOverrides(${MODEL_ID_CONSTANTS.get(model.id) ?? quote(model.id)}),`;
+	}
+	const efforts = Object.values(model.thinkingLevelMap ?? {}).filter((value): value is string => Boolean(value));
+	if (efforts.length === 0) return "compat: SYNTHETIC_COMPAT,";
+	return `...createReasoningOverrides([${efforts.map(quote).join(", ")}]),`;
+}
+
+function formatFallbackEntry(model: ProviderModelConfig): string {
+	return [
+		"\t\t{",
+		`\t\t\tid: ${MODEL_ID_CONSTANTS.get(model.id) ?? quote(model.id)},`,
+		`\t\t\tname: ${quote(model.name)},`,
+		`\t\t\treasoning: ${model.reasoning},`,
+		`\t\t\tinput: [${model.input.map(quote).join(", ")}],`,
+		"\t\t\tcost: {",
+		`\t\t\t\tinput: ${model.cost.input},`,
+		`\t\t\t\toutput: ${model.cost.output},`,
+		`\t\t\t\tcacheRead: ${model.cost.cacheRead},`,
+		`\t\t\t\tcacheWrite: ${model.cost.cacheWrite},`,
+		"\t\t\t},",
+		`\t\t\tcontextWindow: ${model.contextWindow},`,
+		`\t\t\tmaxTokens: ${model.maxTokens},`,
+		`\t\t\t${formatOverrides(model)}`,
+		"\t\t},",
+	].join("\n");
+}
+
+/**
+ * Source for a `getFallbackModels()` that mirrors the always-on rows of
+ * `response`, permalinks first, to replace the one in `extensions/models.ts`.
+ * Entries spelling out efforts use the module's `createReasoningOverrides`.
+ */
+export function buildFallbackModelsSource(response: SyntheticModelsResponse, now: Date = new Date()): string {
+	const date = now.toISOString().slice(0, 10);
+	const catalog = transformSyntheticModels(response);
+	const models = [
+		...catalog.filter((model) => model.id.startsWith(PERMALINK_ID_PREFIX)),
+		...catalog.filter((model) => !model.id.startsWith(PERMALINK_ID_PREFIX)),
+	];
+	const permalinks = Object.entries(getPermalinkTargets(response))
+		.map(([id, target]) => ` * - \`${id}\` → ${target}`)
+		.join("\n");
+
+	return `/**
+ * Fallback models if API fetch fails.
+ * Data sourced from: authenticated GET https://api.synthetic.new/openai/v1/models
+ * Model metadata last updated: ${date}
+ * Reasoning efforts last updated: ${date}
+ *
+ * Mirrors the live \`always_on\` catalog. The \`syn:*\` permalinks are stable
+ * aliases Synthetic re-points as models rotate; at this update they resolved to:
+${permalinks || " * - (none)"}
+ *
+ * Pricing format: $/million tokens. \`cacheRead\` tracks the catalog's
+ * \`input_cache_reads\` rate.
+ *
+ * The \`syn:*\` entries deliberately carry no \`thinkingLevelMap\`. Offline there is
+ * no catalog row naming the permalink's current target, so any effort map here
+ * would be a guess that goes stale the moment Synthetic re-points the alias — and
+ * a wrong map fails every request with HTTP 400 rather than merely running at the
+ * default effort. Live discovery resolves permalinks properly via
+ * \`hugging_face_id\`; see \`getSyntheticModelOverrides\`.
+ *
+ * Regenerated with \`/synthetic-drift --emit\`.
+ */
+export function getFallbackModels(): ProviderModelConfig[] {
+	return [
+${models.map(formatFallbackEntry).join("\n")}
+	];
+}
+`;
+}
@@ -0,0 +1,96 @@
+/**
+ * /synthetic-account command handler.
+ * Lists the named Synthetic accounts and switches the session between them.
+ */
+
+import type { ExtensionAPI, ExtensionCommandContext } from "@earendil-works/pi-coding-agent";
+import {
+	ACCOUNT_AUTH_PREFIX,
+	DEFAULT_ACCOUNT_NAME,
+	formatMissingAccount,
+	getActiveSyntheticAccount,
+	getActiveSyntheticAccountName,
+	listSyntheticAccounts,
+	resolveSyntheticAccount,
+	setActiveSyntheticAccount,
+} from "../auth.js";
+import { AUTH_JSON_PATH } from "../config.js";
+
+function report(ctx: ExtensionCommandContext, message: string, level: "info" | "warning" | "error"): void {
+	if (ctx.hasUI) {
+		ctx.ui.notify(message, level);
+	} else if (level === "error") {
+		console.error(`[Synthetic Provider] ${message}`);
+	} else {
+		console.log(`[Synthetic Provider] ${message}`);
+	}
+}
+
+/** One line per account, the active one marked with `*`. */
+function formatAccountList(accounts: readonly string[]): string {
+	const active = getActiveSyntheticAccountName();
+	return [DEFAULT_ACCOUNT_NAME, ...accounts].map((name) => `${name === active ? "*" : " "} ${name}`).join("\n");
+}
+
+/**
+ * Register `/synthetic-account [name]`. `onSwitch` runs after the active account
+ * changes, so the provider registration and catalog pick up the new key.
+ */
+export function registerSyntheticAccountCommand(
+	pi: ExtensionAPI,
+	onSwitch: (ctx: ExtensionCommandContext) => void | Promise<void>,
+): void {
+	pi.registerCommand("synthetic-account", {
+		description: "List named Synthetic accounts, or switch this session to one (default: the standard key)",
+		getArgumentCompletions: (prefix) => {
+			const matches = [DEFAULT_ACCOUNT_NAME, ...listSyntheticAccounts()].filter((name) =>
+				name.startsWith(prefix.trim()),
+			);
+			return matches.length > 0 ? matches.map((name) => ({ value: name, label: name })) : null;
+		},
+		handler: async (args, ctx) => {
+			let name = args.trim();
+
+			if (!name) {
+				const accounts = listSyntheticAccounts();
+				if (!ctx.hasUI) {
+					console.log(`[Synthetic Provider] Synthetic accounts:\n${formatAccountList(accounts)}`);
+					return;
+				}
+				if (accounts.length === 0) {
+					ctx.ui.notify(
+						`No named Synthetic accounts. Add "${ACCOUNT_AUTH_PREFIX}<name>" to ${AUTH_JSON_PATH} or set SYNTHETIC_API_KEY_<NAME>.`,
+						"info",
+					);
+					return;
+				}
+				const choice = await ctx.ui.select(`Synthetic account (current: ${getActiveSyntheticAccountName()})`, [
+					DEFAULT_ACCOUNT_NAME,
+					...accounts,
+				]);
+				if (!choice) return;
+				name = choice;
+			}
+
+			if (name === getActiveSyntheticAccountName()) {
+				report(ctx, `Already using Synthetic account ${name}`, "info");
+				return;
+			}
+
+			if (name === DEFAULT_ACCOUNT_NAME) {
+				setActiveSyntheticAccount(undefined);
+			} else {
+				const account = resolveSyntheticAccount(name);
+				if (!account) {
+					report(ctx, formatMissingAccount(name), "error");
+					return;
+				}
+				setActiveSyntheticAccount(account);
+			}
+
+			await onSwitch(ctx);
+			const source = getActiveSyntheticAccount()?.source;
+			report(ctx, `Switched to Synthetic account ${name}${source ? ` (key from ${source})` : ""}`, "info");
+		},
+	});
+}
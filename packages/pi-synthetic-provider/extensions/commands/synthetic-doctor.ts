@@ -0,0 +1,76 @@
+/**
+ * /synthetic-doctor command handler.
+ * Reports the API key source, catalog endpoint latency, where the registered models
+ * came from, fallback snapshot drift, and each model's resolved thinking levels,
+ * in a TUI overlay or as text / JSON on stdout when pi runs headless.
+ */
+
+import { DynamicBorder, type ExtensionAPI } from "@earendil-works/pi-coding-agent";
+import { Box, Container, matchesKey, Spacer, Text } from "@earendil-works/pi-tui";
+import { collectDoctorReport, formatDoctorReport, type RegisteredCatalogState } from "../diagnostics.js";
+
+/** `getState` returns the provider registration as it stands when the command runs. */
+export function registerSyntheticDoctorCommand(pi: ExtensionAPI, getState: () => RegisteredCatalogState): void {
+	pi.registerCommand("synthetic-doctor", {
+		description: "Diagnose the Synthetic provider: key source, catalog latency, model source, fallback drift (--json)",
+		handler: async (args, ctx) => {
+			const json = args.trim().split(/\s+/).includes("--json");
+			if (ctx.hasUI) ctx.ui.notify("Checking the Synthetic provider...", "info");
+			const report = await collectDoctorReport(ctx, getState());
+
+			if (!ctx.hasUI) {
+				// Headless: one JSON document on stdout with --json, else the plain-text report.
+				console.log(
+					json ? JSON.stringify(report, null, 2) : `[Synthetic Provider] ${formatDoctorReport(report).join("\n")}`,
+				);
+				return;
+			}
+
+			await ctx.ui.custom<void>(
+				(_tui, theme, _keybindings, done) => {
+					const lines = formatDoctorReport(report).map((line) =>
+						line.startsWith(" ") || line === "" ? theme.fg("muted", line) : line,
+					);
+
+					const container = new Container();
+					container.addChild(new DynamicBorder((s: string) => theme.fg("accent", s)));
+					container.addChild(new Text(theme.fg("accent", theme.bold("  Synthetic Provider Diagnostics")), 1, 0));
+					container.addChild(new DynamicBorder((s: string) => theme.fg("muted", s)));
+					container.addChild(new Spacer(1));
+					container.addChild(new Text(lines.join("\n"), 1, 0));
+					container.addChild(new Spacer(1));
+					container.addChild(new DynamicBorder((s: string) => theme.fg("muted", s)));
+					container.addChild(
+						new Text(theme.fg("dim", '  pi -p "/synthetic-doctor --json" for JSON · Esc / Enter to close'), 1, 0),
+					);
+					container.addChild(new DynamicBorder((s: string) => theme.fg("accent", s)));
+
+					const panel = new Box(0, 0, (s: string) => theme.bg("customMessageBg", s));
+					panel.addChild(container);
+
+					return {
+						render: (width) => panel.render(width),
+						invalidate: () => panel.invalidate(),
+						handleInput: (data) => {
+							if (matchesKey(data, "escape") || matchesKey(data, "enter") || matchesKey(data, "ctrl+c")) {
+								done(undefined);
+							}
+						},
+					};
+				},
+				{
+					overlay: true,
+					overlayOptions: () => ({
+						width: "80%",
+						maxWidth: 110,
+						minWidth: 60,
+						maxHeight: "80%",
+						anchor: "top-center" as const,
+						offsetY: 4,
+						margin: 1,
+					}),
+				},
+			);
+		},
+	});
+}
@@ -0,0 +1,111 @@
+/**
+ * /synthetic-drift command handler.
+ * Compares the live `/models` catalog, or a saved response, with the hardcoded
+ * fallback snapshot, and optionally writes a regenerated `getFallbackModels()`.
+ */
+
+import { writeFileSync } from "node:fs";
+import { resolve } from "node:path";
+import type { ExtensionAPI, ExtensionCommandContext } from "@earendil-works/pi-coding-agent";
+import { getSyntheticApiKey } from "../auth.js";
+import {
+	buildFallbackModelsSource,
+	formatCatalogDrift,
+	getCatalogDrift,
+	hasCatalogDrift,
+	readCatalogFile,
+} from "../catalog-drift.js";
+import { fetchSyntheticModelsResponse, getSyntheticModelsEndpoint } from "../models.js";
+import { getCatalogOptions, getSyntheticProviderConfig } from "../provider-config.js";
+import type { SyntheticModelsResponse } from "../types.js";
+
+const USAGE_TEXT = "Usage: /synthetic-drift [catalog.json] [--emit <path>] [--json]";
+
+function report(ctx: ExtensionCommandContext, message: string, level: "info" | "warning" | "error"): void {
+	if (ctx.hasUI) {
+		ctx.ui.notify(message, level);
+	} else if (level === "error") {
+		console.error(`[Synthetic Provider] ${message}`);
+	} else {
+		console.log(`[Synthetic Provider] ${message}`);
+	}
+}
+
+interface DriftArgs {
+	catalogPath?: string;
+	emitPath?: string;
+	json: boolean;
+}
+
+function parseDriftArgs(args: string): DriftArgs | undefined {
+	const parsed: DriftArgs = { json: false };
+	const tokens = args.trim().split(/\s+/).filter(Boolean);
+	for (let i = 0; i < tokens.length; i++) {
+		const token = tokens[i];
+		if (token === "--json") {
+			parsed.json = true;
+		} else if (token === "--emit") {
+			parsed.emitPath = tokens[++i];
+			if (!parsed.emitPath) return undefined;
+		} else if (!token.startsWith("--") && !parsed.catalogPath) {
+			parsed.catalogPath = token;
+		} else {
+			return undefined;
+		}
+	}
+	return parsed;
+}
+
+export function registerSyntheticDriftCommand(pi: ExtensionAPI): void {
+	pi.registerCommand("synthetic-drift", {
+		description: "Compare the live or a saved Synthetic catalog with the fallback snapshot (--emit, --json)",
+		handler: async (args, ctx) => {
+			const parsed = parseDriftArgs(args);
+			if (!parsed) {
+				report(ctx, USAGE_TEXT, "warning");
+				return;
+			}
+
+			// A saved response keeps the check offline; otherwise fetch the catalog the provider uses.
+			let response: SyntheticModelsResponse;
+			let source: string;
+			try {
+				if (parsed.catalogPath) {
+					source = resolve(ctx.cwd, parsed.catalogPath);
+					response = readCatalogFile(source);
+				} else {
+					const options = getCatalogOptions(getSyntheticProviderConfig(pi, ctx));
+					source = getSyntheticModelsEndpoint(options.baseUrl);
+					const result = await fetchSyntheticModelsResponse(await getSyntheticApiKey(ctx), options);
+					if (!result.response) throw new Error("empty response");
+					response = result.response;
+				}
+			} catch (error) {
+				const errorMessage = error instanceof Error ? error.message : String(error);
+				report(ctx, `Failed to read the Synthetic catalog: ${errorMessage}`, "error");
+				return;
+			}
+
+			const drift = getCatalogDrift(response);
+			let emitted: string | undefined;
+			if (parsed.emitPath) {
+				emitted = resolve(ctx.cwd, parsed.emitPath);
+				try {
+					writeFileSync(emitted, buildFallbackModelsSource(response), "utf-8");
+				} catch (error) {
+					const errorMessage = error instanceof Error ? error.message : String(error);
+					report(ctx, `Failed to write ${emitted}: ${errorMessage}`, "error");
+					return;
+				}
+			}
+
+			if (!ctx.hasUI && parsed.json) {
+				console.log(JSON.stringify({ source, ...drift, ...(emitted ? { emitted } : {}) }, null, 2));
+				return;
+			}
+			const lines = [`Catalog: ${source}`, ...formatCatalogDrift(drift)];
+			if (emitted) lines.push(`Wrote a regenerated getFallbackModels() to ${emitted}`);
+			report(ctx, lines.join("\n"), hasCatalogDrift(drift) ? "warning" : "info");
+		},
+	});
+}
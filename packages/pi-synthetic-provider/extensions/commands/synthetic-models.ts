@@ -1,12 +1,15 @@
 /**
  * /synthetic-models command handler.
- * Displays all available Synthetic models with pricing and capabilities in an interactive TUI overlay.
+ * Displays all available Synthetic models with pricing and capabilities in an interactive TUI overlay,
+ * or as a table / JSON on stdout when pi runs headless.
  */
 
-import { DynamicBorder, type ExtensionAPI } from "@earendil-works/pi-coding-agent";
+import { DynamicBorder, type ExtensionAPI, type ExtensionContext } from "@earendil-works/pi-coding-agent";
 import {
 	Box,
 	Container,
+	decodeKittyPrintable,
+	matchesKey,
 	type SelectItem,
 	SelectList,
 	type SelectListTheme,
@@ -14,25 +17,143 @@ import {
 	Text,
 } from "@earendil-works/pi-tui";
 import { getSyntheticApiKey } from "../auth.js";
-import { SYNTHETIC_MODELS_ENDPOINT } from "../config.js";
 import {
+	formatModelComparison,
+	formatTypicalTurn,
+	getDefaultTypicalTurn,
+	parseTypicalTurn,
+	type TypicalTurn,
+} from "../comparison.js";
+import { SYNTHETIC_MODELS_FETCH_TIMEOUT_MS } from "../config.js";
+import {
+	CATALOG_SORT_MODES,
+	filterCatalogModels,
 	formatCatalogHeader,
 	formatCatalogRow,
 	formatContextTokens,
 	formatDatacenters,
 	formatPrice,
 	formatTokenCount,
+	getCatalogSortLabel,
 	getModelCapabilities,
-	getProviderSortRank,
+	getPermalinkTarget,
+	sortCatalogModels,
+	toCatalogRecord,
 } from "../formatting.js";
+import {
+	type FetchSyntheticModelsOptions,
+	getModelExclusionReason,
+	getSyntheticModelsEndpoint,
+	isOnDemandModelsEnabled,
+} from "../models.js";
+import { getCatalogOptions, getSyntheticProviderConfig } from "../provider-config.js";
 import type { SyntheticModel, SyntheticModelsResponse } from "../types.js";
 
+/** Typical turn for comparison cost estimates: flag, then environment variable, then default. */
+function getTypicalTurn(pi: ExtensionAPI): TypicalTurn {
+	const flagValue = pi.getFlag("synthetic-compare-turn");
+	return (
+		parseTypicalTurn(typeof flagValue === "string" ? flagValue : undefined) ??
+		parseTypicalTurn(process.env.SYNTHETIC_COMPARE_TURN) ??
+		getDefaultTypicalTurn()
+	);
+}
+
+/**
+ * Catalog rows, Synthetic-hosted first, then by provider and name. Only always-on
+ * rows by default; every row with `includeOnDemand`, so excluded ones can be explained.
+ */
+async function fetchCatalogModels(
+	ctx: ExtensionContext,
+	options: FetchSyntheticModelsOptions,
+): Promise<SyntheticModel[]> {
+	const apiKey = await getSyntheticApiKey(ctx);
+	const headers: Record<string, string> = {
+		Accept: "application/json",
+	};
+	if (apiKey) {
+		headers.Authorization = `Bearer ${apiKey}`;
+	}
+
+	const response = await fetch(getSyntheticModelsEndpoint(options.baseUrl), {
+		headers,
+		signal: AbortSignal.timeout(options.timeoutMs ?? SYNTHETIC_MODELS_FETCH_TIMEOUT_MS),
+	});
+	if (!response.ok) {
+		throw new Error(`API error: ${response.status} ${response.statusText}`);
+	}
+
+	const data = (await response.json()) as SyntheticModelsResponse;
+	return sortCatalogModels(
+		data.data.filter((m) => options.includeOnDemand || m.always_on),
+		"default",
+	);
+}
+
+function formatCatalogSubtitle(models: readonly SyntheticModel[], options: FetchSyntheticModelsOptions): string {
+	const excluded = models.filter((m) => getModelExclusionReason(m, options)).length;
+	if (!options.includeOnDemand) {
+		return `${models.length} always-on models${excluded > 0 ? ` (${excluded} not selectable)` : ""}`;
+	}
+	const onDemand = models.filter((m) => !m.always_on).length;
+	return `${models.length} models (${models.length - onDemand} always-on, ${onDemand} on-demand, ${excluded} not selectable)`;
+}
+
+/** Registered on-demand rows get a marker; rows pi does not register carry the exact reason. */
+function formatCatalogRowStatus(model: SyntheticModel, options: FetchSyntheticModelsOptions): string {
+	const reason = getModelExclusionReason(model, options);
+	if (reason) return `excluded: ${reason}`;
+	return model.always_on ? "" : "on-demand";
+}
+
+/**
+ * Headless rendering for CI and scripts: the overlay's table on stdout, or one
+ * JSON document with `--json`. Errors go to stderr so stdout stays parseable.
+ */
+async function printCatalogHeadless(
+	ctx: ExtensionContext,
+	json: boolean,
+	options: FetchSyntheticModelsOptions,
+): Promise<void> {
+	let models: SyntheticModel[];
+	try {
+		models = await fetchCatalogModels(ctx, options);
+	} catch (error) {
+		const errorMessage = error instanceof Error ? error.message : String(error);
+		console.error(`[Synthetic Provider] Failed to fetch models: ${errorMessage}`);
+		return;
+	}
+
+	if (json) {
+		const records = models.map((m) => toCatalogRecord(m, getModelExclusionReason(m, options)));
+		console.log(JSON.stringify({ models: records }, null, 2));
+		return;
+	}
+	console.log(
+		[
+			`Synthetic Model Catalog: ${formatCatalogSubtitle(models, options)} · prices shown are $/million tokens · R-Cache = input cache read`,
+			formatCatalogHeader(),
+			...models.map((m) => `${formatCatalogRow(m)} ${formatCatalogRowStatus(m, options)}`.trimEnd()),
+		].join("\n"),
+	);
+}
+
 export function registerSyntheticModelsCommand(pi: ExtensionAPI): void {
+	pi.registerFlag("synthetic-compare-turn", {
+		description:
+			"Typical turn for /synthetic-models cost comparison as input:output[:cacheRead] tokens (default: 30k:2k).",
+		type: "string",
+	});
+
 	pi.registerCommand("synthetic-models", {
-		description: "Display all available Synthetic models with pricing and capabilities",
-		handler: async (_args, ctx) => {
+		description: "Display all available Synthetic models with pricing and capabilities (headless: --json)",
+		handler: async (args, ctx) => {
+			const options: FetchSyntheticModelsOptions = {
+				...getCatalogOptions(getSyntheticProviderConfig(pi, ctx)),
+				includeOnDemand: isOnDemandModelsEnabled(pi),
+			};
 			if (!ctx.hasUI) {
-				console.log("[Synthetic Provider] /synthetic-models requires interactive mode");
+				await printCatalogHeadless(ctx, args.trim().split(/\s+/).includes("--json"), options);
 				return;
 			}
 			if (!ctx.isIdle()) {
@@ -43,32 +164,7 @@ export function registerSyntheticModelsCommand(pi: ExtensionAPI): void {
 			ctx.ui.notify("Fetching model catalog from Synthetic API...", "info");
 
 			try {
-				const apiKey = await getSyntheticApiKey(ctx);
-				const headers: Record<string, string> = {
-					Accept: "application/json",
-				};
-				if (apiKey) {
-					headers.Authorization = `Bearer ${apiKey}`;
-				}
-
-				const response = await fetch(SYNTHETIC_MODELS_ENDPOINT, { headers });
-				if (!response.ok) {
-					throw new Error(`API error: ${response.status} ${response.statusText}`);
-				}
-
-				const data = (await response.json()) as SyntheticModelsResponse;
-				const models = data.data.filter((m) => m.always_on);
-
-				// Sort with Synthetic-hosted models first, then provider/name
-				models.sort((a, b) => {
-					const rankCompare = getProviderSortRank(a.provider) - getProviderSortRank(b.provider);
-					if (rankCompare !== 0) return rankCompare;
-
-					const providerCompare = (a.provider || "unknown").localeCompare(b.provider || "unknown");
-					if (providerCompare !== 0) return providerCompare;
-
-					return (a.name || a.id).localeCompare(b.name || b.id);
-				});
+				const models = await fetchCatalogModels(ctx, options);
 
 				if (models.length === 0) {
 					ctx.ui.notify("No always-on models returned by Synthetic API", "warning");
@@ -76,16 +172,19 @@ export function registerSyntheticModelsCommand(pi: ExtensionAPI): void {
 				}
 
 				const itemToModel = new Map<string, SyntheticModel>();
-				const items: SelectItem[] = models.map((m) => {
-					const provider = m.provider || "unknown";
-					const itemKey = `${provider}:${m.id}`;
+				const getItemKey = (m: SyntheticModel) => `${m.provider || "unknown"}:${m.id}`;
+				const toItem = (m: SyntheticModel, marked: boolean, dim: (text: string) => string): SelectItem => {
+					const itemKey = getItemKey(m);
 					itemToModel.set(itemKey, m);
 
+					const status = formatCatalogRowStatus(m, options);
+					const label = `${marked ? "● " : "  "}${formatCatalogRow(m)}${status ? ` ${status}` : ""}`;
 					return {
 						value: itemKey,
-						label: formatCatalogRow(m),
+						label: getModelExclusionReason(m, options) ? dim(label) : label,
 					};
-				});
+				};
+				const typicalTurn = getTypicalTurn(pi);
 
 				let overlayRows = 44;
 				let overlayCols = 140;
@@ -104,8 +203,17 @@ export function registerSyntheticModelsCommand(pi: ExtensionAPI): void {
 						};
 
 						const listMaxVisible = Math.max(6, Math.min(14, overlayRows - 24));
-						const selectList = new SelectList(items, Math.min(items.length, listMaxVisible), selectTheme);
 						const detailsText = new Text("", 1, 0);
+						const hintText = new Text(" ", 1, 0);
+
+						// View state: free-text query, required capabilities, and sort mode.
+						let query = "";
+						const requiredCaps = new Set<string>();
+						let sortIndex = 0;
+						let visibleCount = models.length;
+						// Item keys marked for the comparison panel, and whether it is showing.
+						const marked = new Set<string>();
+						let comparing = false;
 
 						const updateDetails = (model: SyntheticModel | undefined) => {
 							if (!model) {
@@ -117,6 +225,13 @@ export function registerSyntheticModelsCommand(pi: ExtensionAPI): void {
 							const caps = getModelCapabilities(model);
 							const reasoningEfforts = model.reasoning_parameters?.efforts;
 							const datacenters = formatDatacenters(model.datacenters);
+							const exclusionReason = getModelExclusionReason(model, options);
+							const permalinkTarget = getPermalinkTarget(model);
+							const status = exclusionReason
+								? theme.fg("warning", `not selectable: ${exclusionReason}`)
+								: model.always_on
+									? "always-on"
+									: "on-demand (first request may be slow while Synthetic starts it)";
 
 							const lines = [
 								theme.fg("accent", theme.bold("Selected model")),
@@ -128,47 +243,145 @@ export function registerSyntheticModelsCommand(pi: ExtensionAPI): void {
 								`${theme.fg("muted", "Capabilities:")} ${caps.length > 0 ? caps.join(", ") : "none"}`,
 								`${theme.fg("muted", "Reasoning efforts:")} ${reasoningEfforts && reasoningEfforts.length > 0 ? reasoningEfforts.join(", ") : "n/a"}`,
 								`${theme.fg("muted", "Datacenters:")} ${datacenters}`,
+								`${theme.fg("muted", "Status:")} ${status}`,
+								...(permalinkTarget
+									? [
+											`${theme.fg("muted", "Permalink:")} currently ${permalinkTarget}; Synthetic may re-point it (pin with --synthetic-pin-permalinks)`,
+										]
+									: []),
 								"",
 								`${theme.fg("muted", "Use with:")} synthetic/${model.id}`,
 							];
 							detailsText.setText(lines.join("\n"));
 						};
 
-						const initial = items[0];
-						updateDetails(initial ? itemToModel.get(initial.value) : undefined);
-
-						selectList.onSelectionChange = (item) => {
-							updateDetails(itemToModel.get(item.value));
-							tui.requestRender();
+						const updateHint = () => {
+							const filterParts = [
+								query ? `filter "${query}"` : undefined,
+								requiredCaps.size > 0 ? `caps ${[...requiredCaps].join("+")}` : undefined,
+							].filter(Boolean);
+							const status = [
+								`${visibleCount}/${models.length} models`,
+								filterParts.length > 0 ? filterParts.join(" · ") : "no filter",
+								`sort: ${getCatalogSortLabel(CATALOG_SORT_MODES[sortIndex])}`,
+								`${marked.size} marked`,
+							].join(" · ");
+							hintText.setText(
+								[
+									theme.fg("accent", status),
+									theme.fg(
+										"dim",
+										"type to filter · Tab sort · ^V vision · ^R reason · ^T tools · ^X mark · ^O compare · Enter switches active model · Esc clears/closes",
+									),
+								].join("\n"),
+							);
 						};
 
-						selectList.onSelect = (item) => {
-							void (async () => {
-								const selected = itemToModel.get(item.value);
-								if (!selected) return;
-
-								const modelRef = `synthetic/${selected.id}`;
-								const registryModel = ctx.modelRegistry.find("synthetic", selected.id);
-								if (!registryModel) {
-									ctx.ui.notify(
-										`Model ${modelRef} is not currently registered in pi (possibly unsupported for tools)`,
-										"warning",
-									);
-									return;
-								}
+						const createSelectList = (keepSelection?: string): SelectList => {
+							const visible = sortCatalogModels(
+								filterCatalogModels(models, query, [...requiredCaps]),
+								CATALOG_SORT_MODES[sortIndex],
+							);
+							visibleCount = visible.length;
+							const items = visible.map((m) => toItem(m, marked.has(getItemKey(m)), (text) => theme.fg("dim", text)));
+							const list = new SelectList(items, Math.max(1, Math.min(items.length, listMaxVisible)), selectTheme);
+
+							list.onSelectionChange = (item) => {
+								updateDetails(itemToModel.get(item.value));
+								tui.requestRender();
+							};
 
-								const switched = await pi.setModel(registryModel);
-								if (!switched) {
-									ctx.ui.notify(`No API key available for ${modelRef}`, "error");
-									return;
-								}
+							list.onSelect = (item) => {
+								void (async () => {
+									const selected = itemToModel.get(item.value);
+									if (!selected) return;
+
+									const modelRef = `synthetic/${selected.id}`;
+									const exclusionReason = getModelExclusionReason(selected, options);
+									if (exclusionReason) {
+										ctx.ui.notify(`Model ${modelRef} is not selectable: ${exclusionReason}`, "warning");
+										return;
+									}
+
+									const registryModel = ctx.modelRegistry.find("synthetic", selected.id);
+									if (!registryModel) {
+										ctx.ui.notify(
+											`Model ${modelRef} is not currently registered in pi; the catalog may have changed since startup`,
+											"warning",
+										);
+										return;
+									}
+
+									const switched = await pi.setModel(registryModel);
+									if (!switched) {
+										ctx.ui.notify(`No API key available for ${modelRef}`, "error");
+										return;
+									}
+
+									ctx.ui.notify(`Switched model to ${modelRef}`, "info");
+									done(undefined);
+								})();
+							};
 
-								ctx.ui.notify(`Switched model to ${modelRef}`, "info");
-								done(undefined);
-							})();
+							list.onCancel = () => done(undefined);
+
+							const selectedIndex = keepSelection ? items.findIndex((item) => item.value === keepSelection) : -1;
+							if (selectedIndex > 0) list.setSelectedIndex(selectedIndex);
+							const initial = items[Math.max(0, selectedIndex)];
+							updateDetails(initial ? itemToModel.get(initial.value) : undefined);
+							updateHint();
+							return list;
+						};
+
+						let selectList = createSelectList();
+						const refreshList = (keepSelection?: string) => {
+							selectList = createSelectList(keepSelection);
+						};
+
+						const compareText = new Text(" ", 1, 0);
+						const comparePanel = new Box(0, 0, (s: string) => theme.bg("customMessageBg", s));
+						const compareContainer = new Container();
+						compareContainer.addChild(new DynamicBorder((s: string) => theme.fg("accent", s)));
+						compareContainer.addChild(new Text(theme.fg("accent", theme.bold("Synthetic Model Comparison")), 1, 0));
+						compareContainer.addChild(
+							new Text(
+								theme.fg(
+									"muted",
+									`Turn cost for ${formatTypicalTurn(typicalTurn)} tokens (--synthetic-compare-turn) · prices are $/million tokens`,
+								),
+								1,
+								0,
+							),
+						);
+						compareContainer.addChild(new DynamicBorder((s: string) => theme.fg("muted", s)));
+						compareContainer.addChild(compareText);
+						compareContainer.addChild(new DynamicBorder((s: string) => theme.fg("muted", s)));
+						compareContainer.addChild(new Text(theme.fg("dim", "Esc / Enter returns to the catalog"), 1, 0));
+						compareContainer.addChild(new DynamicBorder((s: string) => theme.fg("accent", s)));
+						comparePanel.addChild(compareContainer);
+
+						const openComparison = () => {
+							const markedModels = sortCatalogModels(
+								models.filter((m) => marked.has(getItemKey(m))),
+								CATALOG_SORT_MODES[sortIndex],
+							);
+							if (markedModels.length < 2) {
+								ctx.ui.notify("Mark at least two models with Ctrl+X to compare them", "warning");
+								return;
+							}
+							const [modelRow, ...rows] = formatModelComparison(markedModels, typicalTurn);
+							compareText.setText([theme.bold(modelRow), ...rows].join("\n"));
+							comparing = true;
 						};
 
-						selectList.onCancel = () => done(undefined);
+						const toggleCap = (cap: string) => {
+							if (requiredCaps.has(cap)) {
+								requiredCaps.delete(cap);
+							} else {
+								requiredCaps.add(cap);
+							}
+							refreshList();
+						};
 
 						const container = new Container();
 						container.addChild(new DynamicBorder((s: string) => theme.fg("accent", s)));
@@ -177,33 +390,86 @@ export function registerSyntheticModelsCommand(pi: ExtensionAPI): void {
 							new Text(
 								theme.fg(
 									"muted",
-									`${models.length} always-on models · prices shown are $/million tokens · R-Cache = input cache read`,
+									`${formatCatalogSubtitle(models, options)} · prices shown are $/million tokens · R-Cache = input cache read`,
 								),
 								1,
 								0,
 							),
 						);
 						container.addChild(new Spacer(1));
-						container.addChild(new Text(theme.fg("dim", formatCatalogHeader()), 1, 0));
+						container.addChild(new Text(theme.fg("dim", `  ${formatCatalogHeader()}`), 1, 0));
 						container.addChild(new DynamicBorder((s: string) => theme.fg("muted", s)));
-						container.addChild(selectList);
+						// The list is rebuilt whenever the filter or sort changes, so render through a slot.
+						container.addChild({
+							render: (width) => selectList.render(width),
+							invalidate: () => selectList.invalidate(),
+						});
 						container.addChild(new DynamicBorder((s: string) => theme.fg("muted", s)));
 						container.addChild(new Spacer(1));
 						container.addChild(detailsText);
 						container.addChild(new Spacer(1));
-						container.addChild(
-							new Text(theme.fg("dim", "↑↓ navigate · Enter switches active model · Esc closes"), 1, 0),
-						);
+						container.addChild(hintText);
 						container.addChild(new DynamicBorder((s: string) => theme.fg("accent", s)));
 
 						const panel = new Box(0, 0, (s: string) => theme.bg("customMessageBg", s));
 						panel.addChild(container);
 
 						return {
-							render: (width) => panel.render(width),
-							invalidate: () => panel.invalidate(),
+							render: (width) => (comparing ? comparePanel.render(width) : panel.render(width)),
+							invalidate: () => {
+								panel.invalidate();
+								comparePanel.invalidate();
+							},
 							handleInput: (data) => {
-								selectList.handleInput(data);
+								if (comparing) {
+									if (matchesKey(data, "escape") || matchesKey(data, "enter") || matchesKey(data, "ctrl+c")) {
+										comparing = false;
+									}
+									tui.requestRender();
+									return;
+								}
+
+								const printable =
+									decodeKittyPrintable(data) ??
+									(data.length === 1 && data >= " " && data !== "\x7f" ? data : undefined);
+
+								if (matchesKey(data, "tab")) {
+									sortIndex = (sortIndex + 1) % CATALOG_SORT_MODES.length;
+									refreshList();
+								} else if (matchesKey(data, "ctrl+v")) {
+									toggleCap("vision");
+								} else if (matchesKey(data, "ctrl+r")) {
+									toggleCap("reason");
+								} else if (matchesKey(data, "ctrl+t")) {
+									toggleCap("tools");
+								} else if (matchesKey(data, "ctrl+x")) {
+									const selected = selectList.getSelectedItem();
+									if (selected) {
+										if (marked.has(selected.value)) {
+											marked.delete(selected.value);
+										} else {
+											marked.add(selected.value);
+										}
+										refreshList(selected.value);
+									}
+								} else if (matchesKey(data, "ctrl+o")) {
+									openComparison();
+								} else if (matchesKey(data, "backspace")) {
+									if (query) {
+										query = query.slice(0, -1);
+										refreshList();
+									}
+								} else if (matchesKey(data, "escape") && (query || requiredCaps.size > 0)) {
+									// First Esc clears the filter; a second one closes the overlay.
+									query = "";
+									requiredCaps.clear();
+									refreshList();
+								} else if (printable) {
+									query += printable;
+									refreshList();
+								} else {
+									selectList.handleInput(data);
+								}
 								tui.requestRender();
 							},
 						};
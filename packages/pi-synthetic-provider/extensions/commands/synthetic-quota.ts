@@ -1,11 +1,14 @@
 /**
  * /synthetic-quota command handler.
- * Displays current API usage quotas and limits in a TUI overlay.
+ * Displays current API usage quotas and limits in a TUI overlay, or as text / JSON
+ * on stdout when pi runs headless. Each fetch is recorded in the quota history,
+ * which adds a usage sparkline, burn rate, and exhaustion forecast to the rolling
+ * and weekly limits.
  */
 
-import { DynamicBorder, type ExtensionAPI } from "@earendil-works/pi-coding-agent";
+import { DynamicBorder, type ExtensionAPI, type ExtensionContext } from "@earendil-works/pi-coding-agent";
 import { Box, Container, matchesKey, Spacer, Text } from "@earendil-works/pi-tui";
-import { getSyntheticApiKey } from "../auth.js";
+import { getActiveSyntheticAccountName, getSyntheticApiKey } from "../auth.js";
 import {
 	buildProgressBar,
 	fetchSyntheticQuota,
@@ -15,14 +18,130 @@ import {
 	hasVisibleQuotaBucket,
 	shouldDisplaySubscriptionQuota,
 } from "../quota.js";
-import type { QuotaBucket, RollingFiveHourLimit, WeeklyTokenLimit } from "../types.js";
+import { getQuotaGuardBuckets, type QuotaGuardBucket } from "../quota-guard.js";
+import {
+	buildQuotaSparkline,
+	formatQuotaForecast,
+	getQuotaForecast,
+	type QuotaForecast,
+	type QuotaSnapshot,
+	readQuotaHistory,
+	recordQuotaSnapshot,
+} from "../quota-history.js";
+import type {
+	QuotaBucket,
+	RollingFiveHourLimit,
+	SyntheticProviderConfig,
+	SyntheticQuotaResponse,
+	WeeklyTokenLimit,
+} from "../types.js";
+
+interface QuotaTrend {
+	sparkline: string;
+	forecast?: QuotaForecast;
+}
+
+/** Record this fetch in the history and return the account's snapshots, including it. */
+function recordAndReadHistory(quota: SyntheticQuotaResponse, account: string): QuotaSnapshot[] {
+	recordQuotaSnapshot(quota, account);
+	return readQuotaHistory(account);
+}
+
+/** Sparkline and forecast for the rolling or weekly limit, once the history holds two samples of it. */
+function getQuotaTrend(
+	history: readonly QuotaSnapshot[],
+	key: QuotaGuardBucket["key"],
+	percentUsed: number,
+	width: number,
+): QuotaTrend | undefined {
+	if (key !== "rolling" && key !== "weekly") return undefined;
+	if (history.filter((snapshot) => snapshot[key] !== undefined).length < 2) return undefined;
+	return {
+		sparkline: buildQuotaSparkline(history, key, width),
+		forecast: getQuotaForecast(history, key, percentUsed),
+	};
+}
+
+function formatTrendForecast(trend: QuotaTrend): string {
+	return trend.forecast ? formatQuotaForecast(trend.forecast) : "burn rate after 15m of history";
+}
+
+/**
+ * Headless rendering for CI and scripts: one line per bucket on stdout, or one
+ * JSON document with `--json`. Errors go to stderr so stdout stays parseable.
+ */
+async function printQuotaHeadless(ctx: ExtensionContext, json: boolean, baseUrl?: string): Promise<void> {
+	const apiKey = await getSyntheticApiKey(ctx);
+	if (!apiKey) {
+		console.error("[Synthetic Provider] Synthetic API key not configured. Set SYNTHETIC_API_KEY or add to auth.json.");
+		return;
+	}
+
+	let quota: SyntheticQuotaResponse;
+	try {
+		quota = await fetchSyntheticQuota(apiKey, { baseUrl });
+	} catch (error) {
+		const errorMessage = error instanceof Error ? error.message : String(error);
+		console.error(`[Synthetic Provider] Failed to fetch quota: ${errorMessage}`);
+		return;
+	}
+
+	const account = getActiveSyntheticAccountName();
+	const history = recordAndReadHistory(quota, account);
+	const buckets = getQuotaGuardBuckets(quota);
+	if (json) {
+		console.log(
+			JSON.stringify(
+				{
+					account,
+					quotaSystem: getQuotaSystemLabel(quota),
+					buckets: buckets.map((bucket) => {
+						const forecast = getQuotaTrend(history, bucket.key, bucket.percentUsed, 24)?.forecast;
+						return {
+							key: bucket.key,
+							label: bucket.label,
+							percentUsed: Number(bucket.percentUsed.toFixed(2)),
+							limited: bucket.limited,
+							resetsAt: bucket.resetsAt,
+							...(forecast
+								? { burnRatePerHour: Number(forecast.burnRatePerHour.toFixed(2)), exhaustsAt: forecast.exhaustsAt }
+								: {}),
+						};
+					}),
+					quota,
+				},
+				null,
+				2,
+			),
+		);
+		return;
+	}
+
+	const lines = [`Synthetic API Quota (${getQuotaSystemLabel(quota)}) · account ${account}`];
+	for (const bucket of buckets) {
+		const label = `${bucket.label.charAt(0).toUpperCase()}${bucket.label.slice(1)}`;
+		const status = bucket.limited ? "LIMITED" : `${bucket.percentUsed.toFixed(2)}% used`;
+		lines.push(`  ${label.padEnd(22)} ${status.padEnd(12)} resets in ${formatTimeRemaining(bucket.resetsAt)}`);
+		const trend = getQuotaTrend(history, bucket.key, bucket.percentUsed, 24);
+		if (trend) {
+			lines.push(`  ${"".padEnd(22)} last 24h ${trend.sparkline} · ${formatTrendForecast(trend)}`);
+		}
+	}
+	if (buckets.length === 0) {
+		lines.push("  No quota buckets reported");
+	}
+	console.log(lines.join("\n"));
+}
 
-export function registerSyntheticQuotaCommand(pi: ExtensionAPI): void {
+export function registerSyntheticQuotaCommand(
+	pi: ExtensionAPI,
+	getConfig: () => Pick<SyntheticProviderConfig, "baseUrl"> = () => ({}),
+): void {
 	pi.registerCommand("synthetic-quota", {
-		description: "Display your Synthetic API usage quotas and limits",
-		handler: async (_args, ctx) => {
+		description: "Display your Synthetic API usage quotas and limits (headless: --json)",
+		handler: async (args, ctx) => {
 			if (!ctx.hasUI) {
-				console.log("[Synthetic Provider] /synthetic-quota requires interactive mode");
+				await printQuotaHeadless(ctx, args.trim().split(/\s+/).includes("--json"), getConfig().baseUrl);
 				return;
 			}
 			if (!ctx.isIdle()) {
@@ -39,7 +158,8 @@ export function registerSyntheticQuotaCommand(pi: ExtensionAPI): void {
 			ctx.ui.notify("Fetching quota from Synthetic API...", "info");
 
 			try {
-				const quota = await fetchSyntheticQuota(apiKey);
+				const quota = await fetchSyntheticQuota(apiKey, { baseUrl: getConfig().baseUrl });
+				const history = recordAndReadHistory(quota, getActiveSyntheticAccountName());
 
 				const BAR_WIDTH = 30;
 				let overlayRows = 44;
@@ -51,6 +171,7 @@ export function registerSyntheticQuotaCommand(pi: ExtensionAPI): void {
 						overlayCols = tui.terminal.columns;
 
 						const quotaSystemLabel = getQuotaSystemLabel(quota);
+						const accountName = getActiveSyntheticAccountName();
 						const showSubscription = shouldDisplaySubscriptionQuota(quota);
 						// API has moved tool-call quota from `toolCallDiscounts` to `freeToolCalls`;
 						// keep both for backwards compatibility with older payloads.
@@ -66,14 +187,35 @@ export function registerSyntheticQuotaCommand(pi: ExtensionAPI): void {
 							hasVisibleQuotaBucket(quota.search?.hourly),
 							Boolean(toolCallBucket),
 						].filter(Boolean).length;
+						const bucketPercents = new Map(
+							getQuotaGuardBuckets(quota).map((bucket) => [bucket.key, bucket.percentUsed] as const),
+						);
+						const trendFor = (key: "rolling" | "weekly", width: number) =>
+							getQuotaTrend(history, key, bucketPercents.get(key) ?? 0, width);
+						const trendSections = [trendFor("rolling", BAR_WIDTH), trendFor("weekly", BAR_WIDTH)].filter(
+							Boolean,
+						).length;
 						// Count how many sections we'll render to estimate needed height
-						// Normal layout: ~7 lines/bucket + 3 separator lines between + 6 chrome
-						// Compact layout: ~3 lines/bucket + 1 separator line between + 4 chrome
-						const normalHeight = visibleSections * 7 + Math.max(0, visibleSections - 1) * 3 + 6;
+						// Normal layout: ~7 lines/bucket (+3 with history) + 3 separator lines between + 6 chrome
+						// Compact layout: ~3 lines/bucket (+1 with history) + 1 separator line between + 4 chrome
+						const normalHeight = visibleSections * 7 + trendSections * 3 + Math.max(0, visibleSections - 1) * 3 + 6;
 						const compact = overlayRows < 45 || normalHeight > overlayRows * 0.75;
 						const barWidth = compact ? 20 : BAR_WIDTH;
 						const formatPercent = (value: number) => `${value.toFixed(2)}%`;
 
+						const renderTrend = (key: "rolling" | "weekly"): string[] => {
+							const trend = trendFor(key, barWidth);
+							if (!trend) return [];
+							if (compact) {
+								return [`   ${theme.fg("dim", trend.sparkline)}  ${theme.fg("muted", formatTrendForecast(trend))}`];
+							}
+							return [
+								"",
+								`   ${theme.fg("muted", "Last 24h:")}  ${theme.fg("dim", trend.sparkline)}`,
+								`   ${theme.fg("muted", "Pace:")}      ${formatTrendForecast(trend)}`,
+							];
+						};
+
 						const renderBucket = (label: string, bucket: QuotaBucket | undefined, icon: string): string[] => {
 							if (!hasVisibleQuotaBucket(bucket)) return [];
 
@@ -115,6 +257,7 @@ export function registerSyntheticQuotaCommand(pi: ExtensionAPI): void {
 									`${icon}  ${theme.fg("accent", theme.bold(label))}`,
 									`   ${theme.fg(color, bar)}  ${theme.fg(color, formatPercent(percentUsed))} used`,
 									`   ${theme.fg("success", formatPercent(percentRemaining))} remaining ${theme.fg("muted", "·")} regenerates ${theme.fg("accent", renewalStr)}`,
+									...renderTrend("weekly"),
 								];
 							}
 
@@ -126,6 +269,7 @@ export function registerSyntheticQuotaCommand(pi: ExtensionAPI): void {
 								`   ${theme.fg("muted", "Remaining:")} ${theme.fg("success", formatPercent(percentRemaining))}`,
 								`   ${theme.fg("muted", "Used:")}      ${theme.bold(formatPercent(percentUsed))}`,
 								`   ${theme.fg("muted", "Regens in:")} ${theme.fg("accent", renewalStr)}`,
+								...renderTrend("weekly"),
 							];
 						};
 
@@ -146,6 +290,7 @@ export function registerSyntheticQuotaCommand(pi: ExtensionAPI): void {
 									`${icon}  ${theme.fg("accent", theme.bold(label))}`,
 									`   ${theme.fg(color, bar)}  ${theme.fg(color, formatPercent(percent))} used`,
 									`   ${theme.bold(String(rolling.remaining))} / ${rolling.max} left ${theme.fg("muted", "·")} ${rolling.limited ? theme.fg("error", "limited now") : theme.fg("success", "available")} ${theme.fg("muted", "·")} ticks ${theme.fg("accent", tickStr)}`,
+									...renderTrend("rolling"),
 								];
 							}
 
@@ -157,6 +302,7 @@ export function registerSyntheticQuotaCommand(pi: ExtensionAPI): void {
 								`   ${theme.fg("muted", "Remaining:")} ${theme.bold(String(rolling.remaining))} / ${rolling.max}`,
 								`   ${theme.fg("muted", "Status:")}    ${rolling.limited ? theme.fg("error", "Limited") : theme.fg("success", "Available")}`,
 								`   ${theme.fg("muted", "Next tick:")} ${theme.fg("accent", tickStr)} (${formatPercent(rolling.tickPercent * 100)})`,
+								...renderTrend("rolling"),
 							];
 						};
 
@@ -187,8 +333,8 @@ export function registerSyntheticQuotaCommand(pi: ExtensionAPI): void {
 								theme.fg(
 									"muted",
 									compact
-										? `  ${quotaSystemLabel}`
-										: `  ${quotaSystemLabel} · usage and limits for your Synthetic account`,
+										? `  ${quotaSystemLabel} · account ${accountName}`
+										: `  ${quotaSystemLabel} · usage and limits for Synthetic account ${accountName}`,
 								),
 								1,
 								0,
@@ -0,0 +1,164 @@
+/**
+ * /synthetic-usage command handler.
+ * Displays the session's Synthetic token and cost ledger in a TUI overlay, and
+ * exports it as CSV or JSON for reconciliation against the Synthetic bill.
+ */
+
+import { writeFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { DynamicBorder, type ExtensionAPI, type ExtensionCommandContext } from "@earendil-works/pi-coding-agent";
+import { Box, Container, matchesKey, Spacer, Text } from "@earendil-works/pi-tui";
+import { formatCompactTokens, formatCost, truncateWithEllipsis } from "../formatting.js";
+import type { UsageLedger, UsageTotals } from "../types.js";
+import { buildUsageLedger, formatUsageCsv, formatUsageJson } from "../usage.js";
+
+const USAGE_TEXT = "Usage: /synthetic-usage [export csv|json [path]]";
+
+function report(ctx: ExtensionCommandContext, message: string, level: "info" | "warning" | "error"): void {
+	if (ctx.hasUI) {
+		ctx.ui.notify(message, level);
+	} else if (level === "error") {
+		console.error(`[Synthetic Provider] ${message}`);
+	} else {
+		console.log(`[Synthetic Provider] ${message}`);
+	}
+}
+
+function formatTotalsLine(totals: UsageTotals): string {
+	return [
+		`${totals.turns} turn${totals.turns === 1 ? "" : "s"}`,
+		`${formatCompactTokens(totals.input)} in`,
+		`${formatCompactTokens(totals.output)} out`,
+		`${formatCompactTokens(totals.cacheRead)} cache read`,
+		`${formatCompactTokens(totals.cacheWrite)} cache write`,
+		formatCost(totals.cost.total),
+	].join(" · ");
+}
+
+/** Plain-text summary for headless runs. */
+function formatUsageSummary(ledger: UsageLedger): string {
+	const lines = [`Session total: ${formatTotalsLine(ledger.totals)}`];
+	for (const model of ledger.models) {
+		lines.push(`  ${model.model}: ${formatTotalsLine(model)}`);
+	}
+	return lines.join("\n");
+}
+
+function exportLedger(ctx: ExtensionCommandContext, ledger: UsageLedger, format: string, path?: string): void {
+	if (format !== "csv" && format !== "json") {
+		report(ctx, USAGE_TEXT, "warning");
+		return;
+	}
+
+	const sessionId = ctx.sessionManager.getSessionId();
+	const target = resolve(ctx.cwd, path || `synthetic-usage-${sessionId}.${format}`);
+	try {
+		writeFileSync(target, format === "csv" ? formatUsageCsv(ledger) : formatUsageJson(ledger, sessionId), "utf-8");
+		report(ctx, `Exported ${ledger.turns.length} Synthetic turns to ${target}`, "info");
+	} catch (error) {
+		const errorMessage = error instanceof Error ? error.message : String(error);
+		report(ctx, `Failed to export usage to ${target}: ${errorMessage}`, "error");
+	}
+}
+
+export function registerSyntheticUsageCommand(pi: ExtensionAPI): void {
+	pi.registerCommand("synthetic-usage", {
+		description: "Show Synthetic token usage and cost for this session, or export it as CSV/JSON",
+		getArgumentCompletions: (prefix) => {
+			const options = ["export csv", "export json"];
+			const matches = options.filter((option) => option.startsWith(prefix.trim()));
+			return matches.length > 0 ? matches.map((option) => ({ value: option, label: option })) : null;
+		},
+		handler: async (args, ctx) => {
+			// Every branch was billed, so read all entries rather than the active branch.
+			const ledger = buildUsageLedger(ctx.sessionManager.getEntries());
+			const [subcommand, format, ...pathParts] = args.trim().split(/\s+/).filter(Boolean);
+
+			if (subcommand === "export") {
+				exportLedger(ctx, ledger, format ?? "", pathParts.join(" ") || undefined);
+				return;
+			}
+			if (subcommand) {
+				report(ctx, USAGE_TEXT, "warning");
+				return;
+			}
+
+			if (!ctx.hasUI) {
+				console.log(`[Synthetic Provider] ${formatUsageSummary(ledger)}`);
+				return;
+			}
+			if (ledger.turns.length === 0) {
+				ctx.ui.notify("No Synthetic usage recorded in this session yet", "info");
+				return;
+			}
+
+			await ctx.ui.custom<void>(
+				(_tui, theme, _keybindings, done) => {
+					const { totals } = ledger;
+					const costLine = (label: string, cost: number) =>
+						`   ${theme.fg("muted", label.padEnd(13))}${formatCost(cost)}`;
+
+					const summary = [
+						`💰  ${theme.fg("accent", theme.bold("Session Total"))}  ${theme.bold(formatCost(totals.cost.total))}`,
+						"",
+						`   ${theme.fg("muted", "Turns:".padEnd(13))}${totals.turns}`,
+						`   ${theme.fg("muted", "Tokens:".padEnd(13))}${formatCompactTokens(totals.input)} in · ${formatCompactTokens(totals.output)} out · ${formatCompactTokens(totals.cacheRead)} cache read · ${formatCompactTokens(totals.cacheWrite)} cache write`,
+						costLine("Input:", totals.cost.input),
+						costLine("Output:", totals.cost.output),
+						costLine("Cache read:", totals.cost.cacheRead),
+						costLine("Cache write:", totals.cost.cacheWrite),
+					];
+
+					const header = `   ${"Model".padEnd(36)} ${"Turns".padStart(5)} ${"Input".padStart(8)} ${"Output".padStart(8)} ${"Cache R".padStart(8)} ${"Cache W".padStart(8)} ${"Cost".padStart(9)}`;
+					const rows = ledger.models.map(
+						(model) =>
+							`   ${truncateWithEllipsis(model.model, 36).padEnd(36)} ${String(model.turns).padStart(5)} ${formatCompactTokens(model.input).padStart(8)} ${formatCompactTokens(model.output).padStart(8)} ${formatCompactTokens(model.cacheRead).padStart(8)} ${formatCompactTokens(model.cacheWrite).padStart(8)} ${formatCost(model.cost.total).padStart(9)}`,
+					);
+
+					const container = new Container();
+					container.addChild(new DynamicBorder((s: string) => theme.fg("accent", s)));
+					container.addChild(new Text(theme.fg("accent", theme.bold("  Synthetic Session Usage")), 1, 0));
+					container.addChild(
+						new Text(theme.fg("muted", "  Costs use the catalog prices in effect when each turn ran"), 1, 0),
+					);
+					container.addChild(new DynamicBorder((s: string) => theme.fg("muted", s)));
+					container.addChild(new Spacer(1));
+					container.addChild(new Text(summary.join("\n"), 1, 0));
+					container.addChild(new Spacer(1));
+					container.addChild(new DynamicBorder((s: string) => theme.fg("muted", s)));
+					container.addChild(new Text([theme.fg("muted", header), ...rows].join("\n"), 1, 0));
+					container.addChild(new DynamicBorder((s: string) => theme.fg("muted", s)));
+					container.addChild(
+						new Text(theme.fg("dim", "  /synthetic-usage export csv|json to save · Esc / Enter to close"), 1, 0),
+					);
+					container.addChild(new DynamicBorder((s: string) => theme.fg("accent", s)));
+
+					const panel = new Box(0, 0, (s: string) => theme.bg("customMessageBg", s));
+					panel.addChild(container);
+
+					return {
+						render: (width) => panel.render(width),
+						invalidate: () => panel.invalidate(),
+						handleInput: (data) => {
+							if (matchesKey(data, "escape") || matchesKey(data, "enter") || matchesKey(data, "ctrl+c")) {
+								done(undefined);
+							}
+						},
+					};
+				},
+				{
+					overlay: true,
+					overlayOptions: () => ({
+						width: "80%",
+						maxWidth: 100,
+						minWidth: 60,
+						maxHeight: "80%",
+						anchor: "top-center" as const,
+						offsetY: 4,
+						margin: 1,
+					}),
+				},
+			);
+		},
+	});
+}
@@ -0,0 +1,103 @@
+/**
+ * Side-by-side model comparison for the `/synthetic-models` overlay.
+ * Pure helpers: turn-size parsing, per-turn cost estimates, and the column layout.
+ */
+
+import { SYNTHETIC_COMPARE_TURN } from "./config.js";
+import {
+	formatContextTokens,
+	formatCost,
+	formatPrice,
+	getModelCapabilities,
+	parsePrice,
+	truncateWithEllipsis,
+} from "./formatting.js";
+import type { SyntheticModel } from "./types.js";
+
+/** Token counts for one representative agent turn. */
+export interface TypicalTurn {
+	input: number;
+	output: number;
+	cacheRead: number;
+}
+
+function parseTokenAmount(value: string): number | undefined {
+	const match = value
+		.trim()
+		.toLowerCase()
+		.match(/^(\d+(?:\.\d+)?)([km]?)$/);
+	if (!match) return undefined;
+	const multiplier = match[2] === "m" ? 1_000_000 : match[2] === "k" ? 1000 : 1;
+	return Math.round(Number(match[1]) * multiplier);
+}
+
+/**
+ * Parse `input:output[:cacheRead]` token counts, e.g. `30k:2k` or `8000:1500:20000`.
+ * Returns undefined for anything malformed so callers can fall back to the default.
+ */
+export function parseTypicalTurn(value: string | undefined): TypicalTurn | undefined {
+	if (!value?.trim()) return undefined;
+	const parts = value.split(":").map(parseTokenAmount);
+	if (parts.length < 2 || parts.length > 3 || parts.some((part) => part === undefined)) return undefined;
+	const [input, output, cacheRead = 0] = parts as number[];
+	return { input, output, cacheRead };
+}
+
+export function getDefaultTypicalTurn(): TypicalTurn {
+	return { ...SYNTHETIC_COMPARE_TURN };
+}
+
+/** Dollar cost of one turn at the model's catalog prices. */
+export function estimateTurnCost(model: SyntheticModel, turn: TypicalTurn): number {
+	return (
+		(turn.input * parsePrice(model.pricing?.prompt) +
+			turn.output * parsePrice(model.pricing?.completion) +
+			turn.cacheRead * parsePrice(model.pricing?.input_cache_reads)) /
+		1_000_000
+	);
+}
+
+export function formatTypicalTurn(turn: TypicalTurn): string {
+	const parts = [`${turn.input.toLocaleString()} in`, `${turn.output.toLocaleString()} out`];
+	if (turn.cacheRead > 0) parts.push(`${turn.cacheRead.toLocaleString()} cache read`);
+	return parts.join(" · ");
+}
+
+const COMPARE_LABEL_COL = 16;
+const COMPARE_VALUE_COL = 24;
+
+/**
+ * Column layout for the comparison panel: one row per attribute, one column per
+ * model. The last row is each model's cost difference against the cheapest one.
+ */
+export function formatModelComparison(models: readonly SyntheticModel[], turn: TypicalTurn): string[] {
+	const costs = models.map((model) => estimateTurnCost(model, turn));
+	const cheapest = Math.min(...costs);
+	const list = (values: readonly string[] | undefined) => (values && values.length > 0 ? values.join(", ") : "n/a");
+
+	const rows: Array<[string, (model: SyntheticModel, index: number) => string]> = [
+		["Model", (model) => model.name || model.id],
+		["Provider", (model) => model.provider || "unknown"],
+		["Context", (model) => formatContextTokens(model.context_length)],
+		["Max output", (model) => formatContextTokens(model.max_output_length)],
+		["Input $/M", (model) => formatPrice(model.pricing?.prompt)],
+		["Output $/M", (model) => formatPrice(model.pricing?.completion)],
+		["Cache read $/M", (model) => formatPrice(model.pricing?.input_cache_reads)],
+		["Cache write $/M", (model) => formatPrice(model.pricing?.input_cache_writes)],
+		["Efforts", (model) => list(model.reasoning_parameters?.efforts)],
+		["Capabilities", (model) => list(getModelCapabilities(model))],
+		["Datacenters", (model) => list(model.datacenters?.map((dc) => dc.country_code.toUpperCase()))],
+		["Turn cost", (_model, index) => formatCost(costs[index])],
+		[
+			"vs cheapest",
+			(_model, index) => (costs[index] === cheapest ? "cheapest" : `+${formatCost(costs[index] - cheapest)}`),
+		],
+	];
+
+	return rows.map(([label, value]) => {
+		const cells = models.map((model, index) =>
+			truncateWithEllipsis(value(model, index), COMPARE_VALUE_COL - 1).padEnd(COMPARE_VALUE_COL),
+		);
+		return `${label.padEnd(COMPARE_LABEL_COL)}${cells.join("")}`.trimEnd();
+	});
+}
@@ -8,6 +8,25 @@ export const SYNTHETIC_MODELS_ENDPOINT = `${SYNTHETIC_API_BASE_URL}/models`;
 export const SYNTHETIC_MODELS_FETCH_TIMEOUT_MS = 3000;
 export const SYNTHETIC_QUOTAS_ENDPOINT = "https://api.synthetic.new/v2/quotas";
 
+/** Quota guard defaults: background poll timeout, minimum poll interval, and notification thresholds (% used). */
+export const SYNTHETIC_QUOTA_FETCH_TIMEOUT_MS = 3000;
+export const SYNTHETIC_QUOTA_POLL_INTERVAL_MS = 60_000;
+export const SYNTHETIC_QUOTA_WARN_THRESHOLDS = [80, 95] as const;
+
+/** How long the fallback chain stays on a fallback after an outage that reports no quota reset time. */
+export const SYNTHETIC_FALLBACK_COOLDOWN_MS = 5 * 60_000;
+
+/** Quota history: how long snapshots are kept, the burn-rate window, and the span a sparkline covers. */
+export const SYNTHETIC_QUOTA_HISTORY_RETENTION_MS = 8 * 24 * 3600_000;
+export const SYNTHETIC_QUOTA_BURN_WINDOW_MS = 3 * 3600_000;
+export const SYNTHETIC_QUOTA_SPARKLINE_SPAN_MS = 24 * 3600_000;
+
+/** Default turn size for the catalog comparison's cost estimate: a mid-session agent turn. */
+export const SYNTHETIC_COMPARE_TURN = { input: 30_000, output: 2_000, cacheRead: 0 } as const;
+
+/** Price tiers by output price ($/million tokens): up to `budget` is budget, up to `standard` is standard, above is premium. */
+export const SYNTHETIC_PRICE_TIERS = { budget: 1, standard: 5 } as const;
+
 /** Shared compat flags for all Synthetic models (OpenAI-compatible API). */
 export const SYNTHETIC_COMPAT = {
 	supportsDeveloperRole: false,
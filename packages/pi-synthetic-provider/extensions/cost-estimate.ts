@@ -0,0 +1,185 @@
+/**
+ * Pre-send cost estimate and budget caps for Synthetic requests.
+ *
+ * Approximates the prompt tokens the next request sends (the current context
+ * plus the new message) and prices them, together with a full `maxTokens`
+ * reply, at the active model's catalog rates. The estimate can be shown in the
+ * footer, and optional per-request and per-session budgets ask for confirmation
+ * before sending a prompt whose request's worst case would exceed them. Only
+ * the request a prompt starts is checked: the follow-up requests that carry
+ * tool results within the same turn are not.
+ */
+
+import { type ExtensionAPI, type ExtensionContext, estimateTokens } from "@earendil-works/pi-coding-agent";
+import { formatCost } from "./formatting.js";
+import type { SyntheticProviderConfig } from "./types.js";
+import { buildUsageLedger } from "./usage.js";
+
+export const COST_STATUS_KEY = "synthetic-cost";
+
+export interface CostEstimateSettings {
+	/** Show the estimate in the footer. */
+	enabled: boolean;
+	/** Dollar cap for the worst case of the request a prompt starts. */
+	requestBudget?: number;
+	/** Dollar cap for the session's Synthetic spend including the next request's worst case. */
+	sessionBudget?: number;
+}
+
+export interface RequestCostEstimate {
+	promptTokens: number;
+	/** Prompt tokens at the uncached input rate. */
+	input: number;
+	/** A reply of `maxTokens` at the output rate. */
+	maxOutput: number;
+}
+
+type PricedModel = { cost: { input: number; output: number }; maxTokens: number };
+
+/** Dollar amount such as `2`, `0.5`, or `$1.25`; undefined for anything else. */
+export function parseBudget(value: string | undefined): number | undefined {
+	if (!value?.trim()) return undefined;
+	const amount = Number(value.trim().replace(/^\$/, ""));
+	return Number.isFinite(amount) && amount > 0 ? amount : undefined;
+}
+
+function readSetting(pi: ExtensionAPI, flag: string, envName: string): string | undefined {
+	const flagValue = pi.getFlag(flag);
+	if (typeof flagValue === "string" && flagValue.trim()) return flagValue.trim();
+	const envValue = process.env[envName]?.trim();
+	return envValue || undefined;
+}
+
+/** Resolve settings from flags, then environment variables, then the config file. */
+export function getCostEstimateSettings(
+	pi: ExtensionAPI,
+	config: Pick<SyntheticProviderConfig, "costEstimate" | "requestBudget" | "sessionBudget">,
+): CostEstimateSettings {
+	let enabled = config.costEstimate === true;
+	const envValue = process.env.SYNTHETIC_COST_ESTIMATE?.trim().toLowerCase();
+	if (envValue) enabled = envValue === "1" || envValue === "true";
+	if (pi.getFlag("synthetic-cost-estimate") === true) enabled = true;
+	return {
+		enabled,
+		requestBudget:
+			parseBudget(readSetting(pi, "synthetic-request-budget", "SYNTHETIC_REQUEST_BUDGET")) ?? config.requestBudget,
+		sessionBudget:
+			parseBudget(readSetting(pi, "synthetic-session-budget", "SYNTHETIC_SESSION_BUDGET")) ?? config.sessionBudget,
+	};
+}
+
+/**
+ * Approximate prompt tokens for the next request. pi's context usage is
+ * preferred; right after a compaction it is unknown, so the branch messages and
+ * system prompt are estimated instead. `text` is a message about to be sent.
+ */
+export function estimatePromptTokens(ctx: ExtensionContext, text = ""): number {
+	let tokens = ctx.getContextUsage()?.tokens;
+	if (tokens === null || tokens === undefined) {
+		tokens = Math.ceil(ctx.getSystemPrompt().length / 4);
+		for (const entry of ctx.sessionManager.getBranch()) {
+			if (entry.type === "message") tokens += estimateTokens(entry.message);
+		}
+	}
+	return tokens + Math.ceil(text.length / 4);
+}
+
+export function getRequestCostEstimate(model: PricedModel, promptTokens: number): RequestCostEstimate {
+	return {
+		promptTokens,
+		input: (promptTokens * model.cost.input) / 1_000_000,
+		maxOutput: (model.maxTokens * model.cost.output) / 1_000_000,
+	};
+}
+
+/** Footer text, e.g. `≈ $0.04 in / up to $0.98 out at max tokens`. */
+export function formatCostEstimate(estimate: RequestCostEstimate): string {
+	return `≈ ${formatCost(estimate.input)} in / up to ${formatCost(estimate.maxOutput)} out at max tokens`;
+}
+
+/**
+ * Why the request needs confirmation, if it does: its worst case (prompt plus a
+ * `maxTokens` reply) is over the request budget, or would take the session's
+ * Synthetic spend over the session budget.
+ */
+export function getBudgetOverrun(
+	estimate: RequestCostEstimate,
+	settings: CostEstimateSettings,
+	sessionSpent: number,
+): string | undefined {
+	const worstCase = estimate.input + estimate.maxOutput;
+	if (settings.requestBudget !== undefined && worstCase > settings.requestBudget) {
+		return `This request could cost up to ${formatCost(worstCase)}, over the ${formatCost(settings.requestBudget)} request budget.`;
+	}
+	if (settings.sessionBudget !== undefined && sessionSpent + worstCase > settings.sessionBudget) {
+		return `This session has spent ${formatCost(sessionSpent)} on Synthetic; this request could take it to ${formatCost(sessionSpent + worstCase)}, over the ${formatCost(settings.sessionBudget)} session budget.`;
+	}
+	return undefined;
+}
+
+function report(ctx: ExtensionContext, message: string, level: "info" | "warning" | "error"): void {
+	if (ctx.hasUI) {
+		ctx.ui.notify(message, level);
+	} else if (level === "info") {
+		console.log(`[Synthetic Provider] ${message}`);
+	} else {
+		console.warn(`[Synthetic Provider] ${message}`);
+	}
+}
+
+/** `getConfig` returns the config as of the latest session start. */
+export function registerCostEstimate(pi: ExtensionAPI, getConfig: () => SyntheticProviderConfig): void {
+	pi.registerFlag("synthetic-cost-estimate", {
+		description: "Show the estimated cost of the next Synthetic request in the footer.",
+		type: "boolean",
+	});
+	pi.registerFlag("synthetic-request-budget", {
+		description: "Ask before sending a prompt whose Synthetic request could cost more than this many dollars.",
+		type: "string",
+	});
+	pi.registerFlag("synthetic-session-budget", {
+		description:
+			"Ask before sending a prompt whose Synthetic request could take the session's spend over this many dollars.",
+		type: "string",
+	});
+
+	const updateStatus = (ctx: ExtensionContext, model = ctx.model, text = "") => {
+		if (!ctx.hasUI) return;
+		if (model?.provider !== "synthetic" || !getCostEstimateSettings(pi, getConfig()).enabled) {
+			ctx.ui.setStatus(COST_STATUS_KEY, undefined);
+			return;
+		}
+		const estimate = getRequestCostEstimate(model, estimatePromptTokens(ctx, text));
+		ctx.ui.setStatus(COST_STATUS_KEY, ctx.ui.theme.fg("dim", formatCostEstimate(estimate)));
+	};
+
+	pi.on("session_start", async (_event, ctx) => {
+		updateStatus(ctx);
+	});
+
+	pi.on("model_select", async (event, ctx) => {
+		updateStatus(ctx, event.model);
+	});
+
+	pi.on("agent_settled", async (_event, ctx) => {
+		updateStatus(ctx);
+	});
+
+	pi.on("input", async (event, ctx) => {
+		// Steering and follow-up messages join a turn that has already started.
+		if (event.streamingBehavior || ctx.model?.provider !== "synthetic") return;
+		updateStatus(ctx, ctx.model, event.text);
+
+		const settings = getCostEstimateSettings(pi, getConfig());
+		if (settings.requestBudget === undefined && settings.sessionBudget === undefined) return;
+		const estimate = getRequestCostEstimate(ctx.model, estimatePromptTokens(ctx, event.text));
+		const sessionSpent = buildUsageLedger(ctx.sessionManager.getEntries()).totals.cost.total;
+		const overrun = getBudgetOverrun(estimate, settings, sessionSpent);
+		if (!overrun) return;
+
+		// Without a UI there is nobody to ask, so the budget is a hard cap.
+		if (ctx.hasUI && (await ctx.ui.confirm("Synthetic budget", `${overrun} Send it anyway?`))) return;
+		report(ctx, `${overrun} Prompt not sent.`, "error");
+		return { action: "handled" };
+	});
+}
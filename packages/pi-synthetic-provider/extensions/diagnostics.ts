@@ -0,0 +1,206 @@
+/**
+ * Diagnostics for `/synthetic-doctor`.
+ *
+ * Collects where the API key came from, how the `/models` endpoint answers right
+ * now, where the registered models came from, and how the live catalog differs
+ * from the hardcoded fallback snapshot, so a misbehaving setup can be explained
+ * from one report.
+ */
+
+import type { ExtensionContext, ProviderModelConfig } from "@earendil-works/pi-coding-agent";
+import { getActiveSyntheticAccountName, getSyntheticApiKeySource } from "./auth.js";
+import { diffModelFields, type ModelField } from "./catalog-drift.js";
+import { SYNTHETIC_COMPAT } from "./config.js";
+import {
+	type FetchSyntheticModelsOptions,
+	fetchSyntheticModelsResponse,
+	getConfiguredFallbackModels,
+	getSyntheticModelsEndpoint,
+	transformSyntheticModels,
+} from "./models.js";
+import type { SyntheticCatalogSource } from "./types.js";
+
+/** The models the extension has registered with pi, and how they were produced. */
+export interface RegisteredCatalogState {
+	source: SyntheticCatalogSource;
+	/** When the registered catalog was last confirmed against the API; absent for fallback models. */
+	fetchedAt?: string;
+	baseUrl: string;
+	models: ProviderModelConfig[];
+	/** Options the registered catalog was built with; the probe and the fallback diff reuse them. */
+	options: FetchSyntheticModelsOptions;
+}
+
+export interface CatalogProbe {
+	endpoint: string;
+	ok: boolean;
+	latencyMs: number;
+	/** Models pi would register from the live response. */
+	modelCount?: number;
+	error?: string;
+}
+
+/** Live catalog versus the fallback snapshot, both after the config's filters and overrides. */
+export interface FallbackDiff {
+	/** Live models the snapshot does not know; pi loses them when it falls back. */
+	missingFromFallback: string[];
+	/** Snapshot models the live catalog no longer lists. */
+	goneFromLive: string[];
+	/** Models in both whose limits, prices, inputs, or reasoning efforts differ. */
+	changed: Array<{ id: string; fields: ModelField[] }>;
+}
+
+export interface DoctorModel {
+	id: string;
+	name: string;
+	reasoning: boolean;
+	thinkingLevelMap?: ProviderModelConfig["thinkingLevelMap"];
+	compat?: ProviderModelConfig["compat"];
+}
+
+export interface SyntheticDoctorReport {
+	account: string;
+	/** Absent when no key is configured. */
+	key?: { source: string; masked: string };
+	catalog: CatalogProbe;
+	registered: Omit<RegisteredCatalogState, "models" | "options"> & { models: DoctorModel[] };
+	/** Absent when the live catalog could not be fetched. */
+	fallbackDiff?: FallbackDiff;
+}
+
+/** e.g. `syn_…a1b2`; keys too short to keep anything back are fully hidden. */
+export function maskApiKey(apiKey: string): string {
+	if (apiKey.length <= 12) return "****";
+	return `${apiKey.slice(0, 4)}…${apiKey.slice(-4)}`;
+}
+
+/**
+ * Fetch the live catalog once, unconditionally, and time it. Never throws: a
+ * failure is part of the diagnosis.
+ */
+export async function probeSyntheticCatalog(
+	apiKey: string | undefined,
+	options: FetchSyntheticModelsOptions,
+): Promise<{ probe: CatalogProbe; models?: ProviderModelConfig[] }> {
+	const endpoint = getSyntheticModelsEndpoint(options.baseUrl);
+	const started = Date.now();
+	try {
+		const { response } = await fetchSyntheticModelsResponse(apiKey, {
+			timeoutMs: options.timeoutMs,
+			baseUrl: options.baseUrl,
+		});
+		const latencyMs = Date.now() - started;
+		const models = response ? transformSyntheticModels(response, options) : [];
+		return { probe: { endpoint, ok: true, latencyMs, modelCount: models.length }, models };
+	} catch (error) {
+		const errorMessage = error instanceof Error ? error.message : String(error);
+		return { probe: { endpoint, ok: false, latencyMs: Date.now() - started, error: errorMessage } };
+	}
+}
+
+export function diffFallbackSnapshot(
+	live: readonly ProviderModelConfig[],
+	fallback: readonly ProviderModelConfig[],
+): FallbackDiff {
+	const fallbackById = new Map(fallback.map((model) => [model.id, model]));
+	const liveIds = new Set(live.map((model) => model.id));
+	const changed: FallbackDiff["changed"] = [];
+	for (const model of live) {
+		const snapshot = fallbackById.get(model.id);
+		if (!snapshot) continue;
+		const fields = diffModelFields(snapshot, model).map((change) => change.field);
+		if (fields.length > 0) changed.push({ id: model.id, fields });
+	}
+	return {
+		missingFromFallback: live.filter((model) => !fallbackById.has(model.id)).map((model) => model.id),
+		goneFromLive: fallback.filter((model) => !liveIds.has(model.id)).map((model) => model.id),
+		changed,
+	};
+}
+
+export function toDoctorModel(model: ProviderModelConfig): DoctorModel {
+	return {
+		id: model.id,
+		name: model.name,
+		reasoning: model.reasoning,
+		...(model.thinkingLevelMap ? { thinkingLevelMap: model.thinkingLevelMap } : {}),
+		...(model.compat ? { compat: model.compat } : {}),
+	};
+}
+
+/**
+ * Run every check. The live models are compared with the fallback snapshot as
+ * this config would register it, so filtered-out models do not show up as drift.
+ */
+export async function collectDoctorReport(
+	ctx: ExtensionContext,
+	state: RegisteredCatalogState,
+): Promise<SyntheticDoctorReport> {
+	const key = await getSyntheticApiKeySource(ctx);
+	const { probe, models } = await probeSyntheticCatalog(key?.apiKey, state.options);
+	return {
+		account: getActiveSyntheticAccountName(),
+		...(key ? { key: { source: key.source, masked: maskApiKey(key.apiKey) } } : {}),
+		catalog: probe,
+		registered: {
+			source: state.source,
+			...(state.fetchedAt ? { fetchedAt: state.fetchedAt } : {}),
+			baseUrl: state.baseUrl,
+			models: state.models.map(toDoctorModel),
+		},
+		...(models ? { fallbackDiff: diffFallbackSnapshot(models, getConfiguredFallbackModels(state.options)) } : {}),
+	};
+}
+
+/** e.g. `off=none high=high max=max`; levels mapped to null are unsupported and left out. */
+export function formatThinkingLevelMap(model: DoctorModel): string {
+	if (!model.reasoning) return "no reasoning";
+	const entries = Object.entries(model.thinkingLevelMap ?? {}).filter(([, value]) => value);
+	if (entries.length === 0) return "no thinkingLevelMap";
+	return entries.map(([level, value]) => `${level}=${value}`).join(" ");
+}
+
+/** Compat flags that differ from the shared Synthetic defaults, e.g. `supportsReasoningEffort=true`. */
+export function formatCompatChanges(model: DoctorModel): string {
+	const defaults: Record<string, unknown> = SYNTHETIC_COMPAT;
+	return Object.entries(model.compat ?? {})
+		.filter(([key, value]) => !Object.hasOwn(defaults, key) || defaults[key] !== value)
+		.map(([key, value]) => `${key}=${typeof value === "object" ? JSON.stringify(value) : String(value)}`)
+		.join(" ");
+}
+
+/** Plain-text report: used headless and as the overlay body. */
+export function formatDoctorReport(report: SyntheticDoctorReport): string[] {
+	const { catalog, registered, fallbackDiff } = report;
+	const lines = [
+		`Account:     ${report.account}`,
+		`API key:     ${report.key ? `${report.key.masked} (from ${report.key.source})` : "not configured"}`,
+		`Catalog:     ${catalog.endpoint}`,
+		catalog.ok
+			? `             OK in ${catalog.latencyMs}ms, ${catalog.modelCount} usable models`
+			: `             FAILED after ${catalog.latencyMs}ms: ${catalog.error}`,
+		`Registered:  ${registered.models.length} models from ${registered.source}${registered.fetchedAt ? ` (fetched ${registered.fetchedAt})` : ""}`,
+		`Base URL:    ${registered.baseUrl}`,
+	];
+
+	if (!fallbackDiff) {
+		lines.push("Fallback:    no live catalog to compare against");
+	} else {
+		const { missingFromFallback, goneFromLive, changed } = fallbackDiff;
+		if (missingFromFallback.length + goneFromLive.length + changed.length === 0) {
+			lines.push("Fallback:    snapshot matches the live catalog");
+		} else {
+			lines.push("Fallback:    snapshot differs from the live catalog");
+			if (missingFromFallback.length > 0) lines.push(`  live only:     ${missingFromFallback.join(", ")}`);
+			if (goneFromLive.length > 0) lines.push(`  snapshot only: ${goneFromLive.join(", ")}`);
+			for (const change of changed) lines.push(`  changed:       ${change.id} (${change.fields.join(", ")})`);
+		}
+	}
+
+	lines.push("", "Registered models (thinking levels · compat changes):");
+	for (const model of registered.models) {
+		const compat = formatCompatChanges(model);
+		lines.push(`  ${model.id}: ${formatThinkingLevelMap(model)}${compat ? ` · ${compat}` : ""}`);
+	}
+	return lines;
+}
@@ -0,0 +1,199 @@
+/**
+ * Recovery from Synthetic rejecting a `reasoning_effort` value.
+ *
+ * A route's accepted efforts can drift from what the catalog advertises. When a
+ * request fails with an effort-related 400 before any output, it is retried once
+ * without `reasoning_effort`, and the rejected thinking level is recorded under
+ * the agent dir so the model is registered with that level nulled out from then on.
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import {
+	type Api,
+	type AssistantMessage,
+	type AssistantMessageEventStream,
+	type Context,
+	createAssistantMessageEventStream,
+	type Model,
+	type SimpleStreamOptions,
+} from "@earendil-works/pi-ai";
+import { streamSimple } from "@earendil-works/pi-ai/compat";
+import { getAgentDir, type ProviderModelConfig } from "@earendil-works/pi-coding-agent";
+
+/** Model id → pi thinking levels (`off`, `low`, …) whose effort value Synthetic rejected. */
+export type RejectedEfforts = Record<string, string[]>;
+
+interface RejectedEffortsFile {
+	version: 1;
+	models: RejectedEfforts;
+}
+
+type ThinkingLevelMap = NonNullable<ProviderModelConfig["thinkingLevelMap"]>;
+
+/** `<agent-dir>/cache/pi-synthetic-provider/rejected-efforts.json`, next to the catalog cache. */
+export function getRejectedEffortsPath(agentDir: string = getAgentDir()): string {
+	return join(agentDir, "cache", "pi-synthetic-provider", "rejected-efforts.json");
+}
+
+function isRejectedEffortsFile(value: unknown): value is RejectedEffortsFile {
+	if (typeof value !== "object" || value === null) return false;
+	const file = value as Partial<RejectedEffortsFile>;
+	return (
+		file.version === 1 &&
+		typeof file.models === "object" &&
+		file.models !== null &&
+		Object.values(file.models).every(
+			(levels) => Array.isArray(levels) && levels.every((level) => typeof level === "string"),
+		)
+	);
+}
+
+/** Learned rejections; a missing or malformed file means none have been learned yet. */
+export function readRejectedEfforts(path: string = getRejectedEffortsPath()): RejectedEfforts {
+	if (!existsSync(path)) return {};
+	try {
+		const parsed: unknown = JSON.parse(readFileSync(path, "utf-8"));
+		return isRejectedEffortsFile(parsed) ? parsed.models : {};
+	} catch {
+		return {};
+	}
+}
+
+/** Add a rejected level for a model and persist it; returns the updated record. */
+export function recordRejectedEffort(
+	modelId: string,
+	level: string,
+	path: string = getRejectedEffortsPath(),
+): RejectedEfforts {
+	const models = readRejectedEfforts(path);
+	const levels = Object.hasOwn(models, modelId) ? models[modelId] : [];
+	if (levels.includes(level)) return models;
+	models[modelId] = [...levels, level];
+
+	mkdirSync(dirname(path), { recursive: true });
+	const tempPath = `${path}.${process.pid}.tmp`;
+	writeFileSync(tempPath, `${JSON.stringify({ version: 1, models } satisfies RejectedEffortsFile)}\n`, "utf-8");
+	renameSync(tempPath, path);
+	return models;
+}
+
+/**
+ * Null out the learned rejected levels in a model's thinking-level map. When no
+ * effort value survives, `reasoning_effort` support is switched off entirely.
+ */
+export function applyRejectedEfforts(
+	model: ProviderModelConfig,
+	rejected: Readonly<RejectedEfforts> | undefined,
+): ProviderModelConfig {
+	const levels = rejected && Object.hasOwn(rejected, model.id) ? rejected[model.id] : undefined;
+	if (!levels || levels.length === 0) return model;
+
+	const thinkingLevelMap: ThinkingLevelMap = { ...model.thinkingLevelMap };
+	for (const level of levels) {
+		thinkingLevelMap[level as keyof ThinkingLevelMap] = null;
+	}
+	const hasEffort = Object.values(thinkingLevelMap).some((value) => typeof value === "string");
+	return {
+		...model,
+		thinkingLevelMap,
+		...(hasEffort ? {} : { compat: { ...model.compat, supportsReasoningEffort: false } }),
+	};
+}
+
+/** An HTTP 400 whose message is about the effort value, e.g. `400: invalid reasoning_effort "max"`. */
+export function isEffortRejection(errorMessage: string | undefined): boolean {
+	return errorMessage !== undefined && /\b400\b/.test(errorMessage) && /effort/i.test(errorMessage);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** The final message for a stream that threw instead of ending with an `error` event. */
+function toErrorMessage(model: Model<Api>, error: unknown): AssistantMessage {
+	return {
+		role: "assistant",
+		content: [],
+		api: model.api,
+		provider: model.provider,
+		model: model.id,
+		usage: {
+			input: 0,
+			output: 0,
+			cacheRead: 0,
+			cacheWrite: 0,
+			totalTokens: 0,
+			cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, total: 0 },
+		},
+		stopReason: "error",
+		errorMessage: error instanceof Error ? error.message : String(error),
+		timestamp: Date.now(),
+	};
+}
+
+/**
+ * `streamSimple` for the Synthetic provider: the stock OpenAI Completions stream,
+ * retried once without `reasoning_effort` when the first attempt fails with an
+ * effort rejection before producing output. `onRejected` receives the pi
+ * thinking level that was refused (`off` when the model's off-mapping was sent).
+ */
+export function createEffortRecoveryStream(
+	onRejected: (model: Model<Api>, level: string) => void,
+): (model: Model<Api>, context: Context, options?: SimpleStreamOptions) => AssistantMessageEventStream {
+	return (model, context, options) => {
+		const output = createAssistantMessageEventStream();
+
+		const attempt = (dropEffort: boolean, onEffortSent: () => void) =>
+			streamSimple(model, context, {
+				...options,
+				onPayload: async (payload, payloadModel) => {
+					const replaced = await options?.onPayload?.(payload, payloadModel);
+					const next = replaced === undefined ? payload : replaced;
+					if (!isRecord(next) || next.reasoning_effort === undefined) return replaced;
+					if (!dropEffort) {
+						onEffortSent();
+						return replaced;
+					}
+					const { reasoning_effort: _rejected, ...rest } = next;
+					return rest;
+				},
+			});
+
+		void (async () => {
+			try {
+				let sentEffort = false;
+				let started = false;
+				let rejected = false;
+				for await (const event of attempt(false, () => {
+					sentEffort = true;
+				})) {
+					if (
+						event.type === "error" &&
+						event.reason === "error" &&
+						sentEffort &&
+						!started &&
+						isEffortRejection(event.error.errorMessage)
+					) {
+						rejected = true;
+						break;
+					}
+					if (event.type === "start") started = true;
+					output.push(event);
+				}
+				if (!rejected) return;
+
+				onRejected(model, options?.reasoning ?? "off");
+				for await (const event of attempt(true, () => {})) {
+					output.push(event);
+				}
+			} catch (error) {
+				output.push({ type: "error", reason: "error", error: toErrorMessage(model, error) });
+			} finally {
+				output.end();
+			}
+		})();
+
+		return output;
+	};
+}
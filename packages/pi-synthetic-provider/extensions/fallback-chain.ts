@@ -0,0 +1,192 @@
+/**
+ * Model fallback chain for Synthetic rate limits and outages.
+ *
+ * When a turn on a Synthetic model ends in a 429 or 5xx after pi's own retries,
+ * the session moves to the next available model in the configured chain, e.g.
+ * `syn:large:text` → `hf:Qwen/Qwen3.6-27B` → `openai/gpt-5-mini`. It returns to
+ * the model it left on the first prompt after the quota window resets
+ * (`nextTickAt` / `renewsAt`), or after a short cooldown for outages. The quota
+ * guard's `switch` mode uses the same chain.
+ */
+
+import type { ExtensionAPI, ExtensionContext } from "@earendil-works/pi-coding-agent";
+import { getSyntheticApiKey } from "./auth.js";
+import { SYNTHETIC_FALLBACK_COOLDOWN_MS, SYNTHETIC_QUOTA_FETCH_TIMEOUT_MS } from "./config.js";
+import { fetchSyntheticQuota, formatTimeRemaining } from "./quota.js";
+import { getActiveQuotaLimit, getQuotaGuardBuckets, parseFallbackModelRef } from "./quota-guard.js";
+import type { SyntheticProviderConfig } from "./types.js";
+
+interface ModelRef {
+	provider: string;
+	id: string;
+}
+
+/** Where the session fell back from, the model it is on now, and when to return. */
+interface FallbackReturn {
+	primary: ModelRef;
+	fallback: ModelRef;
+	returnAt: number;
+}
+
+/** Used by the quota guard to fall back before a turn is sent. */
+export interface FallbackChain {
+	/** The configured chain; empty when none is set. */
+	getChain(): string[];
+	/** Switch to the next available model in `chain`; false when none is left. */
+	switchToFallback(
+		ctx: ExtensionContext,
+		chain: readonly string[],
+		reason: string,
+		returnAt?: string,
+	): Promise<boolean>;
+}
+
+/** The chain from `--synthetic-fallback-models`, SYNTHETIC_FALLBACK_MODELS, or `fallbackModels` in the config. */
+export function getFallbackChain(pi: ExtensionAPI, config: Pick<SyntheticProviderConfig, "fallbackModels">): string[] {
+	const flagValue = pi.getFlag("synthetic-fallback-models");
+	const listed =
+		(typeof flagValue === "string" && flagValue.trim()) || process.env.SYNTHETIC_FALLBACK_MODELS?.trim() || undefined;
+	if (!listed) return config.fallbackModels ?? [];
+	return listed
+		.split(",")
+		.map((ref) => ref.trim())
+		.filter(Boolean);
+}
+
+// A 429 or 5xx status code: leading the message, or after "status", "HTTP", or "error".
+// A bare number elsewhere ("max 512 tokens") is not a status code.
+const FALLBACK_STATUS_PATTERN =
+	/^\s*(?:429|5\d\d)\b|\b(?:status(?:\s+code)?|HTTP(?:\/[\d.]+)?|error)\s*:?\s*(?:429|5\d\d)\b/i;
+
+/** A rate limit or server-side failure: HTTP 429 or 5xx, or the usual wording for them. */
+export function isFallbackError(errorMessage: string | undefined): boolean {
+	if (!errorMessage) return false;
+	return FALLBACK_STATUS_PATTERN.test(errorMessage) || /rate.?limit|too many requests|overloaded/i.test(errorMessage);
+}
+
+function formatRef(ref: ModelRef): string {
+	return `${ref.provider}/${ref.id}`;
+}
+
+function isSameModel(a: ModelRef | undefined, b: ModelRef | undefined): boolean {
+	return a !== undefined && b !== undefined && a.provider === b.provider && a.id === b.id;
+}
+
+/** Chain entries to try from `current`: those after it, or the whole chain when it is not part of it. */
+export function getFallbackCandidates(chain: readonly string[], current: ModelRef | undefined): ModelRef[] {
+	const refs = chain.map(parseFallbackModelRef);
+	const position = refs.findIndex((ref) => isSameModel(ref, current));
+	return refs.slice(position + 1).filter((ref) => !isSameModel(ref, current));
+}
+
+function report(ctx: ExtensionContext, message: string, level: "info" | "warning" | "error"): void {
+	if (ctx.hasUI) {
+		ctx.ui.notify(message, level);
+	} else if (level === "info") {
+		console.log(`[Synthetic Provider] ${message}`);
+	} else {
+		console.warn(`[Synthetic Provider] ${message}`);
+	}
+}
+
+export function registerFallbackChain(pi: ExtensionAPI, getConfig: () => SyntheticProviderConfig): FallbackChain {
+	pi.registerFlag("synthetic-fallback-models", {
+		description:
+			"Comma-separated models to fall back to on Synthetic 429/5xx errors, e.g. hf:Qwen/Qwen3.6-27B,openai/gpt-5-mini.",
+		type: "string",
+	});
+
+	let pending: FallbackReturn | undefined;
+	// Error of the last assistant message in the current run, while it is one that calls for a fallback.
+	let failure: string | undefined;
+
+	const getChain = () => getFallbackChain(pi, getConfig());
+
+	const switchToFallback = async (
+		ctx: ExtensionContext,
+		chain: readonly string[],
+		reason: string,
+		returnAt?: string,
+	): Promise<boolean> => {
+		const current = ctx.model ? { provider: ctx.model.provider, id: ctx.model.id } : undefined;
+		for (const candidate of getFallbackCandidates(chain, current)) {
+			const model = ctx.modelRegistry.find(candidate.provider, candidate.id);
+			if (!model || !(await pi.setModel(model))) continue;
+
+			const parsedReturnAt = returnAt ? Date.parse(returnAt) : Number.NaN;
+			const at = Number.isNaN(parsedReturnAt) ? Date.now() + SYNTHETIC_FALLBACK_COOLDOWN_MS : parsedReturnAt;
+			// Falling back again from a fallback keeps the original model and the later return time.
+			const primary = pending && isSameModel(pending.fallback, current) ? pending.primary : current;
+			pending = primary ? { primary, fallback: candidate, returnAt: Math.max(at, pending?.returnAt ?? 0) } : undefined;
+
+			const back = pending
+				? ` (back to ${formatRef(pending.primary)} in ${formatTimeRemaining(new Date(pending.returnAt).toISOString())})`
+				: "";
+			report(ctx, `${reason}; switched to ${formatRef(candidate)}${back}`, "warning");
+			return true;
+		}
+		return false;
+	};
+
+	// A 429 from an exhausted quota returns once the limiting bucket resets; anything else after the cooldown.
+	const getReturnAt = async (ctx: ExtensionContext): Promise<string | undefined> => {
+		if (ctx.model?.provider !== "synthetic") return undefined;
+		const apiKey = await getSyntheticApiKey(ctx);
+		if (!apiKey) return undefined;
+		try {
+			const quota = await fetchSyntheticQuota(apiKey, {
+				signal: AbortSignal.timeout(SYNTHETIC_QUOTA_FETCH_TIMEOUT_MS),
+				baseUrl: getConfig().baseUrl,
+			});
+			return getActiveQuotaLimit(getQuotaGuardBuckets(quota))?.resetsAt;
+		} catch {
+			return undefined;
+		}
+	};
+
+	pi.on("session_start", async () => {
+		pending = undefined;
+		failure = undefined;
+	});
+
+	pi.on("message_end", async (event) => {
+		const message = event.message as { role?: string; stopReason?: string; errorMessage?: string };
+		if (message.role !== "assistant") return;
+		failure =
+			message.stopReason === "error" && isFallbackError(message.errorMessage) ? message.errorMessage : undefined;
+	});
+
+	// Settled means pi's automatic retries are over and the turn really failed.
+	pi.on("agent_settled", async (_event, ctx) => {
+		const error = failure;
+		failure = undefined;
+		if (!error || !ctx.model) return;
+		const current = { provider: ctx.model.provider, id: ctx.model.id };
+		if (current.provider !== "synthetic" && !isSameModel(pending?.fallback, current)) return;
+
+		const chain = getChain();
+		if (chain.length === 0) return;
+
+		const reason = `${formatRef(current)} failed (${error.split("\n")[0].slice(0, 120)})`;
+		if (!(await switchToFallback(ctx, chain, reason, await getReturnAt(ctx)))) {
+			report(ctx, `${reason}; no fallback model left in ${chain.join(", ")}`, "error");
+		}
+	});
+
+	// Return before the first prompt after the window resets, unless the model was changed by hand meanwhile.
+	pi.on("input", async (event, ctx) => {
+		if (!pending || event.streamingBehavior || Date.now() < pending.returnAt) return;
+		const { primary, fallback } = pending;
+		pending = undefined;
+		if (!isSameModel(fallback, ctx.model ? { provider: ctx.model.provider, id: ctx.model.id } : undefined)) return;
+
+		const model = ctx.modelRegistry.find(primary.provider, primary.id);
+		if (model && (await pi.setModel(model))) {
+			report(ctx, `Switched back to ${formatRef(primary)} after the fallback to ${formatRef(fallback)}`, "info");
+		} else {
+			report(ctx, `Cannot switch back to ${formatRef(primary)}; staying on ${formatRef(fallback)}`, "warning");
+		}
+	});
+
+	return { getChain, switchToFallback };
+}
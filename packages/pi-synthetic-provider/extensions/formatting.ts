@@ -3,7 +3,7 @@
  * No side effects — easy to test in isolation.
  */
 
-import type { SyntheticModel } from "./types.js";
+import type { SyntheticCatalogRecord, SyntheticModel } from "./types.js";
 
 // =============================================================================
 // Price & Token Formatting
@@ -42,6 +42,20 @@ export function formatTokenCount(tokens?: number): string {
 	return `${tokens.toLocaleString()} tokens`;
 }
 
+/** Dollar amount with cents, or four decimals below a cent so single cheap turns stay visible. */
+export function formatCost(cost: number): string {
+	if (cost <= 0) return "$0.00";
+	if (cost < 0.01) return `$${cost.toFixed(4)}`;
+	return `$${cost.toFixed(2)}`;
+}
+
+/** Compact token count for tables: 950, 12.3K, 4.50M. */
+export function formatCompactTokens(tokens: number): string {
+	if (tokens < 1000) return String(Math.max(0, Math.round(tokens)));
+	if (tokens < 1_000_000) return `${(tokens / 1000).toFixed(1)}K`;
+	return `${(tokens / 1_000_000).toFixed(2)}M`;
+}
+
 export function truncateWithEllipsis(text: string, maxWidth: number): string {
 	if (maxWidth <= 0) return "";
 	if (text.length <= maxWidth) return text;
@@ -49,6 +63,28 @@ export function truncateWithEllipsis(text: string, maxWidth: number): string {
 	return `${text.slice(0, maxWidth - 1)}…`;
 }
 
+// =============================================================================
+// Permalinks
+// =============================================================================
+
+/** Synthetic's rotating permalink ids, e.g. `syn:large:vision`. */
+export const PERMALINK_ID_PREFIX = "syn:";
+
+/**
+ * The Hugging Face id a `syn:*` permalink row currently points to, e.g.
+ * `zai-org/GLM-5.2`, or undefined for pinned ids and unresolvable rows.
+ */
+export function getPermalinkTarget(model: Pick<SyntheticModel, "id" | "hugging_face_id">): string | undefined {
+	if (!model.id.startsWith(PERMALINK_ID_PREFIX)) return undefined;
+	const target = model.hugging_face_id;
+	return typeof target === "string" && target && !target.includes(":") ? target : undefined;
+}
+
+/** `syn:large:text → zai-org/GLM-5.2`, or the bare id when the target is unknown. */
+export function formatPermalink(modelId: string, target: string | undefined): string {
+	return target ? `${modelId} → ${target}` : modelId;
+}
+
 // =============================================================================
 // Region / Datacenter Formatting
 // =============================================================================
@@ -91,6 +127,87 @@ export function getProviderSortRank(provider?: string): number {
 	return provider === "synthetic" ? 0 : 1;
 }
 
+// =============================================================================
+// Catalog Filtering & Sorting
+// =============================================================================
+
+export type CatalogSortMode = "default" | "input" | "output" | "context" | "region";
+
+/** Sort modes in the order the catalog overlay cycles through them. */
+export const CATALOG_SORT_MODES: readonly CatalogSortMode[] = ["default", "input", "output", "context", "region"];
+
+const CATALOG_SORT_LABELS: Record<CatalogSortMode, string> = {
+	default: "provider",
+	input: "input price ↑",
+	output: "output price ↑",
+	context: "context ↓",
+	region: "region",
+};
+
+export function getCatalogSortLabel(sort: CatalogSortMode): string {
+	return CATALOG_SORT_LABELS[sort];
+}
+
+/** Synthetic-hosted models first, then provider, then display name. */
+export function compareCatalogDefault(a: SyntheticModel, b: SyntheticModel): number {
+	const rankCompare = getProviderSortRank(a.provider) - getProviderSortRank(b.provider);
+	if (rankCompare !== 0) return rankCompare;
+
+	const providerCompare = (a.provider || "unknown").localeCompare(b.provider || "unknown");
+	if (providerCompare !== 0) return providerCompare;
+
+	return (a.name || a.id).localeCompare(b.name || b.id);
+}
+
+/** First datacenter's region name, used as the region sort key; undefined sorts last. */
+function getRegionSortKey(model: SyntheticModel): string | undefined {
+	const code = model.datacenters?.find((dc) => dc.country_code.trim())?.country_code;
+	return code ? formatCountryCode(code) : undefined;
+}
+
+/** Return a sorted copy; ties fall back to the default provider/name order. */
+export function sortCatalogModels(models: readonly SyntheticModel[], sort: CatalogSortMode): SyntheticModel[] {
+	const compare = (a: SyntheticModel, b: SyntheticModel): number => {
+		switch (sort) {
+			case "input":
+				return parsePrice(a.pricing?.prompt) - parsePrice(b.pricing?.prompt);
+			case "output":
+				return parsePrice(a.pricing?.completion) - parsePrice(b.pricing?.completion);
+			case "context":
+				return (b.context_length || 0) - (a.context_length || 0);
+			case "region": {
+				const regionA = getRegionSortKey(a);
+				const regionB = getRegionSortKey(b);
+				if (regionA === regionB) return 0;
+				if (regionA === undefined) return 1;
+				if (regionB === undefined) return -1;
+				return regionA.localeCompare(regionB);
+			}
+			default:
+				return 0;
+		}
+	};
+	return [...models].sort((a, b) => compare(a, b) || compareCatalogDefault(a, b));
+}
+
+/**
+ * Keep models matching every whitespace-separated query term (case-insensitive,
+ * against id, name, provider, and Hugging Face id) and every required capability.
+ */
+export function filterCatalogModels(
+	models: readonly SyntheticModel[],
+	query: string,
+	capabilities: readonly string[] = [],
+): SyntheticModel[] {
+	const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+	return models.filter((model) => {
+		const modelCaps = getModelCapabilities(model);
+		if (!capabilities.every((cap) => modelCaps.includes(cap))) return false;
+		const haystack = [model.id, model.name, model.provider, model.hugging_face_id].join(" ").toLowerCase();
+		return terms.every((term) => haystack.includes(term));
+	});
+}
+
 // =============================================================================
 // Catalog Table Formatting
 // =============================================================================
@@ -115,7 +232,9 @@ export function formatCatalogHeader(): string {
 export function formatCatalogRow(model: SyntheticModel): string {
 	const providerRaw = model.provider || "unknown";
 	const provider = truncateWithEllipsis(providerRaw, CATALOG_PROVIDER_COL).padEnd(CATALOG_PROVIDER_COL);
-	const modelId = truncateWithEllipsis(model.id, CATALOG_MODEL_COL).padEnd(CATALOG_MODEL_COL);
+	const modelId = truncateWithEllipsis(formatPermalink(model.id, getPermalinkTarget(model)), CATALOG_MODEL_COL).padEnd(
+		CATALOG_MODEL_COL,
+	);
 	const ctx = formatContextTokens(model.context_length).padStart(CATALOG_CTX_COL);
 	const input = formatPrice(model.pricing?.prompt).padStart(CATALOG_PRICE_COL);
 	const output = formatPrice(model.pricing?.completion).padStart(CATALOG_PRICE_COL);
@@ -124,3 +243,28 @@ export function formatCatalogRow(model: SyntheticModel): string {
 	const caps = truncateWithEllipsis(capsRaw, CATALOG_CAPS_COL).padEnd(CATALOG_CAPS_COL);
 	return `${provider} ${modelId} ${ctx} ${input} ${output} ${cache} ${caps}`;
 }
+
+/** Machine-readable catalog row for `--json` output; prices are parsed to $/M. */
+export function toCatalogRecord(model: SyntheticModel, excludedReason?: string): SyntheticCatalogRecord {
+	const permalinkTarget = getPermalinkTarget(model);
+	return {
+		id: model.id,
+		name: model.name,
+		provider: model.provider || "unknown",
+		huggingFaceId: model.hugging_face_id,
+		contextLength: model.context_length,
+		maxOutputLength: model.max_output_length,
+		pricing: {
+			input: parsePrice(model.pricing?.prompt),
+			output: parsePrice(model.pricing?.completion),
+			cacheRead: parsePrice(model.pricing?.input_cache_reads),
+			cacheWrite: parsePrice(model.pricing?.input_cache_writes),
+		},
+		capabilities: getModelCapabilities(model),
+		reasoningEfforts: model.reasoning_parameters?.efforts ?? [],
+		datacenters: (model.datacenters ?? []).map((datacenter) => datacenter.country_code),
+		alwaysOn: model.always_on === true,
+		...(permalinkTarget ? { permalinkTarget } : {}),
+		...(excludedReason ? { excludedReason } : {}),
+	};
+}
@@ -10,6 +10,20 @@
  * - Proper cost calculation from API pricing data
  * - OpenAI Completions API compatibility (no custom streaming needed)
  * - Support for auth.json credential storage (in addition to env vars)
+ * - Background quota guard with footer status, threshold alerts, and optional block/switch on limits
+ * - Status widget for the active Synthetic model: context, reasoning effort, and price tier
+ * - Local quota history with usage sparklines, burn rates, and exhaustion forecasts in /synthetic-quota
+ * - Per-session token and cost ledger (/synthetic-usage) with CSV/JSON export
+ * - Optional pre-send cost estimate in the footer and per-request / per-session budgets that ask before a costly prompt
+ * - Optional pi-synthetic-provider.json: base URL, fetch timeout, model include/exclude globs, per-model overrides
+ * - `syn:*` permalink targets in the catalog and model notifications, re-point alerts, and optional pinning
+ * - Opt-in on-demand models (--synthetic-on-demand or SYNTHETIC_ON_DEMAND=1), marked "(on-demand)"
+ * - One retry without reasoning_effort when Synthetic rejects an effort, remembered per model
+ * - Fallback chain (--synthetic-fallback-models) on 429/5xx and limited quotas, switching back on reset
+ * - allowedCountries in the config drops models without a datacenter there; the region shows on model selection
+ * - Named accounts (synthetic:<name> in auth.json or SYNTHETIC_API_KEY_<NAME>), chosen per project or via /synthetic-account
+ * - /synthetic-drift: live or saved catalog vs the fallback snapshot, with a regenerated getFallbackModels()
+ * - /synthetic-doctor: key source, catalog latency, model source, fallback snapshot drift, resolved thinking levels
  *
  * Setup (choose one method):
  *
@@ -37,23 +51,74 @@
  *   # Use default model
  *   pi --provider synthetic --model hf:moonshotai/Kimi-K2.6
  *
- * Note: Models are fetched dynamically from the API during startup and refreshed
- * at session start, so the available models list stays current.
+ * Note: The last good model catalog is cached under the agent dir. Startup
+ * registers from that cache without waiting on the network, and session start
+ * revalidates it in the background, so the available models list stays current.
+ * Only a first run with no cache blocks on the live fetch.
  *
- * Developer Note: To update fallback pricing, run:
- *   curl -s https://api.synthetic.new/openai/v1/models | jq '.data[] | select(.always_on == true)'
+ * Developer Note: To check and update the fallback snapshot, run:
+ *   pi -p "/synthetic-drift --emit fallback-models.ts"
+ * or save a /models response and pass its path to check offline.
  */
 
-import type { ExtensionAPI } from "@earendil-works/pi-coding-agent";
-import { getSyntheticApiKey, hasSyntheticApiKey } from "./auth.js";
+import type { ExtensionAPI, ExtensionContext, ProviderModelConfig } from "@earendil-works/pi-coding-agent";
+import {
+	formatMissingAccount,
+	getActiveSyntheticAccount,
+	getConfiguredAccountName,
+	getSyntheticApiKey,
+	hasSyntheticApiKey,
+	resolveSyntheticAccount,
+	setActiveSyntheticAccount,
+} from "./auth.js";
+import { loadStartupCatalog, revalidateSyntheticCatalog } from "./catalog-cache.js";
+import { registerSyntheticAccountCommand } from "./commands/synthetic-account.js";
+import { registerSyntheticDoctorCommand } from "./commands/synthetic-doctor.js";
+import { registerSyntheticDriftCommand } from "./commands/synthetic-drift.js";
 import { registerSyntheticModelsCommand } from "./commands/synthetic-models.js";
 import { registerSyntheticQuotaCommand } from "./commands/synthetic-quota.js";
-import { AUTH_JSON_PATH, SYNTHETIC_API_BASE_URL, SYNTHETIC_MODELS_FETCH_TIMEOUT_MS } from "./config.js";
-import { fetchSyntheticModels } from "./models.js";
+import { registerSyntheticUsageCommand } from "./commands/synthetic-usage.js";
+import { AUTH_JSON_PATH, SYNTHETIC_API_BASE_URL } from "./config.js";
+import { registerCostEstimate } from "./cost-estimate.js";
+import {
+	applyRejectedEfforts,
+	createEffortRecoveryStream,
+	readRejectedEfforts,
+	recordRejectedEffort,
+} from "./effort-recovery.js";
+import { registerFallbackChain } from "./fallback-chain.js";
+import { formatPermalink } from "./formatting.js";
+import { isOnDemandModelsEnabled } from "./models.js";
+import {
+	diffPermalinkTargets,
+	formatPermalinkChange,
+	isPermalinkPinningEnabled,
+	pinPermalinkModel,
+	resolvePermalink,
+} from "./permalinks.js";
+import { getCatalogOptions, getSyntheticProviderConfig } from "./provider-config.js";
+import { registerQuotaGuard } from "./quota-guard.js";
+import { formatModelRegion } from "./regions.js";
+import { formatModelSummary, registerStatusWidget } from "./status-widget.js";
 
 // Re-export public API for tests and consumers
-export { parsePrice } from "./formatting.js";
-export { getFallbackModels } from "./models.js";
+export {
+	getAccountEnvVar,
+	getActiveSyntheticAccount,
+	listSyntheticAccounts,
+	resolveSyntheticAccount,
+	setActiveSyntheticAccount,
+} from "./auth.js";
+export { getCatalogCachePath, readCatalogCache } from "./catalog-cache.js";
+export { buildFallbackModelsSource, getCatalogDrift } from "./catalog-drift.js";
+export { formatCostEstimate, getBudgetOverrun, getRequestCostEstimate, parseBudget } from "./cost-estimate.js";
+export { diffFallbackSnapshot, maskApiKey } from "./diagnostics.js";
+export { applyRejectedEfforts, isEffortRejection, readRejectedEfforts } from "./effort-recovery.js";
+export { getFallbackCandidates, getFallbackChain, isFallbackError } from "./fallback-chain.js";
+export { formatPermalink, getPermalinkTarget, parsePrice } from "./formatting.js";
+export { getFallbackModels, getModelExclusionReason, matchesModelPattern } from "./models.js";
+export { diffPermalinkTargets, getPermalinkTargets } from "./permalinks.js";
+export { loadSyntheticProviderConfig, parseSyntheticProviderConfig } from "./provider-config.js";
 export {
 	buildProgressBar,
 	fetchSyntheticQuota,
@@ -63,30 +128,171 @@ export {
 	hasVisibleQuotaBucket,
 	shouldDisplaySubscriptionQuota,
 } from "./quota.js";
+export {
+	formatQuotaGuardStatus,
+	getActiveQuotaLimit,
+	getQuotaGuardBuckets,
+	getReachedThreshold,
+	parseFallbackModelRef,
+} from "./quota-guard.js";
+export { getModelRegions, getRegionExclusionReason } from "./regions.js";
+export { formatReasoningEffort, formatStatusWidget, getPriceTier } from "./status-widget.js";
+export { buildUsageLedger, formatUsageCsv, formatUsageJson } from "./usage.js";
 
 export default async function (pi: ExtensionAPI) {
-	const startupModels = await fetchSyntheticModels(undefined, { timeoutMs: SYNTHETIC_MODELS_FETCH_TIMEOUT_MS });
+	pi.registerFlag("synthetic-on-demand", {
+		description: "Also register Synthetic models that are not always-on (they start on first request).",
+		type: "boolean",
+	});
+	pi.registerFlag("synthetic-config", {
+		description: "Path to pi-synthetic-provider.json (default: .pi/extensions/, then extensions/ in the agent dir).",
+		type: "string",
+	});
+	pi.registerFlag("synthetic-pin-permalinks", {
+		description: "Switch sessions from a syn:* permalink to the hf: model it currently points to.",
+		type: "boolean",
+	});
+	pi.registerFlag("synthetic-account", {
+		description: "Named Synthetic account to use: synthetic:<name> in auth.json or SYNTHETIC_API_KEY_<NAME>.",
+		type: "string",
+	});
+
+	// Select the account named by the flag, SYNTHETIC_ACCOUNT, or the config; a
+	// name without a key is reported and the default key is used instead.
+	const selectConfiguredAccount = (report: (message: string) => void) => {
+		const name = getConfiguredAccountName(pi, config);
+		const account = name ? resolveSyntheticAccount(name) : undefined;
+		if (name && !account) report(`${formatMissingAccount(name)}; using the default key`);
+		setActiveSyntheticAccount(account);
+	};
 
-	// Register provider during extension loading with live models, falling back
-	// inside fetchSyntheticModels() if the API is unavailable, slow, or empty.
+	// Flags are parsed after extensions load, so only SYNTHETIC_ON_DEMAND,
+	// SYNTHETIC_CONFIG, and SYNTHETIC_ACCOUNT apply here; session_start below
+	// re-registers with the flags taken into account.
+	const startupConfig = getSyntheticProviderConfig(pi);
+	let rejectedEfforts = readRejectedEfforts();
+	// Latest config and permalink targets, refreshed on every session start.
+	let config = startupConfig;
+	const getCatalogFetchOptions = () => ({
+		...getCatalogOptions(config),
+		includeOnDemand: isOnDemandModelsEnabled(pi),
+		rejectedEfforts,
+	});
+	const startupCatalog = await loadStartupCatalog(getCatalogFetchOptions());
+	selectConfiguredAccount((message) => console.warn(`[Synthetic Provider] ${message}`));
+	let permalinkTargets = startupCatalog.permalinkTargets;
+	let modelRegions = startupCatalog.regions;
+	// Where the registered models came from, for /synthetic-doctor.
+	let catalogSource = startupCatalog.source;
+	let catalogFetchedAt = startupCatalog.fetchedAt;
+	// Stream-time warnings have no ctx of their own; session_start routes them through the UI.
+	let warn = (message: string) => console.warn(`[Synthetic Provider] ${message}`);
+
+	// The currently registered provider, so a learned effort rejection can re-register it.
+	let registeredBaseUrl = startupConfig.baseUrl ?? SYNTHETIC_API_BASE_URL;
+	let registeredModels = startupCatalog.models;
+	const recoveryStream = createEffortRecoveryStream((model, level) => {
+		warn(
+			`Synthetic rejected the "${level}" reasoning effort for ${model.id}; retried without it, and the level is now disabled for this model`,
+		);
+		try {
+			rejectedEfforts = recordRejectedEffort(model.id, level);
+		} catch {
+			// Unwritable cache: still disable the level for the rest of this run.
+			const levels = Object.hasOwn(rejectedEfforts, model.id) ? rejectedEfforts[model.id] : [];
+			rejectedEfforts = { ...rejectedEfforts, [model.id]: [...levels, level] };
+		}
+		try {
+			registerSyntheticProvider(
+				registeredBaseUrl,
+				registeredModels.map((entry) => applyRejectedEfforts(entry, rejectedEfforts)),
+			);
+		} catch {
+			// Stale runtime; the replacement session registers with the persisted rejections.
+		}
+	});
+	// A named account's key replaces whatever pi resolved for `synthetic`, auth.json included.
+	const streamSimple: typeof recoveryStream = (model, context, options) => {
+		const account = getActiveSyntheticAccount();
+		return recoveryStream(model, context, account ? { ...options, apiKey: account.apiKey } : options);
+	};
+	const registerSyntheticProvider = (baseUrl: string, models: ProviderModelConfig[]) => {
+		pi.registerProvider("synthetic", {
+			baseUrl,
+			// Registered too, so models count as available with only a named account's key.
+			apiKey: getActiveSyntheticAccount()?.apiKey ?? "$SYNTHETIC_API_KEY",
+			api: "openai-completions",
+			models,
+			streamSimple,
+		});
+		registeredBaseUrl = baseUrl;
+		registeredModels = models;
+	};
+
+	// Register provider during extension loading with cached models, or on a first
+	// run with live models, falling back inside loadStartupCatalog() if the API is
+	// unavailable, slow, or empty.
 	// pi.registerProvider() during loading is queued and applied during
 	// runner.initialize(). Registrations in event handlers (e.g., session_start)
 	// are queued but never flushed, so the initial registration must happen here.
-	pi.registerProvider("synthetic", {
-		baseUrl: SYNTHETIC_API_BASE_URL,
-		apiKey: "$SYNTHETIC_API_KEY",
-		api: "openai-completions",
-		models: startupModels,
-	});
+	registerSyntheticProvider(registeredBaseUrl, registeredModels);
+
+	// Revalidate the catalog in the background and update the runtime provider
+	// registration. revalidateSyntheticCatalog() keeps the cached catalog, or
+	// returns fallback models without one, if the API is unavailable, slow, or
+	// returns no supported models. With a UI attached, fetch diagnostics must
+	// go through it; headless keeps the console defaults.
+	const refreshCatalog = async (ctx: ExtensionContext) => {
+		const apiKey = await getSyntheticApiKey(ctx);
+		const baseUrl = config.baseUrl ?? SYNTHETIC_API_BASE_URL;
+
+		void revalidateSyntheticCatalog(apiKey, {
+			...getCatalogFetchOptions(),
+			...(ctx.hasUI ? { notify: (message: string, level: "warning" | "error") => ctx.ui.notify(message, level) } : {}),
+		})
+			.then(async (catalog) => {
+				registerSyntheticProvider(baseUrl, catalog.models);
+				catalogSource = catalog.source;
+				catalogFetchedAt = catalog.fetchedAt;
+
+				// The startup targets come from the previous session's cache, so a
+				// re-point between sessions is reported here as well.
+				for (const change of diffPermalinkTargets(permalinkTargets, catalog.permalinkTargets)) {
+					if (ctx.hasUI) {
+						ctx.ui.notify(formatPermalinkChange(change), "warning");
+					} else {
+						console.warn(`[Synthetic Provider] ${formatPermalinkChange(change)}`);
+					}
+				}
+				permalinkTargets = catalog.permalinkTargets;
+				modelRegions = catalog.regions;
+
+				const target =
+					ctx.model?.provider === "synthetic" ? resolvePermalink(permalinkTargets, ctx.model.id) : undefined;
+				if (ctx.model && target && isPermalinkPinningEnabled(pi, config)) {
+					await pinPermalinkModel(pi, ctx, ctx.model.id, target);
+				}
+			})
+			.catch(() => {
+				// registerProvider() throws once this runtime is stale, e.g. when the
+				// session was replaced mid-refresh; the new runtime refreshes itself.
+			});
+	};
 
 	// After session starts, refresh models from the API and update the runtime provider registration.
 	// pi.registerProvider() now takes effect immediately after startup and also
 	// lets the runtime refresh the current model reference if the provider config
 	// changes beneath an already-selected model.
 	pi.on("session_start", async (_event, ctx) => {
-		const apiKey = await getSyntheticApiKey(ctx);
-		const hasKey = await hasSyntheticApiKey(ctx);
+		warn = ctx.hasUI
+			? (message) => ctx.ui.notify(message, "warning")
+			: (message) => console.warn(`[Synthetic Provider] ${message}`);
+
+		// Re-read the config: --synthetic-config and --synthetic-account are only available from here on.
+		config = getSyntheticProviderConfig(pi, ctx);
+		selectConfiguredAccount(warn);
 
+		const hasKey = await hasSyntheticApiKey(ctx);
 		if (!hasKey) {
 			// Never write to the console with a UI attached: pi's fullscreen renderer
 			// repaints differentially, so stray console output corrupts the frame.
@@ -103,32 +309,47 @@ export default async function (pi: ExtensionAPI) {
 			}
 		}
 
-		// Fetch live models and update the runtime provider registration.
-		// fetchSyntheticModels() returns fallback models if the API is unavailable,
-		// slow, or returns no supported models. With a UI attached, fetch
-		// diagnostics must go through it; headless keeps the console defaults.
-		const models = await fetchSyntheticModels(apiKey, {
-			timeoutMs: SYNTHETIC_MODELS_FETCH_TIMEOUT_MS,
-			...(ctx.hasUI ? { notify: (message: string, level: "warning" | "error") => ctx.ui.notify(message, level) } : {}),
-		});
-
-		pi.registerProvider("synthetic", {
-			baseUrl: SYNTHETIC_API_BASE_URL,
-			apiKey: "$SYNTHETIC_API_KEY",
-			api: "openai-completions",
-			models,
-		});
+		await refreshCatalog(ctx);
 	});
 
-	// Listen for model selection to provide helpful info
+	// Listen for model selection to provide helpful info, and pin permalinks when enabled
 	pi.on("model_select", async (event, ctx) => {
 		if (event.model.provider === "synthetic") {
-			const modelName = event.model.name || event.model.id;
-			ctx.ui.notify(`Using Synthetic model: ${modelName}`, "info");
+			const target = resolvePermalink(permalinkTargets, event.model.id);
+			const modelName = target ? formatPermalink(event.model.id, target) : event.model.name || event.model.id;
+			const region = formatModelRegion(modelRegions, event.model.id);
+			ctx.ui.notify(
+				`Using Synthetic model: ${modelName} · ${formatModelSummary(event.model)}${region ? ` · region: ${region}` : ""}`,
+				"info",
+			);
+			if (target && isPermalinkPinningEnabled(pi, config)) {
+				await pinPermalinkModel(pi, ctx, event.model.id, target);
+			}
 		}
 	});
 
 	// Register slash commands
 	registerSyntheticModelsCommand(pi);
-	registerSyntheticQuotaCommand(pi);
+	registerSyntheticQuotaCommand(pi, () => config);
+	registerSyntheticUsageCommand(pi);
+	registerSyntheticDriftCommand(pi);
+	registerSyntheticDoctorCommand(pi, () => ({
+		source: catalogSource,
+		fetchedAt: catalogFetchedAt,
+		baseUrl: registeredBaseUrl,
+		models: registeredModels,
+		options: getCatalogFetchOptions(),
+	}));
+	// Switching accounts re-registers the key at once, then refreshes the catalog with it.
+	registerSyntheticAccountCommand(pi, async (ctx) => {
+		registerSyntheticProvider(registeredBaseUrl, registeredModels);
+		await refreshCatalog(ctx);
+	});
+
+	// Fallback chain on 429/5xx, then background quota polling, footer status, and the optional limit guard.
+	// The chain registers first so that a return to the original model happens before the guard checks it.
+	const fallbackChain = registerFallbackChain(pi, () => config);
+	registerQuotaGuard(pi, () => config, fallbackChain);
+	registerCostEstimate(pi, () => config);
+	registerStatusWidget(pi);
 }
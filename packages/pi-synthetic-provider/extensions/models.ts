@@ -2,10 +2,17 @@
  * Model fetching and fallback data for the Synthetic provider.
  */
 
-import type { ProviderModelConfig } from "@earendil-works/pi-coding-agent";
-import { SYNTHETIC_COMPAT, SYNTHETIC_MODELS_ENDPOINT } from "./config.js";
-import { parsePrice } from "./formatting.js";
-import type { SyntheticModel, SyntheticModelsResponse } from "./types.js";
+import type { ExtensionAPI, ProviderModelConfig } from "@earendil-works/pi-coding-agent";
+import { SYNTHETIC_API_BASE_URL, SYNTHETIC_COMPAT } from "./config.js";
+import { applyRejectedEfforts, type RejectedEfforts } from "./effort-recovery.js";
+import { getPermalinkTarget, parsePrice } from "./formatting.js";
+import { getRegionExclusionReason } from "./regions.js";
+import type {
+	SyntheticModel,
+	SyntheticModelOverride,
+	SyntheticModelsResponse,
+	SyntheticProviderConfig,
+} from "./types.js";
 
 export const GLM_5_2_MODEL_ID = "hf:zai-org/GLM-5.2";
 export const GLM_4_7_FLASH_MODEL_ID = "hf:zai-org/GLM-4.7-Flash";
@@ -107,9 +114,6 @@ const REASONING_OVERRIDES = new Map<string, SyntheticModelOverrides>([
 	[NEMOTRON_3_SUPER_MODEL_ID, NEMOTRON_3_SUPER_REASONING_OVERRIDES],
 ]);
 
-/** Synthetic's rotating permalink ids, e.g. `syn:large:vision`. */
-const PERMALINK_ID_PREFIX = "syn:";
-
 /**
  * Resolve the reasoning-effort overrides for a catalog id.
  *
@@ -146,21 +150,21 @@ export function getSyntheticModelOverrides(modelId: string, model?: SyntheticMod
 		return direct;
 	}
 
-	if (model && modelId.startsWith(PERMALINK_ID_PREFIX)) {
-		const target = model.hugging_face_id;
-		if (typeof target === "string" && target && !target.includes(":")) {
-			const aliased = REASONING_OVERRIDES.get(`hf:${target}`);
-			if (aliased) {
-				return aliased;
-			}
+	const target = model ? getPermalinkTarget({ id: modelId, hugging_face_id: model.hugging_face_id }) : undefined;
+	if (target) {
+		const aliased = REASONING_OVERRIDES.get(`hf:${target}`);
+		if (aliased) {
+			return aliased;
 		}
 	}
 
 	return { compat: SYNTHETIC_COMPAT };
 }
 
-export interface FetchSyntheticModelsOptions {
+export interface FetchSyntheticModelsOptions extends TransformSyntheticModelsOptions {
 	timeoutMs?: number;
+	/** API base URL; defaults to {@link SYNTHETIC_API_BASE_URL}. */
+	baseUrl?: string;
 	/**
 	 * Receives fallback diagnostics instead of the console. Callers on a
 	 * UI-attached path (e.g. session_start) must supply this: pi's fullscreen
@@ -195,68 +199,231 @@ async function fetchWithTimeout(url: string, init: RequestInit, timeoutMs?: numb
 	}
 }
 
+/** `<baseUrl>/models`, tolerating a trailing slash on the configured base URL. */
+export function getSyntheticModelsEndpoint(baseUrl: string = SYNTHETIC_API_BASE_URL): string {
+	return `${baseUrl.replace(/\/+$/, "")}/models`;
+}
+
+export interface TransformSyntheticModelsOptions
+	extends Pick<SyntheticProviderConfig, "includeModels" | "excludeModels" | "modelOverrides" | "allowedCountries"> {
+	/**
+	 * Also register rows that are not `always_on`. Synthetic spins these up on
+	 * demand, so the first request can be slow; their names carry
+	 * {@link ON_DEMAND_NAME_SUFFIX} so they are recognizable in pi's model picker.
+	 */
+	includeOnDemand?: boolean;
+	/** Thinking levels Synthetic has rejected per model id; applied before `modelOverrides`. */
+	rejectedEfforts?: RejectedEfforts;
+}
+
+export const ON_DEMAND_NAME_SUFFIX = " (on-demand)";
+
+/** Case-insensitive glob over model ids: `*` matches any run of characters, `?` one character. */
+export function matchesModelPattern(modelId: string, pattern: string): boolean {
+	const source = pattern
+		.split("")
+		.map((char) => (char === "*" ? ".*" : char === "?" ? "." : char.replace(/[.+^${}()|[\]\\]/g, "\\$&")))
+		.join("");
+	return new RegExp(`^${source}$`, "i").test(modelId);
+}
+
+/** Why the include/exclude lists in `pi-synthetic-provider.json` drop a model id, if they do. */
+function getConfigExclusionReason(modelId: string, options: TransformSyntheticModelsOptions): string | undefined {
+	if (options.excludeModels?.some((pattern) => matchesModelPattern(modelId, pattern))) {
+		return "matched by excludeModels in pi-synthetic-provider.json";
+	}
+	if (options.includeModels && !options.includeModels.some((pattern) => matchesModelPattern(modelId, pattern))) {
+		return "not matched by includeModels in pi-synthetic-provider.json";
+	}
+	return undefined;
+}
+
 /**
- * Fetch models from Synthetic API and transform to ProviderModelConfig format.
+ * Apply every `modelOverrides` entry whose key matches the model id, in key order.
+ * A thinking-level map with any supported level also turns on reasoning effort,
+ * unless the override's own compat says otherwise.
  */
-export async function fetchSyntheticModels(
-	apiKey?: string,
-	options: FetchSyntheticModelsOptions = {},
-): Promise<ProviderModelConfig[]> {
-	try {
-		const headers: Record<string, string> = {
-			Accept: "application/json",
+export function applySyntheticModelOverrides(
+	model: ProviderModelConfig,
+	modelOverrides: Record<string, SyntheticModelOverride> | undefined,
+): ProviderModelConfig {
+	if (!modelOverrides) return model;
+	let result = model;
+	for (const [pattern, override] of Object.entries(modelOverrides)) {
+		if (!matchesModelPattern(model.id, pattern)) continue;
+		const thinkingLevelMap = override.thinkingLevelMap
+			? { ...result.thinkingLevelMap, ...override.thinkingLevelMap }
+			: result.thinkingLevelMap;
+		const enablesEffort =
+			override.thinkingLevelMap !== undefined && Object.values(override.thinkingLevelMap).some((value) => value);
+		result = {
+			...result,
+			...(override.contextWindow !== undefined ? { contextWindow: override.contextWindow } : {}),
+			...(override.maxTokens !== undefined ? { maxTokens: override.maxTokens } : {}),
+			...(thinkingLevelMap ? { thinkingLevelMap } : {}),
+			...(enablesEffort ? { reasoning: true } : {}),
+			compat: {
+				...result.compat,
+				...(enablesEffort ? { supportsReasoningEffort: true } : {}),
+				...override.compat,
+			},
 		};
+	}
+	return result;
+}
 
-		// API key is optional for model listing (public endpoint)
-		if (apiKey) {
-			headers.Authorization = `Bearer ${apiKey}`;
-		}
+/**
+ * The hardcoded fallback snapshot, narrowed and adjusted by the same config as
+ * live rows. It carries no datacenter metadata, so `allowedCountries` drops it whole.
+ */
+export function getConfiguredFallbackModels(options: TransformSyntheticModelsOptions = {}): ProviderModelConfig[] {
+	if (options.allowedCountries) return [];
+	return getFallbackModels()
+		.filter((model) => !getConfigExclusionReason(model.id, options))
+		.map((model) =>
+			applySyntheticModelOverrides(applyRejectedEfforts(model, options.rejectedEfforts), options.modelOverrides),
+		);
+}
 
-		const response = await fetchWithTimeout(SYNTHETIC_MODELS_ENDPOINT, { headers }, options.timeoutMs);
+/**
+ * Why a catalog row is not registered with pi, or undefined when it is. Rows
+ * without tool calling are always excluded: pi's agent loop depends on tools.
+ */
+export function getModelExclusionReason(
+	model: SyntheticModel,
+	options: TransformSyntheticModelsOptions = {},
+): string | undefined {
+	if (model.supported_features && !model.supported_features.includes("tools")) {
+		return "no tool calling support (pi's agent requires tools)";
+	}
+	if (!model.always_on && !options.includeOnDemand) {
+		return "on-demand, not always-on (enable with --synthetic-on-demand)";
+	}
+	return getConfigExclusionReason(model.id, options) ?? getRegionExclusionReason(model, options.allowedCountries);
+}
+
+/** On-demand rows are opt-in: `--synthetic-on-demand`, or SYNTHETIC_ON_DEMAND=1 (also honored at load, before flags are parsed). */
+export function isOnDemandModelsEnabled(pi: ExtensionAPI): boolean {
+	if (pi.getFlag("synthetic-on-demand") === true) return true;
+	const envValue = process.env.SYNTHETIC_ON_DEMAND?.trim().toLowerCase();
+	return envValue === "1" || envValue === "true";
+}
 
-		if (!response.ok) {
-			const errorText = await response.text();
-			throw new Error(`Failed to fetch models: ${response.status} ${response.statusText} - ${errorText}`);
+/**
+ * Transform a `/models` response into provider model configs.
+ *
+ * Only tool-capable rows are kept, always-on ones unless `includeOnDemand` is
+ * set, narrowed by the config's include/exclude globs and allowed countries. Treat null/missing
+ * supported_features as "all features supported" since the API only
+ * populates this field for Synthetic-hosted models.
+ */
+export function transformSyntheticModels(
+	data: SyntheticModelsResponse,
+	options: TransformSyntheticModelsOptions = {},
+): ProviderModelConfig[] {
+	const models: ProviderModelConfig[] = [];
+
+	for (const model of data.data) {
+		if (getModelExclusionReason(model, options)) continue;
+
+		const modelId = model.id; // e.g., "hf:moonshotai/Kimi-K2.5"
+		const baseName = model.name || model.hugging_face_id || modelId;
+		const displayName = model.always_on ? baseName : `${baseName}${ON_DEMAND_NAME_SUFFIX}`;
+
+		// Parse input modalities
+		const input: ("text" | "image")[] = ["text"];
+		if (model.input_modalities?.includes("image")) {
+			input.push("image");
 		}
 
-		const data = (await response.json()) as SyntheticModelsResponse;
-		const models: ProviderModelConfig[] = [];
+		// Detect reasoning capability
+		const reasoning = model.supported_features?.includes("reasoning") ?? false;
 
-		for (const model of data.data) {
-			// Only include always-on models.
-			// Treat null/missing supported_features as "all features supported"
-			// since the API only populates this field for Synthetic-hosted models.
-			if (!model.always_on) continue;
-			if (model.supported_features && !model.supported_features.includes("tools")) continue;
+		const config: ProviderModelConfig = {
+			id: modelId,
+			name: displayName,
+			reasoning,
+			input,
+			cost: {
+				input: parsePrice(model.pricing?.prompt),
+				output: parsePrice(model.pricing?.completion),
+				cacheRead: parsePrice(model.pricing?.input_cache_reads),
+				cacheWrite: parsePrice(model.pricing?.input_cache_writes),
+			},
+			contextWindow: model.context_length || 128000,
+			maxTokens: model.max_output_length || 32768,
+			...getSyntheticModelOverrides(modelId, model),
+		};
+		models.push(
+			applySyntheticModelOverrides(applyRejectedEfforts(config, options.rejectedEfforts), options.modelOverrides),
+		);
+	}
 
-			const modelId = model.id; // e.g., "hf:moonshotai/Kimi-K2.5"
-			const displayName = model.name || model.hugging_face_id || modelId;
+	return models;
+}
 
-			// Parse input modalities
-			const input: ("text" | "image")[] = ["text"];
-			if (model.input_modalities?.includes("image")) {
-				input.push("image");
-			}
+export interface FetchSyntheticModelsResponseOptions {
+	timeoutMs?: number;
+	baseUrl?: string;
+	/** ETag of a cached response; sent as `If-None-Match`. */
+	etag?: string;
+}
 
-			// Detect reasoning capability
-			const reasoning = model.supported_features?.includes("reasoning") ?? false;
-
-			models.push({
-				id: modelId,
-				name: displayName,
-				reasoning,
-				input,
-				cost: {
-					input: parsePrice(model.pricing?.prompt),
-					output: parsePrice(model.pricing?.completion),
-					cacheRead: parsePrice(model.pricing?.input_cache_reads),
-					cacheWrite: parsePrice(model.pricing?.input_cache_writes),
-				},
-				contextWindow: model.context_length || 128000,
-				maxTokens: model.max_output_length || 32768,
-				...getSyntheticModelOverrides(modelId, model),
-			});
-		}
+export interface SyntheticModelsFetchResult {
+	/** Absent when the server answered a conditional request with 304 Not Modified. */
+	response?: SyntheticModelsResponse;
+	etag?: string;
+}
+
+/**
+ * Fetch the raw `/models` response. Throws on network, timeout, and HTTP errors
+ * so callers can decide between the on-disk cache and the fallback snapshot.
+ */
+export async function fetchSyntheticModelsResponse(
+	apiKey?: string,
+	options: FetchSyntheticModelsResponseOptions = {},
+): Promise<SyntheticModelsFetchResult> {
+	const headers: Record<string, string> = {
+		Accept: "application/json",
+	};
+
+	// API key is optional for model listing (public endpoint)
+	if (apiKey) {
+		headers.Authorization = `Bearer ${apiKey}`;
+	}
+	if (options.etag) {
+		headers["If-None-Match"] = options.etag;
+	}
+
+	const response = await fetchWithTimeout(getSyntheticModelsEndpoint(options.baseUrl), { headers }, options.timeoutMs);
+
+	if (response.status === 304 && options.etag) {
+		return { etag: options.etag };
+	}
+
+	if (!response.ok) {
+		const errorText = await response.text();
+		throw new Error(`Failed to fetch models: ${response.status} ${response.statusText} - ${errorText}`);
+	}
+
+	const etag = response.headers.get("etag") ?? undefined;
+	return { response: (await response.json()) as SyntheticModelsResponse, etag };
+}
+
+/**
+ * Fetch models from Synthetic API and transform to ProviderModelConfig format.
+ * Returns the fallback snapshot when the API is unavailable, slow, or empty.
+ */
+export async function fetchSyntheticModels(
+	apiKey?: string,
+	options: FetchSyntheticModelsOptions = {},
+): Promise<ProviderModelConfig[]> {
+	try {
+		const { response } = await fetchSyntheticModelsResponse(apiKey, {
+			timeoutMs: options.timeoutMs,
+			baseUrl: options.baseUrl,
+		});
+		const models = response ? transformSyntheticModels(response, options) : [];
 
 		if (models.length === 0) {
 			const message = "[Synthetic Provider] Live model catalog returned no supported models; using fallback models";
@@ -265,7 +432,7 @@ export async function fetchSyntheticModels(
 			} else {
 				console.warn(message);
 			}
-			return getFallbackModels();
+			return getConfiguredFallbackModels(options);
 		}
 
 		return models;
@@ -277,7 +444,7 @@ export async function fetchSyntheticModels(
 			console.error("[Synthetic Provider] Failed to fetch models:", error);
 		}
 		// Return fallback models if API is unavailable
-		return getFallbackModels();
+		return getConfiguredFallbackModels(options);
 	}
 }
 
@@ -286,6 +453,7 @@ export async function fetchSyntheticModels(
  * Data sourced from: authenticated GET https://api.synthetic.new/openai/v1/models
  * Model metadata last updated: 2026-07-28
  * Reasoning efforts last updated: 2026-08-10
+ * Check for drift and regenerate with `/synthetic-drift --emit <path>` (see catalog-drift.ts).
  *
  * Mirrors the live `always_on` catalog. The `syn:*` permalinks are stable
  * aliases Synthetic re-points as models rotate; `syn:large:vision` now resolves
@@ -0,0 +1,82 @@
+/**
+ * `syn:*` permalink tracking: what each permalink resolves to, notifications
+ * when Synthetic re-points one, and optional pinning to the resolved `hf:` id.
+ */
+
+import type { ExtensionAPI, ExtensionContext } from "@earendil-works/pi-coding-agent";
+import { formatPermalink, getPermalinkTarget } from "./formatting.js";
+import type { SyntheticModelsResponse, SyntheticProviderConfig } from "./types.js";
+
+/** A permalink whose target differs between two catalog snapshots. */
+export interface PermalinkChange {
+	id: string;
+	from: string;
+	to: string;
+}
+
+/** Permalink id → Hugging Face id for every resolvable `syn:*` row in a `/models` response. */
+export function getPermalinkTargets(response: SyntheticModelsResponse): Record<string, string> {
+	const targets: Record<string, string> = {};
+	for (const model of response.data) {
+		const target = getPermalinkTarget(model);
+		if (target) targets[model.id] = target;
+	}
+	return targets;
+}
+
+/** Current target of a permalink id; own keys only, so ids like `constructor` never resolve. */
+export function resolvePermalink(targets: Readonly<Record<string, string>>, modelId: string): string | undefined {
+	return Object.hasOwn(targets, modelId) ? targets[modelId] : undefined;
+}
+
+/**
+ * Permalinks present in both snapshots with different targets. Permalinks that
+ * appear or disappear are not changes: a fallback catalog simply has none.
+ */
+export function diffPermalinkTargets(
+	previous: Readonly<Record<string, string>>,
+	next: Readonly<Record<string, string>>,
+): PermalinkChange[] {
+	return Object.entries(next)
+		.filter(([id, to]) => resolvePermalink(previous, id) !== undefined && previous[id] !== to)
+		.map(([id, to]) => ({ id, from: previous[id], to }));
+}
+
+export function formatPermalinkChange(change: PermalinkChange): string {
+	return `Synthetic re-pointed ${change.id}: ${change.from} → ${change.to}`;
+}
+
+/** Pinning is opt-in: `--synthetic-pin-permalinks`, SYNTHETIC_PIN_PERMALINKS=1, or `pinPermalinks` in the config. */
+export function isPermalinkPinningEnabled(pi: ExtensionAPI, config: SyntheticProviderConfig): boolean {
+	if (pi.getFlag("synthetic-pin-permalinks") === true) return true;
+	const envValue = process.env.SYNTHETIC_PIN_PERMALINKS?.trim().toLowerCase();
+	if (envValue !== undefined && envValue !== "") return envValue === "1" || envValue === "true";
+	return config.pinPermalinks === true;
+}
+
+/**
+ * Switch the session from a permalink to the `hf:` id it resolves to right now,
+ * so a re-point mid-task cannot change the model underneath it.
+ */
+export async function pinPermalinkModel(
+	pi: ExtensionAPI,
+	ctx: ExtensionContext,
+	modelId: string,
+	target: string,
+): Promise<boolean> {
+	const pinnedId = `hf:${target}`;
+	const pinnedModel = ctx.modelRegistry.find("synthetic", pinnedId);
+	if (!pinnedModel) {
+		ctx.ui.notify(
+			`Cannot pin ${formatPermalink(modelId, target)}: synthetic/${pinnedId} is not registered in pi`,
+			"warning",
+		);
+		return false;
+	}
+	if (!(await pi.setModel(pinnedModel))) {
+		ctx.ui.notify(`Cannot pin ${modelId}: no API key available for synthetic/${pinnedId}`, "warning");
+		return false;
+	}
+	ctx.ui.notify(`Pinned ${modelId} to synthetic/${pinnedId} for this session`, "info");
+	return true;
+}
@@ -0,0 +1,149 @@
+/**
+ * User configuration for the Synthetic provider: `pi-synthetic-provider.json`.
+ *
+ * Looked up like the other pi extension configs: `--synthetic-config` or
+ * SYNTHETIC_CONFIG when set, otherwise `.pi/extensions/` in the project, then
+ * `extensions/` in the agent dir. The first file found wins; files are not merged.
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { isAbsolute, join, resolve } from "node:path";
+import { type ExtensionAPI, type ExtensionContext, getAgentDir } from "@earendil-works/pi-coding-agent";
+import type { SyntheticCatalogOptions } from "./catalog-cache.js";
+import { SYNTHETIC_MODELS_FETCH_TIMEOUT_MS } from "./config.js";
+import type { SyntheticModelOverride, SyntheticProviderConfig } from "./types.js";
+
+export const CONFIG_FILENAME = "pi-synthetic-provider.json";
+
+const THINKING_LEVELS = ["off", "minimal", "low", "medium", "high", "xhigh", "max"] as const;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function normalizeString(value: unknown): string | undefined {
+	return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+function normalizePositiveNumber(value: unknown): number | undefined {
+	return typeof value === "number" && Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+function normalizePatterns(value: unknown): string[] | undefined {
+	if (!Array.isArray(value)) return undefined;
+	const patterns = value.map(normalizeString).filter((pattern): pattern is string => pattern !== undefined);
+	return patterns.length > 0 ? patterns : undefined;
+}
+
+function parseModelOverride(raw: unknown, key: string, pathHint: string): SyntheticModelOverride {
+	if (!isRecord(raw)) {
+		throw new Error(`Invalid Synthetic provider config at ${pathHint}: modelOverrides["${key}"] must be an object.`);
+	}
+
+	const override: SyntheticModelOverride = {};
+	const contextWindow = normalizePositiveNumber(raw.contextWindow);
+	const maxTokens = normalizePositiveNumber(raw.maxTokens);
+	if (contextWindow !== undefined) override.contextWindow = contextWindow;
+	if (maxTokens !== undefined) override.maxTokens = maxTokens;
+	if (isRecord(raw.compat)) override.compat = raw.compat as SyntheticModelOverride["compat"];
+
+	if (isRecord(raw.thinkingLevelMap)) {
+		const thinkingLevelMap: NonNullable<SyntheticModelOverride["thinkingLevelMap"]> = {};
+		for (const level of THINKING_LEVELS) {
+			const value = raw.thinkingLevelMap[level];
+			if (typeof value === "string" || value === null) thinkingLevelMap[level] = value;
+		}
+		override.thinkingLevelMap = thinkingLevelMap;
+	}
+	return override;
+}
+
+export function parseSyntheticProviderConfig(raw: unknown, pathHint: string): SyntheticProviderConfig {
+	if (!isRecord(raw)) {
+		throw new Error(`Invalid Synthetic provider config at ${pathHint}: expected an object.`);
+	}
+
+	const config: SyntheticProviderConfig = {
+		baseUrl: normalizeString(raw.baseUrl),
+		timeoutMs: normalizePositiveNumber(raw.timeoutMs),
+		includeModels: normalizePatterns(raw.includeModels),
+		excludeModels: normalizePatterns(raw.excludeModels),
+		pinPermalinks: typeof raw.pinPermalinks === "boolean" ? raw.pinPermalinks : undefined,
+		account: normalizeString(raw.account),
+		allowedCountries: normalizePatterns(raw.allowedCountries)?.map((code) => code.toUpperCase()),
+		fallbackModels: normalizePatterns(raw.fallbackModels),
+		costEstimate: typeof raw.costEstimate === "boolean" ? raw.costEstimate : undefined,
+		requestBudget: normalizePositiveNumber(raw.requestBudget),
+		sessionBudget: normalizePositiveNumber(raw.sessionBudget),
+	};
+	if (isRecord(raw.modelOverrides)) {
+		config.modelOverrides = Object.fromEntries(
+			Object.entries(raw.modelOverrides).map(([key, value]) => [key, parseModelOverride(value, key, pathHint)]),
+		);
+	}
+	return config;
+}
+
+function resolveConfigPath(configPath: string): string {
+	const trimmed = configPath.trim();
+	if (trimmed.startsWith("~/")) return join(homedir(), trimmed.slice(2));
+	if (trimmed.startsWith("~")) return join(homedir(), trimmed.slice(1));
+	if (isAbsolute(trimmed)) return trimmed;
+	return resolve(process.cwd(), trimmed);
+}
+
+/** Candidate paths in precedence order: an explicit path alone, else project then global. */
+export function getSyntheticConfigPaths(configPath?: string): string[] {
+	const explicit = configPath || process.env.SYNTHETIC_CONFIG;
+	if (explicit) return [resolveConfigPath(explicit)];
+	return [
+		join(process.cwd(), ".pi", "extensions", CONFIG_FILENAME),
+		join(getAgentDir(), "extensions", CONFIG_FILENAME),
+	];
+}
+
+/**
+ * Load the first readable config. A malformed file is reported through `warn`
+ * and skipped, so a typo in the project file falls back to the global one.
+ */
+export function loadSyntheticProviderConfig(
+	configPath?: string,
+	warn: (message: string) => void = console.warn,
+): SyntheticProviderConfig {
+	for (const candidate of getSyntheticConfigPaths(configPath)) {
+		if (!existsSync(candidate)) continue;
+		try {
+			return parseSyntheticProviderConfig(JSON.parse(readFileSync(candidate, "utf-8")), candidate);
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			warn(`[Synthetic Provider] Ignoring config ${candidate}: ${message}`);
+		}
+	}
+	return {};
+}
+
+/**
+ * Config for the current run. `--synthetic-config` is only parsed after extensions
+ * load, so the load-time call sees SYNTHETIC_CONFIG or the default paths alone.
+ * With a UI attached, warnings go through it instead of the console.
+ */
+export function getSyntheticProviderConfig(pi: ExtensionAPI, ctx?: ExtensionContext): SyntheticProviderConfig {
+	const flagValue = pi.getFlag("synthetic-config");
+	return loadSyntheticProviderConfig(
+		typeof flagValue === "string" ? flagValue : undefined,
+		ctx?.hasUI ? (message) => ctx.ui.notify(message, "warning") : console.warn,
+	);
+}
+
+/** Catalog fetch options derived from the config, with built-in defaults filled in. */
+export function getCatalogOptions(config: SyntheticProviderConfig): SyntheticCatalogOptions {
+	return {
+		timeoutMs: config.timeoutMs ?? SYNTHETIC_MODELS_FETCH_TIMEOUT_MS,
+		baseUrl: config.baseUrl,
+		includeModels: config.includeModels,
+		excludeModels: config.excludeModels,
+		modelOverrides: config.modelOverrides,
+		allowedCountries: config.allowedCountries,
+	};
+}
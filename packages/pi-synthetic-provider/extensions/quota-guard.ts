@@ -0,0 +1,355 @@
+/**
+ * Background quota guard for the Synthetic provider.
+ *
+ * Polls `/v2/quotas` (rate-limited) when a turn starts on a Synthetic model,
+ * keeps a footer status with the limiting buckets, notifies as usage crosses
+ * configured thresholds, and optionally refuses the turn or switches to a
+ * fallback model (or the next model in the fallback chain) while a bucket is
+ * limited, switching back once it resets. Each poll is also recorded in the
+ * quota history.
+ */
+
+import type { ExtensionAPI, ExtensionContext } from "@earendil-works/pi-coding-agent";
+import { getActiveSyntheticAccountName, getSyntheticApiKey } from "./auth.js";
+import {
+	SYNTHETIC_QUOTA_FETCH_TIMEOUT_MS,
+	SYNTHETIC_QUOTA_POLL_INTERVAL_MS,
+	SYNTHETIC_QUOTA_WARN_THRESHOLDS,
+} from "./config.js";
+import { type FallbackChain, registerFallbackChain } from "./fallback-chain.js";
+import { fetchSyntheticQuota, formatTimeRemaining, getUsageColor, hasVisibleQuotaBucket } from "./quota.js";
+import { recordQuotaSnapshot } from "./quota-history.js";
+import type { QuotaBucket, SyntheticProviderConfig, SyntheticQuotaResponse } from "./types.js";
+
+export const QUOTA_STATUS_KEY = "synthetic-quota";
+
+/** What to do when a turn is about to start while a blocking bucket is limited. */
+export type QuotaLimitAction = "off" | "warn" | "block" | "switch";
+
+export interface QuotaGuardSettings {
+	action: QuotaLimitAction;
+	/** Model to switch to in `switch` mode: `provider/id`, or a bare Synthetic id. */
+	fallbackModel?: string;
+	/** Percent-used levels that trigger a notification, ascending. */
+	thresholds: number[];
+	pollIntervalMs: number;
+}
+
+export interface QuotaGuardBucket {
+	key: "rolling" | "weekly" | "subscription" | "search" | "toolCalls";
+	label: string;
+	/** Footer label; only buckets that gate model requests appear in the footer. */
+	shortLabel: string;
+	percentUsed: number;
+	limited: boolean;
+	/** Whether exhausting the bucket stops model requests (search and tool-call buckets do not). */
+	blocking: boolean;
+	resetsAt: string;
+}
+
+const QUOTA_LIMIT_ACTIONS: readonly QuotaLimitAction[] = ["off", "warn", "block", "switch"];
+
+function clampPercent(value: number): number {
+	return Math.max(0, Math.min(100, Number.isFinite(value) ? value : 0));
+}
+
+function legacyBucket(
+	key: QuotaGuardBucket["key"],
+	label: string,
+	shortLabel: string,
+	bucket: QuotaBucket,
+	blocking: boolean,
+): QuotaGuardBucket {
+	return {
+		key,
+		label,
+		shortLabel,
+		percentUsed: bucket.limit > 0 ? clampPercent((bucket.requests / bucket.limit) * 100) : 0,
+		limited: bucket.limit > 0 && bucket.requests >= bucket.limit,
+		blocking,
+		resetsAt: bucket.renewsAt,
+	};
+}
+
+/**
+ * Flatten a quota response into the buckets the guard watches. The legacy
+ * subscription bucket only gates requests for classic-plan accounts, mirroring
+ * what `/synthetic-quota` displays.
+ */
+export function getQuotaGuardBuckets(quota: SyntheticQuotaResponse): QuotaGuardBucket[] {
+	const buckets: QuotaGuardBucket[] = [];
+	const rolling = quota.rollingFiveHourLimit;
+	if (rolling) {
+		buckets.push({
+			key: "rolling",
+			label: "rolling 5h limit",
+			shortLabel: "5h",
+			percentUsed: rolling.max > 0 ? clampPercent(((rolling.max - rolling.remaining) / rolling.max) * 100) : 0,
+			limited: rolling.limited,
+			blocking: true,
+			resetsAt: rolling.nextTickAt,
+		});
+	}
+	const weekly = quota.weeklyTokenLimit;
+	if (weekly) {
+		const percentUsed = 100 - clampPercent(weekly.percentRemaining);
+		buckets.push({
+			key: "weekly",
+			label: "weekly token limit",
+			shortLabel: "week",
+			percentUsed,
+			limited: percentUsed >= 100,
+			blocking: true,
+			resetsAt: weekly.nextRegenAt,
+		});
+	}
+	if (!rolling && !weekly && hasVisibleQuotaBucket(quota.subscription)) {
+		buckets.push(legacyBucket("subscription", "subscription quota", "sub", quota.subscription, true));
+	}
+	if (hasVisibleQuotaBucket(quota.search?.hourly)) {
+		buckets.push(legacyBucket("search", "hourly search quota", "search", quota.search.hourly, false));
+	}
+	const toolCalls = hasVisibleQuotaBucket(quota.toolCallDiscounts) ? quota.toolCallDiscounts : quota.freeToolCalls;
+	if (hasVisibleQuotaBucket(toolCalls)) {
+		buckets.push(legacyBucket("toolCalls", "tool-call quota", "tools", toolCalls, false));
+	}
+	return buckets;
+}
+
+/** Highest threshold at or below `percentUsed`, or 0 when none has been reached. */
+export function getReachedThreshold(percentUsed: number, thresholds: readonly number[]): number {
+	let reached = 0;
+	for (const threshold of thresholds) {
+		if (percentUsed >= threshold && threshold > reached) reached = threshold;
+	}
+	return reached;
+}
+
+/** Footer text such as `Synthetic 5h 42% · week 18%`, or undefined when nothing gates requests. */
+export function formatQuotaGuardStatus(buckets: readonly QuotaGuardBucket[]): string | undefined {
+	const parts = buckets
+		.filter((bucket) => bucket.blocking)
+		.map((bucket) =>
+			bucket.limited ? `${bucket.shortLabel} limited` : `${bucket.shortLabel} ${Math.round(bucket.percentUsed)}%`,
+		);
+	return parts.length > 0 ? `Synthetic ${parts.join(" · ")}` : undefined;
+}
+
+/** The first blocking bucket that is limited and has not yet reset. */
+export function getActiveQuotaLimit(
+	buckets: readonly QuotaGuardBucket[],
+	now: number = Date.now(),
+): QuotaGuardBucket | undefined {
+	return buckets.find((bucket) => {
+		if (!bucket.blocking || !bucket.limited) return false;
+		const resetsAt = Date.parse(bucket.resetsAt);
+		return Number.isNaN(resetsAt) || resetsAt > now;
+	});
+}
+
+/**
+ * Split a fallback model reference into provider and id. Synthetic ids contain
+ * slashes themselves (`hf:zai-org/GLM-5.2`), so only a leading segment without a
+ * colon is treated as a provider.
+ */
+export function parseFallbackModelRef(ref: string): { provider: string; id: string } {
+	const slash = ref.indexOf("/");
+	const prefix = slash > 0 ? ref.slice(0, slash) : "";
+	if (prefix && !prefix.includes(":")) {
+		return { provider: prefix, id: ref.slice(slash + 1) };
+	}
+	return { provider: "synthetic", id: ref };
+}
+
+function parseThresholds(value: string): number[] | undefined {
+	const thresholds = value
+		.split(",")
+		.map((part) => Number(part.trim()))
+		.filter((threshold) => Number.isFinite(threshold) && threshold > 0 && threshold <= 100);
+	return thresholds.length > 0 ? [...new Set(thresholds)].sort((a, b) => a - b) : undefined;
+}
+
+function readSetting(pi: ExtensionAPI, flag: string, envName: string): string | undefined {
+	const flagValue = pi.getFlag(flag);
+	if (typeof flagValue === "string" && flagValue.trim()) return flagValue.trim();
+	const envValue = process.env[envName]?.trim();
+	return envValue || undefined;
+}
+
+/** Resolve settings from flags, then environment variables, then defaults. */
+export function getQuotaGuardSettings(pi: ExtensionAPI): QuotaGuardSettings {
+	const action = readSetting(pi, "synthetic-quota-guard", "SYNTHETIC_QUOTA_GUARD")?.toLowerCase();
+	const thresholds = readSetting(pi, "synthetic-quota-thresholds", "SYNTHETIC_QUOTA_THRESHOLDS");
+	const pollIntervalMs = Number(readSetting(pi, "synthetic-quota-poll-ms", "SYNTHETIC_QUOTA_POLL_MS"));
+	return {
+		action: QUOTA_LIMIT_ACTIONS.includes(action as QuotaLimitAction) ? (action as QuotaLimitAction) : "warn",
+		fallbackModel: readSetting(pi, "synthetic-quota-fallback-model", "SYNTHETIC_QUOTA_FALLBACK_MODEL"),
+		thresholds: (thresholds ? parseThresholds(thresholds) : undefined) ?? [...SYNTHETIC_QUOTA_WARN_THRESHOLDS],
+		pollIntervalMs:
+			Number.isFinite(pollIntervalMs) && pollIntervalMs >= 0 ? pollIntervalMs : SYNTHETIC_QUOTA_POLL_INTERVAL_MS,
+	};
+}
+
+function report(ctx: ExtensionContext, message: string, level: "info" | "warning" | "error"): void {
+	if (ctx.hasUI) {
+		ctx.ui.notify(message, level);
+	} else if (level === "info") {
+		console.log(`[Synthetic Provider] ${message}`);
+	} else {
+		console.warn(`[Synthetic Provider] ${message}`);
+	}
+}
+
+/**
+ * Switch mode moves along `fallbackChain`. Without one, the guard registers its
+ * own after its handlers; pass the provider's chain so there is only one.
+ */
+export function registerQuotaGuard(
+	pi: ExtensionAPI,
+	getConfig: () => SyntheticProviderConfig = () => ({}),
+	fallbackChain?: FallbackChain,
+): void {
+	pi.registerFlag("synthetic-quota-guard", {
+		description: "Action when a Synthetic quota is limited: off, warn (default), block, or switch.",
+		type: "string",
+	});
+	pi.registerFlag("synthetic-quota-fallback-model", {
+		description: "Model to switch to when a Synthetic quota is limited (with --synthetic-quota-guard=switch).",
+		type: "string",
+	});
+	pi.registerFlag("synthetic-quota-thresholds", {
+		description: "Comma-separated percent-used levels that trigger a quota notification (default: 80,95).",
+		type: "string",
+	});
+	pi.registerFlag("synthetic-quota-poll-ms", {
+		description: "Minimum interval between background quota polls (milliseconds, default: 60000).",
+		type: "string",
+	});
+
+	let buckets: QuotaGuardBucket[] | undefined;
+	let lastPollAt = 0;
+	let inFlight: Promise<void> | undefined;
+	let pollFailed = false;
+	// Account the snapshot belongs to; another account's quota is polled afresh.
+	let polledAccount: string | undefined;
+	// Highest threshold already announced per bucket, so each crossing notifies once.
+	const announced = new Map<QuotaGuardBucket["key"], number>();
+
+	const updateStatus = (ctx: ExtensionContext, provider = ctx.model?.provider) => {
+		if (!ctx.hasUI) return;
+		const text = provider === "synthetic" && buckets ? formatQuotaGuardStatus(buckets) : undefined;
+		if (!text || !buckets) {
+			ctx.ui.setStatus(QUOTA_STATUS_KEY, undefined);
+			return;
+		}
+		const worst = Math.max(...buckets.filter((bucket) => bucket.blocking).map((bucket) => bucket.percentUsed));
+		ctx.ui.setStatus(QUOTA_STATUS_KEY, ctx.ui.theme.fg(getUsageColor(worst), text));
+	};
+
+	const announce = (ctx: ExtensionContext, settings: QuotaGuardSettings, current: QuotaGuardBucket[]) => {
+		for (const bucket of current) {
+			const level = bucket.limited ? 100 : getReachedThreshold(bucket.percentUsed, settings.thresholds);
+			const previous = announced.get(bucket.key) ?? 0;
+			announced.set(bucket.key, level);
+			if (level <= previous) continue;
+
+			const resets = formatTimeRemaining(bucket.resetsAt);
+			if (bucket.limited) {
+				report(ctx, `Synthetic ${bucket.label} reached; resets in ${resets}`, "error");
+			} else {
+				report(
+					ctx,
+					`Synthetic ${bucket.label} at ${Math.round(bucket.percentUsed)}% used; resets in ${resets}`,
+					"warning",
+				);
+			}
+		}
+	};
+
+	const poll = async (ctx: ExtensionContext, settings: QuotaGuardSettings) => {
+		const apiKey = await getSyntheticApiKey(ctx);
+		if (!apiKey) return;
+		try {
+			const quota = await fetchSyntheticQuota(apiKey, {
+				signal: AbortSignal.timeout(SYNTHETIC_QUOTA_FETCH_TIMEOUT_MS),
+				baseUrl: getConfig().baseUrl,
+			});
+			pollFailed = false;
+			recordQuotaSnapshot(quota, getActiveSyntheticAccountName());
+			buckets = getQuotaGuardBuckets(quota);
+			updateStatus(ctx);
+			announce(ctx, settings, buckets);
+		} catch (error) {
+			// Report the first failure of a streak only; the guard keeps its last snapshot.
+			if (!pollFailed) {
+				const errorMessage = error instanceof Error ? error.message : String(error);
+				report(ctx, `Quota check failed: ${errorMessage}`, "warning");
+			}
+			pollFailed = true;
+		}
+	};
+
+	const pollIfDue = (ctx: ExtensionContext, settings: QuotaGuardSettings): Promise<void> => {
+		if (inFlight) return inFlight;
+		const account = getActiveSyntheticAccountName();
+		if (account !== polledAccount) {
+			polledAccount = account;
+			lastPollAt = 0;
+			buckets = undefined;
+			announced.clear();
+		}
+		if (lastPollAt > 0 && Date.now() - lastPollAt < settings.pollIntervalMs) return Promise.resolve();
+		lastPollAt = Date.now();
+		inFlight = poll(ctx, settings).finally(() => {
+			inFlight = undefined;
+		});
+		return inFlight;
+	};
+
+	// Warn mode never holds up a turn, so the poll runs in the background.
+	pi.on("before_agent_start", async (_event, ctx) => {
+		const settings = getQuotaGuardSettings(pi);
+		if (settings.action === "off" || ctx.model?.provider !== "synthetic") return;
+		void pollIfDue(ctx, settings);
+	});
+
+	// Blocking and switching must decide before the turn starts, on fresh data.
+	pi.on("input", async (event, ctx) => {
+		const settings = getQuotaGuardSettings(pi);
+		if (settings.action !== "block" && settings.action !== "switch") return;
+		// Steering and follow-up messages join a turn that has already started.
+		if (event.streamingBehavior || ctx.model?.provider !== "synthetic") return;
+
+		await pollIfDue(ctx, settings);
+		const limit = buckets && getActiveQuotaLimit(buckets);
+		if (!limit) return;
+
+		// An explicit fallback model takes precedence over the fallback chain; either is left once the limit resets.
+		const chain =
+			settings.action !== "switch" ? [] : settings.fallbackModel ? [settings.fallbackModel] : fallbacks.getChain();
+		if (chain.length > 0) {
+			if (settings.fallbackModel) {
+				const { provider, id } = parseFallbackModelRef(settings.fallbackModel);
+				if (ctx.model.provider === provider && ctx.model.id === id) return;
+			}
+			if (await fallbacks.switchToFallback(ctx, chain, `Synthetic ${limit.label} reached`, limit.resetsAt)) return;
+			report(ctx, `Synthetic ${limit.label} reached and no fallback model is available (${chain.join(", ")})`, "error");
+			return { action: "handled" };
+		}
+
+		const resets = formatTimeRemaining(limit.resetsAt);
+
+		report(ctx, `Synthetic ${limit.label} reached; turn not sent. Resets in ${resets}.`, "error");
+		return { action: "handled" };
+	});
+
+	pi.on("model_select", async (event, ctx) => {
+		updateStatus(ctx, event.model.provider);
+		const settings = getQuotaGuardSettings(pi);
+		if (settings.action !== "off" && event.model.provider === "synthetic") {
+			void pollIfDue(ctx, settings);
+		}
+	});
+
+	const fallbacks = fallbackChain ?? registerFallbackChain(pi, getConfig);
+}
@@ -0,0 +1,204 @@
+/**
+ * Local quota history for the Synthetic provider.
+ *
+ * Every successful quota fetch (the background guard's polls and `/synthetic-quota`)
+ * appends a snapshot of the rolling and weekly limits to a JSONL file under the
+ * agent dir. The history drives the sparklines, burn rates, and exhaustion
+ * forecasts shown by `/synthetic-quota`. Recording is best effort: a history file
+ * that cannot be written never fails a quota check.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { getAgentDir } from "@earendil-works/pi-coding-agent";
+import {
+	SYNTHETIC_QUOTA_BURN_WINDOW_MS,
+	SYNTHETIC_QUOTA_HISTORY_RETENTION_MS,
+	SYNTHETIC_QUOTA_SPARKLINE_SPAN_MS,
+} from "./config.js";
+import { formatTimeRemaining } from "./quota.js";
+import type { SyntheticQuotaResponse } from "./types.js";
+
+/** Limits with a history: the rolling five-hour limit and the weekly token limit. */
+export type QuotaHistoryKey = "rolling" | "weekly";
+
+/** One line of `quota-history.jsonl`; limit values are percent used. */
+export interface QuotaSnapshot {
+	/** ISO timestamp of the fetch. */
+	at: string;
+	account: string;
+	rolling?: number;
+	weekly?: number;
+}
+
+export interface QuotaForecast {
+	/** Percent of the limit used per hour over the burn window. */
+	burnRatePerHour: number;
+	/** When the limit runs out at this pace; omitted while usage is not growing. */
+	exhaustsAt?: string;
+}
+
+const SPARKLINE_LEVELS = "▁▂▃▄▅▆▇█";
+
+// A burn rate from samples closer together than this is mostly noise.
+const MIN_FORECAST_SPAN_MS = 15 * 60_000;
+
+/** `<agent-dir>/cache/pi-synthetic-provider/quota-history.jsonl`, next to the catalog cache. */
+export function getQuotaHistoryPath(agentDir: string = getAgentDir()): string {
+	return join(agentDir, "cache", "pi-synthetic-provider", "quota-history.jsonl");
+}
+
+function roundPercent(value: number): number {
+	return Number(Math.max(0, Math.min(100, value)).toFixed(2));
+}
+
+/** Snapshot of a quota response, or undefined when it reports neither a rolling nor a weekly limit. */
+export function getQuotaSnapshot(
+	quota: SyntheticQuotaResponse,
+	account: string,
+	now: number = Date.now(),
+): QuotaSnapshot | undefined {
+	const rolling = quota.rollingFiveHourLimit;
+	const weekly = quota.weeklyTokenLimit;
+	if (!rolling && !weekly) return undefined;
+
+	const snapshot: QuotaSnapshot = { at: new Date(now).toISOString(), account };
+	if (rolling && rolling.max > 0)
+		snapshot.rolling = roundPercent(((rolling.max - rolling.remaining) / rolling.max) * 100);
+	if (weekly) snapshot.weekly = roundPercent(100 - weekly.percentRemaining);
+	return snapshot;
+}
+
+function parseSnapshot(line: string): QuotaSnapshot | undefined {
+	try {
+		const parsed: unknown = JSON.parse(line);
+		if (typeof parsed !== "object" || parsed === null) return undefined;
+		const snapshot = parsed as Partial<QuotaSnapshot>;
+		if (typeof snapshot.at !== "string" || Number.isNaN(Date.parse(snapshot.at))) return undefined;
+		if (typeof snapshot.account !== "string") return undefined;
+		return snapshot as QuotaSnapshot;
+	} catch {
+		return undefined;
+	}
+}
+
+function readSnapshots(path: string): QuotaSnapshot[] {
+	if (!existsSync(path)) return [];
+	try {
+		return readFileSync(path, "utf-8")
+			.split("\n")
+			.map(parseSnapshot)
+			.filter((snapshot): snapshot is QuotaSnapshot => snapshot !== undefined);
+	} catch {
+		return [];
+	}
+}
+
+/** Snapshots for one account, oldest first. Malformed lines are skipped. */
+export function readQuotaHistory(account: string, path: string = getQuotaHistoryPath()): QuotaSnapshot[] {
+	return readSnapshots(path)
+		.filter((snapshot) => snapshot.account === account)
+		.sort((a, b) => Date.parse(a.at) - Date.parse(b.at));
+}
+
+/**
+ * Append a snapshot of `quota` for `account`. Once the oldest line is past the
+ * retention period, the file is rewritten without the expired lines.
+ */
+export function recordQuotaSnapshot(
+	quota: SyntheticQuotaResponse,
+	account: string,
+	path: string = getQuotaHistoryPath(),
+	now: number = Date.now(),
+): QuotaSnapshot | undefined {
+	const snapshot = getQuotaSnapshot(quota, account, now);
+	if (!snapshot) return undefined;
+
+	try {
+		mkdirSync(dirname(path), { recursive: true });
+		appendFileSync(path, `${JSON.stringify(snapshot)}\n`, "utf-8");
+
+		const snapshots = readSnapshots(path);
+		const cutoff = now - SYNTHETIC_QUOTA_HISTORY_RETENTION_MS;
+		if (snapshots.length > 0 && Date.parse(snapshots[0].at) < cutoff) {
+			const kept = snapshots.filter((entry) => Date.parse(entry.at) >= cutoff);
+			const tempPath = `${path}.${process.pid}.tmp`;
+			writeFileSync(tempPath, kept.map((entry) => `${JSON.stringify(entry)}\n`).join(""), "utf-8");
+			renameSync(tempPath, path);
+		}
+	} catch {
+		return undefined;
+	}
+	return snapshot;
+}
+
+/**
+ * Usage over the last `spanMs` as a sparkline of `width` columns, each the
+ * highest value recorded in its slice of time. Slices without a sample show `·`.
+ */
+export function buildQuotaSparkline(
+	history: readonly QuotaSnapshot[],
+	key: QuotaHistoryKey,
+	width = 24,
+	spanMs: number = SYNTHETIC_QUOTA_SPARKLINE_SPAN_MS,
+	now: number = Date.now(),
+): string {
+	const columns: (number | undefined)[] = Array.from({ length: width }, () => undefined);
+	const start = now - spanMs;
+	for (const snapshot of history) {
+		const value = snapshot[key];
+		const at = Date.parse(snapshot.at);
+		if (value === undefined || at < start || at > now) continue;
+		const column = Math.min(width - 1, Math.floor(((at - start) / spanMs) * width));
+		columns[column] = Math.max(columns[column] ?? 0, value);
+	}
+	return columns
+		.map((value) =>
+			value === undefined
+				? "·"
+				: SPARKLINE_LEVELS[Math.round((Math.max(0, Math.min(100, value)) / 100) * (SPARKLINE_LEVELS.length - 1))],
+		)
+		.join("");
+}
+
+/**
+ * Burn rate over the last `windowMs` and when the limit runs out at that pace.
+ * Only increases between samples count, so a limit that regenerates in the
+ * meantime still shows the pace of use; for the rolling limit, which keeps
+ * regenerating, the projected exhaustion is therefore a pessimistic estimate.
+ * Undefined until the window holds samples at least 15 minutes apart.
+ */
+export function getQuotaForecast(
+	history: readonly QuotaSnapshot[],
+	key: QuotaHistoryKey,
+	currentPercentUsed: number,
+	windowMs: number = SYNTHETIC_QUOTA_BURN_WINDOW_MS,
+	now: number = Date.now(),
+): QuotaForecast | undefined {
+	const samples = history
+		.filter((snapshot) => snapshot[key] !== undefined && Date.parse(snapshot.at) >= now - windowMs)
+		.map((snapshot) => ({ at: Date.parse(snapshot.at), value: snapshot[key] as number }));
+	if (samples.length < 2) return undefined;
+
+	const spanMs = samples[samples.length - 1].at - samples[0].at;
+	if (spanMs < MIN_FORECAST_SPAN_MS) return undefined;
+
+	let used = 0;
+	for (let i = 1; i < samples.length; i++) {
+		used += Math.max(0, samples[i].value - samples[i - 1].value);
+	}
+	const burnRatePerHour = used / (spanMs / 3600_000);
+	if (burnRatePerHour <= 0) return { burnRatePerHour: 0 };
+
+	const hoursLeft = Math.max(0, 100 - currentPercentUsed) / burnRatePerHour;
+	return { burnRatePerHour, exhaustsAt: new Date(now + hoursLeft * 3600_000).toISOString() };
+}
+
+/** e.g. `4.2%/h · runs out in ~3h 10m at this pace`, or `no usage in the last 3h`. */
+export function formatQuotaForecast(
+	forecast: QuotaForecast,
+	windowMs: number = SYNTHETIC_QUOTA_BURN_WINDOW_MS,
+): string {
+	if (!forecast.exhaustsAt) return `no usage in the last ${Math.round(windowMs / 3600_000)}h`;
+	return `${forecast.burnRatePerHour.toFixed(1)}%/h · runs out in ~${formatTimeRemaining(forecast.exhaustsAt)} at this pace`;
+}
@@ -5,16 +5,37 @@
 import { SYNTHETIC_QUOTAS_ENDPOINT } from "./config.js";
 import type { QuotaBucket, SyntheticQuotaResponse } from "./types.js";
 
+export interface FetchSyntheticQuotaOptions {
+	/** Abort the request, e.g. `AbortSignal.timeout()` for background polls. */
+	signal?: AbortSignal;
+	/** The configured API base URL; the quotas endpoint is looked up on the same host. */
+	baseUrl?: string;
+}
+
+/**
+ * `/v2/quotas` next to the configured base URL: its `/openai/v1` suffix is replaced,
+ * so a proxy or local mock that serves the chat API also receives the quota requests
+ * (and the API key sent with them).
+ */
+export function getSyntheticQuotasEndpoint(baseUrl?: string): string {
+	if (!baseUrl) return SYNTHETIC_QUOTAS_ENDPOINT;
+	return `${baseUrl.replace(/\/+$/, "").replace(/\/openai\/v1$/, "")}/v2/quotas`;
+}
+
 /**
  * Fetch quota information from the Synthetic API.
  * Requires an API key (returns null if not provided).
  */
-export async function fetchSyntheticQuota(apiKey: string): Promise<SyntheticQuotaResponse> {
-	const response = await fetch(SYNTHETIC_QUOTAS_ENDPOINT, {
+export async function fetchSyntheticQuota(
+	apiKey: string,
+	options: FetchSyntheticQuotaOptions = {},
+): Promise<SyntheticQuotaResponse> {
+	const response = await fetch(getSyntheticQuotasEndpoint(options.baseUrl), {
 		headers: {
 			Authorization: `Bearer ${apiKey}`,
 			Accept: "application/json",
 		},
+		signal: options.signal,
 	});
 
 	if (!response.ok) {
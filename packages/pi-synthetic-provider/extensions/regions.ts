@@ -0,0 +1,45 @@
+/**
+ * Datacenter regions of Synthetic models: the `allowedCountries` restriction
+ * from `pi-synthetic-provider.json`, and the region shown when a model is selected.
+ */
+
+import { formatCountryCode } from "./formatting.js";
+import type { SyntheticModel, SyntheticModelsResponse } from "./types.js";
+
+/** Upper-case ISO 3166-1 alpha-2 codes of the datacenters a catalog row runs in. */
+export function getModelCountries(model: Pick<SyntheticModel, "datacenters">): string[] {
+	const codes = (model.datacenters ?? []).map((datacenter) => datacenter.country_code.trim().toUpperCase());
+	return [...new Set(codes.filter(Boolean))];
+}
+
+/** Model id → datacenter country codes for every row of a `/models` response that reports any. */
+export function getModelRegions(response: SyntheticModelsResponse): Record<string, string[]> {
+	const regions: Record<string, string[]> = {};
+	for (const model of response.data) {
+		const countries = getModelCountries(model);
+		if (countries.length > 0) regions[model.id] = countries;
+	}
+	return regions;
+}
+
+/**
+ * Why `allowedCountries` drops a row, if it does. A row without datacenter
+ * metadata cannot be shown to comply, so it is dropped as well.
+ */
+export function getRegionExclusionReason(
+	model: Pick<SyntheticModel, "datacenters">,
+	allowedCountries: readonly string[] | undefined,
+): string | undefined {
+	if (!allowedCountries) return undefined;
+	const countries = getModelCountries(model);
+	const allowed = allowedCountries.join(", ");
+	if (countries.length === 0) return `no datacenter metadata to check against allowedCountries (${allowed})`;
+	if (countries.some((country) => allowedCountries.includes(country))) return undefined;
+	return `runs only in ${countries.join(", ")}, outside allowedCountries (${allowed})`;
+}
+
+/** e.g. `United States (US), Germany (DE)`; undefined when the model's region is unknown. */
+export function formatModelRegion(regions: Readonly<Record<string, string[]>>, modelId: string): string | undefined {
+	const countries = Object.hasOwn(regions, modelId) ? regions[modelId] : undefined;
+	return countries && countries.length > 0 ? countries.map(formatCountryCode).join(", ") : undefined;
+}
@@ -0,0 +1,79 @@
+/**
+ * Status widget shown below the editor while a Synthetic model is active.
+ *
+ * One line with the model, its context window, the reasoning effort pi will
+ * send, and its price tier, refreshed on model and thinking-level changes. The
+ * quota guard's footer status carries the quota figures, so they are not repeated.
+ */
+
+import type { ExtensionAPI, ExtensionContext, ProviderModelConfig } from "@earendil-works/pi-coding-agent";
+import { SYNTHETIC_PRICE_TIERS } from "./config.js";
+import { formatContextTokens } from "./formatting.js";
+
+export const STATUS_WIDGET_KEY = "synthetic-status";
+
+export type PriceTier = "free" | "budget" | "standard" | "premium";
+
+type WidgetModel = Pick<
+	ProviderModelConfig,
+	"id" | "name" | "reasoning" | "contextWindow" | "cost" | "thinkingLevelMap"
+>;
+
+/** Tier by output price, which dominates the cost of an agent turn. */
+export function getPriceTier(cost: Pick<ProviderModelConfig["cost"], "input" | "output">): PriceTier {
+	if (cost.input <= 0 && cost.output <= 0) return "free";
+	if (cost.output <= SYNTHETIC_PRICE_TIERS.budget) return "budget";
+	if (cost.output <= SYNTHETIC_PRICE_TIERS.standard) return "standard";
+	return "premium";
+}
+
+/** e.g. `192K context · standard $1.00/$3.00 per M`; also used in the model-selection notification. */
+export function formatModelSummary(model: Pick<WidgetModel, "contextWindow" | "cost">): string {
+	const prices = `$${model.cost.input.toFixed(2)}/$${model.cost.output.toFixed(2)} per M`;
+	return `${formatContextTokens(model.contextWindow)} context · ${getPriceTier(model.cost)} ${prices}`;
+}
+
+/**
+ * The `reasoning_effort` pi sends at `level`: the model's mapped value when it
+ * has a `thinkingLevelMap`, the level name otherwise.
+ */
+export function formatReasoningEffort(
+	model: Pick<WidgetModel, "reasoning" | "thinkingLevelMap">,
+	level: string,
+): string {
+	if (!model.reasoning) return "no reasoning";
+	if (level === "off") return "thinking off";
+	const map: Record<string, string | null | undefined> = model.thinkingLevelMap ?? {};
+	if (!Object.hasOwn(map, level)) return `effort ${level}`;
+	const effort = map[level];
+	return effort ? `effort ${effort}` : `effort ${level} (unsupported)`;
+}
+
+export function formatStatusWidget(model: WidgetModel, level: string): string {
+	return [`Synthetic ${model.name || model.id}`, formatModelSummary(model), formatReasoningEffort(model, level)].join(
+		" · ",
+	);
+}
+
+export function registerStatusWidget(pi: ExtensionAPI): void {
+	const update = (ctx: ExtensionContext, model = ctx.model, level: string = pi.getThinkingLevel()) => {
+		if (!ctx.hasUI) return;
+		if (model?.provider !== "synthetic") {
+			ctx.ui.setWidget(STATUS_WIDGET_KEY, undefined);
+			return;
+		}
+		ctx.ui.setWidget(STATUS_WIDGET_KEY, [formatStatusWidget(model, level)], { placement: "belowEditor" });
+	};
+
+	pi.on("session_start", async (_event, ctx) => {
+		update(ctx);
+	});
+
+	pi.on("model_select", async (event, ctx) => {
+		update(ctx, event.model);
+	});
+
+	pi.on("thinking_level_select", async (event, ctx) => {
+		update(ctx, ctx.model, event.level);
+	});
+}
@@ -2,6 +2,8 @@
  * Shared type definitions for the Synthetic provider extension.
  */
 
+import type { ProviderModelConfig } from "@earendil-works/pi-coding-agent";
+
 export interface SyntheticModel {
 	id: string;
 	hugging_face_id: string;
@@ -29,6 +31,75 @@ export interface SyntheticModelsResponse {
 	data: SyntheticModel[];
 }
 
+/** Catalog row as printed by `/synthetic-models --json`; prices are $ per million tokens. */
+export interface SyntheticCatalogRecord {
+	id: string;
+	name: string;
+	provider: string;
+	huggingFaceId: string;
+	contextLength: number;
+	maxOutputLength: number;
+	pricing: { input: number; output: number; cacheRead: number; cacheWrite: number };
+	capabilities: string[];
+	reasoningEfforts: string[];
+	datacenters: string[];
+	alwaysOn: boolean;
+	/** Hugging Face id a `syn:*` permalink currently points to. */
+	permalinkTarget?: string;
+	/** Why pi does not register this model; omitted for registered models. */
+	excludedReason?: string;
+}
+
+/** Last good `/models` response persisted under the agent dir. */
+export interface SyntheticCatalogCacheEntry {
+	version: 1;
+	/** ISO timestamp of the last successful fetch or 304 revalidation. */
+	fetchedAt: string;
+	etag?: string;
+	/** API base URL the response came from; absent for the default Synthetic API. */
+	baseUrl?: string;
+	response: SyntheticModelsResponse;
+}
+
+/** Per-model settings from `pi-synthetic-provider.json`, applied over the catalog values. */
+export interface SyntheticModelOverride {
+	contextWindow?: number;
+	maxTokens?: number;
+	compat?: ProviderModelConfig["compat"];
+	thinkingLevelMap?: ProviderModelConfig["thinkingLevelMap"];
+}
+
+/** Contents of `pi-synthetic-provider.json`; every key is optional. */
+export interface SyntheticProviderConfig {
+	/** OpenAI-compatible API base URL, e.g. a proxy or a local mock. */
+	baseUrl?: string;
+	/** Timeout for `/models` fetches in milliseconds. */
+	timeoutMs?: number;
+	/** Glob patterns over model ids; when set, only matching models are registered. */
+	includeModels?: string[];
+	/** Glob patterns over model ids that are never registered. */
+	excludeModels?: string[];
+	/** Keyed by model id or glob pattern; later matching keys win. */
+	modelOverrides?: Record<string, SyntheticModelOverride>;
+	/** Switch sessions from a `syn:*` permalink to the `hf:` id it currently resolves to. */
+	pinPermalinks?: boolean;
+	/** Named account whose key this project uses: `synthetic:<name>` in auth.json or SYNTHETIC_API_KEY_<NAME>. */
+	account?: string;
+	/** ISO country codes of the datacenters models may run in; rows with none of them are not registered. */
+	allowedCountries?: string[];
+	/** Models to fall back to, in order, on Synthetic 429/5xx errors: `provider/id` or a bare Synthetic id. */
+	fallbackModels?: string[];
+	/** Show the estimated cost of the next Synthetic request in the footer. */
+	costEstimate?: boolean;
+	/** Dollar cap for the worst case of the request a prompt starts; exceeding it asks for confirmation. */
+	requestBudget?: number;
+	/** Dollar cap for the session's Synthetic spend; exceeding it asks for confirmation. */
+	sessionBudget?: number;
+}
+
+/** Where the currently registered models came from. */
+export type SyntheticCatalogSource = "live" | "cache" | "fallback";
+
 export interface QuotaBucket {
 	limit: number;
 	requests: number;
@@ -58,3 +129,42 @@ export interface SyntheticQuotaResponse {
 	weeklyTokenLimit?: WeeklyTokenLimit;
 	rollingFiveHourLimit?: RollingFiveHourLimit;
 }
+
+export interface UsageCost {
+	input: number;
+	output: number;
+	cacheRead: number;
+	cacheWrite: number;
+	total: number;
+}
+
+export interface UsageTotals {
+	turns: number;
+	input: number;
+	output: number;
+	cacheRead: number;
+	cacheWrite: number;
+	totalTokens: number;
+	cost: UsageCost;
+}
+
+/** One Synthetic assistant response recorded in the session. */
+export interface UsageLedgerTurn {
+	/** 1-based position among the session's Synthetic turns. */
+	turn: number;
+	timestamp: string;
+	model: string;
+	input: number;
+	output: number;
+	cacheRead: number;
+	cacheWrite: number;
+	totalTokens: number;
+	cost: UsageCost;
+}
+
+export interface UsageLedger {
+	turns: UsageLedgerTurn[];
+	/** Per-model totals, most expensive first. */
+	models: Array<UsageTotals & { model: string }>;
+	totals: UsageTotals;
+}
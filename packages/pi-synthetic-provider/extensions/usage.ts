@@ -0,0 +1,153 @@
+/**
+ * Per-session cost and token ledger for the `synthetic` provider.
+ *
+ * The ledger is derived from the assistant messages pi already records in the
+ * session file, so it survives resume and reload without any extension state.
+ * Dollar amounts are each message's `usage.cost`, which pi computes from the
+ * registered catalog prices in effect when the turn ran.
+ */
+
+import type { SessionEntry } from "@earendil-works/pi-coding-agent";
+import type { UsageCost, UsageLedger, UsageLedgerTurn, UsageTotals } from "./types.js";
+
+interface RecordedUsage {
+	input?: number;
+	output?: number;
+	cacheRead?: number;
+	cacheWrite?: number;
+	totalTokens?: number;
+	cost?: Partial<UsageCost>;
+}
+
+function toNumber(value: unknown): number {
+	return typeof value === "number" && Number.isFinite(value) ? value : 0;
+}
+
+function emptyTotals(): UsageTotals {
+	return {
+		turns: 0,
+		input: 0,
+		output: 0,
+		cacheRead: 0,
+		cacheWrite: 0,
+		totalTokens: 0,
+		cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, total: 0 },
+	};
+}
+
+function addTurn(totals: UsageTotals, turn: UsageLedgerTurn): void {
+	totals.turns += 1;
+	totals.input += turn.input;
+	totals.output += turn.output;
+	totals.cacheRead += turn.cacheRead;
+	totals.cacheWrite += turn.cacheWrite;
+	totals.totalTokens += turn.totalTokens;
+	totals.cost.input += turn.cost.input;
+	totals.cost.output += turn.cost.output;
+	totals.cost.cacheRead += turn.cost.cacheRead;
+	totals.cost.cacheWrite += turn.cost.cacheWrite;
+	totals.cost.total += turn.cost.total;
+}
+
+/**
+ * Build the ledger from session entries. Pass every entry (`getEntries()`), not
+ * just the current branch: abandoned branches were billed too.
+ */
+export function buildUsageLedger(entries: readonly SessionEntry[]): UsageLedger {
+	const turns: UsageLedgerTurn[] = [];
+	const byModel = new Map<string, UsageTotals>();
+	const totals = emptyTotals();
+
+	for (const entry of entries) {
+		if (entry.type !== "message") continue;
+		const message = entry.message as { role?: string; provider?: string; model?: string; usage?: RecordedUsage };
+		if (message.role !== "assistant" || message.provider !== "synthetic" || !message.usage) continue;
+
+		const usage = message.usage;
+		const input = toNumber(usage.input);
+		const output = toNumber(usage.output);
+		const cacheRead = toNumber(usage.cacheRead);
+		const cacheWrite = toNumber(usage.cacheWrite);
+		const cost: UsageCost = {
+			input: toNumber(usage.cost?.input),
+			output: toNumber(usage.cost?.output),
+			cacheRead: toNumber(usage.cost?.cacheRead),
+			cacheWrite: toNumber(usage.cost?.cacheWrite),
+			total: 0,
+		};
+		cost.total = toNumber(usage.cost?.total) || cost.input + cost.output + cost.cacheRead + cost.cacheWrite;
+
+		const turn: UsageLedgerTurn = {
+			turn: turns.length + 1,
+			timestamp: entry.timestamp,
+			model: message.model || "unknown",
+			input,
+			output,
+			cacheRead,
+			cacheWrite,
+			totalTokens: toNumber(usage.totalTokens) || input + output + cacheRead + cacheWrite,
+			cost,
+		};
+		turns.push(turn);
+		addTurn(totals, turn);
+
+		let modelTotals = byModel.get(turn.model);
+		if (!modelTotals) {
+			modelTotals = emptyTotals();
+			byModel.set(turn.model, modelTotals);
+		}
+		addTurn(modelTotals, turn);
+	}
+
+	const models = [...byModel.entries()]
+		.map(([model, modelTotals]) => ({ model, ...modelTotals }))
+		.sort((a, b) => b.cost.total - a.cost.total || a.model.localeCompare(b.model));
+
+	return { turns, models, totals };
+}
+
+const CSV_COLUMNS = [
+	"turn",
+	"timestamp",
+	"model",
+	"input_tokens",
+	"output_tokens",
+	"cache_read_tokens",
+	"cache_write_tokens",
+	"total_tokens",
+	"input_cost_usd",
+	"output_cost_usd",
+	"cache_read_cost_usd",
+	"cache_write_cost_usd",
+	"total_cost_usd",
+] as const;
+
+function escapeCsv(value: string): string {
+	return /[",\n\r]/.test(value) ? `"${value.replaceAll('"', '""')}"` : value;
+}
+
+/** One row per turn; dollar amounts keep full precision for reconciliation. */
+export function formatUsageCsv(ledger: UsageLedger): string {
+	const rows = ledger.turns.map((turn) =>
+		[
+			String(turn.turn),
+			turn.timestamp,
+			escapeCsv(turn.model),
+			String(turn.input),
+			String(turn.output),
+			String(turn.cacheRead),
+			String(turn.cacheWrite),
+			String(turn.totalTokens),
+			String(turn.cost.input),
+			String(turn.cost.output),
+			String(turn.cost.cacheRead),
+			String(turn.cost.cacheWrite),
+			String(turn.cost.total),
+		].join(","),
+	);
+	return `${[CSV_COLUMNS.join(","), ...rows].join("\n")}\n`;
+}
+
+export function formatUsageJson(ledger: UsageLedger, sessionId?: string): string {
+	return `${JSON.stringify({ sessionId, generatedAt: new Date().toISOString(), ...ledger }, null, 2)}\n`;
+}
@@ -0,0 +1,136 @@
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { ExtensionAPI } from "@earendil-works/pi-coding-agent";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	clearCacheEntries,
+	formatCacheSummary,
+	getCacheDir,
+	getCacheKey,
+	listCacheEntries,
+	parseCacheConfig,
+	readCacheEntry,
+	registerWebCacheCommand,
+	resolveCacheTtlMs,
+	writeCacheEntry,
+} from "../src/index.js";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Set to make rmSync fail the way a read-only cache dir or a locked file does.
+const failingRm = vi.hoisted(() => ({ error: undefined as Error | undefined }));
+
+vi.mock("node:fs", async (importOriginal) => {
+	const actual = await importOriginal<typeof import("node:fs")>();
+	return {
+		...actual,
+		rmSync: (...args: Parameters<typeof actual.rmSync>) => {
+			if (failingRm.error) throw failingRm.error;
+			actual.rmSync(...args);
+		},
+	};
+});
+
+describe("web result cache", () => {
+	let agentDir: string;
+
+	beforeEach(() => {
+		agentDir = mkdtempSync(join(tmpdir(), "pi-web-cache-test-"));
+		vi.stubEnv("PI_CODING_AGENT_DIR", agentDir);
+	});
+
+	afterEach(() => {
+		failingRm.error = undefined;
+		vi.unstubAllEnvs();
+		rmSync(agentDir, { recursive: true, force: true });
+	});
+
+	it("keys entries by tool and normalized arguments", () => {
+		const key = getCacheKey("web_search_exa", { query: "pi", numResults: 5, type: undefined });
+		expect(getCacheKey("web_search_exa", { numResults: 5, query: "pi" })).toBe(key);
+		expect(getCacheKey("web_search_exa", { numResults: 6, query: "pi" })).not.toBe(key);
+		expect(getCacheKey("get_code_context_exa", { numResults: 5, query: "pi" })).not.toBe(key);
+	});
+
+	it("resolves per-tool TTLs from the config over the defaults", () => {
+		const defaults = { web_search_exa: 3600 };
+		expect(resolveCacheTtlMs("web_search_exa", undefined, defaults)).toBe(HOUR_MS);
+		expect(resolveCacheTtlMs("crawling_exa", undefined, defaults)).toBe(0);
+
+		const config = parseCacheConfig({ ttlSeconds: { web_search_exa: "60", crawling_exa: 600, bad: -1 } });
+		expect(config).toEqual({ enabled: undefined, ttlSeconds: { web_search_exa: 60, crawling_exa: 600 } });
+		expect(resolveCacheTtlMs("web_search_exa", config, defaults)).toBe(60_000);
+		expect(resolveCacheTtlMs("crawling_exa", config, defaults)).toBe(600_000);
+		expect(resolveCacheTtlMs("web_search_exa", parseCacheConfig(false), defaults)).toBe(0);
+	});
+
+	it("stores entries under the agent dir and drops them once expired", () => {
+		const now = Date.UTC(2026, 9, 19, 12);
+		writeCacheEntry("web_search_exa", { query: "pi" }, { content: [] }, HOUR_MS, now);
+
+		expect(getCacheDir()).toBe(join(agentDir, "cache", "web"));
+		expect(readCacheEntry("web_search_exa", { query: "pi" }, now + HOUR_MS - 1)?.value).toEqual({ content: [] });
+		expect(readCacheEntry("web_search_exa", { query: "pi" }, now + HOUR_MS)).toBeUndefined();
+		expect(existsSync(join(getCacheDir(), `${getCacheKey("web_search_exa", { query: "pi" })}.json`))).toBe(false);
+	});
+
+	it("skips entries it cannot remove instead of throwing", () => {
+		const now = Date.UTC(2026, 9, 19, 12);
+		writeCacheEntry("web_search_exa", { query: "a" }, {}, HOUR_MS, now - 2 * HOUR_MS);
+		writeCacheEntry("web_search_exa", { query: "b" }, {}, HOUR_MS, now);
+		failingRm.error = Object.assign(new Error("EPERM: operation not permitted"), { code: "EPERM" });
+
+		expect(readCacheEntry("web_search_exa", { query: "a" }, now)).toBeUndefined();
+		expect(clearCacheEntries({}, now)).toEqual({ removed: 0, failed: 2 });
+
+		failingRm.error = undefined;
+		expect(clearCacheEntries({ expiredOnly: true }, now)).toEqual({ removed: 1, failed: 0 });
+	});
+
+	it("summarizes, lists, and clears entries with the cache command", async () => {
+		const now = Date.now();
+		writeCacheEntry("web_search_exa", { query: "a" }, {}, HOUR_MS, now);
+		writeCacheEntry("web_search_exa", { query: "b" }, {}, HOUR_MS, now - 2 * HOUR_MS);
+		writeCacheEntry("firecrawl_scrape", { url: "https://example.com" }, {}, HOUR_MS, now);
+		expect(formatCacheSummary(listCacheEntries(), now)).toMatch(
+			/^3 cached web results \(.+\): (web_search_exa 2, firecrawl_scrape 1|firecrawl_scrape 1, web_search_exa 2) · 1 expired$/,
+		);
+
+		const mockPi = { registerCommand: vi.fn() };
+		registerWebCacheCommand(mockPi as unknown as ExtensionAPI, "exa-mcp-cache");
+		const [name, command] = mockPi.registerCommand.mock.calls[0];
+		expect(name).toBe("exa-mcp-cache");
+		const ctx = { hasUI: true, ui: { notify: vi.fn() } };
+
+		await command.handler("list firecrawl_scrape", ctx);
+		expect(ctx.ui.notify).toHaveBeenLastCalledWith(
+			'firecrawl_scrape · 0m old · expires in 1h · {"url":"https://example.com"}',
+			"info",
+		);
+
+		await command.handler("clear expired", ctx);
+		expect(ctx.ui.notify).toHaveBeenLastCalledWith("Removed 1 cached web result", "info");
+		await command.handler("clear web_search_exa", ctx);
+		expect(listCacheEntries().map((listing) => listing.tool)).toEqual(["firecrawl_scrape"]);
+		await command.handler("clear", ctx);
+		expect(listCacheEntries()).toEqual([]);
+
+		await command.handler("purge", ctx);
+		expect(ctx.ui.notify).toHaveBeenLastCalledWith(expect.stringContaining("Usage: /exa-mcp-cache"), "warning");
+	});
+
+	it("returns a failed write instead of logging it", () => {
+		const blocked = join(agentDir, "blocked");
+		writeFileSync(blocked, "", "utf-8");
+		vi.stubEnv("PI_CODING_AGENT_DIR", blocked);
+		const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+		const { entry, error } = writeCacheEntry("web_search_exa", { query: "pi" }, {}, HOUR_MS);
+
+		expect(entry.tool).toBe("web_search_exa");
+		expect(error).toMatch(/ENOTDIR|EEXIST/);
+		expect(warnSpy).not.toHaveBeenCalled();
+		warnSpy.mockRestore();
+	});
+});
@@ -0,0 +1,355 @@
+/**
+ * Local cache of web tool results, shared by pi-exa-mcp and pi-firecrawl.
+ *
+ * Entries are JSON files under `<agent-dir>/cache/web/`, named by the SHA-256 of
+ * the tool name and its normalized arguments, so a repeated call within a session
+ * or across sessions is answered without a request. Each tool has its own TTL;
+ * tools without one are never cached. Each extension registers a command, under
+ * its own name, that lists and clears the entries.
+ */
+
+import { createHash } from "node:crypto";
+import { mkdirSync, readdirSync, readFileSync, rmSync, statSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import type { ExtensionAPI, ExtensionCommandContext } from "@earendil-works/pi-coding-agent";
+import { formatSize, getAgentDir } from "@earendil-works/pi-coding-agent";
+import { Type } from "typebox";
+
+export const cacheParams = {
+	piNoCache: Type.Optional(
+		Type.Boolean({
+			description: "Skip the local result cache and fetch a fresh result (which replaces the cached one).",
+		}),
+	),
+};
+
+export interface CacheConfig {
+	enabled?: boolean;
+	/** Seconds per tool name; 0 turns caching off for that tool. */
+	ttlSeconds?: Record<string, number>;
+}
+
+export interface CacheEntry<T = unknown> {
+	tool: string;
+	args: unknown;
+	createdAt: number;
+	expiresAt: number;
+	value: T;
+}
+
+/** Added to tool result details when the tool is cached. */
+export interface CacheStatus {
+	hit: boolean;
+	cachedAt: string;
+	expiresAt: string;
+	/** Why the result could not be stored; the result itself is fine. */
+	writeError?: string;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function normalizeNumber(value: unknown): number | undefined {
+	if (typeof value === "number" && Number.isFinite(value)) return value;
+	if (typeof value === "string") {
+		const parsed = Number(value);
+		if (Number.isFinite(parsed)) return parsed;
+	}
+	return undefined;
+}
+
+function normalizeBoolean(value: unknown): boolean | undefined {
+	if (typeof value === "boolean") return value;
+	if (typeof value !== "string") return undefined;
+	const normalized = value.trim().toLowerCase();
+	if (normalized === "true" || normalized === "1") return true;
+	if (normalized === "false" || normalized === "0") return false;
+	return undefined;
+}
+
+export function getCacheDir(): string {
+	return join(getAgentDir(), "cache", "web");
+}
+
+/** `cache: false`, or `cache: { enabled, ttlSeconds: { <tool>: seconds } }`; invalid values are ignored. */
+export function parseCacheConfig(raw: unknown): CacheConfig | undefined {
+	const enabled = normalizeBoolean(raw);
+	if (enabled !== undefined) {
+		return { enabled };
+	}
+	if (!isRecord(raw)) {
+		return undefined;
+	}
+	const ttlSeconds: Record<string, number> = {};
+	if (isRecord(raw.ttlSeconds)) {
+		for (const [tool, value] of Object.entries(raw.ttlSeconds)) {
+			const seconds = normalizeNumber(value);
+			if (seconds !== undefined && seconds >= 0) {
+				ttlSeconds[tool] = seconds;
+			}
+		}
+	}
+	return {
+		enabled: normalizeBoolean(raw.enabled),
+		ttlSeconds: Object.keys(ttlSeconds).length > 0 ? ttlSeconds : undefined,
+	};
+}
+
+/** TTL for `tool` in milliseconds: the configured value, else the package default, else 0 (not cached). */
+export function resolveCacheTtlMs(
+	tool: string,
+	config: CacheConfig | undefined,
+	defaults: Readonly<Record<string, number>>,
+): number {
+	if (config?.enabled === false) {
+		return 0;
+	}
+	const seconds = config?.ttlSeconds?.[tool] ?? defaults[tool] ?? 0;
+	return Math.max(0, seconds) * 1000;
+}
+
+/** Sort object keys and drop undefined values so equivalent argument objects share a key. */
+export function normalizeCacheArgs(value: unknown): unknown {
+	if (Array.isArray(value)) {
+		return value.map(normalizeCacheArgs);
+	}
+	if (isRecord(value)) {
+		const normalized: Record<string, unknown> = {};
+		for (const key of Object.keys(value).sort()) {
+			if (value[key] !== undefined) {
+				normalized[key] = normalizeCacheArgs(value[key]);
+			}
+		}
+		return normalized;
+	}
+	return value;
+}
+
+export function getCacheKey(tool: string, args: unknown): string {
+	return createHash("sha256")
+		.update(JSON.stringify({ tool, args: normalizeCacheArgs(args) }))
+		.digest("hex");
+}
+
+function isCacheEntry(value: unknown): value is CacheEntry {
+	return (
+		isRecord(value) &&
+		typeof value.tool === "string" &&
+		typeof value.createdAt === "number" &&
+		typeof value.expiresAt === "number" &&
+		"value" in value
+	);
+}
+
+/** Best effort: a read-only cache dir or a locked file must not fail the tool call. */
+function removeEntryFile(path: string): boolean {
+	try {
+		rmSync(path, { force: true });
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/** The unexpired entry for this call; expired and unreadable entries are removed where possible. */
+export function readCacheEntry<T>(tool: string, args: unknown, now = Date.now()): CacheEntry<T> | undefined {
+	const path = join(getCacheDir(), `${getCacheKey(tool, args)}.json`);
+	let entry: unknown;
+	try {
+		entry = JSON.parse(readFileSync(path, "utf-8"));
+	} catch {
+		return undefined;
+	}
+	if (!isCacheEntry(entry) || entry.tool !== tool || entry.expiresAt <= now) {
+		removeEntryFile(path);
+		return undefined;
+	}
+	return entry as CacheEntry<T>;
+}
+
+/** Store a result. A failed write is returned rather than thrown, since the result itself is fine. */
+export function writeCacheEntry<T>(
+	tool: string,
+	args: unknown,
+	value: T,
+	ttlMs: number,
+	now = Date.now(),
+): { entry: CacheEntry<T>; error?: string } {
+	const entry: CacheEntry<T> = {
+		tool,
+		args: normalizeCacheArgs(args),
+		createdAt: now,
+		expiresAt: now + ttlMs,
+		value,
+	};
+	try {
+		const dir = getCacheDir();
+		mkdirSync(dir, { recursive: true });
+		writeFileSync(join(dir, `${getCacheKey(tool, args)}.json`), JSON.stringify(entry), "utf-8");
+	} catch (error) {
+		return { entry, error: error instanceof Error ? error.message : String(error) };
+	}
+	return { entry };
+}
+
+export function toCacheStatus(entry: CacheEntry, hit: boolean, writeError?: string): CacheStatus {
+	return {
+		hit,
+		cachedAt: new Date(entry.createdAt).toISOString(),
+		expiresAt: new Date(entry.expiresAt).toISOString(),
+		...(writeError ? { writeError } : {}),
+	};
+}
+
+export interface CacheListing {
+	key: string;
+	tool: string;
+	args: unknown;
+	createdAt: number;
+	expiresAt: number;
+	bytes: number;
+}
+
+/** Every entry on disk, newest first; unreadable files are skipped. */
+export function listCacheEntries(): CacheListing[] {
+	const dir = getCacheDir();
+	let files: string[];
+	try {
+		files = readdirSync(dir).filter((file) => file.endsWith(".json"));
+	} catch {
+		return [];
+	}
+	const listings: CacheListing[] = [];
+	for (const file of files) {
+		const path = join(dir, file);
+		try {
+			const entry: unknown = JSON.parse(readFileSync(path, "utf-8"));
+			if (isCacheEntry(entry)) {
+				listings.push({
+					key: file.slice(0, -".json".length),
+					tool: entry.tool,
+					args: entry.args,
+					createdAt: entry.createdAt,
+					expiresAt: entry.expiresAt,
+					bytes: statSync(path).size,
+				});
+			}
+		} catch {
+			// Written by a concurrent call or corrupted; readCacheEntry removes it on the next lookup.
+		}
+	}
+	return listings.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/** Remove entries for one tool, only expired ones, or all; returns how many were removed and how many could not be. */
+export function clearCacheEntries(
+	filter: { tool?: string; expiredOnly?: boolean } = {},
+	now = Date.now(),
+): { removed: number; failed: number } {
+	let removed = 0;
+	let failed = 0;
+	for (const listing of listCacheEntries()) {
+		if ((filter.tool && listing.tool !== filter.tool) || (filter.expiredOnly && listing.expiresAt > now)) {
+			continue;
+		}
+		if (removeEntryFile(join(getCacheDir(), `${listing.key}.json`))) {
+			removed += 1;
+		} else {
+			failed += 1;
+		}
+	}
+	return { removed, failed };
+}
+
+function formatDuration(ms: number): string {
+	const minutes = Math.round(Math.abs(ms) / 60_000);
+	if (minutes < 60) return `${minutes}m`;
+	const hours = Math.round(minutes / 60);
+	return hours < 48 ? `${hours}h` : `${Math.round(hours / 24)}d`;
+}
+
+function formatArgs(args: unknown): string {
+	const text = JSON.stringify(args) ?? "";
+	return text.length > 80 ? `${text.slice(0, 79)}…` : text;
+}
+
+/** e.g. `12 cached web results (48.2KB): web_search_exa 8, firecrawl_scrape 4 · 2 expired` */
+export function formatCacheSummary(listings: readonly CacheListing[], now = Date.now()): string {
+	if (listings.length === 0) {
+		return `No cached web results in ${getCacheDir()}`;
+	}
+	const counts = new Map<string, number>();
+	for (const listing of listings) {
+		counts.set(listing.tool, (counts.get(listing.tool) ?? 0) + 1);
+	}
+	const bytes = listings.reduce((total, listing) => total + listing.bytes, 0);
+	const expired = listings.filter((listing) => listing.expiresAt <= now).length;
+	const perTool = [...counts].map(([tool, count]) => `${tool} ${count}`).join(", ");
+	return `${listings.length} cached web results (${formatSize(bytes)}): ${perTool}${expired > 0 ? ` · ${expired} expired` : ""}`;
+}
+
+/** One line per entry: tool, age, time left, and arguments. */
+export function formatCacheListing(listings: readonly CacheListing[], now = Date.now()): string {
+	return listings
+		.map((listing) => {
+			const age = `${formatDuration(now - listing.createdAt)} old`;
+			const left = listing.expiresAt > now ? `expires in ${formatDuration(listing.expiresAt - now)}` : "expired";
+			return `${listing.tool} · ${age} · ${left} · ${formatArgs(listing.args)}`;
+		})
+		.join("\n");
+}
+
+function report(
+	ctx: ExtensionCommandContext,
+	name: string,
+	message: string,
+	level: "info" | "warning" | "error",
+): void {
+	if (ctx.hasUI) {
+		ctx.ui.notify(message, level);
+	} else if (level === "info") {
+		console.log(`[${name}] ${message}`);
+	} else {
+		console.warn(`[${name}] ${message}`);
+	}
+}
+
+/**
+ * Registers `/<name>`, which shows, lists, and clears the whole shared cache. Each
+ * extension passes its own name, so both can be installed side by side.
+ */
+export function registerWebCacheCommand(pi: ExtensionAPI, name: string): void {
+	const usage = `Usage: /${name} [list [tool] | clear [tool|expired]]`;
+	pi.registerCommand(name, {
+		description: "Show, list, or clear cached Exa and Firecrawl results",
+		getArgumentCompletions: (prefix) => {
+			const options = ["list", "clear", "clear expired"];
+			const matches = options.filter((option) => option.startsWith(prefix.trim()));
+			return matches.length > 0 ? matches.map((option) => ({ value: option, label: option })) : null;
+		},
+		handler: async (args, ctx) => {
+			const [subcommand, target] = args.trim().split(/\s+/).filter(Boolean);
+			if (!subcommand) {
+				report(ctx, name, formatCacheSummary(listCacheEntries()), "info");
+				return;
+			}
+			if (subcommand === "list") {
+				const listings = listCacheEntries().filter((listing) => !target || listing.tool === target);
+				report(ctx, name, listings.length > 0 ? formatCacheListing(listings) : formatCacheSummary(listings), "info");
+				return;
+			}
+			if (subcommand === "clear") {
+				const { removed, failed } = clearCacheEntries(target === "expired" ? { expiredOnly: true } : { tool: target });
+				const message = `Removed ${removed} cached web result${removed === 1 ? "" : "s"}`;
+				if (failed > 0) {
+					report(ctx, name, `${message}; ${failed} could not be removed from ${getCacheDir()}`, "warning");
+				} else {
+					report(ctx, name, message, "info");
+				}
+				return;
+			}
+			report(ctx, name, usage, "warning");
+		},
+	});
+}